@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createChallenge, isWalletAddress } from '@/lib/server/auth';
+
+/**
+ * POST /api/auth/challenge  { address } -> { message, expiresAt }
+ *
+ * Issues the message a wallet signs to sign in, see /api/auth/login.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const address = body?.address;
+  if (typeof address !== 'string' || !isWalletAddress(address)) {
+    return NextResponse.json({ error: 'Body must be { address } with an Aleo address' }, { status: 400 });
+  }
+
+  return NextResponse.json(createChallenge(address));
+}
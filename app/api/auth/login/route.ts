@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, SESSION_TTL, createSessionToken, isWalletAddress, verifyChallenge } from '@/lib/server/auth';
+
+/**
+ * POST /api/auth/login  { address, signature } -> { address, expiresAt }
+ *
+ * Checks the signature of the address's challenge and sets the session
+ * cookie. Each challenge can be tried once.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const address = body?.address;
+  const signature = body?.signature;
+  if (typeof address !== 'string' || !isWalletAddress(address) || typeof signature !== 'string') {
+    return NextResponse.json({ error: 'Body must be { address, signature }' }, { status: 400 });
+  }
+
+  if (!(await verifyChallenge(address, signature))) {
+    return NextResponse.json({ error: 'Signature does not match a current challenge' }, { status: 401 });
+  }
+
+  const { token, session } = createSessionToken(address);
+  const response = NextResponse.json(session);
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL / 1000
+  });
+  return response;
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, getSession } from '@/lib/server/auth';
+
+/**
+ * GET    /api/auth/session  the signed-in wallet, { address, expiresAt }
+ * DELETE /api/auth/session  sign out
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  return NextResponse.json(session);
+}
+
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
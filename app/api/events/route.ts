@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EventSink, FileEventSink } from '@/lib/server/eventSink';
+import { AnalyticsEvent, validateAnalyticsEvent } from '@/lib/utils/analyticsEvents';
+
+/**
+ * Events API
+ *
+ * POST /api/events  { events: [...] } -> { accepted, rejected }
+ *
+ * Takes batches of gameplay events from the analytics service and stores
+ * the well-formed ones; malformed events are counted and dropped so one
+ * bad event never holds up a batch.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Largest batch accepted, the client sends at most 50 small events
+const MAX_BODY_LENGTH = 128 * 1024;
+const MAX_EVENTS = 100;
+
+const sink: EventSink = new FileEventSink();
+
+function error(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function POST(request: NextRequest) {
+  const text = await request.text();
+  if (text.length > MAX_BODY_LENGTH) {
+    return error('Batch is too large', 413);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return error('Body is not valid JSON', 400);
+  }
+
+  const events = body && typeof body === 'object' ? (body as { events?: unknown }).events : undefined;
+  if (!Array.isArray(events) || events.length > MAX_EVENTS) {
+    return error(`Body must be { events } with at most ${MAX_EVENTS} events`, 400);
+  }
+
+  const valid = events.filter((event): event is AnalyticsEvent => validateAnalyticsEvent(event).length === 0);
+  if (valid.length < events.length) {
+    console.warn(`[Events] Dropped ${events.length - valid.length} malformed events`);
+  }
+
+  if (valid.length > 0) {
+    try {
+      await sink.write(valid);
+    } catch (writeError) {
+      console.error('[Events] Could not store events:', writeError);
+      return error('Could not store events', 500);
+    }
+  }
+
+  return NextResponse.json({ accepted: valid.length, rejected: events.length - valid.length }, { status: 202 });
+}
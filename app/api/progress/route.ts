@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isInstructor } from '@/lib/server/auth';
+import { deleteProgress, getProgress, listProgress, saveProgress } from '@/lib/server/progressStore';
+import {
+  PLAYER_ID_PATTERN,
+  ProgressFields,
+  getPlayerIdWallet,
+  isProgressFieldPath,
+  isProgressFieldValue,
+} from '@/lib/utils/progressFields';
+
+/**
+ * Progress API
+ *
+ * GET    /api/progress?playerId=...  progress of a player
+ * GET    /api/progress               progress of every player, instructors only
+ * PUT    /api/progress?playerId=...  merge { fields } into a player's progress
+ * DELETE /api/progress?playerId=...  forget a player
+ *
+ * Players are identified by a generated player id, or by their wallet
+ * address and save slot (`aleo1...-slot1`). Progress under a wallet needs
+ * a session of that wallet, see /api/auth/login.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Largest PUT body accepted, a full save is a few kilobytes
+const MAX_BODY_LENGTH = 256 * 1024;
+
+function error(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * Read and check the playerId query parameter
+ *
+ * Ids are lowercased, so `ALEO1...` is checked as the wallet address it
+ * names and cannot reach its file on a case-insensitive filesystem.
+ * @returns null when it is missing or malformed
+ */
+function getPlayerId(request: NextRequest): string | null {
+  const playerId = request.nextUrl.searchParams.get('playerId');
+  return playerId && PLAYER_ID_PATTERN.test(playerId) ? playerId.toLowerCase() : null;
+}
+
+/**
+ * Check that the request may use a player's progress
+ * @returns The error to respond with, null when it may
+ */
+function checkAccess(request: NextRequest, playerId: string) {
+  const wallet = getPlayerIdWallet(playerId);
+  if (!wallet) {
+    // Ids that only look like a wallet's are refused rather than left open
+    return playerId.startsWith('aleo1') ? error('Invalid playerId', 400) : null;
+  }
+
+  const session = getSession(request);
+  if (!session) {
+    return error('Sign in with this wallet to use its progress', 401);
+  }
+  if (session.address !== wallet) {
+    return error('Signed in with a different wallet', 403);
+  }
+  return null;
+}
+
+/**
+ * Check a PUT body and pull out its fields
+ *
+ * Every value must have the type of its field, since other devices of the
+ * player take it over. Timestamps in the future are clamped to now so a device with a fast
+ * clock cannot win every merge.
+ */
+function parseFields(body: unknown): ProgressFields | null {
+  if (!body || typeof body !== 'object' || !('fields' in body)) {
+    return null;
+  }
+
+  const fields = (body as { fields: unknown }).fields;
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+    return null;
+  }
+
+  const now = Date.now();
+  const parsed: ProgressFields = {};
+  for (const [path, field] of Object.entries(fields)) {
+    if (
+      !isProgressFieldPath(path)
+      || !field
+      || typeof field !== 'object'
+      || !('value' in field)
+      || !isProgressFieldValue(path, field.value)
+      || typeof field.updatedAt !== 'number'
+      || !Number.isFinite(field.updatedAt)
+    ) {
+      return null;
+    }
+    parsed[path] = { value: field.value, updatedAt: Math.min(field.updatedAt, now) };
+  }
+  return parsed;
+}
+
+export async function GET(request: NextRequest) {
+  if (!request.nextUrl.searchParams.has('playerId')) {
+    if (!isInstructor(getSession(request))) {
+      return error('Sign in with an instructor wallet to list players', 403);
+    }
+    return NextResponse.json({ players: await listProgress() });
+  }
+
+  const playerId = getPlayerId(request);
+  if (!playerId) {
+    return error('Invalid playerId', 400);
+  }
+
+  const denied = checkAccess(request, playerId);
+  if (denied) {
+    return denied;
+  }
+
+  const progress = await getProgress(playerId);
+  if (!progress) {
+    return error('No progress saved for this player', 404);
+  }
+  return NextResponse.json(progress);
+}
+
+export async function PUT(request: NextRequest) {
+  const playerId = getPlayerId(request);
+  if (!playerId) {
+    return error('Invalid playerId', 400);
+  }
+
+  const denied = checkAccess(request, playerId);
+  if (denied) {
+    return denied;
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_BODY_LENGTH) {
+    return error('Progress is too large', 413);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return error('Body is not valid JSON', 400);
+  }
+
+  const fields = parseFields(body);
+  if (!fields) {
+    return error('Body must be { fields: { [path]: { value, updatedAt } } } with values of the right type', 400);
+  }
+
+  return NextResponse.json(await saveProgress(playerId, fields));
+}
+
+export async function DELETE(request: NextRequest) {
+  const playerId = getPlayerId(request);
+  if (!playerId) {
+    return error('Invalid playerId', 400);
+  }
+
+  const denied = checkAccess(request, playerId);
+  if (denied) {
+    return denied;
+  }
+
+  if (!(await deleteProgress(playerId))) {
+    return error('No progress saved for this player', 404);
+  }
+  return new NextResponse(null, { status: 204 });
+}
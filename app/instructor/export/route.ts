@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isInstructor } from '@/lib/server/auth';
+import { getLearners, learnersToCsv } from '@/lib/server/learnerReport';
+
+/**
+ * GET /instructor/export?cohort=...  learner progress as CSV, instructors only
+ *
+ * Leave out cohort for every player, pass an empty one for players without a cohort.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!isInstructor(getSession(request))) {
+    return NextResponse.json({ error: 'Sign in with an instructor wallet to export progress' }, { status: 403 });
+  }
+
+  const cohort = request.nextUrl.searchParams.get('cohort') ?? undefined;
+  const fileName = `legend-of-leo-progress${cohort ? `-${cohort.replace(/[^A-Za-z0-9_-]/g, '')}` : ''}.csv`;
+
+  return new NextResponse(learnersToCsv(await getLearners(cohort)), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
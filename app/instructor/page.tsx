@@ -0,0 +1,226 @@
+import Link from 'next/link';
+import { cookies } from 'next/headers';
+import { SESSION_COOKIE, isInstructor, readSessionToken } from '@/lib/server/auth';
+import {
+  LearnerSummary,
+  TroubleSpot,
+  getLearners,
+  getTroubleSpots,
+  summarizeCohorts,
+} from '@/lib/server/learnerReport';
+import { getPlayerIdWallet } from '@/lib/utils/progressFields';
+
+export const dynamic = 'force-dynamic';
+
+interface InstructorPageProps {
+  searchParams: Promise<{ cohort?: string | string[] }>;
+}
+
+// Format milliseconds as "1h 05m" or "12m"
+const formatDuration = (milliseconds: number) => {
+  const totalMinutes = Math.floor(milliseconds / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes.toString().padStart(2, '0')}m` : `${minutes}m`;
+};
+
+// "Level1Scene" -> "Level1"
+const formatScene = (sceneKey: string) => sceneKey.replace(/Scene$/, '');
+
+// Name, or a shortened wallet address keeping its slot suffix ("aleo1abcde...wxyz-slot1")
+const formatPlayer = (learner: LearnerSummary) => {
+  const wallet = getPlayerIdWallet(learner.playerId);
+  return learner.playerName || (wallet
+    ? `${wallet.slice(0, 10)}...${wallet.slice(-4)}${learner.playerId.slice(wallet.length)}`
+    : learner.playerId.slice(0, 15));
+};
+
+const MINT_STYLES: Record<string, string> = {
+  accepted: 'text-green-400',
+  pending: 'text-yellow-300',
+  rejected: 'text-red-400',
+  failed: 'text-red-400',
+};
+
+function TroubleList({ title, spots, unit }: { title: string; spots: TroubleSpot[]; unit: string }) {
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 flex-1 min-w-[300px]">
+      <h3 className="font-bold mb-3">{title}</h3>
+      {spots.length === 0 ? (
+        <p className="text-gray-400 text-sm">Nothing yet.</p>
+      ) : (
+        <ol className="space-y-2 text-sm">
+          {spots.map(spot => (
+            <li key={`${spot.sourceId}:${spot.itemId}`}>
+              <div className="flex justify-between gap-4">
+                <span className="font-mono text-gray-300">{spot.sourceId} / {spot.itemId}</span>
+                <span className="whitespace-nowrap">
+                  {spot.count} {unit}, {spot.players} player{spot.players === 1 ? '' : 's'}
+                </span>
+              </div>
+              {spot.label && <div className="text-gray-400 truncate" title={spot.label}>{spot.label}</div>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Instructor dashboard
+ *
+ * Shows where each player of a workshop is, grouped by the cohort code
+ * from the game link (/?cohort=...), and which dialogues and quiz
+ * questions hold players up. Reads the progress store directly.
+ */
+export default async function InstructorPage({ searchParams }: InstructorPageProps) {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!isInstructor(token ? readSessionToken(token) : null)) {
+    return (
+      <main className="min-h-screen bg-black text-white flex items-center justify-center p-8">
+        <div className="bg-gray-900 p-8 rounded-lg max-w-md">
+          <h1 className="text-2xl font-bold mb-4">Instructor dashboard</h1>
+          <p>
+            Connect an instructor wallet and choose &quot;Sign in to sync progress&quot; in the wallet menu,
+            then reload this page.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  const cohortParam = (await searchParams).cohort;
+  const cohort = typeof cohortParam === 'string' ? cohortParam : undefined;
+
+  const everyone = await getLearners();
+  const learners = cohort === undefined ? everyone : everyone.filter(learner => learner.cohort === cohort);
+  const cohorts = summarizeCohorts(everyone);
+  const troubleSpots = await getTroubleSpots(learners);
+  const exportHref = cohort === undefined ? '/instructor/export' : `/instructor/export?cohort=${encodeURIComponent(cohort)}`;
+
+  const filterClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm ${active ? 'bg-[#E8E8C3] text-black' : 'bg-gray-800 hover:bg-gray-700'}`;
+
+  return (
+    <main className="min-h-screen bg-black text-white p-8 space-y-8">
+      <header className="flex flex-wrap items-center justify-between gap-4 pr-48">
+        <div>
+          <h1 className="text-3xl font-bold">Instructor dashboard</h1>
+          <p className="text-gray-400">
+            {learners.length} player{learners.length === 1 ? '' : 's'}
+            {cohort !== undefined && ` in ${cohort || 'no cohort'}`}
+          </p>
+        </div>
+        <a href={exportHref} className="bg-[#E8E8C3] text-black hover:opacity-90 py-2 px-6 rounded-lg font-medium">
+          Export CSV
+        </a>
+      </header>
+
+      <nav className="flex flex-wrap gap-2">
+        <Link href="/instructor" className={filterClass(cohort === undefined)}>All players</Link>
+        {cohorts.map(summary => (
+          <Link
+            key={summary.cohort}
+            href={`/instructor?cohort=${encodeURIComponent(summary.cohort)}`}
+            className={filterClass(cohort === summary.cohort)}
+          >
+            {summary.cohort || 'No cohort'}
+          </Link>
+        ))}
+      </nav>
+
+      <section>
+        <h2 className="text-xl font-bold mb-3">Cohorts</h2>
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="py-2">Cohort</th>
+              <th>Players</th>
+              <th>Avg. level</th>
+              <th>Avg. modules</th>
+              <th>Quiz pass rate</th>
+              <th>Minted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cohorts.map(summary => (
+              <tr key={summary.cohort} className="border-b border-gray-800">
+                <td className="py-2">{summary.cohort || <span className="text-gray-400">No cohort</span>}</td>
+                <td>{summary.players}</td>
+                <td>{summary.averageLevel.toFixed(1)}</td>
+                <td>{summary.averageModules.toFixed(1)}</td>
+                <td>{Math.round(summary.quizPassRate * 100)}%</td>
+                <td>{summary.minted}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section>
+        <h2 className="text-xl font-bold mb-3">Where players get stuck</h2>
+        <div className="flex flex-wrap gap-4">
+          <TroubleList
+            title="Dialogues read again"
+            spots={troubleSpots.filter(spot => spot.kind === 'dialogue')}
+            unit="repeats"
+          />
+          <TroubleList
+            title="Quiz questions answered wrong"
+            spots={troubleSpots.filter(spot => spot.kind === 'question')}
+            unit="misses"
+          />
+        </div>
+      </section>
+
+      <section>
+        <h2 className="text-xl font-bold mb-3">Players</h2>
+        <table className="w-full text-sm text-left align-top">
+          <thead className="text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="py-2">Player</th>
+              <th>Cohort</th>
+              <th>Level</th>
+              <th>Modules</th>
+              <th>Quizzes</th>
+              <th>Time per scene</th>
+              <th>Mint</th>
+              <th>Last active</th>
+            </tr>
+          </thead>
+          <tbody>
+            {learners.map(learner => (
+              <tr key={learner.playerId} className="border-b border-gray-800 align-top">
+                <td className="py-2" title={learner.playerId}>{formatPlayer(learner)}</td>
+                <td>{learner.cohort || '-'}</td>
+                <td>{learner.level}</td>
+                <td>{learner.completedModules.length > 0 ? learner.completedModules.join(', ') : '-'}</td>
+                <td>
+                  {Object.entries(learner.quizzes).map(([moduleId, quiz]) => (
+                    <div key={moduleId} className={quiz.passed ? 'text-green-400' : 'text-yellow-300'}>
+                      {moduleId}: {quiz.score}% ({quiz.attempts} tr{quiz.attempts === 1 ? 'y' : 'ies'})
+                    </div>
+                  ))}
+                  {Object.keys(learner.quizzes).length === 0 && '-'}
+                </td>
+                <td>
+                  {Object.entries(learner.stats.sceneTime)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([sceneKey, time]) => (
+                      <div key={sceneKey}>{formatScene(sceneKey)}: {formatDuration(time)}</div>
+                    ))}
+                  <div className="text-gray-400">Total: {formatDuration(learner.totalTime)}</div>
+                </td>
+                <td className={learner.stats.mint ? MINT_STYLES[learner.stats.mint.status] : 'text-gray-400'}>
+                  {learner.stats.mint?.status ?? 'not minted'}
+                </td>
+                <td>{new Date(learner.lastActiveAt).toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ACTION_LABELS,
+  BINDABLE_ACTIONS,
+  BindableAction,
+  KEY_PRESETS,
+  KeyBindings,
+  MAX_KEYS_PER_ACTION,
+  getKeyLabel,
+  getKeyName,
+} from '@/lib/utils/keyBindings';
+import { getSettings, updateSettings } from '@/lib/utils/settings';
+
+interface ControlsPanelProps {
+  onClose: () => void;
+}
+
+// Key slot waiting for the player to press a key
+interface ListeningSlot {
+  action: BindableAction;
+  index: number;
+}
+
+export default function ControlsPanel({ onClose }: ControlsPanelProps) {
+  const [bindings, setBindings] = useState<KeyBindings>(() => getSettings().controls);
+  const [listening, setListening] = useState<ListeningSlot | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const saveBindings = useCallback((next: KeyBindings) => {
+    setBindings(next);
+    if (!updateSettings({ controls: next })) {
+      setMessage('The controls could not be saved, they only apply until the page is reloaded.');
+    }
+  }, []);
+
+  // Bind the next key pressed to the slot being changed
+  useEffect(() => {
+    if (!listening) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      const key = getKeyName(event);
+      if (!key) {
+        setMessage('That key cannot be bound, try another one.');
+        return;
+      }
+
+      const { action, index } = listening;
+      const owner = BINDABLE_ACTIONS.find(other => bindings[other].includes(key));
+      if (owner && (owner !== action || bindings[action][index] !== key)) {
+        setMessage(owner === action
+          ? `${getKeyLabel(key)} is already bound to ${ACTION_LABELS[action]}.`
+          : `${getKeyLabel(key)} is already used for ${ACTION_LABELS[owner]}. Change that first.`);
+        return;
+      }
+
+      const keys = [...bindings[action]];
+      keys[index] = key;
+      saveBindings({ ...bindings, [action]: keys });
+      setListening(null);
+      setMessage(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [listening, bindings, saveBindings]);
+
+  const handleSlotClick = (action: BindableAction, index: number) => {
+    const isSame = listening?.action === action && listening.index === index;
+    setListening(isSame ? null : { action, index });
+    setMessage(null);
+  };
+
+  // Only the second key can be removed, every action keeps at least one
+  const handleClear = (action: BindableAction) => {
+    saveBindings({ ...bindings, [action]: bindings[action].slice(0, 1) });
+    setListening(null);
+    setMessage(null);
+  };
+
+  const handlePreset = (preset: keyof typeof KEY_PRESETS) => {
+    saveBindings(KEY_PRESETS[preset].bindings);
+    setListening(null);
+    setMessage(null);
+  };
+
+  return (
+    <div className="bg-gray-900 bg-opacity-90 p-8 rounded-lg shadow-lg w-full max-w-2xl text-white">
+      <h2 className="text-2xl font-bold mb-2">Controls</h2>
+      <p className="mb-4 text-sm text-gray-300">
+        Click a key to change it, then press the new key. Changes are saved right away.
+      </p>
+
+      <div className="flex space-x-2 mb-4">
+        {(Object.keys(KEY_PRESETS) as (keyof typeof KEY_PRESETS)[]).map(preset => (
+          <button
+            key={preset}
+            onClick={() => handlePreset(preset)}
+            className="bg-gray-600 hover:bg-gray-700 text-white py-1 px-3 rounded transition duration-300 text-sm"
+          >
+            {KEY_PRESETS[preset].label}
+          </button>
+        ))}
+      </div>
+
+      <table className="w-full mb-4 text-sm">
+        <tbody>
+          {BINDABLE_ACTIONS.map(action => (
+            <tr key={action} className="border-t border-gray-700">
+              <td className="py-1 pr-4 text-gray-400">{ACTION_LABELS[action]}</td>
+              {Array.from({ length: MAX_KEYS_PER_ACTION }, (_, index) => {
+                const key = bindings[action][index];
+                const isListening = listening?.action === action && listening.index === index;
+                // A second key can only be added once the first one is set
+                const canBind = index <= bindings[action].length;
+                return (
+                  <td key={index} className="py-1 pr-2">
+                    {canBind && (
+                      <span className="inline-flex items-center">
+                        <button
+                          onClick={() => handleSlotClick(action, index)}
+                          className={`min-w-[5rem] py-1 px-3 rounded transition duration-300 ${
+                            isListening ? 'bg-[#E8E8C3] text-black' : 'bg-gray-700 hover:bg-gray-600 text-white'
+                          }`}
+                        >
+                          {isListening ? 'Press a key' : key ? getKeyLabel(key) : '+ Add'}
+                        </button>
+                        {index > 0 && key && (
+                          <button
+                            onClick={() => handleClear(action)}
+                            aria-label={`Remove ${getKeyLabel(key)} from ${ACTION_LABELS[action]}`}
+                            className="ml-1 text-gray-400 hover:text-white px-1"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {message && <p className="mb-4 text-sm text-red-400">{message}</p>}
+
+      <p className="text-sm text-gray-400">
+        Gamepads always use the d-pad or left stick to move, A to interact, B to cancel, Back for the minimap and Start to pause.
+      </p>
+
+      <button
+        onClick={onClose}
+        className="mt-6 block bg-gray-600 hover:bg-gray-700 text-white py-2 px-6 rounded-lg transition duration-300 font-medium"
+      >
+        Back
+      </button>
+    </div>
+  );
+}
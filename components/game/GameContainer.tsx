@@ -1,8 +1,14 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useGameState } from '@/lib/contexts/GameContext';
 import { gameScenes, SceneKeys } from '@/lib/game/scenes';
+import { MENU_EVENTS, MenuPanel, menuPanelClosed } from '@/lib/utils/menuBridge';
+import { COHORT_PATTERN } from '@/lib/utils/progressFields';
+import { addPlaytime } from '@/lib/utils/saveManager';
+import ControlsPanel from './ControlsPanel';
+import SaveTransferPanel from './SaveTransferPanel';
+import WalletDevSettings from '@/components/wallet/WalletDevSettings';
 import dynamic from 'next/dynamic';
 import type Phaser from 'phaser';
 
@@ -11,6 +17,8 @@ interface GameContainerProps {
   height?: number;
   isNewGame?: boolean;
   initialScene?: string;
+  /** Called when the player quits to the title screen from the pause menu */
+  onQuit?: () => void;
 }
 
 // Create a client-only version of this component
@@ -18,14 +26,16 @@ const GameContainerClient = ({
   width = 800,
   height = 600, 
   isNewGame = false,
-  initialScene = SceneKeys.Level1
+  initialScene = SceneKeys.Level1,
+  onQuit
 }: GameContainerProps) => {
   const gameRef = useRef<Phaser.Game | null>(null);
   const gameContainerRef = useRef<HTMLDivElement>(null);
   const [phaser, setPhaser] = useState<typeof Phaser | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { gameState } = useGameState();
+  const [menu, setMenu] = useState<'closed' | 'paused' | MenuPanel>('closed');
+  const { gameState, activeSlot, setCohort } = useGameState();
 
   // Load Phaser module
   useEffect(() => {
@@ -56,6 +66,82 @@ const GameContainerClient = ({
     };
   }, []);
 
+  // Join the workshop cohort from the link an instructor shared, e.g. /?cohort=aleo-101
+  useEffect(() => {
+    const cohort = new URLSearchParams(window.location.search).get('cohort')?.trim();
+    if (cohort && COHORT_PATTERN.test(cohort)) {
+      setCohort(cohort);
+    }
+  }, [activeSlot, setCohort]);
+
+  // Count time spent in the game towards the active save slot
+  useEffect(() => {
+    let lastTick = Date.now();
+    const recordPlaytime = () => {
+      const now = Date.now();
+      addPlaytime(now - lastTick);
+      lastTick = now;
+    };
+
+    const interval = window.setInterval(recordPlaytime, 30000);
+    return () => {
+      window.clearInterval(interval);
+      recordPlaytime();
+    };
+  }, []);
+
+  // Pause the scene being played under PauseScene
+  const openMenu = useCallback(() => {
+    const game = gameRef.current;
+    if (!game || game.scene.isActive(SceneKeys.Pause) || game.scene.isPaused(SceneKeys.Pause)) return;
+
+    const target = game.scene.getScenes(true).filter(scene => scene.scene.key !== SceneKeys.Pause).pop();
+    if (!target) return;
+
+    game.scene.start(SceneKeys.Pause, { target: target.scene.key });
+    setMenu('paused');
+  }, []);
+
+  // Scenes ask for the menu when the player presses the pause key or Start
+  useEffect(() => {
+    window.addEventListener(MENU_EVENTS.OPEN, openMenu);
+    return () => window.removeEventListener(MENU_EVENTS.OPEN, openMenu);
+  }, [openMenu]);
+
+  // Follow PauseScene: panels it opens, resuming and quitting to the title screen
+  useEffect(() => {
+    const handleClosed = () => setMenu('closed');
+    const handlePanel = (event: Event) => {
+      // Stop the game from capturing keys the panel needs, like SPACE and the arrows
+      const keyboard = gameRef.current?.input.keyboard;
+      if (keyboard) keyboard.enabled = false;
+      setMenu((event as CustomEvent<MenuPanel>).detail);
+    };
+    const handleQuit = () => onQuit?.();
+
+    window.addEventListener(MENU_EVENTS.CLOSED, handleClosed);
+    window.addEventListener(MENU_EVENTS.PANEL_OPEN, handlePanel);
+    window.addEventListener(MENU_EVENTS.QUIT, handleQuit);
+    return () => {
+      window.removeEventListener(MENU_EVENTS.CLOSED, handleClosed);
+      window.removeEventListener(MENU_EVENTS.PANEL_OPEN, handlePanel);
+      window.removeEventListener(MENU_EVENTS.QUIT, handleQuit);
+    };
+  }, [onQuit]);
+
+  // Back to PauseScene from a panel
+  const closePanel = () => {
+    const keyboard = gameRef.current?.input.keyboard;
+    if (keyboard) keyboard.enabled = true;
+    setMenu('paused');
+    menuPanelClosed();
+  };
+
+  // The running scenes still hold the old progress, start over from the imported save
+  const handleImported = () => {
+    window.location.reload();
+  };
+
   // Initialize game after Phaser is loaded
   useEffect(() => {
     // Make sure Phaser is loaded and we're in browser environment
@@ -123,6 +209,9 @@ const GameContainerClient = ({
             width: width,
             height: height,
           },
+          input: {
+            gamepad: true,
+          },
           physics: {
             default: 'arcade',
             arcade: {
@@ -178,12 +267,47 @@ const GameContainerClient = ({
   }
 
   return (
-    <div 
-      ref={gameContainerRef} 
-      className="game-container w-full h-full"
-      data-testid="phaser-game"
-      style={{ aspectRatio: '16/9' }}
-    />
+    <div className="relative w-full h-full">
+      <div 
+        ref={gameContainerRef} 
+        className="game-container w-full h-full"
+        data-testid="phaser-game"
+        style={{ aspectRatio: '16/9' }}
+      />
+
+      {menu === 'closed' && (
+        <button
+          onClick={openMenu}
+          className="absolute top-4 left-4 z-10 bg-black bg-opacity-60 hover:bg-opacity-80 text-white py-1 px-3 rounded transition duration-300 text-sm"
+        >
+          Menu
+        </button>
+      )}
+
+      {menu !== 'closed' && menu !== 'paused' && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black bg-opacity-70">
+          {menu === 'controls' ? (
+            <ControlsPanel onClose={closePanel} />
+          ) : menu === 'wallet' ? (
+            <div className="bg-gray-900 bg-opacity-90 p-8 rounded-lg shadow-lg w-full max-w-xs text-white">
+              <WalletDevSettings />
+              <button
+                onClick={closePanel}
+                className="mt-6 block bg-gray-600 hover:bg-gray-700 text-white py-2 px-6 rounded-lg transition duration-300 font-medium"
+              >
+                Back
+              </button>
+            </div>
+          ) : (
+            <SaveTransferPanel
+              slot={activeSlot}
+              onImported={handleImported}
+              onClose={closePanel}
+            />
+          )}
+        </div>
+      )}
+    </div>
   );
 };
 
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { SaveDocument, hasSave } from '@/lib/utils/saveManager';
+import {
+  SAVE_FILE_EXTENSION,
+  SaveDiffEntry,
+  applySaveImport,
+  diffSaveImport,
+  downloadSaveFile,
+  exportShareCode,
+  parseSaveImport,
+} from '@/lib/utils/saveTransfer';
+
+interface SaveTransferPanelProps {
+  /** Slot to export from and import into */
+  slot: number;
+  /** Called after an import was written to the slot */
+  onImported: () => void;
+  onClose: () => void;
+}
+
+// Import waiting for the player to confirm the diff
+interface PendingImport {
+  save: SaveDocument;
+  diff: SaveDiffEntry[];
+}
+
+export default function SaveTransferPanel({ slot, onImported, onClose }: SaveTransferPanelProps) {
+  const [shareCode, setShareCode] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const canExport = hasSave(slot);
+
+  const handleShowShareCode = () => {
+    setShareCode(exportShareCode(slot));
+    setCopied(false);
+  };
+
+  const handleCopyShareCode = async () => {
+    if (!shareCode) return;
+    try {
+      await navigator.clipboard.writeText(shareCode);
+      setCopied(true);
+    } catch (error) {
+      console.error('Could not copy share code:', error);
+    }
+  };
+
+  const previewImport = (input: string) => {
+    const result = parseSaveImport(input);
+    setErrors(result.errors);
+    setPendingImport(result.save ? { save: result.save, diff: diffSaveImport(result.save, slot) } : null);
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    previewImport(await file.text());
+  };
+
+  const handleApplyImport = () => {
+    if (!pendingImport) return;
+
+    if (applySaveImport(pendingImport.save, slot)) {
+      onImported();
+    } else {
+      setErrors(['The save could not be written. Please try again.']);
+      setPendingImport(null);
+    }
+  };
+
+  // Show what the import will overwrite before applying it
+  if (pendingImport) {
+    return (
+      <div className="bg-gray-900 bg-opacity-90 p-8 rounded-lg shadow-lg w-full max-w-2xl text-white">
+        <h2 className="text-2xl font-bold mb-2">Import &quot;{pendingImport.save.slot.name}&quot;?</h2>
+        <p className="mb-4 text-gray-300">
+          {pendingImport.diff.length > 0
+            ? `These values in slot ${slot} will be overwritten:`
+            : `The imported save matches slot ${slot}.`}
+        </p>
+
+        {pendingImport.diff.length > 0 && (
+          <table className="w-full mb-6 text-sm">
+            <thead>
+              <tr className="text-left text-gray-400">
+                <th className="py-1 pr-4 font-medium">Field</th>
+                <th className="py-1 pr-4 font-medium">Current</th>
+                <th className="py-1 font-medium">Imported</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pendingImport.diff.map(entry => (
+                <tr key={entry.label} className="border-t border-gray-700">
+                  <td className="py-1 pr-4 text-gray-400">{entry.label}</td>
+                  <td className="py-1 pr-4 text-red-300">{entry.current}</td>
+                  <td className="py-1 text-green-300">{entry.incoming}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex space-x-4">
+          <button
+            onClick={handleApplyImport}
+            className="bg-[#E8E8C3] text-black hover:opacity-90 py-2 px-6 rounded-lg transition duration-300 font-medium"
+          >
+            Import Save
+          </button>
+          <button
+            onClick={() => setPendingImport(null)}
+            className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-6 rounded-lg transition duration-300 font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900 bg-opacity-90 p-8 rounded-lg shadow-lg w-full max-w-2xl text-white">
+      <h2 className="text-2xl font-bold mb-6">Export / Import - Slot {slot}</h2>
+
+      <h3 className="text-lg font-medium mb-2">Export</h3>
+      <div className="flex space-x-2 mb-3">
+        <button
+          onClick={() => downloadSaveFile(slot)}
+          disabled={!canExport}
+          className="bg-[#E8E8C3] text-black hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed py-1 px-3 rounded transition duration-300 text-sm"
+        >
+          Download {SAVE_FILE_EXTENSION} file
+        </button>
+        <button
+          onClick={handleShowShareCode}
+          disabled={!canExport}
+          className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-white py-1 px-3 rounded transition duration-300 text-sm"
+        >
+          Show share code
+        </button>
+      </div>
+      {!canExport && <p className="text-sm text-gray-400 mb-3">This slot is empty, there is nothing to export.</p>}
+      {shareCode && (
+        <div className="mb-3">
+          <textarea
+            readOnly
+            value={shareCode}
+            onFocus={event => event.target.select()}
+            className="w-full h-20 bg-gray-800 text-gray-200 p-2 rounded text-xs font-mono break-all"
+          />
+          <button
+            onClick={handleCopyShareCode}
+            className="mt-1 bg-gray-600 hover:bg-gray-700 text-white py-1 px-3 rounded transition duration-300 text-sm"
+          >
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+        </div>
+      )}
+
+      <h3 className="text-lg font-medium mt-6 mb-2">Import</h3>
+      <label className="inline-block mb-3 bg-gray-600 hover:bg-gray-700 text-white py-1 px-3 rounded transition duration-300 text-sm cursor-pointer">
+        Choose {SAVE_FILE_EXTENSION} file
+        <input
+          type="file"
+          accept={`${SAVE_FILE_EXTENSION},application/json`}
+          className="hidden"
+          onChange={event => {
+            handleFileSelected(event.target.files?.[0]);
+            event.target.value = '';
+          }}
+        />
+      </label>
+      <textarea
+        value={importText}
+        onChange={event => setImportText(event.target.value)}
+        placeholder="...or paste a share code"
+        className="w-full h-20 bg-gray-800 text-gray-200 p-2 rounded text-xs font-mono"
+      />
+      <button
+        onClick={() => previewImport(importText)}
+        disabled={!importText.trim()}
+        className="mt-1 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-white py-1 px-3 rounded transition duration-300 text-sm"
+      >
+        Preview import
+      </button>
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-400 list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={onClose}
+        className="mt-6 block bg-gray-600 hover:bg-gray-700 text-white py-2 px-6 rounded-lg transition duration-300 font-medium"
+      >
+        Back
+      </button>
+    </div>
+  );
+}
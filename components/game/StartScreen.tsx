@@ -3,7 +3,19 @@
 import { useState, useEffect } from 'react';
 import { useGameState } from '@/lib/contexts/GameContext';
 import GameContainer from './GameContainer';
+import SaveTransferPanel from './SaveTransferPanel';
 import { SceneKeys } from '@/lib/game/scenes';
+import {
+  SaveSlotSummary,
+  createSaveSlot,
+  deleteSaveSlot,
+  duplicateSaveSlot,
+  hasSave,
+  listSaveSlots,
+  loadSave,
+  renameSaveSlot,
+} from '@/lib/utils/saveManager';
+import { resetProgressSync } from '@/lib/utils/progressSync';
 import Image from 'next/image';
 
 interface StartScreenProps {
@@ -11,37 +23,35 @@ interface StartScreenProps {
   devModeAutoStart?: boolean;
 }
 
+// Slot action waiting for confirmation
+interface PendingAction {
+  type: 'overwrite' | 'delete';
+  slot: number;
+}
+
+// Format a playtime in milliseconds as "1h 05m" or "12m"
+const formatPlaytime = (milliseconds: number) => {
+  const totalMinutes = Math.floor(milliseconds / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes.toString().padStart(2, '0')}m` : `${minutes}m`;
+};
+
 export default function StartScreen({ initialScene = SceneKeys.Level1, devModeAutoStart = false }: StartScreenProps) {
-  const [screenState, setScreenState] = useState<'start' | 'confirm' | 'playing'>(devModeAutoStart ? 'playing' : 'start');
+  const [screenState, setScreenState] = useState<'start' | 'slots' | 'confirm' | 'transfer' | 'playing'>(devModeAutoStart ? 'playing' : 'start');
   const [hasSavedGame, setHasSavedGame] = useState(false);
   const [isNewGame, setIsNewGame] = useState(false);
-  const { resetGameState } = useGameState();
+  const [slots, setSlots] = useState<SaveSlotSummary[]>([]);
+  const [editingSlot, setEditingSlot] = useState<{ slot: number; mode: 'new' | 'rename' } | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [transferSlot, setTransferSlot] = useState<number | null>(null);
+  const { activeSlot, selectSaveSlot } = useGameState();
   
-  // Check if there's a saved game in localStorage
+  // Check if there's a saved game in the active slot
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const savedState = localStorage.getItem('legendOfLeoGameState');
-      // Check if saved state exists and has meaningful progress
-      if (savedState) {
-        try {
-          const parsedState = JSON.parse(savedState);
-          // Consider a game "saved" if they've made any meaningful progress
-          const hasProgress = 
-            parsedState.score > 0 || 
-            parsedState.level > 1 || 
-            parsedState.completedModules.length > 0 ||
-            parsedState.playerName;
-          
-          setHasSavedGame(hasProgress);
-        } catch (error) {
-          console.error('Failed to parse saved game state:', error);
-          setHasSavedGame(false);
-        }
-      } else {
-        setHasSavedGame(false);
-      }
-    }
-  }, []);
+    setHasSavedGame(hasSave(activeSlot));
+  }, [activeSlot]);
   
   // Auto-start in development mode
   useEffect(() => {
@@ -52,19 +62,31 @@ export default function StartScreen({ initialScene = SceneKeys.Level1, devModeAu
     }
   }, [devModeAutoStart]);
 
+  const refreshSlots = () => {
+    setSlots(listSaveSlots());
+    setHasSavedGame(hasSave(activeSlot));
+  };
+
+  const handleOpenSlots = () => {
+    refreshSlots();
+    setEditingSlot(null);
+    setScreenState('slots');
+  };
+
   const handleStartNewGame = () => {
-    if (hasSavedGame) {
-      // Ask for confirmation before overwriting saved game
-      setScreenState('confirm');
-    } else {
-      // No saved game, start right away
-      startNewGame();
+    handleOpenSlots();
+    // Offer the first empty slot right away
+    const emptySlot = listSaveSlots().find(summary => !summary.used);
+    if (emptySlot) {
+      handleEditSlot(emptySlot, 'new');
     }
   };
   
-  const startNewGame = () => {
-    // Reset to initial state
-    resetGameState();
+  const startNewGame = (slot: number, name: string) => {
+    // Start the slot from scratch and make it the active one
+    createSaveSlot(slot, name);
+    resetProgressSync(slot, loadSave(slot).game);
+    selectSaveSlot(slot);
     // Mark as a new game
     setIsNewGame(true);
     // Change to playing screen
@@ -77,15 +99,97 @@ export default function StartScreen({ initialScene = SceneKeys.Level1, devModeAu
     setIsNewGame(false);
     setScreenState('playing');
   };
+
+  const handlePlaySlot = (slot: number) => {
+    selectSaveSlot(slot);
+    setIsNewGame(false);
+    setScreenState('playing');
+  };
+
+  const handleEditSlot = (summary: SaveSlotSummary, mode: 'new' | 'rename') => {
+    setEditingSlot({ slot: summary.slot, mode });
+    setNameDraft(mode === 'rename' ? summary.name : `Save ${summary.slot}`);
+  };
+
+  const handleSubmitName = () => {
+    if (!editingSlot) return;
+
+    if (editingSlot.mode === 'rename') {
+      renameSaveSlot(editingSlot.slot, nameDraft);
+      setEditingSlot(null);
+      refreshSlots();
+    } else if (slots.find(summary => summary.slot === editingSlot.slot)?.used) {
+      // Ask for confirmation before overwriting a saved game
+      setPendingAction({ type: 'overwrite', slot: editingSlot.slot });
+      setScreenState('confirm');
+    } else {
+      startNewGame(editingSlot.slot, nameDraft);
+    }
+  };
+
+  const handleDuplicateSlot = (slot: number) => {
+    const copy = duplicateSaveSlot(slot);
+    if (copy !== null) {
+      resetProgressSync(copy, loadSave(copy).game);
+    }
+    refreshSlots();
+  };
+
+  const handleDeleteSlot = (slot: number) => {
+    setPendingAction({ type: 'delete', slot });
+    setScreenState('confirm');
+  };
+
+  const handleOpenTransfer = (slot: number) => {
+    setEditingSlot(null);
+    setTransferSlot(slot);
+    setScreenState('transfer');
+  };
+
+  const handleCloseTransfer = () => {
+    setTransferSlot(null);
+    refreshSlots();
+    setScreenState('slots');
+  };
+
+  const handleImported = () => {
+    // Reload the context if the active slot was replaced
+    if (transferSlot === activeSlot) {
+      selectSaveSlot(activeSlot);
+    }
+    handleCloseTransfer();
+  };
+
+  const handleConfirm = () => {
+    if (!pendingAction) return;
+
+    if (pendingAction.type === 'overwrite') {
+      startNewGame(pendingAction.slot, nameDraft);
+    } else {
+      deleteSaveSlot(pendingAction.slot);
+      resetProgressSync(pendingAction.slot);
+      setPendingAction(null);
+      setEditingSlot(null);
+      refreshSlots();
+      setScreenState('slots');
+    }
+  };
   
-  const handleCancelNewGame = () => {
-    // Go back to start screen
+  const handleQuitGame = () => {
+    // Back from the pause menu, the game is already saved
+    refreshSlots();
     setScreenState('start');
   };
+
+  const handleCancelConfirm = () => {
+    // Go back to the slot list
+    setPendingAction(null);
+    setScreenState('slots');
+  };
   
   // If the game is started, show the game container
   if (screenState === 'playing') {
-    return <GameContainer isNewGame={isNewGame} initialScene={initialScene} />;
+    return <GameContainer isNewGame={isNewGame} initialScene={initialScene} onQuit={handleQuitGame} />;
   }
   
   // Show confirmation screen
@@ -104,21 +208,25 @@ export default function StartScreen({ initialScene = SceneKeys.Level1, devModeAu
         </div>
         
         <div className="relative z-10 bg-gray-900 bg-opacity-80 p-8 rounded-lg shadow-lg max-w-md">
-          <h2 className="text-2xl font-bold mb-4 text-white">Start New Game?</h2>
+          <h2 className="text-2xl font-bold mb-4 text-white">
+            {pendingAction?.type === 'delete' ? 'Delete Save?' : 'Start New Game?'}
+          </h2>
           <p className="mb-6 text-white">
-            You have a saved game. Starting a new game will erase your current progress.
-            Are you sure you want to continue?
+            {pendingAction?.type === 'delete'
+              ? 'Deleting this save slot will erase its progress for good.'
+              : 'This slot has a saved game. Starting a new game will erase its current progress.'}
+            {' '}Are you sure you want to continue?
           </p>
           
           <div className="flex space-x-4">
             <button 
-              onClick={startNewGame}
+              onClick={handleConfirm}
               className="bg-[#E8E8C3] text-black hover:opacity-90 py-2 px-6 rounded-lg transition duration-300 font-medium"
             >
-              Start New Game
+              {pendingAction?.type === 'delete' ? 'Delete Save' : 'Start New Game'}
             </button>
             <button 
-              onClick={handleCancelNewGame}
+              onClick={handleCancelConfirm}
               className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-6 rounded-lg transition duration-300 font-medium"
             >
               Cancel
@@ -129,6 +237,149 @@ export default function StartScreen({ initialScene = SceneKeys.Level1, devModeAu
     );
   }
   
+  // Show export and import for a slot
+  if (screenState === 'transfer' && transferSlot !== null) {
+    return (
+      <div className="relative flex flex-col items-center justify-center w-full h-full text-ui-text">
+        <div className="absolute inset-0 z-0 bg-black" />
+        
+        <div className="relative z-10 w-full max-w-2xl">
+          <SaveTransferPanel slot={transferSlot} onImported={handleImported} onClose={handleCloseTransfer} />
+        </div>
+      </div>
+    );
+  }
+  
+  // Show the save slots
+  if (screenState === 'slots') {
+    return (
+      <div className="relative flex flex-col items-center justify-center w-full h-full text-ui-text">
+        <div className="absolute inset-0 z-0 bg-black" />
+        
+        <div className="relative z-10 bg-gray-900 bg-opacity-80 p-8 rounded-lg shadow-lg w-full max-w-3xl">
+          <h2 className="text-2xl font-bold mb-6 text-white">Save Slots</h2>
+          
+          <div className="space-y-3">
+            {slots.map(summary => (
+              <div
+                key={summary.slot}
+                className={`flex items-center justify-between p-4 rounded-lg bg-gray-800 ${
+                  summary.slot === activeSlot ? 'border border-[#E8E8C3]' : 'border border-transparent'
+                }`}
+              >
+                <div className="text-white">
+                  {editingSlot?.slot === summary.slot ? (
+                    <input
+                      autoFocus
+                      value={nameDraft}
+                      maxLength={24}
+                      onChange={event => setNameDraft(event.target.value)}
+                      onKeyDown={event => {
+                        if (event.key === 'Enter') handleSubmitName();
+                        if (event.key === 'Escape') setEditingSlot(null);
+                      }}
+                      className="bg-gray-700 text-white py-1 px-2 rounded"
+                    />
+                  ) : (
+                    <div className="font-medium">{summary.used ? summary.name : `Slot ${summary.slot} - Empty`}</div>
+                  )}
+                  {summary.used && (
+                    <div className="text-sm text-gray-400">
+                      Level {summary.level} · Score {summary.score} · {summary.completedModules} modules ·{' '}
+                      {formatPlaytime(summary.playtime)} played
+                      {summary.lastPlayedAt !== null && ` · Last played ${new Date(summary.lastPlayedAt).toLocaleString()}`}
+                    </div>
+                  )}
+                </div>
+                
+                <div className="flex space-x-2">
+                  {editingSlot?.slot === summary.slot ? (
+                    <>
+                      <button
+                        onClick={handleSubmitName}
+                        className="bg-[#E8E8C3] text-black hover:opacity-90 py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        {editingSlot.mode === 'rename' ? 'Save' : 'Start'}
+                      </button>
+                      <button
+                        onClick={() => setEditingSlot(null)}
+                        className="bg-gray-600 hover:bg-gray-700 text-white py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : summary.used ? (
+                    <>
+                      <button
+                        onClick={() => handlePlaySlot(summary.slot)}
+                        className="bg-[#E8E8C3] text-black hover:opacity-90 py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        Play
+                      </button>
+                      <button
+                        onClick={() => handleEditSlot(summary, 'rename')}
+                        className="bg-gray-600 hover:bg-gray-700 text-white py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => handleDuplicateSlot(summary.slot)}
+                        disabled={slots.every(other => other.used)}
+                        className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-white py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        onClick={() => handleEditSlot(summary, 'new')}
+                        className="bg-gray-600 hover:bg-gray-700 text-white py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        New Game
+                      </button>
+                      <button
+                        onClick={() => handleOpenTransfer(summary.slot)}
+                        className="bg-gray-600 hover:bg-gray-700 text-white py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        Export / Import
+                      </button>
+                      <button
+                        onClick={() => handleDeleteSlot(summary.slot)}
+                        className="bg-red-700 hover:bg-red-800 text-white py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleEditSlot(summary, 'new')}
+                        className="bg-[#E8E8C3] text-black hover:opacity-90 py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        New Game
+                      </button>
+                      <button
+                        onClick={() => handleOpenTransfer(summary.slot)}
+                        className="bg-gray-600 hover:bg-gray-700 text-white py-1 px-3 rounded transition duration-300 text-sm"
+                      >
+                        Import
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          
+          <button
+            onClick={() => setScreenState('start')}
+            className="mt-6 bg-gray-600 hover:bg-gray-700 text-white py-2 px-6 rounded-lg transition duration-300 font-medium"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+  
   // Show start screen with new background image
   return (
     <div className="relative flex flex-col items-center justify-center w-full h-full bg-black">
@@ -165,6 +416,13 @@ export default function StartScreen({ initialScene = SceneKeys.Level1, devModeAu
           >
             Continue Game
           </button>
+          
+          <button 
+            onClick={handleOpenSlots}
+            className="bg-white hover:opacity-90 text-black py-4 px-8 rounded-lg transition duration-300 font-medium text-lg"
+          >
+            Save Slots
+          </button>
         </div>
         
 
@@ -0,0 +1,670 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Scene } from 'phaser';
+import { loadTilemap, addCollision, MapLayers } from '@/lib/utils/mapLoader';
+import Player from '@/lib/classes/Player';
+import InputController from '@/lib/classes/InputController';
+import AudioManager from '@/lib/classes/AudioManager';
+import TouchControls from '@/lib/classes/TouchControls';
+import DialogueRunner from '@/lib/classes/DialogueRunner';
+import QuizRunner from '@/lib/classes/QuizRunner';
+import { getQuiz } from '@/lib/utils/quizLoader';
+import { hasPassedQuiz } from '@/lib/utils/quizBridge';
+import { setSavedScene, updateSave } from '@/lib/utils/saveManager';
+import { reportSceneTime } from '@/lib/utils/statsBridge';
+import { trackEvent } from '@/lib/utils/analytics';
+
+/**
+ * Texture key shared by every interaction indicator
+ */
+const INDICATOR_TEXTURE = 'interaction-indicator';
+
+/**
+ * Milliseconds between reports of time played in the scene
+ */
+const SCENE_TIME_INTERVAL = 30000;
+
+/**
+ * Anything the player can overlap: zones, sprites, rectangles...
+ */
+export type SceneArea = Phaser.GameObjects.GameObject & Phaser.GameObjects.Components.GetBounds;
+
+export interface InteractableOptions {
+  /** Object the indicator is drawn above, defaults to the interactable itself */
+  indicatorTarget?: Phaser.GameObjects.GameObject;
+  /**
+   * When the indicator is shown
+   * - nearby: while this is the closest object in range (default)
+   * - always: permanently, e.g. building entrances
+   * - none: never
+   */
+  indicator?: 'nearby' | 'always' | 'none';
+  /** Interaction range in pixels, defaults to the scene's interactionRange */
+  range?: number;
+  /** Area the player has to stand in instead of being within range (e.g. a cashier counter) */
+  zone?: SceneArea;
+  /** Name reported to analytics, defaults to the object's name or texture */
+  name?: string;
+}
+
+export interface ExitZoneOptions {
+  /** The exit is ignored while this returns false, e.g. while a gate is closed */
+  isOpen?: () => boolean;
+  /** Milliseconds the player has to stay in the zone before leaving */
+  delay?: number;
+  /** Text shown at the bottom of the screen while waiting for the delay */
+  prompt?: string;
+}
+
+export interface SpawnOptions {
+  /** Idle direction the player starts in */
+  facing?: 'up' | 'down' | 'left' | 'right';
+  /** Camera zoom, defaults to 1 */
+  zoom?: number;
+  /** Keep the camera inside the map, defaults to true */
+  clampCamera?: boolean;
+}
+
+export interface QuizGateOptions {
+  /** Object the player can interact with to retake the quiz after leaving it */
+  retryAt?: Phaser.GameObjects.GameObject;
+  /** Interaction options for retryAt */
+  retryOptions?: InteractableOptions;
+}
+
+interface ExitZone {
+  area: SceneArea;
+  onExit: () => void;
+  options: ExitZoneOptions;
+}
+
+/**
+ * BaseLevelScene - shared plumbing for every playable scene
+ *
+ * Owns player spawning, camera setup, the interactable registry with its
+ * proximity indicator and exit zones, so levels and building interiors
+ * only describe what is in them.
+ *
+ * Subclasses that override init, update or shutdown must call super.
+ */
+export default abstract class BaseLevelScene extends Scene {
+  protected player?: Player;
+  protected controls?: InputController;
+  /** On-screen joystick and interact button, only on touch screens */
+  protected touchControls?: TouchControls;
+  protected audio?: AudioManager;
+  protected map?: Phaser.Tilemaps.Tilemap;
+  protected layers?: MapLayers;
+  protected dialogue?: DialogueRunner;
+  protected quiz?: QuizRunner;
+  protected interactiveObjects: Phaser.GameObjects.GameObject[] = [];
+  protected nearbyObject?: Phaser.GameObjects.GameObject;
+
+  /** Default distance in pixels within which objects can be interacted with */
+  protected interactionRange: number = 60;
+  /** Distance in pixels between an object's center and its indicator */
+  protected indicatorOffset: number = 40;
+  /** Remember this scene in the save so a reload comes back to it */
+  protected persistScene: boolean = true;
+
+  private interactableOptions: Map<Phaser.GameObjects.GameObject, InteractableOptions> = new Map();
+  private interactionIndicator?: Phaser.GameObjects.Sprite;
+  private fixedIndicators: Map<Phaser.GameObjects.GameObject, Phaser.GameObjects.Sprite> = new Map();
+  private mapOffset = { x: 0, y: 0 };
+  private exitZones: ExitZone[] = [];
+  private activeExit?: ExitZone;
+  private exitTimer?: Phaser.Time.TimerEvent;
+  private exitPrompt?: Phaser.GameObjects.Text;
+  private transitioning: boolean = false;
+  private sceneTimer?: Phaser.Time.TimerEvent;
+  private enteredAt: number = 0;
+
+  init() {
+    // Store current scene in the save for development mode reload
+    if (this.persistScene && setSavedScene(this.scene.key)) {
+      console.log('Current scene saved:', this.scene.key);
+    }
+
+    // Scene instances are reused, so start every run from a clean slate
+    this.interactiveObjects = [];
+    this.interactableOptions.clear();
+    this.fixedIndicators.clear();
+    this.interactionIndicator = undefined;
+    this.nearbyObject = undefined;
+    this.mapOffset = { x: 0, y: 0 };
+    this.exitZones = [];
+    this.activeExit = undefined;
+    this.exitTimer = undefined;
+    this.exitPrompt = undefined;
+    this.transitioning = false;
+    this.quiz = undefined;
+
+    // The scene clock stands still while the game is paused, so only play time counts
+    this.sceneTimer = this.time.addEvent({
+      delay: SCENE_TIME_INTERVAL,
+      loop: true,
+      callback: () => reportSceneTime(this.scene.key, SCENE_TIME_INTERVAL)
+    });
+
+    // Music and sounds load once the scene is created
+    this.audio = AudioManager.forGame(this.game);
+    this.audio.enterScene(this);
+
+    this.enteredAt = Date.now();
+    trackEvent('scene-enter', { sceneKey: this.scene.key });
+
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
+  }
+
+  /**
+   * Load a Tiled map and size the physics world to it
+   *
+   * @param key Tilemap key in the cache
+   * @param layerNames Layers to create, only the Collision layer collides
+   * @param center Center the map in the canvas when it is smaller than the game
+   * @returns false if the map could not be loaded and a fallback is needed
+   */
+  protected loadLevelMap(key: string, layerNames: string[], center: boolean = true): boolean {
+    try {
+      console.log(`Loading ${key} tilemap...`);
+      const { map, layers } = loadTilemap(this, key, layerNames, ['Collision']);
+
+      this.map = map;
+      this.layers = layers;
+
+      const mapWidth = map.widthInPixels;
+      const mapHeight = map.heightInPixels;
+      this.physics.world.setBounds(0, 0, mapWidth, mapHeight);
+      console.log(`Map dimensions: ${mapWidth}x${mapHeight}`);
+
+      if (center) {
+        this.centerMap();
+      }
+      return true;
+    } catch (error) {
+      console.error(`Failed to load ${key} tilemap:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Center the map within the game window
+   */
+  protected centerMap() {
+    if (!this.map) return;
+
+    const mapWidth = this.map.widthInPixels;
+    const mapHeight = this.map.heightInPixels;
+
+    // Calculate offset to center the map
+    const offsetX = Math.max(0, (this.scale.width - mapWidth) / 2);
+    const offsetY = Math.max(0, (this.scale.height - mapHeight) / 2);
+
+    // Apply offset to all map layers
+    this.map.layers.forEach(layer => {
+      if (layer.tilemapLayer) {
+        layer.tilemapLayer.x = offsetX;
+        layer.tilemapLayer.y = offsetY;
+      }
+    });
+
+    this.mapOffset = { x: offsetX, y: offsetY };
+    this.physics.world.setBounds(offsetX, offsetY, mapWidth, mapHeight);
+    this.cameras.main.setBounds(offsetX, offsetY, mapWidth, mapHeight);
+
+    console.log(`Centered map with offset: (${offsetX}, ${offsetY})`);
+  }
+
+  /**
+   * Create a brick texture used for walls of programmatic fallback levels
+   */
+  protected createWallTexture() {
+    // Skip if texture already exists
+    if (this.textures.exists('wall')) {
+      return;
+    }
+
+    const size = 48; // Match the floor tile size
+
+    const wallCanvas = this.textures.createCanvas('wall', size, size);
+    const ctx = wallCanvas?.getContext();
+
+    if (!wallCanvas || !ctx) {
+      console.error('Failed to create canvas texture for wall');
+      return;
+    }
+
+    // Brown wall
+    ctx.fillStyle = '#6D5D4B';
+    ctx.fillRect(0, 0, size, size);
+
+    // Darker brick lines
+    ctx.fillStyle = '#5D4D3B';
+
+    // Horizontal brick lines
+    for (let y = 12; y < size; y += 12) {
+      ctx.fillRect(0, y, size, 2);
+    }
+
+    // Vertical brick lines (offset every other row)
+    for (let x = 0; x < size; x += 24) {
+      ctx.fillRect(x, 0, 2, 12);
+      ctx.fillRect(x + 12, 12, 2, 12);
+      ctx.fillRect(x, 24, 2, 12);
+      ctx.fillRect(x + 12, 36, 2, 12);
+    }
+
+    // Highlight to give depth
+    ctx.strokeStyle = '#7D6D5B';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(1, 1, size - 2, size - 2);
+
+    wallCanvas.refresh();
+  }
+
+  /**
+   * Create the player, hook up collisions, input and the camera
+   *
+   * @param x Spawn position in world pixels
+   * @param y Spawn position in world pixels
+   */
+  protected spawnPlayer(x: number, y: number, options: SpawnOptions = {}): Player {
+    const player = new Player(this, x, y);
+    this.player = player;
+
+    if (options.facing) {
+      player.sprite.anims.play(`player-idle-${options.facing}`, true);
+    }
+
+    // Collide with the map's Collision layer
+    if (this.layers) {
+      addCollision(this, player.sprite, this.layers, ['Collision']);
+    }
+
+    // The bound movement keys, the d-pad or the stick move, the interact key or the A button interacts
+    this.controls = InputController.forScene(this);
+    this.controls.on('interact', () => {
+      this.interactWithNearbyObject();
+    });
+
+    // Camera follows the player with a subtle deadzone
+    this.cameras.main.startFollow(player.sprite, true, 0.08, 0.08);
+    this.cameras.main.setZoom(options.zoom ?? 1);
+    this.cameras.main.setDeadzone(100, 100);
+
+    if (this.map && options.clampCamera !== false) {
+      this.cameras.main.setBounds(this.mapOffset.x, this.mapOffset.y, this.map.widthInPixels, this.map.heightInPixels);
+    }
+
+    // Laid out after the zoom is set, they stay the same size whatever the zoom
+    if (TouchControls.isSupported(this)) {
+      this.touchControls = new TouchControls(this, this.controls);
+    }
+
+    return player;
+  }
+
+  /**
+   * Register an object the player can interact with using the interact action
+   *
+   * @param object The object, its position is used for the range check
+   * @param onInteract Called when the player interacts with it
+   * @returns The object, for chaining
+   */
+  protected addInteractable<T extends Phaser.GameObjects.GameObject>(
+    object: T,
+    onInteract: () => void,
+    options: InteractableOptions = {}
+  ): T {
+    object.setData('interactive', true);
+    object.setData('onInteract', onInteract);
+
+    this.interactiveObjects.push(object);
+    this.interactableOptions.set(object, options);
+
+    if (options.indicator === 'always') {
+      const { x, y } = this.getObjectCenter(options.indicatorTarget ?? object);
+      this.fixedIndicators.set(object, this.createIndicator(x, y - this.indicatorOffset));
+    }
+
+    return object;
+  }
+
+  /**
+   * Stop an object from being interactable and remove its indicator
+   */
+  protected removeInteractable(object: Phaser.GameObjects.GameObject) {
+    this.interactiveObjects = this.interactiveObjects.filter(obj => obj !== object);
+    this.interactableOptions.delete(object);
+
+    const indicator = this.fixedIndicators.get(object);
+    if (indicator) {
+      this.destroyIndicator(indicator);
+      this.fixedIndicators.delete(object);
+    }
+
+    if (this.nearbyObject === object) {
+      this.setNearbyObject(undefined);
+    }
+  }
+
+  /**
+   * Interact with the nearby object if one exists
+   */
+  protected interactWithNearbyObject() {
+    if (this.dialogue?.isActive() || this.quiz?.isActive() || !this.nearbyObject) return;
+
+    const onInteract = this.nearbyObject.getData('onInteract');
+    if (typeof onInteract === 'function') {
+      trackEvent('interaction', { sceneKey: this.scene.key, target: this.getInteractableName(this.nearbyObject) });
+      onInteract();
+    }
+  }
+
+  /**
+   * Name of an interactable for analytics
+   */
+  private getInteractableName(object: Phaser.GameObjects.GameObject): string {
+    const texture = (object as Partial<Phaser.GameObjects.Components.Texture>).texture;
+    return this.interactableOptions.get(object)?.name
+      || object.name
+      || (texture && texture.key !== '__DEFAULT' ? texture.key : object.type);
+  }
+
+  /**
+   * Require a passing quiz score before something happens, e.g. a gate opening
+   *
+   * Runs onPassed straight away when no quiz is given or the player passed
+   * it before, in this session or a saved one.
+   *
+   * @param quizId Quiz id as passed to preloadQuizzes
+   * @param onPassed Called once the player has passed
+   */
+  protected requireQuiz(quizId: string | undefined, onPassed: () => void, options: QuizGateOptions = {}) {
+    const quiz = quizId ? getQuiz(this, quizId) : undefined;
+
+    // A missing or broken quiz must not lock the player in the level
+    if (!quizId || !quiz || hasPassedQuiz(quiz.moduleId)) {
+      onPassed();
+      return;
+    }
+
+    if (this.quiz?.isActive()) return;
+
+    const { retryAt } = options;
+    if (retryAt && !this.interactiveObjects.includes(retryAt)) {
+      this.addInteractable(retryAt, () => this.requireQuiz(quizId, onPassed, options), options.retryOptions);
+    }
+
+    this.quiz = this.quiz ?? new QuizRunner(this);
+    this.quiz.start(quizId, {
+      onClose: result => {
+        if (!result?.passed) return;
+
+        if (retryAt) {
+          this.removeInteractable(retryAt);
+        }
+        onPassed();
+      }
+    });
+  }
+
+  /**
+   * Find the closest interactable in reach and move the indicator to it
+   */
+  protected updateInteractions() {
+    if (!this.player) return;
+
+    const playerPos = this.player.sprite.getCenter();
+    const playerBounds = this.player.sprite.getBounds();
+    let closestObject: Phaser.GameObjects.GameObject | undefined;
+    let closestDistance = Number.MAX_VALUE;
+
+    this.interactiveObjects.forEach(obj => {
+      // Skip destroyed objects and ones switched off for interaction
+      if (!obj.active || obj.getData('interactive') === false || obj.getData('visible') === false) return;
+
+      const options = this.interactableOptions.get(obj) ?? {};
+      let distance: number;
+
+      if (options.zone) {
+        if (!Phaser.Geom.Rectangle.Overlaps(playerBounds, options.zone.getBounds())) return;
+        distance = 0; // Standing in the zone always wins
+      } else {
+        const { x, y } = this.getObjectCenter(obj);
+        distance = Phaser.Math.Distance.Between(playerPos.x, playerPos.y, x, y);
+        if (distance >= (options.range ?? this.interactionRange)) return;
+      }
+
+      if (distance < closestDistance) {
+        closestObject = obj;
+        closestDistance = distance;
+      }
+    });
+
+    if (closestObject !== this.nearbyObject) {
+      this.setNearbyObject(closestObject);
+    }
+  }
+
+  /**
+   * Register an area that takes the player somewhere else
+   *
+   * @param area Zone or object the player has to overlap
+   * @param onExit Called once when the player leaves through it
+   */
+  protected addExitZone(area: SceneArea, onExit: () => void, options: ExitZoneOptions = {}): SceneArea {
+    this.exitZones.push({ area, onExit, options });
+    return area;
+  }
+
+  /**
+   * Trigger exits the player is standing in
+   */
+  protected updateExitZones() {
+    if (!this.player || this.transitioning) return;
+
+    const playerBounds = this.player.sprite.getBounds();
+    const exit = this.exitZones.find(zone =>
+      zone.area.active &&
+      (zone.options.isOpen?.() ?? true) &&
+      Phaser.Geom.Rectangle.Overlaps(playerBounds, zone.area.getBounds())
+    );
+
+    if (exit === this.activeExit) return;
+
+    this.cancelExit();
+    this.activeExit = exit;
+    if (!exit) return;
+
+    if (!exit.options.delay) {
+      exit.onExit();
+      return;
+    }
+
+    if (exit.options.prompt) {
+      this.showExitPrompt(exit.options.prompt);
+    }
+    this.exitTimer = this.time.delayedCall(exit.options.delay, () => {
+      if (this.activeExit === exit) {
+        exit.onExit();
+      }
+    });
+  }
+
+  /**
+   * Fade out and start another scene, ignoring repeated calls
+   *
+   * @param sceneKey Scene to start
+   * @param data Data passed to the next scene
+   * @param duration Fade duration in milliseconds
+   */
+  protected transitionTo(sceneKey: string, data?: object, duration: number = 1000) {
+    if (this.transitioning) return;
+    this.transitioning = true;
+
+    this.cameras.main.fadeOut(duration, 0, 0, 0);
+    this.cameras.main.once(Phaser.Cameras.Scene2D.Events.FADE_OUT_COMPLETE, () => {
+      this.scene.start(sceneKey, data);
+    });
+  }
+
+  /**
+   * Write the save now, so the game continues in this scene
+   *
+   * @returns false if the save could not be written
+   */
+  saveProgress(): boolean {
+    return this.persistScene ? setSavedScene(this.scene.key) : updateSave(save => save);
+  }
+
+  /**
+   * Whether the scene is already fading out to another scene
+   */
+  protected isTransitioning(): boolean {
+    return this.transitioning;
+  }
+
+  /**
+   * Create a bobbing indicator sprite
+   *
+   * @param x Position in world pixels
+   * @param y Position in world pixels
+   */
+  protected createIndicator(x: number, y: number): Phaser.GameObjects.Sprite {
+    // Draw the texture if no scene has loaded or generated it yet
+    if (!this.textures.exists(INDICATOR_TEXTURE)) {
+      const graphics = this.make.graphics({ x: 0, y: 0 });
+
+      // Small white dot with a glow
+      graphics.fillStyle(0xFFFFFF, 0.8);
+      graphics.fillCircle(16, 16, 4);
+      graphics.fillStyle(0xFFFFFF, 0.3);
+      graphics.fillCircle(16, 16, 8);
+
+      graphics.generateTexture(INDICATOR_TEXTURE, 32, 32);
+      graphics.destroy();
+    }
+
+    const indicator = this.add.sprite(x, y, INDICATOR_TEXTURE);
+    indicator.setDepth(200);
+
+    // Subtle bobbing
+    this.tweens.add({
+      targets: indicator,
+      y: y - 6,
+      duration: 1200,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut'
+    });
+
+    // Subtle pulsing
+    this.tweens.add({
+      targets: indicator,
+      alpha: 0.6,
+      duration: 1000,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut'
+    });
+
+    return indicator;
+  }
+
+  /**
+   * Get the center of any game object in world pixels
+   */
+  protected getObjectCenter(object: Phaser.GameObjects.GameObject): { x: number; y: number } {
+    if ('getCenter' in object) {
+      const center = (object as unknown as Phaser.GameObjects.Components.GetBounds).getCenter();
+      return { x: center.x, y: center.y };
+    }
+    if ('x' in object && 'y' in object) {
+      const position = object as unknown as { x: number; y: number };
+      return { x: position.x, y: position.y };
+    }
+    return { x: 0, y: 0 };
+  }
+
+  update() {
+    if (!this.player || !this.controls) return;
+
+    // Scenes can freeze the player, e.g. while a cutscene dialogue is open
+    if (!this.player.sprite.getData('inputDisabled')) {
+      this.player.update(this.controls.getMove());
+    }
+
+    this.updateInteractions();
+    this.updateExitZones();
+  }
+
+  /**
+   * Clean up when the scene shuts down
+   */
+  shutdown() {
+    // Time since the last report, the clock has already stopped the timer
+    if (this.sceneTimer) {
+      reportSceneTime(this.scene.key, this.sceneTimer.getElapsed());
+      this.sceneTimer = undefined;
+    }
+    trackEvent('scene-exit', { sceneKey: this.scene.key, duration: Date.now() - this.enteredAt });
+    this.cancelExit();
+    this.dialogue?.close();
+    this.controls = undefined;
+    this.touchControls = undefined;
+    this.interactiveObjects = [];
+    this.interactableOptions.clear();
+    this.fixedIndicators.clear();
+    this.nearbyObject = undefined;
+  }
+
+  private setNearbyObject(object: Phaser.GameObjects.GameObject | undefined) {
+    this.nearbyObject = object;
+
+    if (this.interactionIndicator) {
+      this.destroyIndicator(this.interactionIndicator);
+      this.interactionIndicator = undefined;
+    }
+
+    if (!object) return;
+
+    const options = this.interactableOptions.get(object) ?? {};
+    if (options.indicator === 'always' || options.indicator === 'none') return;
+
+    const { x, y } = this.getObjectCenter(options.indicatorTarget ?? object);
+    this.interactionIndicator = this.createIndicator(x, y - this.indicatorOffset);
+    this.audio?.playSfx('sfx-indicator');
+  }
+
+  private destroyIndicator(indicator: Phaser.GameObjects.Sprite) {
+    this.tweens.killTweensOf(indicator);
+    indicator.destroy();
+  }
+
+  private showExitPrompt(text: string) {
+    this.exitPrompt = this.add.text(
+      this.cameras.main.width / 2,
+      this.cameras.main.height - 50,
+      text,
+      {
+        fontSize: '20px',
+        color: '#ffdd00',
+        stroke: '#000000',
+        strokeThickness: 4,
+        fontStyle: 'bold'
+      }
+    );
+    this.exitPrompt.setOrigin(0.5);
+    this.exitPrompt.setScrollFactor(0);
+    this.exitPrompt.setDepth(1000);
+  }
+
+  private cancelExit() {
+    this.exitTimer?.remove();
+    this.exitTimer = undefined;
+    this.exitPrompt?.destroy();
+    this.exitPrompt = undefined;
+    this.activeExit = undefined;
+  }
+}
@@ -3,6 +3,12 @@
 import { Scene } from 'phaser';
 import { loadAsepriteSheet, createAnimationsFromAseprite } from '@/lib/utils/aseprite';
 import { loadTilemap, addCollision, MapLayers } from '@/lib/utils/mapLoader';
+import { setSavedScene } from '@/lib/utils/saveManager';
+import InputController, { MoveVector } from '@/lib/classes/InputController';
+import TouchControls from '@/lib/classes/TouchControls';
+import AudioManager from '@/lib/classes/AudioManager';
+import { getActionKeysLabel, getKeyLabel } from '@/lib/utils/keyBindings';
+import { getSettings } from '@/lib/utils/settings';
 
 interface GameData {
   isNewGame: boolean;
@@ -208,9 +214,7 @@ class Player {
     console.log('Placeholder animations created successfully');
   }
   
-  update(cursors: Phaser.Types.Input.Keyboard.CursorKeys): void {
-    if (!cursors) return;
-    
+  update(move: MoveVector): void {
     // Reset velocity
     this.sprite.setVelocity(0);
     
@@ -220,24 +224,23 @@ class Player {
     let newDirection = this.currentDirection;
     
     // Implement strict 4-directional movement (no diagonals)
-    // Priority: Left/Right over Up/Down
+    // The stronger axis wins, Left/Right over Up/Down on a tie
+    const horizontal = Math.abs(move.x) >= Math.abs(move.y);
     
-    if (cursors.left.isDown) {
-      // Left movement takes precedence
+    if (horizontal && move.x < 0) {
       this.sprite.setVelocityX(-this.moveSpeed);
       newDirection = 'left';
       moving = true;
-    } else if (cursors.right.isDown) {
-      // Right movement if not moving left
+    } else if (horizontal && move.x > 0) {
       this.sprite.setVelocityX(this.moveSpeed);
       newDirection = 'right';
       moving = true;
-    } else if (cursors.up.isDown) {
+    } else if (move.y < 0) {
       // Only move up if not moving horizontally
       this.sprite.setVelocityY(-this.moveSpeed);
       newDirection = 'up';
       moving = true;
-    } else if (cursors.down.isDown) {
+    } else if (move.y > 0) {
       // Only move down if not moving horizontally
       this.sprite.setVelocityY(this.moveSpeed);
       newDirection = 'down';
@@ -253,6 +256,11 @@ class Player {
     // Update animation based on movement state
     this.updateAnimation(moving, directionChanged);
     
+    // Footsteps keep their own pace, whatever the frame rate
+    if (moving) {
+      AudioManager.forGame(this.scene.game).playFootstep();
+    }
+    
     // Update internal state
     this.isMoving = moving;
   }
@@ -337,7 +345,7 @@ class Player {
  */
 export default class MainScene extends Scene {
   private player?: Player;
-  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
+  private controls?: InputController;
   private welcomeText?: Phaser.GameObjects.Text;
   private map?: Phaser.Tilemaps.Tilemap;
   private layers?: MapLayers;
@@ -444,11 +452,12 @@ export default class MainScene extends Scene {
   }
 
   create() {
-    // When the main scene starts, clear the currentScene from localStorage
+    // When the main scene starts, clear the saved scene
     // so the user doesn't get stuck in a building if they refresh from the main menu
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('currentScene');
-    }
+    setSavedScene(null);
+    
+    // Music and sounds load once the scene is created
+    AudioManager.forGame(this.game).enterScene(this);
     
     // Disable physics debugging
     this.physics.world.debugGraphic.clear();
@@ -503,10 +512,10 @@ export default class MainScene extends Scene {
     }
 
     // Set up input
-    this.cursors = this.input?.keyboard?.createCursorKeys();
+    this.controls = InputController.forScene(this);
     
-    // Add keyboard interaction for player
-    this.input.keyboard?.on('keydown-SPACE', () => {
+    // Add interaction for player
+    this.controls.on('interact', () => {
       this.interactWithNearbyObject();
     });
     
@@ -527,6 +536,11 @@ export default class MainScene extends Scene {
       this.cameras.main.setDeadzone(100, 100);
     }
 
+    // On-screen joystick and interact button on touch screens
+    if (TouchControls.isSupported(this)) {
+      new TouchControls(this, this.controls);
+    }
+
     // Display the intro overlay instead of immediately showing welcome message
     this.createIntroOverlay();
 
@@ -613,8 +627,11 @@ export default class MainScene extends Scene {
     }).setOrigin(0.5);
     this.introOverlay.add(descText);
     
-    // Instructions
-    const instructionsText = this.add.text(centerX, height * 0.55, 'Use arrow keys to move\nPress SPACE to interact with objects', {
+    // Instructions, with the keys the player bound
+    const { controls } = getSettings();
+    const moveKeys = (['up', 'left', 'down', 'right'] as const).map(direction => getKeyLabel(controls[direction][0])).join('');
+    const instructions = `Use ${moveKeys} or a gamepad to move\nPress ${getActionKeysLabel(controls, 'interact')} or A to interact with objects`;
+    const instructionsText = this.add.text(centerX, height * 0.55, instructions, {
       fontSize: '24px',
       color: '#FFFFFF',
       align: 'center'
@@ -644,8 +661,10 @@ export default class MainScene extends Scene {
       continueButton.setFillStyle(0x4CAF50); // Back to original color
     });
     
-    // Button click - start the game
+    // Button click, or interact on a keyboard or gamepad - start the game
+    const closeMenu = this.controls?.openMenu([continueButton]);
     continueButton.on('pointerdown', () => {
+      closeMenu?.();
       this.startGame();
     });
     
@@ -891,6 +910,7 @@ export default class MainScene extends Scene {
     if (closestObject && closestObject !== this.nearbyObject) {
       this.nearbyObject = closestObject;
       this.showInteractionIndicator(closestObject);
+      AudioManager.forGame(this.game).playSfx('sfx-indicator');
     } 
     // If we moved out of range of the previous object
     else if (!closestObject && this.nearbyObject) {
@@ -1017,12 +1037,12 @@ export default class MainScene extends Scene {
 
  
   update() {
-    if (!this.player || !this.cursors) return;
+    if (!this.player || !this.controls) return;
 
     // Only allow movement if the game has started
     if (this.gameStarted) {
       // Update player movement and animations
-      this.player.update(this.cursors);
+      this.player.update(this.controls.getMove());
       
       // Check for nearby interactive objects
       this.checkInteractiveObjects();
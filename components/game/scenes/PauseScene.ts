@@ -0,0 +1,292 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Scene } from 'phaser';
+import BaseLevelScene from '@/components/game/scenes/BaseLevelScene';
+import InputController from '@/lib/classes/InputController';
+import { AnalyticsService } from '@/lib/services/AnalyticsService';
+import { MENU_EVENTS, MenuPanel, menuClosed, openMenuPanel, quitToTitle } from '@/lib/utils/menuBridge';
+import { updateSave } from '@/lib/utils/saveManager';
+import { AudioSettings, TEXT_SPEEDS, TextSpeed, getSettings, updateSettings } from '@/lib/utils/settings';
+
+interface PauseSceneData {
+  /** Key of the scene to pause */
+  target: string;
+}
+
+/**
+ * One row of a menu page
+ */
+interface MenuEntry {
+  label: () => string;
+  onSelect?: () => void;
+  /** Step through the value in the label, with left and right or a click on either half */
+  onAdjust?: (step: -1 | 1) => void;
+}
+
+const PANEL_WIDTH = 380;
+const ROW_HEIGHT = 44;
+const BUTTON_COLOR = 0x333344;
+const BUTTON_HOVER_COLOR = 0x4CAF50;
+
+// Volumes change in steps of 10%
+const VOLUME_STEP = 0.1;
+
+const AUDIO_LABELS: Record<keyof AudioSettings, string> = {
+  master: 'Master volume',
+  music: 'Music',
+  sfx: 'Sound effects'
+};
+
+const TEXT_SPEED_LABELS: Record<TextSpeed, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast',
+  instant: 'Instant'
+};
+
+/**
+ * PauseScene - pause menu launched over the scene being played
+ *
+ * Pausing the target scene stops its physics, timers, tweens and input
+ * while everything it shows stays on screen, so an open dialogue carries
+ * on where it was after resume. The menu offers settings, saving,
+ * restarting the scene and going back to the title screen. Rebinding keys
+ * and save files need the DOM, so those screens are React panels opened
+ * through the menu bridge while this scene waits paused.
+ */
+export default class PauseScene extends Scene {
+  private targetKey: string = '';
+  private controls?: InputController;
+  private page?: Phaser.GameObjects.Container;
+  private rows: { entry: MenuEntry; label: Phaser.GameObjects.Text }[] = [];
+  private status?: Phaser.GameObjects.Text;
+  private closeMenu?: () => void;
+
+  constructor() {
+    super({ key: 'PauseScene' });
+  }
+
+  init(data: PauseSceneData) {
+    this.targetKey = data.target;
+  }
+
+  create() {
+    this.scene.pause(this.targetKey);
+    this.scene.bringToTop();
+
+    const { width, height } = this.cameras.main;
+    this.add.rectangle(0, 0, width, height, 0x000000, 0.6).setOrigin(0);
+
+    this.controls = InputController.forScene(this);
+    this.controls.on('menu', () => this.resume());
+
+    window.addEventListener(MENU_EVENTS.PANEL_CLOSED, this.handlePanelClosed);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      window.removeEventListener(MENU_EVENTS.PANEL_CLOSED, this.handlePanelClosed);
+      this.page = undefined;
+      this.status = undefined;
+      this.closeMenu = undefined;
+      this.rows = [];
+    });
+
+    this.showMainPage();
+  }
+
+  private showMainPage() {
+    const entries: MenuEntry[] = [
+      { label: () => 'Resume', onSelect: () => this.resume() },
+      { label: () => 'Settings', onSelect: () => this.showSettingsPage() },
+      { label: () => 'Save Game', onSelect: () => this.save() },
+      { label: () => 'Export / Import Save', onSelect: () => this.openPanel('transfer') },
+      {
+        label: () => 'Restart Level',
+        onSelect: () => this.confirm('Restart this area from its entrance?\nAnything not saved yet starts over.', () => this.restart())
+      },
+      {
+        label: () => 'Quit to Title',
+        onSelect: () => this.confirm('Quit to the title screen?\nThe game is saved first.', () => this.quit())
+      }
+    ];
+    if (process.env.NODE_ENV === 'development') {
+      entries.push({ label: () => 'Wallet (dev)', onSelect: () => this.openPanel('wallet') });
+    }
+
+    this.showPage('Paused', entries, () => this.resume());
+  }
+
+  private showSettingsPage() {
+    const entries: MenuEntry[] = (Object.keys(AUDIO_LABELS) as (keyof AudioSettings)[]).map(bus => ({
+      label: () => `${AUDIO_LABELS[bus]}: ${Math.round(getSettings().audio[bus] * 100)}%`,
+      onAdjust: step => this.changeVolume(bus, step)
+    }));
+
+    entries.push({
+      label: () => `Text speed: ${TEXT_SPEED_LABELS[getSettings().textSpeed]}`,
+      onAdjust: step => {
+        const index = TEXT_SPEEDS.indexOf(getSettings().textSpeed);
+        updateSettings({ textSpeed: TEXT_SPEEDS[(index + step + TEXT_SPEEDS.length) % TEXT_SPEEDS.length] });
+      }
+    });
+    entries.push({ label: () => 'Controls', onSelect: () => this.openPanel('controls') });
+
+    if (process.env.NEXT_PUBLIC_ANALYTICS !== 'off') {
+      const analytics = AnalyticsService.getInstance();
+      entries.push({
+        label: () => `Share gameplay data: ${analytics.isOptedOut() ? 'Off' : 'On'}`,
+        onSelect: () => {
+          analytics.setOptOut(!analytics.isOptedOut());
+          this.refreshLabels();
+        }
+      });
+    }
+
+    entries.push({ label: () => 'Back', onSelect: () => this.showMainPage() });
+    this.showPage('Settings', entries, () => this.showMainPage());
+  }
+
+  private confirm(message: string, onConfirm: () => void) {
+    this.showPage('Are you sure?', [
+      { label: () => 'Yes', onSelect: onConfirm },
+      { label: () => 'Cancel', onSelect: () => this.showMainPage() }
+    ], () => this.showMainPage(), message);
+  }
+
+  /**
+   * Replace the current page with a panel of buttons, the first one focused
+   *
+   * @param onCancel Called on cancel, usually going back a page
+   * @param message Text shown between the title and the buttons
+   */
+  private showPage(title: string, entries: MenuEntry[], onCancel: () => void, message?: string) {
+    this.closeMenu?.();
+    this.page?.destroy();
+
+    const { width, height } = this.cameras.main;
+    const messageHeight = message ? 70 : 0;
+    const panelHeight = 110 + messageHeight + entries.length * ROW_HEIGHT;
+    const top = -panelHeight / 2;
+
+    const panel = this.add.rectangle(0, 0, PANEL_WIDTH, panelHeight, 0x1A1A2E, 0.95);
+    panel.setStrokeStyle(2, 0xE8E8C3);
+    const titleText = this.add.text(0, top + 32, title, {
+      fontSize: '26px',
+      color: '#FFFFFF',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+    this.page = this.add.container(width / 2, height / 2, [panel, titleText]);
+
+    if (message) {
+      const messageText = this.add.text(0, top + 64 + messageHeight / 2, message, {
+        fontSize: '16px',
+        color: '#CCCCCC',
+        align: 'center',
+        wordWrap: { width: PANEL_WIDTH - 40 }
+      }).setOrigin(0.5);
+      this.page.add(messageText);
+    }
+
+    const buttonWidth = PANEL_WIDTH - 60;
+    const buttons = new Map<Phaser.GameObjects.GameObject, MenuEntry>();
+    this.rows = entries.map((entry, index) => {
+      const y = top + 80 + messageHeight + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const button = this.add.rectangle(0, y, buttonWidth, ROW_HEIGHT - 8, BUTTON_COLOR);
+      button.setStrokeStyle(1, 0xFFFFFF, 0.3);
+      button.setInteractive({ useHandCursor: true });
+      const label = this.add.text(0, y, '', {
+        fontSize: '18px',
+        color: '#FFFFFF'
+      }).setOrigin(0.5);
+
+      button.on('pointerover', () => button.setFillStyle(BUTTON_HOVER_COLOR));
+      button.on('pointerout', () => button.setFillStyle(BUTTON_COLOR));
+      button.on('pointerdown', (pointer?: Phaser.Input.Pointer) => {
+        if (entry.onAdjust) {
+          // Clicks on the left half step down, keys and the gamepad step up
+          entry.onAdjust(pointer && pointer.x < width / 2 ? -1 : 1);
+          this.refreshLabels();
+        } else {
+          entry.onSelect?.();
+        }
+      });
+
+      this.page?.add([button, label]);
+      buttons.set(button, entry);
+      return { entry, label };
+    });
+
+    this.status = this.add.text(0, panelHeight / 2 - 16, '', {
+      fontSize: '14px',
+      color: '#E8E8C3'
+    }).setOrigin(0.5);
+    this.page.add(this.status);
+    this.refreshLabels();
+
+    this.closeMenu = this.controls?.openMenu([...buttons.keys()], {
+      onCancel,
+      onAdjust: (button, step) => {
+        const entry = buttons.get(button);
+        if (!entry?.onAdjust) return false;
+
+        entry.onAdjust(step);
+        this.refreshLabels();
+        return true;
+      }
+    });
+  }
+
+  private refreshLabels() {
+    this.rows.forEach(({ entry, label }) => {
+      label.setText(entry.onAdjust ? `◀  ${entry.label()}  ▶` : entry.label());
+    });
+  }
+
+  private changeVolume(bus: keyof AudioSettings, step: -1 | 1) {
+    const { audio } = getSettings();
+    const volume = Phaser.Math.Clamp(Math.round((audio[bus] + step * VOLUME_STEP) * 10) / 10, 0, 1);
+    updateSettings({ audio: { ...audio, [bus]: volume } });
+  }
+
+  /**
+   * Show a React panel, this scene waits paused until the player comes back
+   */
+  private openPanel(panel: MenuPanel) {
+    this.scene.pause();
+    openMenuPanel(panel);
+  }
+
+  private handlePanelClosed = () => {
+    this.scene.resume();
+    this.refreshLabels();
+  };
+
+  /**
+   * Write the save, levels also remember that the game continues in them
+   */
+  private save() {
+    const target = this.scene.get(this.targetKey);
+    const saved = target instanceof BaseLevelScene ? target.saveProgress() : updateSave(save => save);
+    this.status?.setText(saved ? 'Game saved' : 'The game could not be saved');
+  }
+
+  private resume() {
+    this.scene.resume(this.targetKey);
+    this.scene.stop();
+    menuClosed();
+  }
+
+  /**
+   * Start the paused scene over with the data it was started with
+   */
+  private restart() {
+    const target = this.scene.get(this.targetKey);
+    this.scene.stop();
+    target.scene.restart(target.sys.settings.data);
+    menuClosed();
+  }
+
+  private quit() {
+    this.save();
+    this.scene.stop();
+    quitToTitle();
+  }
+}
@@ -1,30 +1,19 @@
 'use client';
 
-import { Scene } from 'phaser';
-import Player from '@/lib/classes/Player';
+import BaseLevelScene from '@/components/game/scenes/BaseLevelScene';
+import { getKeyLabel } from '@/lib/utils/keyBindings';
+import { getSettings } from '@/lib/utils/settings';
 
-export default class RandomHouseScene extends Scene {
-  private player?: Player;
-  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
+export default class RandomHouseScene extends BaseLevelScene {
   private exitPoint?: Phaser.GameObjects.Zone;
-  private exitIndicator?: Phaser.GameObjects.Sprite;
-  private interactionIndicators: Map<Phaser.GameObjects.GameObject, Phaser.GameObjects.Sprite> = new Map();
-  private interactiveObjects: Phaser.GameObjects.GameObject[] = [];
-  private exitPrompt?: Phaser.GameObjects.Text;
   
   constructor() {
     super({ key: 'RandomHouseScene' });
   }
   
   init() {
-    // Store current scene in localStorage for development mode reload
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('currentScene', this.scene.key);
-      console.log('Current scene saved:', this.scene.key);
-    }
-    
-    // Initialize interactive objects array
-    this.interactiveObjects = [];
+    super.init();
+    this.exitPoint = undefined;
   }
   
   preload() {
@@ -55,11 +44,6 @@ export default class RandomHouseScene extends Scene {
     if (!textureCheck('wall')) {
       this.load.image('wall', '/assets/maps/wall.png');
     }
-    
-    // Load interaction indicator texture if it doesn't exist
-    if (!textureCheck('interaction-indicator')) {
-      this.load.image('interaction-indicator', '/assets/sprites/interaction-indicator.png');
-    }
   }
   
   create() {
@@ -83,7 +67,7 @@ export default class RandomHouseScene extends Scene {
     // Add player at entry point
     const entryX = 300;
     const entryY = 420; // Moved to the bottom of the building
-    this.player = new Player(this, entryX, entryY);
+    this.spawnPlayer(entryX, entryY, { zoom: 1.2, clampCamera: false });
     
     // Set up exit point
     this.createExitPoint(entryX, entryY + 20);
@@ -91,20 +75,8 @@ export default class RandomHouseScene extends Scene {
     // Create some furniture and interactive objects
     this.createFurniture();
     
-    // Set up camera to follow player
-    this.cameras.main.startFollow(this.player.sprite, true, 0.08, 0.08);
-    this.cameras.main.setZoom(1.2);
-    
-    // Set up input
-    this.cursors = this.input.keyboard?.createCursorKeys();
-    
-    // Add space key for immediate exit
-    this.input.keyboard?.on('keydown-SPACE', () => {
-      this.exitBuilding();
-    });
-    
-    // Add ESC key as an exit method
-    this.input.keyboard?.on('keydown-ESC', () => {
+    // Add cancel (ESC or the B button) as an exit method
+    this.controls?.on('cancel', () => {
       this.exitBuilding();
     });
     
@@ -196,33 +168,20 @@ export default class RandomHouseScene extends Scene {
     
     // Make objects interactive
     bed.setInteractive({ useHandCursor: true });
-    bed.setData('interactive', true);
-    bed.setData('onInteract', () => {
+    this.addInteractable(bed, () => {
       this.showMessage("This is a cozy bed. Maybe you should get some rest.");
     });
     
     table.setInteractive({ useHandCursor: true });
-    table.setData('interactive', true);
-    table.setData('onInteract', () => {
+    this.addInteractable(table, () => {
       this.showMessage("A small table with some personal belongings on it.");
     });
     
     chair.setInteractive({ useHandCursor: true });
-    chair.setData('interactive', true);
-    chair.setData('onInteract', () => {
+    this.addInteractable(chair, () => {
       this.showMessage("A simple wooden chair. It looks comfortable enough.");
     });
     
-    // Add interactive objects
-    this.interactiveObjects.push(bed);
-    this.interactiveObjects.push(table);
-    this.interactiveObjects.push(chair);
-    
-    // Create indicators
-    this.createInteractionIndicator(bed);
-    this.createInteractionIndicator(table);
-    this.createInteractionIndicator(chair);
-    
     // Add collision with furniture - create invisible physics objects
     const furniture = this.physics.add.staticGroup();
     furniture.add(this.add.zone(bedX, bedY, tileSize * 2, tileSize));
@@ -241,32 +200,10 @@ export default class RandomHouseScene extends Scene {
   createExitPoint(x: number, y: number) {
     // Create an exit zone - much larger and positioned better for access
     this.exitPoint = this.add.zone(x, y - 20, 200, 150);
-    this.exitPoint.setData('interactive', true);
-    this.exitPoint.setData('onInteract', () => {
-      this.exitBuilding();
-    });
     
-    // Make it interactive
+    // Make it interactive, with an always visible indicator
     this.exitPoint.setInteractive({ useHandCursor: true });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(this.exitPoint);
-    
-    // Create an indicator for the exit - make it more visible
-    this.exitIndicator = this.add.sprite(x, y - 60, 'interaction-indicator');
-    this.exitIndicator.setAlpha(0.9);
-    this.exitIndicator.setScale(0.8);
-    this.exitIndicator.setDepth(100);
-    
-    // Add animations for the indicator
-    this.tweens.add({
-      targets: this.exitIndicator,
-      y: y - 70,
-      duration: 1500,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
+    this.addInteractable(this.exitPoint, () => this.exitBuilding(), { indicator: 'always' });
     
     // Add a visual cue for the door - make it more noticeable
     const doorGraphics = this.add.graphics();
@@ -289,19 +226,18 @@ export default class RandomHouseScene extends Scene {
    * Exit building and return to Level5Scene
    */
   exitBuilding() {
-    // Fade out
-    this.cameras.main.fadeOut(500);
-    
-    // When fade is complete, return to the main level
-    this.cameras.main.once('camerafadeoutcomplete', () => {
-      // Pass data back to Level5Scene
-      const returnData = {
-        fromBuilding: 'RandomHouseScene'
-      };
-      
-      // Return to Level5Scene
-      this.scene.start('Level5Scene', returnData);
-    });
+    this.transitionTo('Level5Scene', { fromBuilding: this.scene.key }, 500);
+  }
+  
+  /**
+   * Interact uses nearby furniture and leaves the house otherwise
+   */
+  protected interactWithNearbyObject() {
+    if (this.nearbyObject) {
+      super.interactWithNearbyObject();
+    } else {
+      this.exitBuilding();
+    }
   }
   
   /**
@@ -331,10 +267,11 @@ export default class RandomHouseScene extends Scene {
     // Group for easier cleanup
     const group = this.add.group([bg, text]);
     
-    // Close on click
+    // Close on click, interact or cancel
     this.input.once('pointerdown', () => {
       group.destroy(true);
     });
+    this.controls?.dismissOn(bg, () => group.destroy(true));
     
     // Auto-close after 3 seconds
     this.time.delayedCall(3000, () => {
@@ -342,111 +279,6 @@ export default class RandomHouseScene extends Scene {
     });
   }
   
-  /**
-   * Create an interaction indicator for a specific object
-   */
-  createInteractionIndicator(object: Phaser.GameObjects.GameObject) {
-    // Get object position
-    let objX = 0;
-    let objY = 0;
-    
-    if ('getCenter' in object) {
-      const center = (object as unknown as Phaser.GameObjects.Rectangle).getCenter();
-      objX = center.x;
-      objY = center.y;
-    } else if ('x' in object && 'y' in object) {
-      objX = (object as unknown as { x: number }).x;
-      objY = (object as unknown as { y: number }).y;
-    }
-    
-    // Position above the object
-    const x = objX;
-    const y = objY - 40;
-    
-    // Create a dedicated indicator for this object
-    const indicator = this.add.sprite(x, y, 'interaction-indicator');
-    indicator.setVisible(false); // Hide initially
-    indicator.setDepth(200); // High depth to ensure visibility
-    indicator.setScale(0.5);
-    
-    // Add animations
-    this.tweens.add({
-      targets: indicator,
-      y: y - 6,
-      duration: 1200,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    this.tweens.add({
-      targets: indicator,
-      alpha: 0.6,
-      duration: 1000,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    // Store the indicator reference
-    this.interactionIndicators.set(object, indicator);
-    
-    return indicator;
-  }
-  
-  /**
-   * Check for nearby interactive objects
-   */
-  checkInteractiveObjects() {
-    if (!this.player || this.interactiveObjects.length === 0) return;
-    
-    const playerPos = this.player.sprite.getCenter();
-    const interactDistance = 60; // Interaction range
-    
-    // First, hide all indicators
-    this.interactionIndicators.forEach(indicator => {
-      indicator.setVisible(false);
-    });
-    
-    // Check each interactive object
-    this.interactiveObjects.forEach(obj => {
-      if (obj === this.exitPoint) return; // Skip exit point, it has its own indicator
-      
-      // Get object position
-      let objX = 0;
-      let objY = 0;
-      
-      if ('getCenter' in obj) {
-        const center = (obj as unknown as Phaser.GameObjects.Rectangle).getCenter();
-        objX = center.x;
-        objY = center.y;
-      } else if ('x' in obj && 'y' in obj) {
-        objX = (obj as unknown as { x: number }).x;
-        objY = (obj as unknown as { y: number }).y;
-      }
-      
-      // Calculate distance
-      const distance = Phaser.Math.Distance.Between(playerPos.x, playerPos.y, objX, objY);
-      
-      // If in range, display indicator
-      if (distance < interactDistance) {
-        // Show the indicator
-        const indicator = this.interactionIndicators.get(obj);
-        if (indicator) {
-          indicator.setVisible(true);
-        }
-        
-        // Use E key for interaction instead of space
-        if (this.input.keyboard?.checkDown(this.input.keyboard.addKey('E'), 500)) {
-          const onInteract = obj.getData('onInteract');
-          if (typeof onInteract === 'function') {
-            onInteract();
-          }
-        }
-      }
-    });
-  }
-  
   /**
    * Create UI buttons to exit the building directly
    */
@@ -464,36 +296,22 @@ export default class RandomHouseScene extends Scene {
     buttonContainer.add(panel);
     
     // Exit button text
-    const buttonText = this.add.text(screenWidth / 2, 12, 'EXIT (SPACE)', {
+    const exitKey = getKeyLabel(getSettings().controls.interact[0]).toUpperCase();
+    const buttonText = this.add.text(screenWidth / 2, 12, `EXIT (${exitKey})`, {
       fontSize: '14px',
       color: '#FFFFFF'
     }).setOrigin(0.5);
     buttonContainer.add(buttonText);
   }
   
-  update() {
-    if (!this.player || !this.cursors) return;
-    
-    // Update player movement and animations
-    this.player.update(this.cursors);
-    
-    // Check for nearby interactive objects
-    this.checkInteractiveObjects();
-  }
-  
   /**
    * Clean up resources when scene is shut down
    */
   shutdown() {
-    // Clean up resources
-    if (this.interactionIndicators) {
-      this.interactionIndicators.clear();
-    }
+    super.shutdown();
 
     // We should NOT clear the localStorage here since we want to 
     // persist the current scene when refreshing the page
     // Only remove all listeners to prevent memory leaks
-    this.input.keyboard?.off('keydown-SPACE');
-    this.input.keyboard?.off('keydown-ESC');
   }
-} 
\ No newline at end of file
+}
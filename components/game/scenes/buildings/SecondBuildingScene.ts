@@ -1,8 +1,8 @@
 'use client';
 
-import { Scene } from 'phaser';
-import Player from '@/lib/classes/Player';
-import { loadTilemap, addCollision, MapLayers } from '@/lib/utils/mapLoader';
+import BaseLevelScene from '@/components/game/scenes/BaseLevelScene';
+import DialogueRunner from '@/lib/classes/DialogueRunner';
+import { preloadDialogues } from '@/lib/utils/dialogueLoader';
 
 // Define interfaces for the types
 interface BuildingData {
@@ -50,32 +50,22 @@ interface Tileset {
   tilewidth: number;
 }
 
-export default class SecondBuildingScene extends Scene {
-  private player?: Player;
-  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
+export default class SecondBuildingScene extends BaseLevelScene {
+  protected interactionRange: number = 70;
+  // Furniture and the cashier are tall, so indicators sit higher up
+  protected indicatorOffset: number = 88;
   private exitPoints: Map<string, Phaser.GameObjects.Zone> = new Map();
-  private interactionIndicators: Map<Phaser.GameObjects.GameObject, Phaser.GameObjects.Sprite> = new Map();
-  private interactiveObjects: Phaser.GameObjects.GameObject[] = [];
   private entryDoor: string = 'main'; // Default door
-  private exitPrompt?: Phaser.GameObjects.Text;
-  private playerInExitZone: boolean = false;
-  private currentExitDoor: string = '';
-  private exitTimer: Phaser.Time.TimerEvent | null = null;
   private buildingData?: BuildingData;
-  private map?: Phaser.Tilemaps.Tilemap;
-  private layers?: MapLayers;
-  private dialogueBox?: Phaser.GameObjects.Container;
   
   constructor() {
     super({ key: 'SecondBuildingScene' });
   }
   
   init() {
-    // Store current scene in localStorage for development mode reload
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('currentScene', this.scene.key);
-      console.log('Current scene saved:', this.scene.key);
-    }
+    super.init();
+    this.exitPoints.clear();
+    this.entryDoor = 'main';
 
     // Get entry data
     const data = this.scene.settings.data as {
@@ -84,10 +74,6 @@ export default class SecondBuildingScene extends Scene {
       entryDoor?: string;
     } | undefined;
     
-    // Reset states
-    this.playerInExitZone = false;
-    this.exitTimer = null;
-    
     // Set the entry door based on data
     if (data && data.entryDoor) {
       this.entryDoor = data.entryDoor;
@@ -160,6 +146,9 @@ export default class SecondBuildingScene extends Scene {
     
     // Also load the original building data for fallback
     this.load.json('second-building-data', '/assets/maps/buildings/second-building.json');
+    
+    // Load the cashier conversation
+    preloadDialogues(this, ['buildings/arcane']);
   }
   
   /**
@@ -387,6 +376,9 @@ export default class SecondBuildingScene extends Scene {
     // Set background color
     this.cameras.main.setBackgroundColor('#2A2A2A');
     
+    // Shared dialogue box for the cashier conversation
+    this.dialogue = new DialogueRunner(this);
+    
     // Get the building JSON data for fallback
     this.buildingData = this.cache.json.get('second-building-data');
     
@@ -394,48 +386,17 @@ export default class SecondBuildingScene extends Scene {
     this.replaceMapTilesWithCustomTextures();
     
     // Load the tilemap using the utility function
-    try {
-      const { map, layers } = loadTilemap(
-        this,
-        'second-building-tilemap',
-        ['Floor', 'Objects', 'Furniture', 'Backwall', 'Collision'],
-        ['Collision'] // Only use the Collision layer for collisions
-      );
-      
-      this.map = map;
-      this.layers = layers;
-      
-      console.log('Second building tilemap loaded successfully');
-      
-      // Set world bounds based on the map dimensions
-      if (this.map) {
-        const mapWidth = this.map.widthInPixels;
-        const mapHeight = this.map.heightInPixels;
-        this.physics.world.setBounds(0, 0, mapWidth, mapHeight);
-        console.log(`Map dimensions: ${mapWidth}x${mapHeight}`);
-      }
-    } catch (error) {
-      console.error('Failed to load tilemap:', error);
+    if (!this.loadLevelMap('second-building-tilemap', ['Floor', 'Objects', 'Furniture', 'Backwall', 'Collision'], false)) {
       // Fallback to old method if tilemap fails
       this.createRoom();
     }
     
-    // Add player at the appropriate entry point
+    // Add player at the appropriate entry point, facing up from the entrance
     // Default is center bottom
     const entryX = 400;
     const entryY = 500; // Moved up further from exit zone for better gameplay
     
-    this.player = new Player(this, entryX, entryY);
-    
-    // Make the player face up from the entrance
-    if (this.player.sprite && this.player.sprite.anims) {
-      this.player.sprite.anims.play('player-idle-up', true);
-    }
-    
-    // Add collision with the Collision layer if using the tilemap approach
-    if (this.player && this.layers) {
-      addCollision(this, this.player.sprite, this.layers, ['Collision']);
-    }
+    this.spawnPlayer(entryX, entryY, { facing: 'up', clampCamera: false });
     
     // Create interactive objects from the tilemap objects layer
     if (this.map) {
@@ -450,18 +411,6 @@ export default class SecondBuildingScene extends Scene {
       }
     }
     
-    // Set up camera to follow player
-    this.cameras.main.startFollow(this.player.sprite, true, 0.08, 0.08);
-    this.cameras.main.setZoom(1);
-    
-    // Set up input
-    this.cursors = this.input.keyboard?.createCursorKeys();
-    
-    // Add spacebar for interactions
-    this.input.keyboard?.on('keydown-SPACE', () => {
-      this.interactWithNearbyObject();
-    });
-    
     // Disable the pink debug indicators
     this.disableDebugVisuals();
     
@@ -608,20 +557,8 @@ export default class SecondBuildingScene extends Scene {
     // Create a zone for the extended interaction area
     const interactionZone = this.add.zone(x, zoneY, zoneWidth, zoneHeight);
     
-    // Make the interaction zone a physics object
-    this.physics.world.enable(interactionZone);
-    
-    // Store interaction data on the zone
-    interactionZone.setData('interactive', true);
-    interactionZone.setData('onInteract', () => {
-      this.showArcaneDialogue();
-    });
-    
-    // Add to interactive objects
-    this.interactiveObjects.push(interactionZone);
-    
-    // Create an interaction indicator for the zone
-    this.createInteractionIndicator(interactionZone);
+    // The zone itself is what the player interacts with
+    this.addInteractable(interactionZone, () => this.showArcaneDialogue());
   }
   
   /**
@@ -650,15 +587,9 @@ export default class SecondBuildingScene extends Scene {
       this.buildingData.collisionAreas.forEach(area => {
         if (area.isInteractive) {
           const interactiveZone = this.add.zone(area.x, area.y, 100, 100);
-          interactiveZone.setData('onInteract', () => {
+          this.addInteractable(interactiveZone, () => {
             this.showMessage(area.interactionMessage || 'An interesting area.');
           });
-          
-          // Add to physics engine for collision detection
-          this.physics.world.enable(interactiveZone);
-          
-          // Add to interactive objects list
-          this.interactiveObjects.push(interactiveZone);
         }
       });
     }
@@ -688,35 +619,8 @@ export default class SecondBuildingScene extends Scene {
     const object = this.add.image(x, y, texture);
     object.setScale(scale);
     
-    // Make the object itself interactive by adding properties
-    object.setData('onInteract', () => {
-      this.showMessage(interactionMessage);
-    });
-    object.setData('interactive', true);
-    
-    // Add to interactive objects list
-    this.interactiveObjects.push(object);
-    
-    // Create an interaction indicator
-    this.createInteractionIndicator(object);
-  }
-  
-  /**
-   * Handle player interaction with nearby objects
-   */
-  interactWithNearbyObject() {
-    if (!this.player) return;
-    
-    // Use the nearest interactive object stored on the player
-    const nearbyObject = this.player.nearestInteractiveObject;
-    
-    if (nearbyObject) {
-      // Execute the onInteract function if available
-      const onInteract = nearbyObject.getData('onInteract');
-      if (typeof onInteract === 'function') {
-        onInteract();
-      }
-    }
+    // Make the object itself interactive
+    this.addInteractable(object, () => this.showMessage(interactionMessage));
   }
   
   /**
@@ -864,12 +768,15 @@ export default class SecondBuildingScene extends Scene {
     // Create a zone that will detect player overlap
     const zone = this.add.zone(x, y, 80, 60); // Smaller zone size for more precise detection
     
-    // Enable physics for the zone
-    this.physics.world.enable(zone);
-    
     // Store the zone by its door ID
     this.exitPoints.set(doorId, zone);
     
+    // Leave the building after staying in the zone for a moment
+    this.addExitZone(zone, () => this.exitBuilding(doorId), {
+      delay: 1200,
+      prompt: 'Exiting building...'
+    });
+    
     // Add debug visualization in dev mode
     if (process.env.NODE_ENV === 'development') {
       const graphics = this.add.graphics();
@@ -883,69 +790,15 @@ export default class SecondBuildingScene extends Scene {
     }
   }
   
-  /**
-   * Show a prompt when player enters the exit zone
-   */
-  showExitPrompt() {
-    // Remove existing prompt if it exists
-    this.hideExitPrompt();
-    
-    // Create a new prompt
-    this.exitPrompt = this.add.text(
-      this.cameras.main.width / 2,
-      this.cameras.main.height - 50,
-      "Exiting building...",
-      {
-        fontSize: '20px',
-        color: '#ffdd00',
-        stroke: '#000000',
-        strokeThickness: 4,
-        fontStyle: 'bold'
-      }
-    );
-    this.exitPrompt.setOrigin(0.5);
-    this.exitPrompt.setScrollFactor(0);
-    this.exitPrompt.setDepth(1000);
-    
-    // Add a subtle animation to make it more noticeable
-    this.tweens.add({
-      targets: this.exitPrompt,
-      y: '-=10',
-      duration: 300,
-      yoyo: true,
-      repeat: 1,
-      ease: 'Sine.easeInOut'
-    });
-  }
-  
-  /**
-   * Hide the exit prompt
-   */
-  hideExitPrompt() {
-    if (this.exitPrompt) {
-      this.exitPrompt.destroy();
-      this.exitPrompt = undefined;
-    }
-  }
-  
   /**
    * Exit the building and return to main map
    */
-  exitBuilding() {
-    // Hide the exit prompt
-    this.hideExitPrompt();
-    
-    // Fade out effect
-    this.cameras.main.fade(500, 0, 0, 0);
-    
-    // When fade is complete, transition back to the main map
-    this.cameras.main.once('camerafadeoutcomplete', () => {
-      // Return to Level5Scene with the exit position data
-      this.scene.start('Level5Scene', {
-        fromBuilding: 'second',
-        exitDoor: this.currentExitDoor
-      });
-    });
+  exitBuilding(exitDoor: string) {
+    // Return to Level5Scene with the exit position data
+    this.transitionTo('Level5Scene', {
+      fromBuilding: this.scene.key,
+      exitDoor
+    }, 500);
   }
   
   /**
@@ -1003,964 +856,23 @@ export default class SecondBuildingScene extends Scene {
     });
   }
   
-  /**
-   * Create or update an interaction indicator above an object
-   */
-  createInteractionIndicator(object: Phaser.GameObjects.GameObject) {
-    // Check if we already have an indicator for this object
-    if (this.interactionIndicators.has(object)) {
-      const indicator = this.interactionIndicators.get(object);
-      if (indicator) {
-        return indicator;
-      }
-    }
-    
-    // We need to get the position of the object
-    let x = 0;
-    let y = 0;
-    
-    if ('getCenter' in object) {
-      const center = (object as unknown as Phaser.GameObjects.Rectangle).getCenter();
-      x = center.x;
-      y = center.y;
-    } else if ('x' in object && 'y' in object) {
-      x = (object as unknown as { x: number }).x;
-      y = (object as unknown as { y: number }).y;
-    }
-    
-    // Position the indicator above the object
-    const indicatorY = y - 88; // Positioned higher above the object
-    
-    // Create the indicator
-    const indicator = this.add.sprite(x, indicatorY, 'interaction-indicator');
-    indicator.setDepth(200); // Ensure it's above other elements
-    
-    // Add a bobbing animation
-    this.tweens.add({
-      targets: indicator,
-      y: indicatorY - 6, // Small vertical movement
-      duration: 1200,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    // Add a subtle pulsing animation
-    this.tweens.add({
-      targets: indicator,
-      alpha: 0.6,
-      duration: 1000,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    // Start invisible - it will be shown when in range
-    indicator.setVisible(false);
-    
-    // Store the indicator
-    this.interactionIndicators.set(object, indicator);
-    
-    return indicator;
-  }
-  
-  /**
-   * Check for interactive objects near the player
-   */
-  checkInteractiveObjects() {
-    if (!this.player) return;
-    
-    const playerPos = this.player.sprite.getCenter();
-    const interactDistance = 70; // Interaction detection range
-    
-    // Reset player's nearest object at the start of each check
-    this.player.nearestInteractiveObject = undefined;
-    this.player.nearestInteractiveObjectDistance = Number.MAX_VALUE;
-    
-    // First, hide all indicators
-    this.interactionIndicators.forEach(indicator => {
-      indicator.setVisible(false);
-    });
-    
-    // Check each interactive object
-    this.interactiveObjects.forEach(obj => {
-      // Skip if marked as not visible
-      if (obj.getData('visible') === false) return;
-      
-      let objX = 0;
-      let objY = 0;
-      
-      // Get position based on object type
-      if ('getCenter' in obj) {
-        const center = (obj as unknown as Phaser.GameObjects.Rectangle).getCenter();
-        objX = center.x;
-        objY = center.y;
-      } else if ('x' in obj && 'y' in obj) {
-        objX = (obj as unknown as { x: number }).x;
-        objY = (obj as unknown as { y: number }).y;
-      }
-      
-      // Calculate distance to player
-      const distance = Phaser.Math.Distance.Between(
-        playerPos.x, playerPos.y,
-        objX, objY
-      );
-      
-      // Get the indicator for this object
-      const indicator = this.interactionIndicators.get(obj);
-      
-      // Show indicator if within range and interactive
-      if (indicator && distance < interactDistance && obj.getData('interactive')) {
-        indicator.setVisible(true);
-        
-        // Store reference to the closest object for interaction
-        if (this.player && distance < this.player.nearestInteractiveObjectDistance) {
-          this.player.nearestInteractiveObject = obj;
-          this.player.nearestInteractiveObjectDistance = distance;
-        }
-      }
-    });
-  }
-  
-  /**
-   * Check if player is in an exit zone
-   */
-  checkPlayerInExitZone() {
-    if (!this.player) return;
-    
-    let inExitZone = false;
-    let currentDoor = '';
-    
-    // Get player bounds
-    const playerBounds = this.player.sprite.getBounds();
-    
-    // Check each exit zone
-    this.exitPoints.forEach((zone, doorId) => {
-      // Get zone bounds
-      const zoneBounds = zone.getBounds();
-      
-      if (zoneBounds && Phaser.Geom.Rectangle.Overlaps(playerBounds, zoneBounds)) {
-        inExitZone = true;
-        currentDoor = doorId;
-      }
-    });
-    
-    // Handle entering exit zone
-    if (inExitZone && (!this.playerInExitZone || this.currentExitDoor !== currentDoor)) {
-      this.playerInExitZone = true;
-      this.currentExitDoor = currentDoor;
-      
-      // Show prompt
-      this.showExitPrompt();
-      
-      // Set timer to exit
-      if (this.exitTimer) {
-        this.exitTimer.remove();
-      }
-      
-      this.exitTimer = this.time.delayedCall(1200, () => {
-        if (this.playerInExitZone && this.currentExitDoor === currentDoor) {
-          this.exitBuilding();
-        }
-      });
-    }
-    // Handle leaving exit zone
-    else if (!inExitZone && this.playerInExitZone) {
-      this.playerInExitZone = false;
-      this.currentExitDoor = '';
-      
-      // Remove timer and prompt
-      if (this.exitTimer) {
-        this.exitTimer.remove();
-        this.exitTimer = null;
-      }
-      
-      this.hideExitPrompt();
-    }
-  }
-  
-  update() {
-    // Update player movement if player exists
-    if (this.player && this.cursors) {
-      this.player.update(this.cursors);
-    }
-    
-    // Check for interactive objects
-    this.checkInteractiveObjects();
-    
-    // Check if player is still in exit zone
-    this.checkPlayerInExitZone();
-  }
-  
   shutdown() {
-    // Clean up resources
-    if (this.interactionIndicators) {
-      this.interactionIndicators.clear();
-    }
-
-    // Clear timer if it exists
-    if (this.exitTimer) {
-      this.exitTimer.remove();
-      this.exitTimer = null;
-    }
+    super.shutdown();
 
     // We should NOT clear the localStorage here since we want to 
     // persist the current scene when refreshing the page
     // Only remove all listeners to prevent memory leaks
-    this.input.keyboard?.off('keydown-SPACE');
     this.input.keyboard?.off('keydown-ESC');
   }
 
   /**
-   * Show Arcane Finance dialogue with multiple options
+   * Show the Arcane Finance cashier conversation
    */
   showArcaneDialogue() {
-    this.switchDialogue(() => {
-      const x = this.cameras.main.width / 2;
-      const y = this.cameras.main.height / 2;
-      
-      // Create a container for all dialogue elements
-      this.dialogueBox = this.add.container(0, 0);
-      this.dialogueBox.setDepth(2000);
-      
-      // Create a semi-transparent background
-      const bg = this.add.rectangle(
-        x,
-        y,
-        700,
-        600,
-        0x000000,
-        0.9
-      );
-      bg.setScrollFactor(0);
-      bg.setStrokeStyle(2, 0x0052CC, 0.9); // Deep blue border for Arcane
-      
-      // Add the background to the container
-      this.dialogueBox.add(bg);
-      
-      // Create title text
-      const title = this.add.text(
-        x,
-        y - 240,
-        "Welcome to Arcane Finance",
-        {
-          fontSize: '28px',
-          color: '#ffffff',
-          fontStyle: 'bold',
-          align: 'center'
-        }
-      );
-      title.setOrigin(0.5);
-      title.setScrollFactor(0);
-      this.dialogueBox.add(title);
-      
-      // Add a subtitle
-      const subtitle = this.add.text(
-        x,
-        y - 200,
-        "Privacy-First Decentralized Exchange on Aleo",
-        {
-          fontSize: '18px',
-          color: '#0052CC',
-          align: 'center'
-        }
-      );
-      subtitle.setOrigin(0.5);
-      subtitle.setScrollFactor(0);
-      this.dialogueBox.add(subtitle);
-      
-      // Greeting text
-      const greeting = this.add.text(
-        x,
-        y - 160,
-        "How can I assist you with privacy-enhanced trading today?",
-        {
-          fontSize: '16px',
-          color: '#cccccc',
-          align: 'center'
-        }
-      );
-      greeting.setOrigin(0.5);
-      greeting.setScrollFactor(0);
-      this.dialogueBox.add(greeting);
-      
-      // Create dialogue options
-      const dialogueOptions = [
-        {
-          text: "What is Arcane Finance?",
-          action: () => this.showArcaneInfoDialogue()
-        },
-        {
-          text: "Features of Arcane Finance",
-          action: () => this.showArcaneFeaturesDialogue()
-        },
-        {
-          text: "About Aleo Blockchain",
-          action: () => this.showAleoInfoDialogue()
-        },
-        {
-          text: "Visit Arcane Finance App",
-          action: () => this.openArcaneWebsite()
-        },
-        {
-          text: "Close",
-          action: () => this.closeDialogueBox()
-        }
-      ];
-      
-      // Create buttons for each option
-      dialogueOptions.forEach((option, index) => {
-        const y_pos = y - 110 + (index * 50);
-        
-        // Create button background - special color for the Visit website option
-        const buttonColor = option.text === "Visit Arcane Finance App" ? 0x0052CC : 0x6495ED; // Deep blue for website, blue for others
-        const buttonBg = this.add.rectangle(
-          x,
-          y_pos,
-          400,
-          35,
-          buttonColor,
-          0.3
-        );
-        buttonBg.setScrollFactor(0);
-        
-        // Set appropriate stroke style based on the button type
-        if (option.text === "Visit Arcane Finance App") {
-          buttonBg.setStrokeStyle(1, 0x0052CC, 0.7); // Deep blue stroke to match fill
-        } else {
-          buttonBg.setStrokeStyle(1, 0x6495ED, 0.7); // Default blue stroke
-        }
-        
-        // Make interactive with hand cursor
-        buttonBg.setInteractive({ useHandCursor: true });
-        
-        // Apply gray color for the Close button
-        if (option.text === "Close") {
-          buttonBg.fillColor = 0x666666; // Gray for close button
-          buttonBg.setStrokeStyle(1, 0x666666, 0.7);
-        }
-        
-        // Add hover effect
-        buttonBg.on('pointerover', () => {
-          if (option.text === "Visit Arcane Finance App") {
-            buttonBg.fillColor = 0x0052CC; // Deep blue
-          } else if (option.text === "Close") {
-            buttonBg.fillColor = 0x666666; // Gray
-          } else {
-            buttonBg.fillColor = 0x6495ED; // Blue
-          }
-          buttonBg.fillAlpha = 0.7;
-        });
-        
-        buttonBg.on('pointerout', () => {
-          if (option.text === "Visit Arcane Finance App") {
-            buttonBg.fillColor = 0x0052CC; // Deep blue
-          } else if (option.text === "Close") {
-            buttonBg.fillColor = 0x666666; // Gray
-          } else {
-            buttonBg.fillColor = 0x6495ED; // Blue
-          }
-          buttonBg.fillAlpha = 0.3;
-        });
-        
-        // Add click handler
-        buttonBg.on('pointerdown', () => {
-          option.action();
-        });
-        
-        // Create button text
-        const buttonText = this.add.text(
-          x,
-          y_pos,
-          option.text,
-          {
-            fontSize: '16px',
-            color: '#ffffff',
-            align: 'center'
-          }
-        );
-        buttonText.setOrigin(0.5);
-        buttonText.setScrollFactor(0);
-        
-        // Add to container
-        if (this.dialogueBox) {
-          this.dialogueBox.add(buttonBg);
-          this.dialogueBox.add(buttonText);
-        }
-      });
-
-      // Add description at the bottom
-      const description = this.add.text(
-        x,
-        y + 160,
-        "Arcane Finance is a privacy-first DEX on Aleo blockchain,\noffering secure and private trading with advanced features.",
-        {
-          fontSize: '14px',
-          color: '#aaaaaa',
-          align: 'center'
-        }
-      );
-      description.setOrigin(0.5);
-      description.setScrollFactor(0);
-      this.dialogueBox.add(description);
-      
-      // Add fade-in effect
-      this.dialogueBox.setAlpha(0);
-      this.tweens.add({
-        targets: this.dialogueBox,
-        alpha: 1,
-        duration: 200,
-        ease: 'Power1'
-      });
-      
-      // Add escape key handler
-      this.input.keyboard?.once('keydown-ESC', () => {
-        this.closeDialogueBox();
-      });
-    });
-  }
-
-  /**
-   * Helper method to transition between dialogue screens
-   */
-  switchDialogue(newDialogueCreator: () => void) {
-    if (this.dialogueBox) {
-      // Hide current dialogue (make it invisible but don't destroy)
-      this.dialogueBox.setVisible(false);
-      
-      // Create the new dialogue immediately
-      newDialogueCreator();
-    } else {
-      // No existing dialogue, just create the new one
-      newDialogueCreator();
-    }
-  }
-
-  /**
-   * Show information about Arcane Finance
-   */
-  showArcaneInfoDialogue() {
-    this.switchDialogue(() => {
-      const x = this.cameras.main.width / 2;
-      const y = this.cameras.main.height / 2;
-      
-      // Create container
-      this.dialogueBox = this.add.container(0, 0);
-      this.dialogueBox.setDepth(2000);
-      
-      // Create background
-      const bg = this.add.rectangle(
-        x,
-        y,
-        700,
-        600,
-        0x000000,
-        0.9
-      );
-      bg.setScrollFactor(0);
-      bg.setStrokeStyle(2, 0x0052CC, 0.8); // Deep blue for Arcane
-      this.dialogueBox.add(bg);
-      
-      // Create title
-      const title = this.add.text(
-        x,
-        y - 220,
-        "About Arcane Finance",
-        {
-          fontSize: '28px',
-          color: '#ffffff',
-          fontStyle: 'bold',
-          align: 'center'
-        }
-      );
-      title.setOrigin(0.5);
-      title.setScrollFactor(0);
-      this.dialogueBox.add(title);
-      
-      // Create longer description text
-      const infoText = [
-        "Arcane Finance is a revolutionary privacy-first decentralized exchange (DEX) built on the Aleo blockchain.",
-        "",
-        "By fully leveraging zero-knowledge (ZK)-enabled security features, Arcane Finance ensures unmatched confidentiality and privacy for its users. This advanced level of security is crucial in the crypto space, where privacy concerns are paramount.",
-        "",
-        "The platform enhances user experience with unique features like flexible placement of concentrated liquidity for better returns and support for limit orders, giving users more control over their trading strategies.",
-        "",
-        "As the central liquidity hub within the Aleo blockchain ecosystem, Arcane Finance addresses existing privacy and confidentiality issues prevalent in cryptocurrency transactions, setting a new standard for secure and private trading."
-      ].join("\n");
-      
-      const info = this.add.text(
-        x,
-        y,
-        infoText,
-        {
-          fontSize: '16px',
-          color: '#cccccc',
-          align: 'left',
-          wordWrap: { width: 650 }
-        }
-      );
-      info.setOrigin(0.5, 0.5);
-      info.setScrollFactor(0);
-      this.dialogueBox.add(info);
-      
-      // Add back button
-      const backButton = this.add.rectangle(
-        x,
-        y + 220,
-        100,
-        35,
-        0x6495ED,
-        0.3
-      );
-      backButton.setScrollFactor(0);
-      backButton.setStrokeStyle(1, 0x6495ED, 0.7);
-      backButton.setInteractive({ useHandCursor: true });
-      
-      // Add hover effect
-      backButton.on('pointerover', () => {
-        backButton.fillColor = 0x6495ED;
-        backButton.fillAlpha = 0.7;
-      });
-      
-      backButton.on('pointerout', () => {
-        backButton.fillColor = 0x6495ED;
-        backButton.fillAlpha = 0.3;
-      });
-      
-      // Add click handler
-      backButton.on('pointerdown', () => {
-        this.showArcaneDialogue();
-      });
-      
-      // Add button text
-      const backText = this.add.text(
-        x,
-        y + 220,
-        "Back",
-        {
-          fontSize: '16px',
-          color: '#ffffff',
-          align: 'center'
-        }
-      );
-      backText.setOrigin(0.5);
-      backText.setScrollFactor(0);
-      
-      this.dialogueBox.add(backButton);
-      this.dialogueBox.add(backText);
-      
-      // Add fade-in effect
-      this.dialogueBox.setAlpha(0);
-      this.tweens.add({
-        targets: this.dialogueBox,
-        alpha: 1,
-        duration: 200,
-        ease: 'Power1'
-      });
-      
-      // Add escape key handler
-      this.input.keyboard?.once('keydown-ESC', () => {
-        this.showArcaneDialogue();
-      });
-    });
-  }
-
-  /**
-   * Show features of Arcane Finance
-   */
-  showArcaneFeaturesDialogue() {
-    this.switchDialogue(() => {
-      const x = this.cameras.main.width / 2;
-      const y = this.cameras.main.height / 2;
-      
-      // Create container
-      this.dialogueBox = this.add.container(0, 0);
-      this.dialogueBox.setDepth(2000);
-      
-      // Create background
-      const bg = this.add.rectangle(
-        x,
-        y,
-        700,
-        600,
-        0x000000,
-        0.9
-      );
-      bg.setScrollFactor(0);
-      bg.setStrokeStyle(2, 0x0052CC, 0.8);
-      this.dialogueBox.add(bg);
-      
-      // Create title
-      const title = this.add.text(
-        x,
-        y - 240,
-        "Features of Arcane Finance",
-        {
-          fontSize: '24px',
-          color: '#ffffff',
-          fontStyle: 'bold',
-          align: 'center'
-        }
-      );
-      title.setOrigin(0.5);
-      title.setScrollFactor(0);
-      this.dialogueBox.add(title);
-      
-      // Create feature list text
-      const featuresText = [
-        "Key Features:",
-        "",
-        "• Unmatched Privacy - Zero-knowledge proofs ensure your transaction details remain confidential",
-        "",
-        "• Concentrated Liquidity - Flexible placement for optimized returns on your liquidity provisions",
-        "",
-        "• Limit Orders - Take control of your trading with advanced order types typically found on centralized exchanges",
-        "",
-        "• Central Liquidity Hub - Core infrastructure for the Aleo blockchain ecosystem",
-        "",
-        "• Advanced Trading Tools - Professional trading features in a decentralized environment",
-        "",
-        "• Future-Proof Design - Continuous improvement and feature expansion",
-      ].join("\n");
-      
-      const features = this.add.text(
-        x,
-        y,
-        featuresText,
-        {
-          fontSize: '16px',
-          color: '#cccccc',
-          align: 'left',
-          lineSpacing: 5,
-          wordWrap: { width: 650 }
-        }
-      );
-      features.setOrigin(0.5, 0.5);
-      features.setScrollFactor(0);
-      this.dialogueBox.add(features);
-      
-      // Add navigation buttons
-      const backButton = this.add.rectangle(
-        x - 110,
-        y + 220,
-        100,
-        35,
-        0x6495ED,
-        0.3
-      );
-      backButton.setScrollFactor(0);
-      backButton.setStrokeStyle(1, 0x6495ED, 0.7);
-      backButton.setInteractive({ useHandCursor: true });
-      
-      // Add hover effect for back button
-      backButton.on('pointerover', () => {
-        backButton.fillColor = 0x6495ED;
-        backButton.fillAlpha = 0.7;
-      });
-      
-      backButton.on('pointerout', () => {
-        backButton.fillColor = 0x6495ED;
-        backButton.fillAlpha = 0.3;
-      });
-      
-      // Add click handler for back button
-      backButton.on('pointerdown', () => {
-        this.showArcaneDialogue();
-      });
-      
-      // Add back button text
-      const backText = this.add.text(
-        x - 110,
-        y + 220,
-        "Back",
-        {
-          fontSize: '16px',
-          color: '#ffffff',
-          align: 'center'
-        }
-      );
-      backText.setOrigin(0.5);
-      backText.setScrollFactor(0);
-      
-      // Add next button to Aleo info
-      const nextButton = this.add.rectangle(
-        x + 110,
-        y + 220,
-        100,
-        35,
-        0x0052CC,
-        0.3
-      );
-      nextButton.setScrollFactor(0);
-      nextButton.setStrokeStyle(1, 0x0052CC, 0.7);
-      nextButton.setInteractive({ useHandCursor: true });
-      
-      // Add hover effect for next button
-      nextButton.on('pointerover', () => {
-        nextButton.fillColor = 0x0052CC;
-        nextButton.fillAlpha = 0.7;
-      });
-      
-      nextButton.on('pointerout', () => {
-        nextButton.fillColor = 0x0052CC;
-        nextButton.fillAlpha = 0.3;
-      });
-      
-      // Add click handler for next button
-      nextButton.on('pointerdown', () => {
-        this.showAleoInfoDialogue();
-      });
-      
-      // Add next button text
-      const nextText = this.add.text(
-        x + 110,
-        y + 220,
-        "Next",
-        {
-          fontSize: '16px',
-          color: '#ffffff',
-          align: 'center'
-        }
-      );
-      nextText.setOrigin(0.5);
-      nextText.setScrollFactor(0);
-      
-      // Add buttons to container
-      this.dialogueBox.add(backButton);
-      this.dialogueBox.add(backText);
-      this.dialogueBox.add(nextButton);
-      this.dialogueBox.add(nextText);
-      
-      // Add fade-in effect
-      this.dialogueBox.setAlpha(0);
-      this.tweens.add({
-        targets: this.dialogueBox,
-        alpha: 1,
-        duration: 200,
-        ease: 'Power1'
-      });
-      
-      // Add escape key handler
-      this.input.keyboard?.once('keydown-ESC', () => {
-        this.showArcaneDialogue();
-      });
-    });
-  }
-
-  /**
-   * Show information about Aleo Blockchain
-   */
-  showAleoInfoDialogue() {
-    this.switchDialogue(() => {
-      const x = this.cameras.main.width / 2;
-      const y = this.cameras.main.height / 2;
-      
-      // Create container
-      this.dialogueBox = this.add.container(0, 0);
-      this.dialogueBox.setDepth(2000);
-      
-      // Create background
-      const bg = this.add.rectangle(
-        x,
-        y,
-        700,
-        600,
-        0x000000,
-        0.9
-      );
-      bg.setScrollFactor(0);
-      bg.setStrokeStyle(2, 0x0052CC, 0.8);
-      this.dialogueBox.add(bg);
-      
-      // Create title
-      const title = this.add.text(
-        x,
-        y - 240,
-        "About Aleo Blockchain",
-        {
-          fontSize: '24px',
-          color: '#ffffff',
-          fontStyle: 'bold',
-          align: 'center'
-        }
-      );
-      title.setOrigin(0.5);
-      title.setScrollFactor(0);
-      this.dialogueBox.add(title);
-      
-      // Create information text
-      const infoText = [
-        "Aleo is a privacy-focused blockchain platform that leverages zero-knowledge proofs (ZKPs) to enable fully private and scalable decentralized applications (dApps).",
-        "",
-        "Key Features of Aleo:",
-        "",
-        "• Zero-Knowledge Proofs - Advanced cryptographic techniques verify transactions without revealing sensitive information",
-        "",
-        "• Privacy by Default - All transactions on Aleo are private by default, giving users control over their data",
-        "",
-        "• Programmability - Leo programming language allows developers to build privacy-preserving applications",
-        "",
-        "• Decentralization - A network of validators ensures the integrity of the blockchain without compromising privacy"
-      ].join("\n");
-      
-      const info = this.add.text(
-        x,
-        y,
-        infoText,
-        {
-          fontSize: '16px',
-          color: '#cccccc',
-          align: 'left',
-          lineSpacing: 5,
-          wordWrap: { width: 650 }
-        }
-      );
-      info.setOrigin(0.5, 0.5);
-      info.setScrollFactor(0);
-      this.dialogueBox.add(info);
-      
-      // Add navigation buttons
-      const backButton = this.add.rectangle(
-        x - 110,
-        y + 220,
-        100,
-        35,
-        0x6495ED,
-        0.3
-      );
-      backButton.setScrollFactor(0);
-      backButton.setStrokeStyle(1, 0x6495ED, 0.7);
-      backButton.setInteractive({ useHandCursor: true });
-      
-      // Add hover effect for back button
-      backButton.on('pointerover', () => {
-        backButton.fillColor = 0x6495ED;
-        backButton.fillAlpha = 0.7;
-      });
-      
-      backButton.on('pointerout', () => {
-        backButton.fillColor = 0x6495ED;
-        backButton.fillAlpha = 0.3;
-      });
-      
-      // Add click handler for back button
-      backButton.on('pointerdown', () => {
-        this.showArcaneFeaturesDialogue();
-      });
-      
-      // Add back button text
-      const backText = this.add.text(
-        x - 110,
-        y + 220,
-        "Previous",
-        {
-          fontSize: '16px',
-          color: '#ffffff',
-          align: 'center'
-        }
-      );
-      backText.setOrigin(0.5);
-      backText.setScrollFactor(0);
-      
-      // Add main menu button
-      const menuButton = this.add.rectangle(
-        x + 110,
-        y + 220,
-        100,
-        35,
-        0x0052CC,
-        0.3
-      );
-      menuButton.setScrollFactor(0);
-      menuButton.setStrokeStyle(1, 0x0052CC, 0.7);
-      menuButton.setInteractive({ useHandCursor: true });
-      
-      // Add hover effect for menu button
-      menuButton.on('pointerover', () => {
-        menuButton.fillColor = 0x0052CC;
-        menuButton.fillAlpha = 0.7;
-      });
-      
-      menuButton.on('pointerout', () => {
-        menuButton.fillColor = 0x0052CC;
-        menuButton.fillAlpha = 0.3;
-      });
-      
-      // Add click handler for menu button
-      menuButton.on('pointerdown', () => {
-        this.showArcaneDialogue();
-      });
-      
-      // Add menu button text
-      const menuText = this.add.text(
-        x + 110,
-        y + 220,
-        "Main Menu",
-        {
-          fontSize: '16px',
-          color: '#ffffff',
-          align: 'center'
-        }
-      );
-      menuText.setOrigin(0.5);
-      menuText.setScrollFactor(0);
-      
-      // Add buttons to container
-      this.dialogueBox.add(backButton);
-      this.dialogueBox.add(backText);
-      this.dialogueBox.add(menuButton);
-      this.dialogueBox.add(menuText);
-      
-      // Add fade-in effect
-      this.dialogueBox.setAlpha(0);
-      this.tweens.add({
-        targets: this.dialogueBox,
-        alpha: 1,
-        duration: 200,
-        ease: 'Power1'
-      });
-      
-      // Add escape key handler
-      this.input.keyboard?.once('keydown-ESC', () => {
-        this.showArcaneDialogue();
-      });
+    this.dialogue?.start('buildings/arcane', {
+      actions: {
+        showMessage: (_context, message) => this.showMessage(String(message))
+      }
     });
   }
-
-  /**
-   * Open the Arcane Finance website in a new tab
-   */
-  openArcaneWebsite() {
-    // Open the Arcane Finance website in a new tab
-    if (typeof window !== 'undefined') {
-      window.open('https://app.arcane.finance/', '_blank');
-    }
-    
-    // Close the dialogue
-    this.closeDialogueBox();
-    
-    // Show a confirmation message
-    this.showMessage("Opening Arcane Finance app in a new tab!");
-  }
-
-  /**
-   * Close the dialogue box
-   */
-  closeDialogueBox() {
-    if (this.dialogueBox) {
-      // Fade out and destroy
-      this.tweens.add({
-        targets: this.dialogueBox,
-        alpha: 0,
-        duration: 200,
-        ease: 'Power1',
-        onComplete: () => {
-          if (this.dialogueBox) {
-            this.dialogueBox.destroy();
-            this.dialogueBox = undefined;
-          }
-        }
-      });
-    }
-  }
 } 
\ No newline at end of file
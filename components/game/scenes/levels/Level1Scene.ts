@@ -1,8 +1,9 @@
 'use client'; /* This file is only executed on the client side */
 
-import { Scene } from 'phaser';
-import { loadTilemap, addCollision, MapLayers } from '@/lib/utils/mapLoader';
-import Player from '@/lib/classes/Player';
+import BaseLevelScene from '@/components/game/scenes/BaseLevelScene';
+import DialogueRunner from '@/lib/classes/DialogueRunner';
+import { preloadDialogues } from '@/lib/utils/dialogueLoader';
+import { preloadQuizzes } from '@/lib/utils/quizLoader';
 
 /**
  * Level1Scene - The Awakening (Intro + Lore)
@@ -12,37 +13,29 @@ import Player from '@/lib/classes/Player';
  * The level features a character standing in the doorway that won't let the player
  * pass until they understand privacy concepts: data loss, exposure, identity theft.
  */
-export default class Level1Scene extends Scene {
-  private player?: Player;
-  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
-  private map?: Phaser.Tilemaps.Tilemap;
-  private layers?: MapLayers;
-  private interactiveObjects: Phaser.GameObjects.GameObject[] = [];
-  private interactionIndicator?: Phaser.GameObjects.Sprite;
-  private computerInteractionIndicator?: Phaser.GameObjects.Sprite;
-  private nearbyObject?: Phaser.GameObjects.GameObject;
+export default class Level1Scene extends BaseLevelScene {
   private guardNPC?: Phaser.GameObjects.Sprite;
   private gate?: Phaser.Physics.Arcade.Sprite;
   private exitGate?: Phaser.Physics.Arcade.Sprite;
   private keycard?: Phaser.GameObjects.Sprite;
   private hasKeycard: boolean = false;
   private gateOpen: boolean = false;
+  // Quiz the player has to pass before the exit gate opens, undefined for none
+  private gateQuiz?: string = 'level1/privacy';
 
   constructor() {
     super({ key: 'Level1Scene' });
   }
 
   init() {
-    // Store current scene in localStorage for development mode reload
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('currentScene', this.scene.key);
-      console.log('Current scene saved:', this.scene.key);
-    }
-    
-    // Initialize interactive objects array
-    this.interactiveObjects = [];
-    
-    // Initialize flag for gate status
+    super.init();
+    
+    // Restart Level reuses this instance, so every run starts without the keycard
+    this.guardNPC = undefined;
+    this.gate = undefined;
+    this.exitGate = undefined;
+    this.keycard = undefined;
+    this.hasKeycard = false;
     this.gateOpen = false;
   }
 
@@ -108,50 +101,14 @@ export default class Level1Scene extends Scene {
     
     // Create placeholder images for objects that don't exist yet
     this.createPlaceholderTiles(['desk']);
-  }
-
-  /**
-   * Create a wall texture for the level boundaries
-   */
-  createWallTexture() {
-    const size = 48; // Match the floor tile size
     
-    // Create a canvas texture for the wall
-    const wallCanvas = this.textures.createCanvas('wall', size, size);
-    const ctx = wallCanvas?.getContext();
+    // Load the NPC and terminal conversations
+    preloadDialogues(this, ['level1/computer', 'level1/guard']);
     
-    if (!wallCanvas || !ctx) {
-      console.error('Failed to create canvas texture for wall');
-      return;
+    // Load the quiz guarding the exit gate
+    if (this.gateQuiz) {
+      preloadQuizzes(this, [this.gateQuiz]);
     }
-    
-    // Draw a simple wall texture
-    ctx.fillStyle = '#6D5D4B'; // Brown wall color
-    ctx.fillRect(0, 0, size, size);
-    
-    // Add some brick pattern
-    ctx.fillStyle = '#5D4D3B'; // Darker brown for brick lines
-    
-    // Horizontal brick lines
-    for (let y = 12; y < size; y += 12) {
-      ctx.fillRect(0, y, size, 2);
-    }
-    
-    // Vertical brick lines (offset every other row)
-    for (let x = 0; x < size; x += 24) {
-      ctx.fillRect(x, 0, 2, 12);
-      ctx.fillRect(x + 12, 12, 2, 12);
-      ctx.fillRect(x, 24, 2, 12);
-      ctx.fillRect(x + 12, 36, 2, 12);
-    }
-    
-    // Add some highlight and shadow to give depth
-    ctx.strokeStyle = '#7D6D5B'; // Lighter color for highlights
-    ctx.lineWidth = 1;
-    ctx.strokeRect(1, 1, size - 2, size - 2);
-    
-    // Update the canvas texture
-    wallCanvas.refresh();
   }
 
   /**
@@ -189,6 +146,9 @@ export default class Level1Scene extends Scene {
   }
 
   create() {
+    // Shared dialogue box for NPCs and terminals
+    this.dialogue = new DialogueRunner(this);
+    
     // Initialize physics world if it doesn't exist
     if (!this.physics.world) {
       console.warn('Physics world not initialized, skipping debug clear');
@@ -203,38 +163,8 @@ export default class Level1Scene extends Scene {
     
     console.log('Starting create() method...');
     
-    // Load the tilemap
-    try {
-      console.log('Loading level1 tilemap...');
-      const { map, layers } = loadTilemap(
-        this,
-        'level1',
-        ['Floor', 'Backwall', 'Objects', 'Collision'],
-        ['Collision'] // Only use the Collision layer for collisions
-      );
-      
-      this.map = map;
-      this.layers = layers;
-      
-      console.log('Tilemap loaded successfully:', {
-        map: !!this.map,
-        layers: !!this.layers,
-        layerNames: Object.keys(this.layers || {})
-      });
-      
-      // Set world bounds based on the map dimensions
-      if (this.map) {
-        const mapWidth = this.map.widthInPixels;
-        const mapHeight = this.map.heightInPixels;
-        this.physics.world.setBounds(0, 0, mapWidth, mapHeight);
-        console.log(`Map dimensions: ${mapWidth}x${mapHeight}`);
-        
-        // Center the map in the game canvas
-        this.centerMap();
-      }
-    } catch (error) {
-      console.error('Failed to load level1 tilemap:', error);
-      // Fall back to creating a programmatic level
+    // Load the tilemap, falling back to a programmatic level
+    if (!this.loadLevelMap('level1', ['Floor', 'Backwall', 'Objects', 'Collision'])) {
       this.createLevel();
     }
     
@@ -242,36 +172,7 @@ export default class Level1Scene extends Scene {
     // Couch is at tile X=13, Y=16 (0-indexed map tiles)
     const startX = (13 * 48) + (48 / 2); // Center of tile 13
     const startY = (16.5 * 48) + (48 / 2); // Center of tile 16, should place player visually on the couch
-    this.player = new Player(this, startX, startY);
-    // Or, if you have specific facing animations:
-     this.player.sprite.anims.play('player-idle-left', true);
-    
-    // Add collision with the Collision layer
-    if (this.player && this.layers) {
-      addCollision(this, this.player.sprite, this.layers, ['Collision']);
-    }
-    
-    // Set up input
-    this.cursors = this.input?.keyboard?.createCursorKeys();
-    
-    // Add space key for interactions
-    this.input.keyboard?.on('keydown-SPACE', () => {
-      this.interactWithNearbyObject();
-    });
-    
-    // Set up camera to follow player
-    if (this.player) {
-      this.cameras.main.startFollow(this.player.sprite, true, 0.08, 0.08);
-      this.cameras.main.setZoom(1);
-      
-      // Set camera bounds based on the map
-      if (this.map) {
-        this.cameras.main.setBounds(0, 0, this.map.widthInPixels, this.map.heightInPixels);
-      }
-      
-      // Add a subtle deadzone for smoother camera
-      this.cameras.main.setDeadzone(100, 100);
-    }
+    this.spawnPlayer(startX, startY, { facing: 'left' });
     
     // Create the guard NPC and silver gate
     this.createNPCs();
@@ -285,51 +186,6 @@ export default class Level1Scene extends Scene {
     console.log('Computer interaction creation completed');
   }
   
-  /**
-   * Center the map within the game window
-   */
-  centerMap() {
-    if (!this.map) return;
-    
-    // Get the map and game dimensions
-    const mapWidth = this.map.widthInPixels;
-    const mapHeight = this.map.heightInPixels;
-    const gameWidth = this.scale.width;
-    const gameHeight = this.scale.height;
-    
-    // Calculate offset to center the map
-    const offsetX = Math.max(0, (gameWidth - mapWidth) / 2);
-    const offsetY = Math.max(0, (gameHeight - mapHeight) / 2);
-    
-    // Apply offset to all map layers by moving the container
-    if (this.map.layers) {
-      this.map.layers.forEach(layer => {
-        if (layer.tilemapLayer) {
-          layer.tilemapLayer.x = offsetX;
-          layer.tilemapLayer.y = offsetY;
-        }
-      });
-    }
-    
-    // Adjust physics world bounds
-    this.physics.world.setBounds(
-      offsetX, 
-      offsetY, 
-      mapWidth, 
-      mapHeight
-    );
-    
-    // Adjust camera bounds
-    this.cameras.main.setBounds(
-      offsetX,
-      offsetY,
-      mapWidth,
-      mapHeight
-    );
-    
-    console.log(`Centered map with offset: (${offsetX}, ${offsetY})`);
-  }
-  
   /**
    * Create the level layout based on the screenshot
    */
@@ -460,205 +316,14 @@ export default class Level1Scene extends Scene {
 
     // Create an invisible interaction zone for the computer
     const computer = this.add.rectangle(computerX, computerY, tileSize * 3, tileSize, 0x000000, 0);
-    computer.setData('interactive', true);
-    computer.setData('onInteract', () => {
-      this.showComputerDialogue();
-    });
-
-    // Create dedicated indicator for computer with its own unique texture
-    const indicatorY = computerY - 40;
-    
-    // Create a dedicated texture just for the computer interaction
-    const computerIndicatorName = 'computer-interaction-dot'; // Completely new name
-    if (!this.textures.exists(computerIndicatorName)) {
-      const graphics = this.make.graphics({ x: 0, y: 0 });
-      
-      // Clear any previous drawing
-      graphics.clear();
-      
-      // Draw a white background to reset anything
-      graphics.fillStyle(0x000000, 0);
-      graphics.fillRect(0, 0, 32, 32);
-      
-      // Draw a small white dot with a glow effect
-      graphics.fillStyle(0xFFFFFF, 0.8);
-      graphics.fillCircle(16, 16, 4);
-      
-      // Add a subtle glow/halo
-      graphics.fillStyle(0xFFFFFF, 0.3);
-      graphics.fillCircle(16, 16, 8);
-      
-      graphics.generateTexture(computerIndicatorName, 32, 32);
-      console.log(`Created new computer indicator texture: ${computerIndicatorName}`);
-    }
-    
-    // Explicitly destroy any previous indicator
-    if (this.computerInteractionIndicator) {
-      this.computerInteractionIndicator.destroy();
-    }
-    
-    // Use the dedicated computer indicator texture
-    this.computerInteractionIndicator = this.add.sprite(computerX, indicatorY, computerIndicatorName);
-    console.log(`Computer indicator created at ${computerX},${indicatorY} with texture ${computerIndicatorName}`);
-
-    // Set up the computer indicator with same animations as NPC
-    this.computerInteractionIndicator.setVisible(false);
-    this.computerInteractionIndicator.setDepth(200);
-    
-    // Add bobbing animation
-    this.tweens.add({
-      targets: this.computerInteractionIndicator,
-      y: indicatorY - 6,
-      duration: 1200,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    // Add pulsing effect
-    this.tweens.add({
-      targets: this.computerInteractionIndicator,
-      alpha: 0.6,
-      duration: 1000,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-
-    // Add to interactive objects array
-    this.interactiveObjects.push(computer);
+    this.addInteractable(computer, () => this.showComputerDialogue());
   }
 
   /**
    * Show educational dialogue about Web3 wallets when interacting with the computer
    */
   showComputerDialogue() {
-    const width = this.cameras.main.width;
-    const height = this.cameras.main.height;
-    
-    // Create a larger dialogue box for more content
-    const dialogueBox = this.add.rectangle(
-      width / 2,
-      height - 300,
-      width - 30,
-      580,
-      0x000000,
-      1
-    );
-    dialogueBox.setScrollFactor(0);
-    dialogueBox.setOrigin(0.5);
-    dialogueBox.setStrokeStyle(2, 0x00ff00);
-    dialogueBox.setDepth(1000);
-
-    // Add a semi-transparent overlay behind the dialogue box
-    const overlay = this.add.rectangle(
-      width / 2,
-      height / 2,
-      width,
-      height,
-      0x000000,
-      0.5
-    );
-    overlay.setScrollFactor(0);
-    overlay.setDepth(999);
-
-    const message = "> TERMINAL ACCESS - PRIVACY ARCHIVES\n\n" +
-      "Web3 wallets are your digital identity in the new world. Unlike traditional wallets that expose your every transaction, Web3 wallets with zero-knowledge proofs let you prove things about yourself without revealing the underlying data.\n\n" +
-      "These wallets are your digital passport. They allow you to:\n\n" +
-      "- Prove your identity without revealing personal info\n" +
-      "- Make transactions that remain private\n" +
-      "- Control what data you share and with whom\n" +
-      "- Allow for true compliance with privacy laws\n" +
-      "- Interact permissionlessly";
-
-    const text = this.add.text(
-      width / 2,
-      height - 320,
-      '', // Start empty for typewriter effect
-      {
-        fontSize: '18px',
-        color: '#00ff00',
-        align: 'left',
-        wordWrap: { width: width - 60 },
-        lineSpacing: 6,
-        backgroundColor: undefined
-      }
-    );
-    text.setScrollFactor(0);
-    text.setOrigin(0.5);
-    text.setDepth(1000);
-
-    // Create close button
-    const buttonWidth = 160;
-    const buttonHeight = 40;
-    
-    const closeButton = this.add.rectangle(
-      width / 2,
-      height - 70,
-      buttonWidth,
-      buttonHeight,
-      0x666666
-    );
-    closeButton.setScrollFactor(0);
-    closeButton.setInteractive({ useHandCursor: true });
-    closeButton.setVisible(false);
-    closeButton.setDepth(1000);
-    
-    const closeText = this.add.text(
-      closeButton.x,
-      closeButton.y,
-      'Close Terminal',
-      {
-        fontSize: '16px',
-        color: '#FFFFFF'
-      }
-    );
-    closeText.setScrollFactor(0);
-    closeText.setOrigin(0.5);
-    closeText.setVisible(false);
-    closeText.setDepth(1000);
-    
-    // Group all dialogue elements
-    const dialogueGroup = this.add.group([
-      overlay,
-      dialogueBox,
-      text,
-      closeButton,
-      closeText
-    ]);
-
-    // Typewriter effect function
-    let currentChar = 0;
-    const typingSpeed = 5;
-    
-    const typewriterTimer = this.time.addEvent({
-      delay: typingSpeed,
-      callback: () => {
-        text.setText(message.substring(0, currentChar));
-        currentChar++;
-        
-        // When typing is complete, show the close button
-        if (currentChar > message.length) {
-          typewriterTimer.destroy();
-          closeButton.setVisible(true);
-          closeText.setVisible(true);
-        }
-      },
-      repeat: message.length
-    });
-
-    // Handle close button click
-    closeButton.on('pointerdown', () => {
-      dialogueGroup.destroy(true);
-    });
-    
-    // Add hover effects
-    closeButton.on('pointerover', () => {
-      closeButton.setFillStyle(0x555555);
-    });
-    closeButton.on('pointerout', () => {
-      closeButton.setFillStyle(0x666666);
-    });
+    this.dialogue?.start('level1/computer');
   }
   
   /**
@@ -667,12 +332,8 @@ export default class Level1Scene extends Scene {
   createNPCs() {
     // First, clean up any existing guard NPCs to avoid duplicates
     if (this.guardNPC) {
+      this.removeInteractable(this.guardNPC);
       this.guardNPC.destroy();
-      // Remove from interactive objects array if it exists
-      const index = this.interactiveObjects.findIndex(obj => obj === this.guardNPC);
-      if (index !== -1) {
-        this.interactiveObjects.splice(index, 1);
-      }
       this.guardNPC = undefined;
     }
     
@@ -707,13 +368,7 @@ export default class Level1Scene extends Scene {
       this.guardNPC = this.add.sprite(guardX, guardY, 'guard');
       
       // Make the guard interactive
-      this.guardNPC.setData('interactive', true);
-      this.guardNPC.setData('onInteract', () => {
-        this.showGuardDialogue();
-      });
-      
-      // Add to interactive objects array
-      this.interactiveObjects.push(this.guardNPC);
+      this.addInteractable(this.guardNPC, () => this.showGuardDialogue());
       
       // Create the gate above the guard
       const gateX = guardX + 120; // One tile to the right of guard
@@ -789,182 +444,37 @@ export default class Level1Scene extends Scene {
    * Show dialogue when player interacts with the guard
    */
   showGuardDialogue() {
-    // Create a dialogue box
-    const width = this.cameras.main.width;
-    const height = this.cameras.main.height;
-    
-    const dialogueBox = this.add.rectangle(
-      width / 2,
-      height - 150,
-      width - 30,
-      280,
-      0x000000,
-      0.9
-    );
-    dialogueBox.setScrollFactor(0);
-    dialogueBox.setOrigin(0.5);
-    dialogueBox.setStrokeStyle(2, 0xFFFFFF);
-    
-    const message = "Dr. Cipherpunk: \"Hey kid, the world you lived in is gone. It's been scraped and sold. You want to leave this cell? Then build your new identity. Get a wallet and claim your own control. Privacy is the only freedom left.\"";
-    
-    const text = this.add.text(
-      width / 2,
-      height - 180,
-      '', // Start empty for typewriter effect
-      {
-        fontSize: '24px',
-        color: '#FFFFFF',
-        align: 'center',
-        wordWrap: { width: width - 60 },
-        lineSpacing: 8
-      }
-    );
-    text.setScrollFactor(0);
-    text.setOrigin(0.5);
-    
-    // Create buttons but hide them initially
-    const buttonWidth = 160;
-    const buttonHeight = 40;
-    const buttonSpacing = 20;
-    
-    // Get Wallet button
-    const getWalletButton = this.add.rectangle(
-      width / 2 - buttonWidth/2 - buttonSpacing,
-      height - 55,
-      buttonWidth,
-      buttonHeight,
-      0x4CAF50
-    );
-    getWalletButton.setScrollFactor(0);
-    getWalletButton.setInteractive({ useHandCursor: true });
-    getWalletButton.setVisible(false);
-    
-    const getWalletText = this.add.text(
-      getWalletButton.x,
-      getWalletButton.y,
-      'Get a Wallet',
-      {
-        fontSize: '16px',
-        color: '#FFFFFF'
+    this.dialogue?.start('level1/guard', {
+      actions: {
+        openCellGate: () => this.openCellGate()
       }
-    );
-    getWalletText.setScrollFactor(0);
-    getWalletText.setOrigin(0.5);
-    getWalletText.setVisible(false);
-    
-    // Not Ready button
-    const notReadyButton = this.add.rectangle(
-      width / 2 + buttonWidth/2 + buttonSpacing,
-      height - 55,
-      buttonWidth,
-      buttonHeight,
-      0x666666
-    );
-    notReadyButton.setScrollFactor(0);
-    notReadyButton.setInteractive({ useHandCursor: true });
-    notReadyButton.setVisible(false);
-    
-    const notReadyText = this.add.text(
-      notReadyButton.x,
-      notReadyButton.y,
-      'Not Ready',
-      {
-        fontSize: '16px',
-        color: '#FFFFFF'
-      }
-    );
-    notReadyText.setScrollFactor(0);
-    notReadyText.setOrigin(0.5);
-    notReadyText.setVisible(false);
-    
-    // Group all dialogue elements
-    const dialogueGroup = this.add.group([
-      dialogueBox, 
-      text, 
-      getWalletButton, 
-      getWalletText,
-      notReadyButton,
-      notReadyText
-    ]);
-    
-    // Typewriter effect
-    let currentChar = 0;
-    const typingSpeed = 10; // milliseconds per character
-    
-    const typewriterTimer = this.time.addEvent({
-      delay: typingSpeed,
-      callback: () => {
-        text.setText(message.substring(0, currentChar));
-        currentChar++;
-        
-        // When typing is complete, show the buttons
-        if (currentChar > message.length) {
-          typewriterTimer.destroy();
-          getWalletButton.setVisible(true);
-          getWalletText.setVisible(true);
-          notReadyButton.setVisible(true);
-          notReadyText.setVisible(true);
-        }
-      },
-      repeat: message.length
     });
+  }
+  
+  /**
+   * Slide the cell gate open once the player agrees to get a wallet
+   */
+  openCellGate() {
+    if (!this.gate) return;
     
-    // Function to handle getting wallet
-    const getWallet = () => {
-      // Open wallet URL in new tab
-      if (typeof window !== 'undefined') {
-        window.open('https://chromewebstore.google.com/detail/puzzle-aleo-wallet/fdchdcpieegfofnofhgdombfckhbcokj', '_blank');
-      }
-      
-      // Open the gate
-      if (this.gate) {
-        // Disable the gate's collision body
-        if (this.gate.body) {
-          this.gate.body.enable = false;
-        }
-        
-        try {
-          // Get stored frame dimensions
-          const frameWidth = this.gate.getData('frameWidth');
-          const textureHeight = this.gate.getData('textureHeight');
-          
-          if (frameWidth && textureHeight) {
-            // Switch to the second frame
-            this.gate.setCrop(frameWidth, 0, frameWidth, textureHeight);
-            this.gate.x -= frameWidth;
-          }
-        } catch (error) {
-          console.error('Error opening gate:', error);
-        }
-      }
-      
-      // Clean up dialogue
-      dialogueGroup.destroy(true);
-    };
-    
-    // Function to handle not ready
-    const notReady = () => {
-      dialogueGroup.destroy(true);
-    };
-    
-    // Handle button clicks
-    getWalletButton.on('pointerdown', getWallet);
-    notReadyButton.on('pointerdown', notReady);
-    
-    // Add hover effects
-    getWalletButton.on('pointerover', () => {
-      getWalletButton.setFillStyle(0x45A049);
-    });
-    getWalletButton.on('pointerout', () => {
-      getWalletButton.setFillStyle(0x4CAF50);
-    });
+    // Disable the gate's collision body
+    if (this.gate.body) {
+      this.gate.body.enable = false;
+    }
     
-    notReadyButton.on('pointerover', () => {
-      notReadyButton.setFillStyle(0x555555);
-    });
-    notReadyButton.on('pointerout', () => {
-      notReadyButton.setFillStyle(0x666666);
-    });
+    try {
+      // Get stored frame dimensions
+      const frameWidth = this.gate.getData('frameWidth');
+      const textureHeight = this.gate.getData('textureHeight');
+      
+      if (frameWidth && textureHeight) {
+        // Switch to the second frame
+        this.gate.setCrop(frameWidth, 0, frameWidth, textureHeight);
+        this.gate.x -= frameWidth;
+      }
+    } catch (error) {
+      console.error('Error opening gate:', error);
+    }
   }
   
   /**
@@ -978,6 +488,7 @@ export default class Level1Scene extends Scene {
     
     console.log('Inserting keycard...');
     this.hasKeycard = true;
+    this.audio?.playSfx('sfx-keycard');
     
     // Create a visual and text feedback
     const width = this.cameras.main.width;
@@ -1035,12 +546,9 @@ export default class Level1Scene extends Scene {
         scale: 0,
         duration: 300,
         onComplete: () => {
-          this.keycard?.destroy();
-          
-          // Remove from interactive objects array
-          const index = this.interactiveObjects.findIndex(obj => obj === this.keycard);
-          if (index !== -1) {
-            this.interactiveObjects.splice(index, 1);
+          if (this.keycard) {
+            this.removeInteractable(this.keycard);
+            this.keycard.destroy();
           }
           
           this.keycard = undefined;
@@ -1056,191 +564,6 @@ export default class Level1Scene extends Scene {
     
   }
   
-  /**
-   * Check if any interactive objects are in range and show indicators
-   */
-  checkInteractiveObjects() {
-    if (!this.player) return;
-    
-    // Check if player is near the exit gate and has the keycard
-    if (this.exitGate && this.hasKeycard && this.exitGate.getData('isLocked')) {
-      const playerBounds = this.player.sprite.getBounds();
-      const gateBounds = this.exitGate.getBounds();
-      
-      // Add some tolerance to the check to make it easier to trigger
-      gateBounds.x -= 20;
-      gateBounds.width += 40;
-      
-      if (Phaser.Geom.Rectangle.Overlaps(playerBounds, gateBounds)) {
-        console.log('Player is at the exit gate with keycard - opening gate');
-        this.openExitGate();
-      }
-    }
-    
-    // Check if player is touching the open exit gate (for level transition)
-    if (this.exitGate && !this.exitGate.getData('isLocked') && !this.exitGate.getData('transitioning')) {
-      const playerBounds = this.player.sprite.getBounds();
-      const gateBounds = this.exitGate.getBounds();
-      
-      if (Phaser.Geom.Rectangle.Overlaps(playerBounds, gateBounds)) {
-        console.log('Player is going through the open exit gate - transitioning to next level');
-        this.transitionToNextLevel();
-      }
-    }
-    
-    // Original code for finding interactive objects
-    const playerPos = this.player.sprite.getCenter();
-    const interactDistance = 60; // Interaction range
-    let closestObject: Phaser.GameObjects.GameObject | undefined;
-    let closestDistance = interactDistance;
-    
-    // Find the closest interactive object in range
-    this.interactiveObjects.forEach(obj => {
-      let objX = 0;
-      let objY = 0;
-      
-      if ('getCenter' in obj) {
-        const center = (obj as unknown as Phaser.GameObjects.Sprite).getCenter();
-        objX = center.x;
-        objY = center.y;
-      } else if ('x' in obj && 'y' in obj) {
-        objX = (obj as unknown as { x: number }).x;
-        objY = (obj as unknown as { y: number }).y;
-      }
-      
-      const distance = Phaser.Math.Distance.Between(
-        playerPos.x, playerPos.y,
-        objX, objY
-      );
-      
-      if (distance < closestDistance) {
-        closestObject = obj;
-        closestDistance = distance;
-      }
-    });
-    
-    // If we found an object in range, show indicator
-    if (closestObject && closestObject !== this.nearbyObject) {
-      this.nearbyObject = closestObject;
-      this.showInteractionIndicator(closestObject);
-    } 
-    // If we moved out of range of the previous object
-    else if (!closestObject && this.nearbyObject) {
-      this.hideInteractionIndicator();
-      this.nearbyObject = undefined;
-    }
-  }
-  
-  /**
-   * Show interaction indicator above an object
-   */
-  showInteractionIndicator(object: Phaser.GameObjects.GameObject) {
-    // Check if this is the computer interaction
-    if (object.getData('onInteract')?.toString().includes('showComputerDialogue')) {
-      console.log('Showing computer indicator');
-      // Make sure computer indicator exists and is visible
-      if (this.computerInteractionIndicator) {
-        this.computerInteractionIndicator.setVisible(true);
-      } else {
-        console.warn('Computer indicator not found when trying to show it');
-      }
-      return;
-    }
-
-    // Otherwise use the regular indicator for other objects
-    let objX = 0;
-    let objY = 0;
-    
-    if ('getCenter' in object) {
-      const center = (object as unknown as Phaser.GameObjects.Sprite).getCenter();
-      objX = center.x;
-      objY = center.y;
-    } else if ('x' in object && 'y' in object) {
-      objX = (object as unknown as { x: number }).x;
-      objY = (object as unknown as { y: number }).y;
-    }
-    
-    // Position above the object
-    const x = objX;
-    const y = objY - 40;
-    
-    // If we don't have an indicator yet, create one
-    if (!this.interactionIndicator) {
-      // Create a simple indicator
-      this.interactionIndicator = this.add.sprite(x, y, 'interaction-indicator');
-      
-      if (!this.textures.exists('interaction-indicator')) {
-        const graphics = this.make.graphics({ x: 0, y: 0 });
-        
-        // Draw a small white dot with a glow effect
-        graphics.fillStyle(0xFFFFFF, 0.8);
-        graphics.fillCircle(16, 16, 4);
-        
-        // Add a subtle glow/halo
-        graphics.fillStyle(0xFFFFFF, 0.3);
-        graphics.fillCircle(16, 16, 8);
-        
-        graphics.generateTexture('interaction-indicator', 32, 32);
-      }
-      
-      // Add a subtle bobbing animation
-      this.tweens.add({
-        targets: this.interactionIndicator,
-        y: y - 6,
-        duration: 1200,
-        yoyo: true,
-        repeat: -1,
-        ease: 'Sine.easeInOut'
-      });
-      
-      // Add a subtle pulsing effect
-      this.tweens.add({
-        targets: this.interactionIndicator,
-        alpha: 0.6,
-        duration: 1000,
-        yoyo: true,
-        repeat: -1,
-        ease: 'Sine.easeInOut'
-      });
-    }
-    
-    // Set the texture and make visible
-    this.interactionIndicator.setTexture('interaction-indicator');
-    this.interactionIndicator.setVisible(true);
-    this.interactionIndicator.setPosition(x, y);
-    
-    // Set high depth to ensure it's visible
-    this.interactionIndicator.setDepth(200);
-  }
-  
-  /**
-   * Hide the interaction indicator
-   */
-  hideInteractionIndicator() {
-    // Hide regular indicator
-    if (this.interactionIndicator) {
-      this.interactionIndicator.setVisible(false);
-    }
-    
-    // Hide computer indicator
-    if (this.computerInteractionIndicator) {
-      console.log('Hiding computer indicator');
-      this.computerInteractionIndicator.setVisible(false);
-    }
-  }
-  
-  /**
-   * Interact with the nearby object if one exists
-   */
-  interactWithNearbyObject() {
-    if (this.nearbyObject) {
-      const onInteract = this.nearbyObject.getData('onInteract');
-      if (typeof onInteract === 'function') {
-        onInteract();
-      }
-    }
-  }
-
   /**
    * Create the blue exit gate at the top center of area B
    */
@@ -1304,6 +627,11 @@ export default class Level1Scene extends Scene {
       // Set a flag to indicate the gate is locked (requires keycard)
       this.exitGate.setData('isLocked', true);
       
+      // Walking through the gate once it's unlocked leads to the next level
+      this.addExitZone(this.exitGate, () => this.transitionToNextLevel(), {
+        isOpen: () => !this.exitGate?.getData('isLocked')
+      });
+      
       // Make sure the gate is visible and on the correct depth layer
       this.exitGate.setDepth(5); // Put it above the floor but below other objects
       this.exitGate.setAlpha(1); // Ensure full visibility
@@ -1377,16 +705,12 @@ export default class Level1Scene extends Scene {
     // Make the keycard interactive
     this.keycard.setInteractive({ useHandCursor: true });
     
-    // Add to interactive objects array for player proximity detection
-    this.keycard.setData('interactive', true);
-    this.keycard.setData('onInteract', () => {
+    // Add to interactive objects for player proximity detection
+    this.addInteractable(this.keycard, () => {
       console.log('Keycard interaction triggered');
       this.collectKeycard();
     });
     
-    // Add to interactive objects array
-    this.interactiveObjects.push(this.keycard);
-    
     console.log('Keycard interaction zone created with glow effect');
   }
 
@@ -1425,6 +749,19 @@ export default class Level1Scene extends Scene {
       return;
     }
     
+    // The gate only opens once the player has shown what they learned
+    this.requireQuiz(this.gateQuiz, () => this.unlockExitGate(), {
+      retryAt: this.exitGate,
+      retryOptions: { range: 120 }
+    });
+  }
+  
+  /**
+   * Unlock the exit gate and play its opening animation
+   */
+  unlockExitGate() {
+    if (!this.exitGate) return;
+    
     // Mark the gate as unlocked
     this.exitGate.setData('isLocked', false);
     
@@ -1488,6 +825,8 @@ export default class Level1Scene extends Scene {
    * Add a particle effect when the gate opens
    */
   addGateOpeningEffect(x: number, y: number) {
+    this.audio?.playSfx('sfx-gate-open');
+
     try {
       // Create a particle emitter for the gate opening effect
       const particles = this.add.particles(x, y, 'blue-gate', {
@@ -1534,81 +873,6 @@ export default class Level1Scene extends Scene {
    * Transition to the next level
    */
   transitionToNextLevel() {
-    // Prevent multiple transitions
-    if (this.exitGate?.getData('transitioning')) return;
-    
-    if (this.exitGate) {
-      this.exitGate.setData('transitioning', true);
-    }
-    
-    // Fade out effect
-    this.cameras.main.fade(1000, 0, 0, 0);
-    
-    // Wait for fade to complete then change scene
-    this.cameras.main.once('camerafadeoutcomplete', () => {
-      // Start Level 2
-      this.scene.start('Level2Scene');
-    });
-  }
-
-  update() {
-    if (!this.player || !this.cursors) return;
-    
-    // Update player movement and animations
-    this.player.update(this.cursors);
-    
-    // Check for nearby interactive objects
-    this.checkInteractiveObjects();
-
-    // Handle interactions
-    const spaceJustPressed = Phaser.Input.Keyboard.JustDown(this.cursors.space);
-    
-    if (spaceJustPressed) {
-      console.log('SPACE pressed, checking for interactions...');
-      
-      // Find the closest interactive object
-      const closestObject = this.findClosestInteractiveObject();
-      console.log('Closest interactive object:', {
-        found: !!closestObject,
-        isComputer: closestObject?.getData('onInteract')?.toString().includes('showComputerDialogue')
-      });
-
-      if (closestObject && closestObject.getData('interactive')) {
-        const onInteract = closestObject.getData('onInteract');
-        if (onInteract && typeof onInteract === 'function') {
-          console.log('Triggering interaction...');
-          onInteract();
-        }
-      }
-    }
-  }
-
-  /**
-   * Find the closest interactive object to the player
-   */
-  findClosestInteractiveObject(): Phaser.GameObjects.Rectangle | null {
-    if (!this.player || !this.interactiveObjects.length) return null;
-
-    const playerBounds = this.player.sprite.getBounds();
-    let closestObject = null;
-    let closestDistance = Infinity;
-
-    this.interactiveObjects.forEach((obj: Phaser.GameObjects.GameObject) => {
-      if (!(obj instanceof Phaser.GameObjects.Rectangle) || !obj.getData('interactive')) return;
-
-      const objBounds = obj.getBounds();
-      const distance = Phaser.Math.Distance.BetweenPoints(
-        { x: playerBounds.centerX, y: playerBounds.centerY },
-        { x: objBounds.centerX, y: objBounds.centerY }
-      );
-
-      // Only consider objects within interaction range (adjust the 100 value as needed)
-      if (distance < 100 && distance < closestDistance) {
-        closestDistance = distance;
-        closestObject = obj;
-      }
-    });
-
-    return closestObject;
+    this.transitionTo('Level2Scene');
   }
-} 
\ No newline at end of file
+}
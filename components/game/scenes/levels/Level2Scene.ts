@@ -1,9 +1,10 @@
 'use client'; /* This file is only executed on the client side */
 
-import { Scene } from 'phaser';
-import { loadTilemap, addCollision, MapLayers } from '@/lib/utils/mapLoader';
-import Player from '@/lib/classes/Player';
+import BaseLevelScene from '@/components/game/scenes/BaseLevelScene';
 import { PuzzleWalletService } from '@/lib/services/PuzzleWalletService';
+import DialogueRunner from '@/lib/classes/DialogueRunner';
+import { preloadDialogues } from '@/lib/utils/dialogueLoader';
+import { preloadQuizzes } from '@/lib/utils/quizLoader';
 
 /**
  * Level2Scene - Digital Defense
@@ -11,18 +12,12 @@ import { PuzzleWalletService } from '@/lib/services/PuzzleWalletService';
  * This is the second level of the Legend of Leo game.
  * Players learn about digital security and protection in this level.
  */
-export default class Level2Scene extends Scene {
-  private player?: Player;
-  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
-  private map?: Phaser.Tilemaps.Tilemap;
-  private layers?: MapLayers;
-  private interactiveObjects: Phaser.GameObjects.GameObject[] = [];
-  private interactionIndicator?: Phaser.GameObjects.Sprite;
-  private nearbyObject?: Phaser.GameObjects.GameObject;
+export default class Level2Scene extends BaseLevelScene {
   private receptionist?: Phaser.GameObjects.Sprite;
   private keycardWall?: Phaser.GameObjects.Sprite; // Wall with keycard slot
   private exitGate?: Phaser.Physics.Arcade.Sprite;
   private hasKeycard: boolean = false; // Whether player has received keycard from receptionist
+  private gateQuiz?: string = 'level2/security'; // Quiz to pass before the exit gate opens, undefined for none
   
   // Puzzle wallet integration
   private walletService: PuzzleWalletService;
@@ -31,7 +26,6 @@ export default class Level2Scene extends Scene {
   private walletConnectionPending: boolean = false;
   private messageSigned: boolean = false;
 
-  private walletDialogueGroup?: Phaser.GameObjects.Group;
   private temporaryMessageGroup?: Phaser.GameObjects.Group; // Group for temporary messages
 
   constructor() {
@@ -40,15 +34,16 @@ export default class Level2Scene extends Scene {
   }
 
   init() {
-    // Store current scene in localStorage for development mode reload
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('currentScene', this.scene.key);
-      console.log('Current scene saved:', this.scene.key);
-    }
-    
-    // Initialize interactive objects array
-    this.interactiveObjects = [];
-  
+    super.init();
+
+    // Restart Level reuses this instance, the wallet stays connected but the keycard is handed out again
+    this.receptionist = undefined;
+    this.keycardWall = undefined;
+    this.exitGate = undefined;
+    this.hasKeycard = false;
+    this.walletConnectionPending = false;
+    this.messageSigned = false;
+    this.temporaryMessageGroup = undefined;
   }
 
 
@@ -83,6 +78,14 @@ export default class Level2Scene extends Scene {
     // Load level 2 tilemap
     this.load.tilemapTiledJSON('level2', '/assets/maps/levels/level2.json');
     
+    // Load the receptionist conversation
+    preloadDialogues(this, ['level2/receptionist']);
+    
+    // Load the quiz guarding the exit gate
+    if (this.gateQuiz) {
+      preloadQuizzes(this, [this.gateQuiz]);
+    }
+    
     // Load additional tile images for the map
     if (!textureCheck('wall')) {
       this.load.image('wall', '/assets/maps/wall.png');
@@ -150,57 +153,10 @@ export default class Level2Scene extends Scene {
     }
   }
 
-  /**
-   * Create a wall texture for the level boundaries
-   */
-  createWallTexture() {
-    // Skip if texture already exists
-    if (this.textures.exists('wall')) {
-      console.log('Wall texture already exists, reusing existing texture');
-      return;
-    }
-
-    const size = 48; // Match the floor tile size
-    
-    // Create a canvas texture for the wall
-    const wallCanvas = this.textures.createCanvas('wall', size, size);
-    const ctx = wallCanvas?.getContext();
-    
-    if (!wallCanvas || !ctx) {
-      console.error('Failed to create canvas texture for wall');
-      return;
-    }
-    
-    // Draw a simple wall texture
-    ctx.fillStyle = '#6D5D4B'; // Brown wall color
-    ctx.fillRect(0, 0, size, size);
-    
-    // Add some brick pattern
-    ctx.fillStyle = '#5D4D3B'; // Darker brown for brick lines
-    
-    // Horizontal brick lines
-    for (let y = 12; y < size; y += 12) {
-      ctx.fillRect(0, y, size, 2);
-    }
-    
-    // Vertical brick lines (offset every other row)
-    for (let x = 0; x < size; x += 24) {
-      ctx.fillRect(x, 0, 2, 12);
-      ctx.fillRect(x + 12, 12, 2, 12);
-      ctx.fillRect(x, 24, 2, 12);
-      ctx.fillRect(x + 12, 36, 2, 12);
-    }
-    
-    // Add some highlight and shadow to give depth
-    ctx.strokeStyle = '#7D6D5B'; // Lighter color for highlights
-    ctx.lineWidth = 1;
-    ctx.strokeRect(1, 1, size - 2, size - 2);
-    
-    // Update the canvas texture
-    wallCanvas.refresh();
-  }
-
   async create() {
+    // Shared dialogue box for NPCs
+    this.dialogue = new DialogueRunner(this);
+    
     // Initialize physics world if it doesn't exist
     if (!this.physics.world) {
       console.warn('Physics world not initialized, skipping debug clear');
@@ -214,31 +170,7 @@ export default class Level2Scene extends Scene {
     this.cameras.main.setBackgroundColor('#2B2A3D');
     
     // Try to load tilemap or fall back to a basic level
-    try {
-      console.log('Loading level2 tilemap...');
-      const { map, layers } = loadTilemap(
-        this,
-        'level2',
-        ['Floor', 'Backwall', 'Objects', 'Collision'],
-        ['Collision'] // Only use the Collision layer for collisions
-      );
-      
-      this.map = map;
-      this.layers = layers;
-      
-      // Set world bounds based on the map dimensions
-      if (this.map) {
-        const mapWidth = this.map.widthInPixels;
-        const mapHeight = this.map.heightInPixels;
-        this.physics.world.setBounds(0, 0, mapWidth, mapHeight);
-        console.log(`Map dimensions: ${mapWidth}x${mapHeight}`);
-        
-        // Center the map in the game canvas
-        this.centerMap();
-      }
-    } catch (error) {
-      console.error('Failed to load level2 tilemap:', error);
-      // Fall back to creating a programmatic level
+    if (!this.loadLevelMap('level2', ['Floor', 'Backwall', 'Objects', 'Collision'])) {
       this.createBasicLevel();
     }
     
@@ -247,34 +179,7 @@ export default class Level2Scene extends Scene {
     const tileSize = 48;
     const startX = 8.5 * tileSize; // Center of the bottom entrance (horizontally)
     const startY = 13 * tileSize;  // Bottom entrance (vertically)
-    this.player = new Player(this, startX, startY);
-    
-    // Add collision with the Collision layer
-    if (this.player && this.layers) {
-      addCollision(this, this.player.sprite, this.layers, ['Collision']);
-    }
-    
-    // Set up input
-    this.cursors = this.input?.keyboard?.createCursorKeys();
-    
-    // Add space key for interactions
-    this.input.keyboard?.on('keydown-SPACE', () => {
-      this.interactWithNearbyObject();
-    });
-    
-    // Set up camera to follow player
-    if (this.player) {
-      this.cameras.main.startFollow(this.player.sprite, true, 0.08, 0.08);
-      this.cameras.main.setZoom(1);
-      
-      // Set camera bounds based on the map
-      if (this.map) {
-        this.cameras.main.setBounds(0, 0, this.map.widthInPixels, this.map.heightInPixels);
-      }
-      
-      // Add a subtle deadzone for smoother camera
-      this.cameras.main.setDeadzone(100, 100);
-    }
+    this.spawnPlayer(startX, startY);
     
     // Create the receptionist and keycard wall
     this.createReceptionist();
@@ -349,33 +254,6 @@ export default class Level2Scene extends Scene {
     }
   }
   
-  /**
-   * Center the map within the game window
-   */
-  centerMap() {
-    if (!this.map) return;
-    
-    const mapWidth = this.map.widthInPixels;
-    const mapHeight = this.map.heightInPixels;
-    const gameWidth = this.scale.width;
-    const gameHeight = this.scale.height;
-    
-    const offsetX = Math.max(0, (gameWidth - mapWidth) / 2);
-    const offsetY = Math.max(0, (gameHeight - mapHeight) / 2);
-    
-    if (this.map.layers) {
-      this.map.layers.forEach(layer => {
-        if (layer.tilemapLayer) {
-          layer.tilemapLayer.x = offsetX;
-          layer.tilemapLayer.y = offsetY;
-        }
-      });
-    }
-    
-    this.physics.world.setBounds(offsetX, offsetY, mapWidth, mapHeight);
-    this.cameras.main.setBounds(offsetX, offsetY, mapWidth, mapHeight);
-  }
-  
   /**
    * Create a basic level layout as a fallback
    */
@@ -440,160 +318,6 @@ export default class Level2Scene extends Scene {
   
 
   
-  /**
-   * Check for interactive objects near the player
-   */
-  checkInteractiveObjects() {
-    if (!this.player) return;
-    
-    // Find all interactive objects in range
-    const playerPos = this.player.sprite.getCenter();
-    const interactDistance = 60; // Interaction range
-    let closestObject: Phaser.GameObjects.GameObject | undefined;
-    let closestDistance = interactDistance;
-    
-    // Find the closest interactive object in range
-    this.interactiveObjects.forEach(obj => {
-      // Skip objects specifically marked as not visible for interaction
-      if (obj.getData('visible') === false) return;
-      
-      let objX = 0;
-      let objY = 0;
-      
-      if ('getCenter' in obj) {
-        const center = (obj as unknown as Phaser.GameObjects.Sprite).getCenter();
-        objX = center.x;
-        objY = center.y;
-      } else if ('x' in obj && 'y' in obj) {
-        objX = (obj as unknown as { x: number }).x;
-        objY = (obj as unknown as { y: number }).y;
-      }
-      
-      const distance = Phaser.Math.Distance.Between(
-        playerPos.x, playerPos.y,
-        objX, objY
-      );
-      
-      if (distance < closestDistance) {
-        closestObject = obj;
-        closestDistance = distance;
-      }
-    });
-    
-    // If we found an object in range, show indicator
-    if (closestObject && closestObject !== this.nearbyObject) {
-      this.nearbyObject = closestObject;
-      this.showInteractionIndicator(closestObject);
-    } 
-    // If we moved out of range of the previous object
-    else if (!closestObject && this.nearbyObject) {
-      this.hideInteractionIndicator();
-      this.nearbyObject = undefined;
-    }
-  }
-  
-  /**
-   * Show interaction indicator above an object
-   */
-  showInteractionIndicator(object: Phaser.GameObjects.GameObject) {
-    let objX = 0;
-    let objY = 0;
-    
-    // Check if this object has a custom indicator target
-    const indicatorTarget = object.getData('indicatorTarget');
-    const targetObject = indicatorTarget || object;
-    
-    if ('getCenter' in targetObject) {
-      const center = (targetObject as unknown as Phaser.GameObjects.Sprite).getCenter();
-      objX = center.x;
-      objY = center.y;
-    } else if ('x' in targetObject && 'y' in targetObject) {
-      objX = (targetObject as unknown as { x: number }).x;
-      objY = (targetObject as unknown as { y: number }).y;
-    }
-    
-    // Position above the object
-    const x = objX;
-    const y = objY - 40;
-    
-    // If we don't have an indicator yet, create one
-    if (!this.interactionIndicator) {
-      // Create a simple indicator
-      this.interactionIndicator = this.add.sprite(x, y, 'interaction-indicator');
-      
-      if (!this.textures.exists('interaction-indicator')) {
-        console.log('Creating interaction indicator texture');
-        const graphics = this.make.graphics({ x: 0, y: 0 });
-        
-        // Draw a small white dot with a glow effect
-        graphics.fillStyle(0xFFFFFF, 0.8);
-        graphics.fillCircle(16, 16, 4);
-        
-        // Add a subtle glow/halo
-        graphics.fillStyle(0xFFFFFF, 0.3);
-        graphics.fillCircle(16, 16, 8);
-        
-        graphics.generateTexture('interaction-indicator', 32, 32);
-      }
-      
-      // Add a subtle bobbing animation
-      this.tweens.add({
-        targets: this.interactionIndicator,
-        y: y - 6,
-        duration: 1200,
-        yoyo: true,
-        repeat: -1,
-        ease: 'Sine.easeInOut'
-      });
-      
-      // Add a subtle pulsing effect
-      this.tweens.add({
-        targets: this.interactionIndicator,
-        alpha: 0.6,
-        duration: 1000,
-        yoyo: true,
-        repeat: -1,
-        ease: 'Sine.easeInOut'
-      });
-    }
-    
-    // Set the texture and make visible
-    this.interactionIndicator.setTexture('interaction-indicator');
-    this.interactionIndicator.setVisible(true);
-    this.interactionIndicator.setPosition(x, y);
-    
-    // Set high depth to ensure it's visible
-    this.interactionIndicator.setDepth(200);
-  }
-  
-  /**
-   * Hide the interaction indicator
-   */
-  hideInteractionIndicator() {
-    if (this.interactionIndicator) {
-      this.interactionIndicator.setVisible(false);
-    }
-  }
-  
-  /**
-   * Interact with the nearby object if one exists
-   */
-  interactWithNearbyObject() {
-    if (this.nearbyObject) {
-      // Check if it's the exit gate
-      if (this.nearbyObject === this.exitGate) {
-        this.useKeycardOnWall();
-        return;
-      }
-      
-      // For other interactive objects with handlers
-      const onInteract = this.nearbyObject.getData('onInteract');
-      if (typeof onInteract === 'function') {
-        onInteract();
-      }
-    }
-  }
-
   /**
    * Create the receptionist NPC
    */
@@ -630,14 +354,7 @@ export default class Level2Scene extends Scene {
     indicatorTarget.setAlpha(0); // Completely invisible
     
     // Make the interaction zone interactive and set the indicator target
-    interactionZone.setData('interactive', true);
-    interactionZone.setData('onInteract', () => {
-      this.showReceptionistDialogue();
-    });
-    interactionZone.setData('indicatorTarget', indicatorTarget);
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(interactionZone);
+    this.addInteractable(interactionZone, () => this.showReceptionistDialogue(), { indicatorTarget });
     
     // Also create the keycard wall interaction point
     this.createKeycardWall();
@@ -668,10 +385,7 @@ export default class Level2Scene extends Scene {
     );
     
     // Make interaction zone interactive but completely invisible
-    interactionZone.setData('interactive', true);
-    interactionZone.setData('onInteract', () => {
-      this.useKeycardOnWall();
-    });
+    this.addInteractable(interactionZone, () => this.useKeycardOnWall());
     
     // Create just one subtle glow effect around the terminal
     const glowGraphics = this.add.graphics();
@@ -686,190 +400,52 @@ export default class Level2Scene extends Scene {
       yoyo: true,
       repeat: -1
     });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(interactionZone);
   }
 
   /**
    * Show dialogue from receptionist
    */
   showReceptionistDialogue() {
-    // Create a dialogue box
-    const width = this.cameras.main.width;
-    const height = this.cameras.main.height;
-    
-    const dialogueBox = this.add.rectangle(
-      width / 2,
-      height - 135,
-      width - 30,
-      260,
-      0x000000,
-      0.9
-    );
-    dialogueBox.setScrollFactor(0);
-    dialogueBox.setOrigin(0.5);
-    dialogueBox.setStrokeStyle(2, 0xFFFFFF);
-    dialogueBox.setData('role', 'dialogBox');
-    
-    let message = '';
-    let buttonText = '';
-    let buttonColor = 0x4CAF50; // Default green
-    
-    // Determine message based on wallet connection state
-    if (this.walletService.isConnected() && this.messageSigned) {
-      // Wallet is connected and message is signed - provide keycard
-      message = `Access granted. Your identity has been confirmed as ${this.walletService.formatAddress(this.walletService.getAddress() || 'unknown')}. Your secret keys must be used wisely out there!`;
-      buttonText = 'Take Keycard';
-      buttonColor = 0x4CAF50; // Green
-    } else if (this.walletService.isConnected() && !this.messageSigned) {
-      // Wallet is connected but signature needed
-      message = `"In this world, nothing moves without proof. Sign this message to prove your ownership and set up your privacy key"`;
-      buttonText = 'Sign Message';
-      buttonColor = 0x2196F3; // Blue
-    } else {
-      // Wallet not connected
-      message = 'Aleo\'s Digital Defense only allows access to the encrypted world to those who have proven their identity. Connect your wallet to continue.';
-      buttonText = 'Connect Wallet';
-      buttonColor = 0xFFA000; // Orange
-    }
-    
-    const text = this.add.text(
-      width / 2,
-      height - 160,
-      '', // Start empty for typewriter effect
-      {
-        fontSize: '24px',
-        color: '#FFFFFF',
-        align: 'center',
-        wordWrap: { width: width - 100 },
-        lineSpacing: 8
-      }
-    );
-    text.setScrollFactor(0);
-    text.setOrigin(0.5);
-    text.setData('role', 'mainText');
-    
-    // Create action button
-    const actionButton = this.add.rectangle(
-      width / 2,
-      height - 60,
-      160,
-      40,
-      buttonColor
-    );
-    actionButton.setScrollFactor(0);
-    actionButton.setInteractive({ useHandCursor: true });
-    actionButton.setVisible(false); // Hide initially
-    actionButton.setData('role', 'actionButton');
-    
-    const buttonTextObj = this.add.text(
-      width / 2,
-      height - 60, 
-      buttonText,
-      {
-        fontSize: '16px',
-        color: '#FFFFFF'
-      }
-    );
-    buttonTextObj.setScrollFactor(0);
-    buttonTextObj.setOrigin(0.5);
-    buttonTextObj.setVisible(false); // Hide initially
-    buttonTextObj.setData('role', 'buttonText');
-    
-    // Group all dialogue elements
-    this.walletDialogueGroup = this.add.group([dialogueBox, text, actionButton, buttonTextObj]);
-    
-    // Typewriter effect
-    let currentChar = 0;
-    const typingSpeed = 10; // milliseconds per character
-    
-    const typewriterTimer = this.time.addEvent({
-      delay: typingSpeed,
-      callback: () => {
-        text.setText(message.substring(0, currentChar));
-        currentChar++;
-        
-        // When typing is complete, show the button
-        if (currentChar > message.length) {
-          typewriterTimer.destroy();
-          actionButton.setVisible(true);
-          buttonTextObj.setVisible(true);
-        }
+    this.dialogue?.start('level2/receptionist', {
+      state: {
+        walletConnected: this.walletService.isConnected(),
+        messageSigned: this.messageSigned,
+        address: this.walletService.formatAddress(this.walletService.getAddress() || 'unknown')
       },
-      repeat: message.length
-    });
-    
-    // Function to handle button click
-    const handleButtonClick = async () => {
-      // Disable button to prevent multiple clicks
-      actionButton.disableInteractive();
-      buttonTextObj.setText('Please wait...');
-      
-      if (this.walletService.isConnected() && this.messageSigned) {
-        // If wallet connected and message signed, give keycard
-        this.cleanupDialogue();
-        this.hasKeycard = true;
-        // Add success particles for visual effect
-        this.addWalletSuccessParticles();
-      } 
-      else if (this.walletService.isConnected() && !this.messageSigned) {
-        // If wallet connected but message not signed, request signature
-        const message = "I verify my identity to access the Aleo's Digital Defense";
-        const signatureResponse = await this.walletService.signMessage(message);
-        
-        if (signatureResponse) {
-          // Signature successful
-          this.messageSigned = true;
-          this.cleanupDialogue();
-          // Show new dialogue with keycard option
-          this.time.delayedCall(500, () => this.showReceptionistDialogue());
-        } else {
-          // Signature failed or rejected
-          buttonTextObj.setText('Sign Message');
-          actionButton.setInteractive({ useHandCursor: true });
+      actions: {
+        connectWallet: async context => {
+          const connected = await this.walletService.connectWallet();
+          
+          if (!connected) {
+            this.showTemporaryMessage('Wallet connection failed. Please try again.');
+            return 'connectWallet';
+          }
           
-          // Show error message
-          this.showTemporaryMessage('Signature failed or rejected. Please try again.');
-        }
-      } 
-      else {
-        // If wallet not connected, try to connect
-        const connected = await this.walletService.connectWallet();
-        
-        if (connected) {
           this.walletConnected = true;
           this.walletAddress = this.walletService.getAddress() || '';
-          this.cleanupDialogue();
-          // Show new dialogue for signature
-          this.time.delayedCall(500, () => this.showReceptionistDialogue());
-        } else {
-          // Connection failed
-          buttonTextObj.setText('Connect Wallet');
-          actionButton.setInteractive({ useHandCursor: true });
+          context.set('walletConnected', true);
+          context.set('address', this.walletService.formatAddress(this.walletAddress || 'unknown'));
+          return 'signMessage';
+        },
+        signMessage: async () => {
+          const message = "I verify my identity to access the Aleo's Digital Defense";
+          const signatureResponse = await this.walletService.signMessage(message);
+          
+          if (!signatureResponse) {
+            this.showTemporaryMessage('Signature failed or rejected. Please try again.');
+            return 'signMessage';
+          }
           
-          // Show error message
-          this.showTemporaryMessage('Wallet connection failed. Please try again.');
+          this.messageSigned = true;
+          return 'accessGranted';
+        },
+        takeKeycard: () => {
+          this.hasKeycard = true;
+          this.audio?.playSfx('sfx-keycard');
+          // Add success particles for visual effect
+          this.addWalletSuccessParticles();
         }
       }
-    };
-    
-    // Handle button click
-    actionButton.on('pointerdown', handleButtonClick);
-    
-    // Add keyboard support for Enter key
-    this.input.keyboard?.on('keydown-ENTER', () => {
-      if (actionButton.visible && actionButton.input?.enabled) {
-        handleButtonClick();
-      }
-    });
-    
-    // Add hover effects
-    actionButton.on('pointerover', () => {
-      actionButton.setFillStyle(buttonColor - 0x080808);
-    });
-    actionButton.on('pointerout', () => {
-      actionButton.setFillStyle(buttonColor);
     });
   }
 
@@ -957,18 +533,6 @@ export default class Level2Scene extends Scene {
     }
   }
   
-  // Clean up dialogue and proceed
-  cleanupDialogue() {
-    // Remove the keyboard listener
-    this.input.keyboard?.off('keydown-ENTER');
-    
-    // Destroy the dialogue
-    if (this.walletDialogueGroup) {
-      this.walletDialogueGroup.destroy(true);
-      this.walletDialogueGroup = undefined;
-    }
-  }
-
   /**
    * Use keycard on the wall terminal to open the gate
    */
@@ -1017,8 +581,11 @@ export default class Level2Scene extends Scene {
       this.keycardWall.setData('visible', false);
     }
     
-    // Open the exit gate
-    this.openExitGate();
+    // Open the exit gate once the player has passed the security quiz
+    this.requireQuiz(this.gateQuiz, () => this.openExitGate(), {
+      retryAt: this.exitGate,
+      retryOptions: { range: 120 }
+    });
   }
 
   /**
@@ -1064,6 +631,11 @@ export default class Level2Scene extends Scene {
       // Set a flag to indicate the gate is locked initially
       this.exitGate.setData('isOpen', false);
       
+      // Walking through the open gate leads to the next level
+      this.addExitZone(this.exitGate, () => this.transitionToNextLevel(), {
+        isOpen: () => !!this.exitGate?.getData('isOpen')
+      });
+      
       // Make the debug outline invisible by setting it to a fully transparent color
       this.exitGate.setDebugBodyColor(0x000000);
       
@@ -1127,6 +699,8 @@ export default class Level2Scene extends Scene {
    * Add a particle effect when the gate opens
    */
   addGateOpeningEffect(x: number, y: number) {
+    this.audio?.playSfx('sfx-gate-open');
+
     try {
       // Create a particle emitter for the gate opening effect - matching Level 1
       const particles = this.add.particles(x, y, 'blue-gate', {
@@ -1169,55 +743,10 @@ export default class Level2Scene extends Scene {
     }
   }
 
-  /**
-   * Check if player walks through the open gate to trigger level transition
-   */
-  checkPlayerExitGate() {
-    if (!this.player || !this.exitGate) return;
-    
-    // Only check if the gate is open
-    if (!this.exitGate.getData('isOpen')) return;
-    
-    // If player is within the gate bounds
-    const playerBounds = this.player.sprite.getBounds();
-    const gateBounds = this.exitGate.getBounds();
-    
-    if (Phaser.Geom.Rectangle.Overlaps(playerBounds, gateBounds)) {
-      // Prevent multiple transitions
-      if (this.exitGate.getData('transitioning')) return;
-      
-      this.exitGate.setData('transitioning', true);
-      this.transitionToNextLevel();
-    }
-  }
-
   /**
    * Transition to the next level
    */
   transitionToNextLevel() {
-    // Fade out effect
-    this.cameras.main.fade(1000, 0, 0, 0);
-    
-    // Wait for fade to complete then change scene
-    this.cameras.main.once('camerafadeoutcomplete', () => {
-      // Go to Level 3 instead of returning to Level 1
-      this.scene.start('Level3Scene');
-    });
-  }
-
-  /**
-   * Update - called each frame
-   */
-  update() {
-    if (!this.player || !this.cursors) return;
-    
-    // Update player movement and animations
-    this.player.update(this.cursors);
-    
-    // Check for nearby interactive objects
-    this.checkInteractiveObjects();
-    
-    // Check if player is walking through the open gate
-    this.checkPlayerExitGate();
+    this.transitionTo('Level3Scene');
   }
-} 
\ No newline at end of file
+}
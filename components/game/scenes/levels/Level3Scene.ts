@@ -1,8 +1,8 @@
 'use client'; /* This file is only executed on the client side */
 
-import { Scene } from 'phaser';
-import { loadTilemap, addCollision, MapLayers } from '@/lib/utils/mapLoader';
-import Player from '@/lib/classes/Player';
+import BaseLevelScene from '@/components/game/scenes/BaseLevelScene';
+import DialogueRunner from '@/lib/classes/DialogueRunner';
+import { preloadDialogues } from '@/lib/utils/dialogueLoader';
 
 /**
  * Level3Scene - Privacy Protection
@@ -10,14 +10,7 @@ import Player from '@/lib/classes/Player';
  * This is the third level of the Legend of Leo game.
  * Players learn advanced privacy protection techniques in this level.
  */
-export default class Level3Scene extends Scene {
-  private player?: Player;
-  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
-  private map?: Phaser.Tilemaps.Tilemap;
-  private layers?: MapLayers;
-  private interactiveObjects: Phaser.GameObjects.GameObject[] = [];
-  private interactionIndicator?: Phaser.GameObjects.Sprite;
-  private nearbyObject?: Phaser.GameObjects.GameObject;
+export default class Level3Scene extends BaseLevelScene {
   private exitGate?: Phaser.Physics.Arcade.Sprite;
   private blueGate?: Phaser.Physics.Arcade.Sprite;
   private boardTriggerZone?: Phaser.GameObjects.Zone;
@@ -28,8 +21,10 @@ export default class Level3Scene extends Scene {
   }
 
   init() {
-    // Initialize interactive objects array
-    this.interactiveObjects = [];
+    super.init();
+    this.exitGate = undefined;
+    this.blueGate = undefined;
+    this.boardTriggerZone = undefined;
     this.boardTriggerActivated = false;
   }
 
@@ -64,6 +59,9 @@ export default class Level3Scene extends Scene {
     // Load level 3 tilemap (will need to be created)
     this.load.tilemapTiledJSON('level3', '/assets/maps/levels/level3.json');
     
+    // Load the board conversation
+    preloadDialogues(this, ['level3/boards']);
+    
     // Load additional tile images for the map
     if (!textureCheck('wall')) {
       this.load.image('wall', '/assets/maps/wall.png');
@@ -123,57 +121,10 @@ export default class Level3Scene extends Scene {
     }
   }
 
-  /**
-   * Create a wall texture for the level boundaries
-   */
-  createWallTexture() {
-    // Skip if texture already exists
-    if (this.textures.exists('wall')) {
-      console.log('Wall texture already exists, reusing existing texture');
-      return;
-    }
-
-    const size = 48; // Match the floor tile size
-    
-    // Create a canvas texture for the wall
-    const wallCanvas = this.textures.createCanvas('wall', size, size);
-    const ctx = wallCanvas?.getContext();
-    
-    if (!wallCanvas || !ctx) {
-      console.error('Failed to create canvas texture for wall');
-      return;
-    }
-    
-    // Draw a simple wall texture
-    ctx.fillStyle = '#6D5D4B'; // Brown wall color
-    ctx.fillRect(0, 0, size, size);
-    
-    // Add some brick pattern
-    ctx.fillStyle = '#5D4D3B'; // Darker brown for brick lines
-    
-    // Horizontal brick lines
-    for (let y = 12; y < size; y += 12) {
-      ctx.fillRect(0, y, size, 2);
-    }
-    
-    // Vertical brick lines (offset every other row)
-    for (let x = 0; x < size; x += 24) {
-      ctx.fillRect(x, 0, 2, 12);
-      ctx.fillRect(x + 12, 12, 2, 12);
-      ctx.fillRect(x, 24, 2, 12);
-      ctx.fillRect(x + 12, 36, 2, 12);
-    }
-    
-    // Add some highlight and shadow to give depth
-    ctx.strokeStyle = '#7D6D5B'; // Lighter color for highlights
-    ctx.lineWidth = 1;
-    ctx.strokeRect(1, 1, size - 2, size - 2);
-    
-    // Update the canvas texture
-    wallCanvas.refresh();
-  }
-
   create() {
+    // Shared dialogue box for NPCs
+    this.dialogue = new DialogueRunner(this);
+    
     // Initialize physics world if it doesn't exist
     if (!this.physics.world) {
       console.warn('Physics world not initialized, skipping debug clear');
@@ -187,31 +138,7 @@ export default class Level3Scene extends Scene {
     this.cameras.main.setBackgroundColor('#2B2A3D');
     
     // Try to load tilemap or fall back to a basic level
-    try {
-      console.log('Loading level3 tilemap...');
-      const { map, layers } = loadTilemap(
-        this,
-        'level3',
-        ['Floor', 'Backwall', 'Objects', 'Collision'],
-        ['Collision'] // Only use the Collision layer for collisions
-      );
-      
-      this.map = map;
-      this.layers = layers;
-      
-      // Set world bounds based on the map dimensions
-      if (this.map) {
-        const mapWidth = this.map.widthInPixels;
-        const mapHeight = this.map.heightInPixels;
-        this.physics.world.setBounds(0, 0, mapWidth, mapHeight);
-        console.log(`Map dimensions: ${mapWidth}x${mapHeight}`);
-        
-        // Center the map in the game canvas
-        this.centerMap();
-      }
-    } catch (error) {
-      console.error('Failed to load level3 tilemap:', error);
-      // Fall back to creating a programmatic level
+    if (!this.loadLevelMap('level3', ['Floor', 'Backwall', 'Objects', 'Collision'])) {
       this.createBasicLevel();
     }
     
@@ -220,35 +147,7 @@ export default class Level3Scene extends Scene {
     const tileSize = 48;
     const startX = 2.5 * tileSize; // Bottom left of floor tiles (horizontally)
     const startY = 14 * tileSize; // Bottom left of floor tiles (vertically)
-    this.player = new Player(this, startX, startY);
-    
-    // Add collision with the Collision layer
-    if (this.player && this.layers) {
-      addCollision(this, this.player.sprite, this.layers, ['Collision']);
-    }
-    
-    // Set up input
-    this.cursors = this.input?.keyboard?.createCursorKeys();
-    
-    // Add space key for interactions
-    this.input.keyboard?.on('keydown-SPACE', () => {
-      this.interactWithNearbyObject();
-    });
-    
-    // Set up camera to follow player
-    if (this.player) {
-      this.cameras.main.startFollow(this.player.sprite, true, 0.08, 0.08);
-      this.cameras.main.setZoom(1);
-      
-      // Set camera bounds based on the map
-      if (this.map) {
-        this.cameras.main.setBounds(0, 0, this.map.widthInPixels, this.map.heightInPixels);
-      }
-      
-      // Add a subtle deadzone for smoother camera
-      this.cameras.main.setDeadzone(100, 100);
-    }
-    
+    this.spawnPlayer(startX, startY);
     
     // Create an already-open blue gate in the hallway
     this.createOpenBlueGate();
@@ -296,6 +195,9 @@ export default class Level3Scene extends Scene {
     // Set the gate as already open
     this.blueGate.setData('isOpen', true);
     
+    // Walking through the gate leads to the next level
+    this.addExitZone(this.blueGate, () => this.transitionToNextLevel());
+    
     // Add a subtle glow effect to make it more noticeable
     const glow = this.add.sprite(gateX, gateY, 'blue-gate');
     glow.setFrame(6); // Use the same frame as the gate
@@ -401,118 +303,18 @@ export default class Level3Scene extends Scene {
       this.player.sprite.anims.pause();
     }
     
-    // Create a dialogue box
-    const width = this.cameras.main.width;
-    const height = this.cameras.main.height;
-    
-    const dialogueBox = this.add.rectangle(
-      width / 2,
-      height - 250,
-      width - 30,
-      400,
-      0x000000,
-      0.9
-    );
-    dialogueBox.setScrollFactor(0);
-    dialogueBox.setOrigin(0.5);
-    dialogueBox.setStrokeStyle(2, 0xFFFFFF);
-    dialogueBox.setDepth(1000); // Set high depth to appear above player
-    
-      const message = "Aleo is like the lego building blocks for users to take advantage of private, decentralized apps that use zero-knowledge cryptography — a shield against surveillance, exposure, and manipulation.\n\nThis isn't just about code. It's about control. It's about giving users the power to prove things without revealing everything.\n\nHere, privacy isn't a feature. It's the foundation.";
-    
-    const text = this.add.text(
-      width / 2,
-      height - 270,
-      message,
-      {
-        fontSize: '24px',
-        color: '#FFFFFF',
-        align: 'center',
-        wordWrap: { width: width - 150 }
-      }
-    );
-    text.setScrollFactor(0);
-    text.setOrigin(0.5);
-    text.setDepth(1001); // Set high depth to appear above player
-    
-    // Add a continue button
-    const continueButton = this.add.rectangle(
-      width / 2,
-      height - 85,
-      160,
-      30,
-      0x4CAF50
-    );
-    continueButton.setScrollFactor(0);
-    continueButton.setInteractive({ useHandCursor: true });
-    continueButton.setDepth(1002); // Set high depth to appear above player
-    
-    const buttonText = this.add.text(
-      width / 2,
-      height - 85, 
-      'Continue',
-      {
-        fontSize: '14px',
-        color: '#FFFFFF'
-      }
-    );
-    buttonText.setScrollFactor(0);
-    buttonText.setOrigin(0.5);
-    buttonText.setDepth(1003); // Set high depth to appear above player
-    
-    // Group all dialogue elements
-    const dialogueGroup = this.add.group([dialogueBox, text, continueButton, buttonText]);
-    
-    // Function to handle dialogue completion
-    const completeDialogue = () => {
-      // Remove the keyboard listener
-      this.input.keyboard?.off('keydown-ENTER');
-      
-      // Destroy the dialogue
-      dialogueGroup.destroy(true);
-
-      // Re-enable player movement after dialog closes
-      if (this.player) {
-        // Re-enable input processing
-        this.player.sprite.setData('inputDisabled', false);
-        
-        // Resume animation system (the actual animation will be controlled by the update method)
-        this.player.sprite.anims.resume();
-      }
-    };
-    
-    // Handle continue button click
-    continueButton.on('pointerdown', completeDialogue);
-    
-    // Add keyboard support for Enter key
-    this.input.keyboard?.on('keydown-ENTER', completeDialogue);
-  }
-  
-  /**
-   * Center the map within the game window
-   */
-  centerMap() {
-    if (!this.map) return;
-    
-    const mapWidth = this.map.widthInPixels;
-    const mapHeight = this.map.heightInPixels;
-    const gameWidth = this.scale.width;
-    const gameHeight = this.scale.height;
-    
-    const offsetX = Math.max(0, (gameWidth - mapWidth) / 2);
-    const offsetY = Math.max(0, (gameHeight - mapHeight) / 2);
-    
-    if (this.map.layers) {
-      this.map.layers.forEach(layer => {
-        if (layer.tilemapLayer) {
-          layer.tilemapLayer.x = offsetX;
-          layer.tilemapLayer.y = offsetY;
+    this.dialogue?.start('level3/boards', {
+      onClose: () => {
+        // Re-enable player movement after dialog closes
+        if (this.player) {
+          // Re-enable input processing
+          this.player.sprite.setData('inputDisabled', false);
+          
+          // Resume animation system (the actual animation will be controlled by the update method)
+          this.player.sprite.anims.resume();
         }
-      });
-    }
-    
-    this.physics.world.setBounds(offsetX, offsetY, mapWidth, mapHeight);
-    this.cameras.main.setBounds(offsetX, offsetY, mapWidth, mapHeight);
+      }
+    });
   }
   
   /**
@@ -621,13 +423,7 @@ export default class Level3Scene extends Scene {
     
     // Make the return zone interactive
     returnZone.setInteractive();
-    returnZone.setData('interactive', true);
-    returnZone.setData('onInteract', () => {
-      this.returnToPreviousLevel();
-    });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(returnZone);
+    this.addInteractable(returnZone, () => this.returnToPreviousLevel());
   }
   
   /**
@@ -635,10 +431,7 @@ export default class Level3Scene extends Scene {
    */
   returnToPreviousLevel() {
     // Prevent multiple transitions
-    if (this.data && this.data.get('transitioning')) return;
-    
-    // Mark as transitioning
-    this.data.set('transitioning', true);
+    if (this.isTransitioning()) return;
     
     // Show a message about returning
     const width = this.cameras.main.width;
@@ -662,236 +455,13 @@ export default class Level3Scene extends Scene {
       returnText.destroy();
     });
     
-    // Fade out effect
-    this.cameras.main.fade(1000, 0, 0, 0);
-    
-    // Wait for fade to complete then change scene
-    this.cameras.main.once('camerafadeoutcomplete', () => {
-      this.scene.start('Level2Scene');
-    });
-  }
-  
-  /**
-   * Check for interactive objects near the player
-   */
-  checkInteractiveObjects() {
-    if (!this.player) return;
-    
-    // Find all interactive objects in range
-    const playerPos = this.player.sprite.getCenter();
-    const interactDistance = 60; // Interaction range
-    let closestObject: Phaser.GameObjects.GameObject | undefined;
-    let closestDistance = interactDistance;
-    
-    // Find the closest interactive object in range
-    this.interactiveObjects.forEach(obj => {
-      // Skip objects specifically marked as not visible for interaction
-      if (obj.getData('visible') === false) return;
-      
-      let objX = 0;
-      let objY = 0;
-      
-      if ('getCenter' in obj) {
-        const center = (obj as unknown as Phaser.GameObjects.Sprite).getCenter();
-        objX = center.x;
-        objY = center.y;
-      } else if ('x' in obj && 'y' in obj) {
-        objX = (obj as unknown as { x: number }).x;
-        objY = (obj as unknown as { y: number }).y;
-      }
-      
-      const distance = Phaser.Math.Distance.Between(
-        playerPos.x, playerPos.y,
-        objX, objY
-      );
-      
-      if (distance < closestDistance) {
-        closestObject = obj;
-        closestDistance = distance;
-      }
-    });
-    
-    // If we found an object in range, show indicator
-    if (closestObject && closestObject !== this.nearbyObject) {
-      this.nearbyObject = closestObject;
-      this.showInteractionIndicator(closestObject);
-    } 
-    // If we moved out of range of the previous object
-    else if (!closestObject && this.nearbyObject) {
-      this.hideInteractionIndicator();
-      this.nearbyObject = undefined;
-    }
-  }
-  
-  /**
-   * Show interaction indicator above an object
-   */
-  showInteractionIndicator(object: Phaser.GameObjects.GameObject) {
-    let objX = 0;
-    let objY = 0;
-    
-    // Check if this object has a custom indicator target
-    const indicatorTarget = object.getData('indicatorTarget');
-    const targetObject = indicatorTarget || object;
-    
-    if ('getCenter' in targetObject) {
-      const center = (targetObject as unknown as Phaser.GameObjects.Sprite).getCenter();
-      objX = center.x;
-      objY = center.y;
-    } else if ('x' in targetObject && 'y' in targetObject) {
-      objX = (targetObject as unknown as { x: number }).x;
-      objY = (targetObject as unknown as { y: number }).y;
-    }
-    
-    // Position above the object
-    const x = objX;
-    const y = objY - 40;
-    
-    // If we don't have an indicator yet, create one
-    if (!this.interactionIndicator) {
-      // Create a simple indicator
-      this.interactionIndicator = this.add.sprite(x, y, 'interaction-indicator');
-      
-      if (!this.textures.exists('interaction-indicator')) {
-        console.log('Creating interaction indicator texture');
-        const graphics = this.make.graphics({ x: 0, y: 0 });
-        
-        // Draw a small white dot with a glow effect
-        graphics.fillStyle(0xFFFFFF, 0.8);
-        graphics.fillCircle(16, 16, 4);
-        
-        // Add a subtle glow/halo
-        graphics.fillStyle(0xFFFFFF, 0.3);
-        graphics.fillCircle(16, 16, 8);
-        
-        graphics.generateTexture('interaction-indicator', 32, 32);
-      }
-      
-      // Add a subtle bobbing animation
-      this.tweens.add({
-        targets: this.interactionIndicator,
-        y: y - 6,
-        duration: 1200,
-        yoyo: true,
-        repeat: -1,
-        ease: 'Sine.easeInOut'
-      });
-      
-      // Add a subtle pulsing effect
-      this.tweens.add({
-        targets: this.interactionIndicator,
-        alpha: 0.6,
-        duration: 1000,
-        yoyo: true,
-        repeat: -1,
-        ease: 'Sine.easeInOut'
-      });
-    }
-    
-    // Set the texture and make visible
-    this.interactionIndicator.setTexture('interaction-indicator');
-    this.interactionIndicator.setVisible(true);
-    this.interactionIndicator.setPosition(x, y);
-    
-    // Set high depth to ensure it's visible
-    this.interactionIndicator.setDepth(200);
-  }
-  
-  /**
-   * Hide the interaction indicator
-   */
-  hideInteractionIndicator() {
-    if (this.interactionIndicator) {
-      this.interactionIndicator.setVisible(false);
-    }
+    this.transitionTo('Level2Scene');
   }
   
-  /**
-   * Interact with the nearby object if one exists
-   */
-  interactWithNearbyObject() {
-    if (this.nearbyObject) {
-      const onInteract = this.nearbyObject.getData('onInteract');
-      if (typeof onInteract === 'function') {
-        onInteract();
-      }
-    }
-  }
-
-  /**
-   * Update - called each frame
-   */
-  update() {
-    if (!this.player || !this.cursors) return;
-    
-    // Check if player input is disabled (for dialog)
-    const inputDisabled = this.player.sprite.getData('inputDisabled');
-    
-    // Only update player movement if input is not disabled
-    if (!inputDisabled) {
-      // Update player movement and animations
-      this.player.update(this.cursors);
-    }
-    
-    // Check for nearby interactive objects
-    this.checkInteractiveObjects();
-    
-    // Check if player is walking through the open blue gate
-    this.checkPlayerExitGate();
-  }
-  
-  /**
-   * Check if player walks through the open blue gate to trigger level transition
-   */
-  checkPlayerExitGate() {
-    if (!this.player || !this.blueGate) return;
-    
-    // Check if player is within the gate bounds
-    const playerBounds = this.player.sprite.getBounds();
-    const gateBounds = this.blueGate.getBounds();
-    
-    if (Phaser.Geom.Rectangle.Overlaps(playerBounds, gateBounds)) {
-      // Prevent multiple transitions
-      if (this.blueGate.getData('transitioning')) return;
-      
-      this.blueGate.setData('transitioning', true);
-      this.transitionToNextLevel();
-    }
-  }
-
   /**
    * Transition to the next level (Level 4)
    */
   transitionToNextLevel() {
-    // Show a transition message
-    // const width = this.cameras.main.width;
-    // const height = this.cameras.main.height;
-    
-    // const transitionText = this.add.text(
-    //   width / 2,
-    //   height / 2,
-    //   "Proceeding to Level 4...",
-    //   {
-    //     fontSize: '18px',
-    //     color: '#FFFFFF',
-    //     backgroundColor: '#00000080',
-    //     padding: { x: 20, y: 10 },
-    //     align: 'center'
-    //   }
-    // ).setOrigin(0.5).setScrollFactor(0).setDepth(1000);
-    
-    // // Remove text after a short delay (before the fade completes)
-    // this.time.delayedCall(800, () => {
-    //   transitionText.destroy();
-    // });
-    
-    // Fade out effect
-    this.cameras.main.fade(1000, 0, 0, 0);
-    
-    // Wait for fade to complete then change scene
-    this.cameras.main.once('camerafadeoutcomplete', () => {
-      // Transition to Level 4
-      this.scene.start('Level4Scene');
-    });
+    this.transitionTo('Level4Scene');
   }
-} 
\ No newline at end of file
+}
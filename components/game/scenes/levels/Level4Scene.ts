@@ -1,18 +1,22 @@
 'use client'; /* This file is only executed on the client side */
 
-import { Scene } from 'phaser';
-import { loadTilemap, addCollision, MapLayers } from '@/lib/utils/mapLoader';
-import Player from '@/lib/classes/Player';
+import BaseLevelScene from '@/components/game/scenes/BaseLevelScene';
+import DialogueRunner, { DialogueActionContext } from '@/lib/classes/DialogueRunner';
+import NftGalleryTerminal from '@/lib/classes/NftGalleryTerminal';
+import { preloadDialogues } from '@/lib/utils/dialogueLoader';
+import { getCurrentLevel } from '@/lib/utils/levelManager';
+import { NftMetadata, createGraduationMetadata } from '@/lib/utils/nftMetadata';
+import { getSavedGameState } from '@/lib/utils/saveManager';
 import { PuzzleWalletService } from '@/lib/services/PuzzleWalletService';
+import { TransactionTracker } from '@/lib/services/TransactionTracker';
 
+// Transaction kind the graduation NFT mint is tracked under
+const NFT_MINT_TRANSACTION = 'nft-mint';
 
-export default class Level4Scene extends Scene {
-  private player?: Player;
-  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
-  private map?: Phaser.Tilemaps.Tilemap;
-  private layers?: MapLayers;
-  private interactiveObjects: Phaser.GameObjects.GameObject[] = [];
-  private nearbyObject?: Phaser.GameObjects.GameObject;
+// Mints submitted before giving up on an edition other players keep taking
+const MAX_MINT_ATTEMPTS = 3;
+
+export default class Level4Scene extends BaseLevelScene {
   private keycard?: Phaser.GameObjects.Sprite;
   private hasKeycard: boolean = false;
   private exitGate?: Phaser.Physics.Arcade.Sprite;
@@ -22,7 +26,6 @@ export default class Level4Scene extends Scene {
   private debugGraphics?: Phaser.GameObjects.Graphics;
   private guardNPC?: Phaser.GameObjects.Sprite;
   // Remove the shared indicator and track object-specific indicators
-  private interactionIndicators: Map<Phaser.GameObjects.GameObject, Phaser.GameObjects.Sprite> = new Map();
 
   // Wallet integration for NFT minting
   private walletService: PuzzleWalletService;
@@ -31,7 +34,7 @@ export default class Level4Scene extends Scene {
   private nftMinted: boolean = false;
   private nftMintingInProgress: boolean = false;
   private nftTransactionId: string | null = null;
-  private mintDialogueGroup?: Phaser.GameObjects.Group;
+  private nftGallery?: NftGalleryTerminal;
 
   constructor() {
     super({ key: 'Level4Scene' });
@@ -39,15 +42,20 @@ export default class Level4Scene extends Scene {
   }
 
   init() {
-    // Store current scene in localStorage for development mode reload
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('currentScene', this.scene.key);
-      console.log('Current scene saved:', this.scene.key);
-    }
-    
-    // Initialize interactive objects array
-    this.interactiveObjects = [];
+    super.init();
+
+    // Restart Level reuses this instance, so clear everything the last run built
+    this.keycard = undefined;
     this.hasKeycard = false;
+    this.exitGate = undefined;
+    this.concreteDoor = undefined;
+    this.doorActive = false;
+    this.debugGraphics = undefined;
+    this.guardNPC = undefined;
+    this.nftMinted = false;
+    this.nftMintingInProgress = false;
+    this.nftTransactionId = null;
+    this.nftGallery = undefined;
     
     // Check if wallet was previously connected and try to reconnect
     this.attemptWalletReconnection();
@@ -100,6 +108,9 @@ export default class Level4Scene extends Scene {
     // Load level 4 tilemap
     this.load.tilemapTiledJSON('level4', '/assets/maps/levels/level4.json');
     
+    // Load the guard conversation
+    preloadDialogues(this, ['level4/guard']);
+    
     // Load tile images if they don't already exist
     if (!textureCheck('floor')) {
       this.load.image('floor', '/assets/maps/floor.png');
@@ -196,6 +207,12 @@ export default class Level4Scene extends Scene {
   }
 
   create() {
+    // Shared dialogue box for NPCs
+    this.dialogue = new DialogueRunner(this);
+    
+    // Gallery of the player's NFTs, opened from the big-screens terminal
+    this.nftGallery = new NftGalleryTerminal(this);
+    
     // Initialize physics world if it doesn't exist
     if (!this.physics.world) {
       console.warn('Physics world not initialized, skipping debug clear');
@@ -209,35 +226,12 @@ export default class Level4Scene extends Scene {
     this.cameras.main.setBackgroundColor('#2B2A3D');
     
     // Load the tilemap
-    try {
-      console.log('Loading level4 tilemap...');
-      const { map, layers } = loadTilemap(
-        this,
-        'level4',
-        ['Floor', 'Backwall', 'Objects', 'Collision'],
-        ['Collision'] // Only use the Collision layer for collisions
-      );
-      
-      this.map = map;
-      this.layers = layers;
-      
-      // Set world bounds based on the map dimensions
-      if (this.map) {
-        const mapWidth = this.map.widthInPixels;
-        const mapHeight = this.map.heightInPixels;
-        this.physics.world.setBounds(0, 0, mapWidth, mapHeight);
-        console.log(`Map dimensions: ${mapWidth}x${mapHeight}`);
-        
-        // Center the map in the game canvas
-        this.centerMap();
-      }
-
+    if (this.loadLevelMap('level4', ['Floor', 'Backwall', 'Objects', 'Collision'])) {
       // Add big-desk and big-screens to the right room
       this.addFurniture();
       // Add the guard to the left room
       this.addGuard();
-    } catch (error) {
-      console.error('Failed to load level4 tilemap:', error);
+    } else {
       // Fall back to creating a programmatic level
       this.createBasicLevel();
     }
@@ -246,34 +240,7 @@ export default class Level4Scene extends Scene {
     const tileSize = 48;
     const startX = 13.5 * tileSize; 
     const startY = 12 * tileSize;
-    this.player = new Player(this, startX, startY);
-    
-    // Add collision with the Collision layer
-    if (this.player && this.layers) {
-      addCollision(this, this.player.sprite, this.layers, ['Collision']);
-    }
-    
-    // Set up input
-    this.cursors = this.input?.keyboard?.createCursorKeys();
-    
-    // Add space key for interactions
-    this.input.keyboard?.on('keydown-SPACE', () => {
-      this.interactWithNearbyObject();
-    });
-    
-    // Set up camera to follow player
-    if (this.player) {
-      this.cameras.main.startFollow(this.player.sprite, true, 0.08, 0.08);
-      this.cameras.main.setZoom(1);
-      
-      // Set camera bounds based on the map
-      if (this.map) {
-        this.cameras.main.setBounds(0, 0, this.map.widthInPixels, this.map.heightInPixels);
-      }
-      
-      // Add a subtle deadzone for smoother camera
-      this.cameras.main.setDeadzone(100, 100);
-    }
+    this.spawnPlayer(startX, startY);
     
     // Show welcome message for level 4
 
@@ -291,51 +258,6 @@ export default class Level4Scene extends Scene {
     console.log("Level 4 scene fully initialized");
   }
   
-  /**
-   * Center the map within the game window
-   */
-  centerMap() {
-    if (!this.map) return;
-    
-    // Get the map and game dimensions
-    const mapWidth = this.map.widthInPixels;
-    const mapHeight = this.map.heightInPixels;
-    const gameWidth = this.scale.width;
-    const gameHeight = this.scale.height;
-    
-    // Calculate offset to center the map
-    const offsetX = Math.max(0, (gameWidth - mapWidth) / 2);
-    const offsetY = Math.max(0, (gameHeight - mapHeight) / 2);
-    
-    // Apply offset to all map layers by moving the container
-    if (this.map.layers) {
-      this.map.layers.forEach(layer => {
-        if (layer.tilemapLayer) {
-          layer.tilemapLayer.x = offsetX;
-          layer.tilemapLayer.y = offsetY;
-        }
-      });
-    }
-    
-    // Adjust physics world bounds
-    this.physics.world.setBounds(
-      offsetX, 
-      offsetY, 
-      mapWidth, 
-      mapHeight
-    );
-    
-    // Adjust camera bounds
-    this.cameras.main.setBounds(
-      offsetX,
-      offsetY,
-      mapWidth,
-      mapHeight
-    );
-    
-    console.log(`Centered map with offset: (${offsetX}, ${offsetY})`);
-  }
-
   /**
    * Create a basic level as fallback
    */
@@ -423,16 +345,7 @@ export default class Level4Scene extends Scene {
     this.keycard.setInteractive({ useHandCursor: true });
     
     // Add interactive behavior
-    this.keycard.setData('interactive', true);
-    this.keycard.setData('onInteract', () => {
-      this.useKeycardTerminal();
-    });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(this.keycard);
-
-    // Create a dedicated indicator for the keycard terminal
-    this.createInteractionIndicator(this.keycard);
+    this.addInteractable(this.keycard, () => this.useKeycardTerminal());
   }
   
   /**
@@ -476,7 +389,7 @@ export default class Level4Scene extends Scene {
     if (this.hasKeycard) return;
     
     this.hasKeycard = true;
-
+    this.audio?.playSfx('sfx-keycard');
   }
   
   /**
@@ -517,13 +430,12 @@ export default class Level4Scene extends Scene {
     
     // Make the gate interactive
     this.exitGate.setInteractive({ useHandCursor: true });
-    this.exitGate.setData('interactive', true);
-    this.exitGate.setData('onInteract', () => {
-      this.tryOpenExitGate();
-    });
+    this.addInteractable(this.exitGate, () => this.tryOpenExitGate(), { indicator: 'none' });
     
-    // Add to interactive objects array
-    this.interactiveObjects.push(this.exitGate);
+    // Walking through the unlocked gate leads to the next level
+    this.addExitZone(this.exitGate, () => this.transitionToNextLevel(), {
+      isOpen: () => !this.exitGate?.getData('isLocked')
+    });
   }
   
   /**
@@ -615,32 +527,12 @@ export default class Level4Scene extends Scene {
     // instead of immediately transitioning
   }
   
-  /**
-   * Check if player walks through the open exit gate to trigger level transition
-   */
-  checkPlayerExitGate() {
-    if (!this.player || !this.exitGate) return;
-    
-    // Only check if the gate is unlocked
-    if (this.exitGate.getData('isLocked')) return;
-    
-    // Check if player is within the gate bounds
-    const playerBounds = this.player.sprite.getBounds();
-    const gateBounds = this.exitGate.getBounds();
-    
-    if (Phaser.Geom.Rectangle.Overlaps(playerBounds, gateBounds)) {
-      // Prevent multiple transitions
-      if (this.exitGate.getData('transitioning')) return;
-      
-      this.exitGate.setData('transitioning', true);
-      this.transitionToNextLevel();
-    }
-  }
-  
   /**
    * Add a particle effect when the gate opens
    */
   addGateOpeningEffect(x: number, y: number) {
+    this.audio?.playSfx('sfx-gate-open');
+
     // Create a particle emitter for the gate opening effect
     const particles = this.add.particles(x, y, 'blue-gate', {
       frame: 0,
@@ -662,183 +554,13 @@ export default class Level4Scene extends Scene {
     });
   }
   
-  /**
-   * Create a trigger zone after the exit gate for level transition
-   */
-  createExitTriggerZone() {
-    if (!this.exitGate) return;
-    
-    const x = this.exitGate.x;
-    const y = this.exitGate.y + 100; // Just below the gate
-    const width = 200;
-    const height = 100;
-    
-    // Create a zone that will trigger the level transition
-    const triggerZone = this.add.zone(x, y, width, height);
-    this.physics.world.enable(triggerZone, Phaser.Physics.Arcade.STATIC_BODY);
-    
-    // Add overlap detection
-    if (this.player) {
-      this.physics.add.overlap(this.player.sprite, triggerZone, () => {
-        this.transitionToNextLevel();
-      });
-    }
-  }
-  
   /**
    * Transition to the next level
    */
   transitionToNextLevel() {
-    // Prevent multiple transitions
-    if (this.data && this.data.get('transitioning')) return;
-    
-    // Mark as transitioning
-    this.data.set('transitioning', true);
-    
-    // Fade out effect
-    this.cameras.main.fade(1000, 0, 0, 0);
-    
-    // Wait for fade to complete then change scene
-    this.cameras.main.once('camerafadeoutcomplete', () => {
-      // Go to Level 5
-      this.scene.start('Level5Scene');
-    });
+    this.transitionTo('Level5Scene');
   }
   
-  /**
-   * Check if any interactive objects are in range and show indicators
-   */
-  checkInteractiveObjects() {
-    if (!this.player) return;
-    
-    const playerPos = this.player.sprite.getCenter();
-    const interactDistance = 60; // Interaction range
-    let closestObject: Phaser.GameObjects.GameObject | undefined;
-    let closestDistance = interactDistance;
-    
-    // First, hide all indicators
-    this.interactionIndicators.forEach(indicator => {
-      indicator.setVisible(false);
-    });
-    
-    // Find the closest interactive object in range
-    this.interactiveObjects.forEach(obj => {
-      let objX = 0;
-      let objY = 0;
-      
-      if ('getCenter' in obj) {
-        const center = (obj as unknown as Phaser.GameObjects.Sprite).getCenter();
-        objX = center.x;
-        objY = center.y;
-      } else if ('x' in obj && 'y' in obj) {
-        objX = (obj as unknown as { x: number }).x;
-        objY = (obj as unknown as { y: number }).y;
-      }
-      
-      const distance = Phaser.Math.Distance.Between(
-        playerPos.x, playerPos.y,
-        objX, objY
-      );
-      
-      if (distance < interactDistance) {
-        // If object is in range, show its indicator
-        const indicator = this.interactionIndicators.get(obj);
-        if (indicator) {
-          // Update position (in case object moved)
-          indicator.setPosition(objX, objY - 40);
-          indicator.setVisible(true);
-        }
-        
-        // Track closest object for interaction
-        if (distance < closestDistance) {
-          closestObject = obj;
-          closestDistance = distance;
-        }
-      }
-    });
-    
-    // Update the nearby object reference
-    this.nearbyObject = closestObject;
-  }
-  
-  /**
-   * Create an interaction indicator for a specific object
-   */
-  createInteractionIndicator(object: Phaser.GameObjects.GameObject) {
-    // Get object position
-    let objX = 0;
-    let objY = 0;
-    
-    if ('getCenter' in object) {
-      const center = (object as unknown as Phaser.GameObjects.Sprite).getCenter();
-      objX = center.x;
-      objY = center.y;
-    } else if ('x' in object && 'y' in object) {
-      objX = (object as unknown as { x: number }).x;
-      objY = (object as unknown as { y: number }).y;
-    }
-    
-    // Position above the object
-    const x = objX;
-    const y = objY - 40;
-    
-    // Create indicator texture if it doesn't exist
-    if (!this.textures.exists('interaction-indicator')) {
-      const graphics = this.make.graphics({ x: 0, y: 0 });
-      
-      // Draw a small white dot with a glow effect
-      graphics.fillStyle(0xFFFFFF, 0.8);
-      graphics.fillCircle(16, 16, 4);
-      
-      // Add a subtle glow/halo
-      graphics.fillStyle(0xFFFFFF, 0.3);
-      graphics.fillCircle(16, 16, 8);
-      
-      graphics.generateTexture('interaction-indicator', 32, 32);
-    }
-    
-    // Create a dedicated indicator for this object
-    const indicator = this.add.sprite(x, y, 'interaction-indicator');
-    indicator.setVisible(false); // Hide initially
-    indicator.setDepth(200); // High depth to ensure visibility
-    
-    // Add animations
-    this.tweens.add({
-      targets: indicator,
-      y: y - 6,
-      duration: 1200,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    this.tweens.add({
-      targets: indicator,
-      alpha: 0.6,
-      duration: 1000,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    // Store the indicator reference
-    this.interactionIndicators.set(object, indicator);
-    
-    return indicator;
-  }
-  
-  /**
-   * Interact with the nearby object if one exists
-   */
-  interactWithNearbyObject() {
-    if (this.nearbyObject) {
-      const onInteract = this.nearbyObject.getData('onInteract');
-      if (typeof onInteract === 'function') {
-        onInteract();
-      }
-    }
-  }
-
   /**
    * Add furniture to the level
    */
@@ -866,14 +588,7 @@ export default class Level4Scene extends Scene {
     const interactZone = this.add.zone(areaX, areaY, areaWidth, areaHeight);
     interactZone.setOrigin(0.5);
     interactZone.setInteractive({ useHandCursor: true });
-    interactZone.setData('interactive', true);
-    interactZone.setData('onInteract', () => {
-      this.showScreensMessage();
-    });
-    this.interactiveObjects.push(interactZone);
-    
-    // Create a dedicated indicator for the screens interaction
-    this.createInteractionIndicator(interactZone);
+    this.addInteractable(interactZone, () => this.showScreensMessage());
 
     console.log('Added furniture to right room:', { deskX, deskY, screensX, screensY, areaX, areaY, areaWidth, areaHeight });
   }
@@ -889,16 +604,7 @@ export default class Level4Scene extends Scene {
     
     // Make the guard interactive
     this.guardNPC.setInteractive({ useHandCursor: true });
-    this.guardNPC.setData('interactive', true);
-    this.guardNPC.setData('onInteract', () => {
-      this.talkToGuard();
-    });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(this.guardNPC);
-    
-    // Create a dedicated indicator for the guard
-    this.createInteractionIndicator(this.guardNPC);
+    this.addInteractable(this.guardNPC, () => this.talkToGuard());
     
     console.log('Added interactive guard at:', guardX, guardY);
   }
@@ -907,204 +613,31 @@ export default class Level4Scene extends Scene {
    * Handle dialogue with the guard
    */
   talkToGuard() {
-    const width = this.cameras.main.width;
-    const height = this.cameras.main.height;
-    
-    if (!this.doorActive) {
-      // If the concrete door isn't open yet, guard won't help
-      const noAccessText = this.add.text(
-        width / 2,
-        height / 2,
-        "Dr. Cypherpunk: Sorry, I can't help you right now.\nThe secure area is locked.",
-        {
-          fontSize: '18px',
-          color: '#FFFFFF',
-          backgroundColor: '#00000080',
-          padding: { x: 20, y: 10 },
-          align: 'center'
-        }
-      ).setOrigin(0.5).setScrollFactor(0).setDepth(1000);
-      
-      // Remove text after a few seconds
-      this.time.delayedCall(3000, () => {
-        noAccessText.destroy();
-      });
-    } else if (this.hasKeycard) {
-      // If player already has the keycard
-      const alreadyHasText = this.add.text(
-        width / 2,
-        height / 2,
-        "Dr. Cypherpunk: You already have your graduation NFT and keycard.\nUse it at the terminal to open the gate.",
-        {
-          fontSize: '18px',
-          color: '#FFFFFF',
-          backgroundColor: '#00000080',
-          padding: { x: 20, y: 10 },
-          align: 'center'
-        }
-      ).setOrigin(0.5).setScrollFactor(0).setDepth(1000);
-      
-      // Remove text after a few seconds
-      this.time.delayedCall(3000, () => {
-        alreadyHasText.destroy();
-      });
-    } else if (this.nftMintingInProgress) {
-      // If NFT minting is in progress
-      const mintingText = this.add.text(
-        width / 2,
-        height / 2,
-        "Please wait while your NFT is being minted...",
-        {
-          fontSize: '18px',
-          color: '#FFFFFF',
-          backgroundColor: '#00000080',
-          padding: { x: 20, y: 10 },
-          align: 'center'
-        }
-      ).setOrigin(0.5).setScrollFactor(0).setDepth(1000);
-      
-      // Remove text after a few seconds
-      this.time.delayedCall(3000, () => {
-        mintingText.destroy();
-      });
-    } else {
-      // Create an interactive dialogue box for NFT minting
-      const dialogueBox = this.add.rectangle(
-        width / 2,
-        height - 150,
-        width - 100,
-        200,
-        0x000000,
-        0.8
-      );
-      dialogueBox.setScrollFactor(0);
-      dialogueBox.setOrigin(0.5);
-      dialogueBox.setStrokeStyle(2, 0xFFFFFF);
-      dialogueBox.setDepth(1000); // Set high depth to appear above player
-      
-      const message = "Dr. Cypherpunk: Congratulations! You are now ready to mint your graduation NFT!";
-      
-      const text = this.add.text(
-        width / 2,
-        height - 180,
-        message,
-        {
-          fontSize: '24px',
-          color: '#FFFFFF',
-          align: 'center',
-          wordWrap: { width: width - 150 }
-        }
-      );
-      text.setScrollFactor(0);
-      text.setOrigin(0.5);
-      text.setDepth(1001); // Set high depth to appear above player
-      
-      // Add "Mint" button
-      const mintButton = this.add.rectangle(
-        width / 2 - 70,
-        height - 100,
-        100,
-        40,
-        0x4CAF50
-      );
-      mintButton.setScrollFactor(0);
-      mintButton.setInteractive({ useHandCursor: true });
-      mintButton.setDepth(1002); // Set high depth to appear above player
-      
-      const mintText = this.add.text(
-        width / 2 - 70,
-        height - 100, 
-        'Mint',
-        {
-          fontSize: '16px',
-          color: '#FFFFFF'
-        }
-      );
-      mintText.setScrollFactor(0);
-      mintText.setOrigin(0.5);
-      mintText.setDepth(1003); // Set high depth to appear above player
-      
-      // Add "Deny" button
-      const denyButton = this.add.rectangle(
-        width / 2 + 70,
-        height - 100,
-        100,
-        40,
-        0xF44336
-      );
-      denyButton.setScrollFactor(0);
-      denyButton.setInteractive({ useHandCursor: true });
-      denyButton.setDepth(1004); // Set high depth to appear above player
-      
-      const denyText = this.add.text(
-        width / 2 + 70,
-        height - 100, 
-        'Deny',
-        {
-          fontSize: '16px',
-          color: '#FFFFFF'
-        }
-      );
-      denyText.setScrollFactor(0);
-      denyText.setOrigin(0.5);
-      denyText.setDepth(1005); // Set high depth to appear above player
-      
-      // Group all dialogue elements
-      this.mintDialogueGroup = this.add.group([
-        dialogueBox, text, 
-        mintButton, mintText, 
-        denyButton, denyText
-      ]);
-      
-      // Handle "Mint" button click
-      mintButton.on('pointerdown', async () => {
-        // Disable buttons to prevent multiple clicks
-        mintButton.disableInteractive();
-        denyButton.disableInteractive();
-        
-        // Update the text to show minting in progress
-        text.setText("Connecting to your wallet...\nPlease approve the transaction when prompted.");
-        
-        // Start minting process
-        this.startNFTMintingProcess(text);
-      });
-      
-      // Handle "Deny" button click
-      denyButton.on('pointerdown', () => {
-        if (this.mintDialogueGroup) {
-          this.mintDialogueGroup.destroy(true);
-          this.mintDialogueGroup = undefined;
-        }
-        
-      });
-      
-      // Add hover effects
-      mintButton.on('pointerover', () => {
-        mintButton.setFillStyle(0x45A049);
-      });
-      mintButton.on('pointerout', () => {
-        mintButton.setFillStyle(0x4CAF50);
-      });
-      
-      denyButton.on('pointerover', () => {
-        denyButton.setFillStyle(0xE53935);
-      });
-      denyButton.on('pointerout', () => {
-        denyButton.setFillStyle(0xF44336);
-      });
-    }
+    this.dialogue?.start('level4/guard', {
+      state: {
+        doorActive: this.doorActive,
+        hasKeycard: this.hasKeycard,
+        mintingInProgress: this.nftMintingInProgress
+      },
+      actions: {
+        mintNFT: context => this.startNFTMintingProcess(context)
+      }
+    });
   }
   
   /**
    * Start the NFT minting process
+   * 
+   * @returns The guard dialogue node to continue with
    */
-  private async startNFTMintingProcess(dialogueText: Phaser.GameObjects.Text) {
+  private async startNFTMintingProcess(context: DialogueActionContext): Promise<string> {
     this.nftMintingInProgress = true;
+    context.setText("Connecting to your wallet...\nPlease approve the transaction when prompted.");
     
     try {
       // First check if wallet is connected
       if (!this.walletService.isConnected()) {
-        dialogueText.setText("Connecting to Puzzle Wallet...\nPlease approve the connection.");
+        context.setText(`Connecting to ${this.walletService.getWallet().name}...\nPlease approve the connection.`);
         
         // Try to connect wallet
         const connected = await this.walletService.connectWallet();
@@ -1120,181 +653,86 @@ export default class Level4Scene extends Scene {
       await this.walletService.fetchBalances();
       
       // Check if the wallet has sufficient Aleo credits
-      console.log('[Level4Scene] Checking if wallet has sufficient Aleo credits');
-      const balances = this.walletService.getBalances();
-      console.log('[Level4Scene] Available balances:', balances.map(b => ({
-        programId: b.programId,
-        coinbaseSymbol: b.coinbaseSymbol,
-        name: b.name,
-        symbol: b.symbol,
-        public: b.values.public,
-        private: b.values.private
-      })));
-      
-      const hasCredits = this.walletService.hasAleoCredits();
-      console.log('[Level4Scene] Has sufficient credits:', hasCredits);
-      
-      if (!hasCredits) {
-        // If no credits, show error and recommend going to the faucet
-        dialogueText.setText("Your wallet doesn't have enough Aleo credits to mint.\nPlease visit the faucet terminal to get some tokens first.");
-        
-        // Get and display all balances for debugging
-        const balances = this.walletService.getBalances();
-        console.log('[Level4Scene] All wallet balances:', balances);
-        
-        // Create a close button to dismiss this message
-        const width = this.cameras.main.width;
-        const height = this.cameras.main.height;
-        
-        const closeButton = this.add.rectangle(
-          width / 2,
-          height - 70,
-          120,
-          40,
-          0x555555
-        );
-        closeButton.setScrollFactor(0);
-        closeButton.setInteractive({ useHandCursor: true });
-        closeButton.setDepth(1006); // Set high depth to appear above player
-        
-        const closeText = this.add.text(
-          width / 2,
-          height - 70,
-          "Close",
-          {
-            fontSize: '16px',
-            color: '#FFFFFF',
-            align: 'center'
-          }
-        );
-        closeText.setScrollFactor(0);
-        closeText.setOrigin(0.5);
-        closeText.setDepth(1007); // Set high depth to appear above player
-        
-        // Add hover effects
-        closeButton.on('pointerover', () => {
-          closeButton.setFillStyle(0x777777);
-        });
-        
-        closeButton.on('pointerout', () => {
-          closeButton.setFillStyle(0x555555);
-        });
-        
-        // Handle close button click
-        closeButton.on('pointerdown', () => {
-          if (this.mintDialogueGroup) {
-            this.mintDialogueGroup.destroy(true);
-            this.mintDialogueGroup = undefined;
-          }
-          closeButton.destroy();
-          closeText.destroy();
-        });
-        
-        // Add to mintDialogueGroup if it exists
-        if (this.mintDialogueGroup) {
-          this.mintDialogueGroup.add(closeButton);
-          this.mintDialogueGroup.add(closeText);
-        }
-        
-        return; // Exit the function early - can't mint without credits
+      if (!this.walletService.hasAleoCredits()) {
+        // If no credits, recommend going to the faucet - can't mint without credits
+        return 'noCredits';
       }
       
       // Now try to mint the NFT
-      dialogueText.setText("Wallet connected!\nNow minting your graduation NFT...\nPlease approve the transaction.");
+      context.setText("Wallet connected!\nNow minting your graduation NFT...\nPlease approve the transaction.");
       
 
-      const nftName = `123field`; // Using literal values as in the example
-      const nftImage = `456field`; // Using literal values as in the example
-      const nftEdition = `1scalar`; // Using literal values as in the example
-      
-      // First attempt to mint the NFT
-      let mintResult = await this.walletService.mintLeoNFT(nftName, nftImage, nftEdition);
+      // Record the player's progress in the NFT, the edition is left to the wallet service
+      const nftMetadata = createGraduationMetadata(getSavedGameState(), getCurrentLevel());
       
-      // If minting failed, likely due to permissions, try reconnecting and minting again
-      if (!mintResult) {
-        dialogueText.setText("Reconnecting wallet with proper permissions...\nPlease approve permissions for the NFT contract.");
-        
-        // Disconnect and reconnect to reset permissions
-        await this.walletService.disconnectWallet().catch(() => {});
-        
-        const reconnected = await this.walletService.connectWallet();
-        if (!reconnected) {
-          throw new Error("Failed to reconnect wallet with proper permissions.");
-        }
-        
-        // Try minting again with proper permissions
-        dialogueText.setText("Wallet reconnected!\nNow minting your graduation NFT...\nPlease approve the transaction.");
-        mintResult = await this.walletService.mintLeoNFT(nftName, nftImage, nftEdition);
-      }
-      
-      if (!mintResult) {
-        throw new Error("Minting failed. The transaction was not created.");
+      // Wallet errors are thrown and shown to the player by the catch below
+      const mintResult = await this.walletService.mintLeoNFT(nftMetadata);
+      if (!mintResult?.eventId) {
+        throw new Error(mintResult?.error || "Minting failed. The transaction was not created.");
       }
       
       // Save the transaction ID - use eventId property instead of id
-      this.nftTransactionId = mintResult.eventId || null;
+      this.nftTransactionId = mintResult.eventId;
       this.nftMinted = true;
       
-      // Update dialogue with success message
-      if (this.mintDialogueGroup) {
-        this.mintDialogueGroup.destroy(true);
-        this.mintDialogueGroup = undefined;
-      }
-      
-      // Show success message
-      const width = this.cameras.main.width;
-      const height = this.cameras.main.height;
-      
-      const successText = this.add.text(
-        width / 2,
-        height / 2,
-        `Congratulations! Your graduation NFT has been minted!\n\nTransaction ID: ${this.nftTransactionId?.substring(0, 10)}...\n\nYou can check it in the blockchain explorer.`,
-        {
-          fontSize: '18px',
-          color: '#FFFFFF',
-          backgroundColor: '#00000080',
-          padding: { x: 20, y: 10 },
-          align: 'center'
-        }
-      ).setOrigin(0.5).setScrollFactor(0).setDepth(1000);
+      // Follow the mint until it settles, the big-screens terminal shows its status
+      this.followMint(mintResult.eventId, mintResult.edition, nftMetadata);
+      context.set('transactionIdShort', mintResult.eventId.substring(0, 10));
+      this.audio?.playSfx('sfx-mint-success');
       
       // After showing success, give the keycard
       this.time.delayedCall(5000, () => {
-        successText.destroy();
         this.collectKeycard();
       });
       
+      return 'minted';
     } catch (error) {
       console.error('Error in NFT minting process:', error);
-      
-      // Show error message
-      if (this.mintDialogueGroup) {
-        // Fix: Use proper Phaser method to get text element from group
-        const dialogueText = this.mintDialogueGroup.getChildren().find(
-          child => child.type === 'Text'
-        ) as Phaser.GameObjects.Text;
-        
-        if (dialogueText) {
-          dialogueText.setText(`Error: ${error instanceof Error ? error.message : 'Unknown error'}\n\nPlease try again.`);
-        }
-        
-        // Re-enable mint button
-        const mintButton = this.mintDialogueGroup.getMatching('type', 'Rectangle')[0] as Phaser.GameObjects.Rectangle;
-        if (mintButton) {
-          mintButton.setInteractive({ useHandCursor: true });
-        }
-        
-        // Re-enable deny button
-        const denyButton = this.mintDialogueGroup.getMatching('type', 'Rectangle')[1] as Phaser.GameObjects.Rectangle;
-        if (denyButton) {
-          denyButton.setInteractive({ useHandCursor: true });
-        }
-      }
+      context.set('mintError', error instanceof Error ? error.message : 'Unknown error');
+      return 'mintError';
     } finally {
       this.nftMintingInProgress = false;
     }
   }
 
+  /**
+   * Track a submitted mint and submit it again if another player's mint took its edition
+   *
+   * The contract hands out editions in order, so of two players minting at
+   * once the slower one is rejected and needs the next edition.
+   */
+  private followMint(eventId: string, edition: number, metadata: NftMetadata, attempt: number = 1) {
+    const tracker = TransactionTracker.getInstance();
+    tracker.track(eventId, NFT_MINT_TRANSACTION);
+
+    const unsubscribe = tracker.subscribe(transaction => {
+      if (transaction.id !== eventId || transaction.status === 'pending') return;
+      unsubscribe();
+      this.events.off(Phaser.Scenes.Events.SHUTDOWN, unsubscribe);
+
+      if (transaction.status === 'rejected' && attempt < MAX_MINT_ATTEMPTS) {
+        void this.resubmitMint(edition, metadata, attempt);
+      }
+    });
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, unsubscribe);
+  }
+
+  private async resubmitMint(edition: number, metadata: NftMetadata, attempt: number) {
+    try {
+      // An edition still free means the mint was rejected for another reason, like an address that already graduated
+      const next = await this.walletService.getNextNftEdition();
+      if (next <= edition) return;
+
+      const result = await this.walletService.mintLeoNFT(metadata, next);
+      if (result?.eventId) {
+        this.nftTransactionId = result.eventId;
+        this.followMint(result.eventId, next, metadata, attempt + 1);
+      }
+    } catch (error) {
+      console.warn('[Level4Scene] Could not submit the mint again:', error);
+    }
+  }
+
   /**
    * Show a message when interacting with the big-screens
    */
@@ -1359,6 +797,30 @@ export default class Level4Scene extends Scene {
     welcomeText.setOrigin(0.5);
     welcomeText.setDepth(1000);
     
+    // Live status of the graduation NFT mint
+    const mintStatusText = this.add.text(
+      width / 2,
+      height / 2 - 72,
+      this.describeMintStatus(),
+      {
+        fontSize: '13px',
+        color: '#00ff00',
+        fontFamily: 'monospace',
+        align: 'center',
+        wordWrap: { width: width - 160, useAdvancedWrap: true }
+      }
+    );
+    mintStatusText.setScrollFactor(0);
+    mintStatusText.setOrigin(0.5);
+    mintStatusText.setDepth(1000);
+    
+    const unsubscribe = TransactionTracker.getInstance().subscribe(transaction => {
+      if (transaction.kind === NFT_MINT_TRANSACTION) {
+        mintStatusText.setText(this.describeMintStatus());
+      }
+    });
+    mintStatusText.once(Phaser.GameObjects.Events.DESTROY, unsubscribe);
+    
     // Calculate spacing for horizontal layout
     const logoSize = 120; // Size for each logo
     const spacing = 30; // Space between logos
@@ -1466,12 +928,39 @@ export default class Level4Scene extends Scene {
     continueText.setOrigin(0.5);
     continueText.setDepth(1001);
     
+    // Create My NFTs button left of Continue
+    const nftButton = this.add.rectangle(
+      width / 2 - 220,
+      height / 2 + 140 + 32,
+      200,
+      40,
+      0x003344
+    );
+    nftButton.setScrollFactor(0);
+    nftButton.setInteractive({ useHandCursor: true });
+    nftButton.setDepth(1000);
+    
+    const nftText = this.add.text(
+      width / 2 - 220,
+      height / 2 + 140 + 32,
+      "My NFTs",
+      {
+        fontSize: '16px',
+        color: '#ffffff',
+        fontFamily: 'monospace'
+      }
+    );
+    nftText.setScrollFactor(0);
+    nftText.setOrigin(0.5);
+    nftText.setDepth(1001);
+    
     // Group all dialogue elements
     const terminalElements = this.add.group([
-      terminalBackground, headerBar, terminalTitle, welcomeText,
+      terminalBackground, headerBar, terminalTitle, welcomeText, mintStatusText,
       explorerLogo, explorerText, playgroundLogo, playgroundText,
       faucetLogo, faucetText,
-      continueButton, continueText
+      continueButton, continueText,
+      nftButton, nftText
     ]);
     
     // Add hover effect for Explorer logo - change to brightness instead of scale
@@ -1557,13 +1046,53 @@ export default class Level4Scene extends Scene {
       this.openConcreteDoor();
     });
     
-    // Add keyboard support for ESC key to close the terminal
-    const escKey = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
-    if (escKey) {
-      escKey.once('down', () => {
-        terminalElements.destroy(true);
-        this.input.keyboard?.removeKey(Phaser.Input.Keyboard.KeyCodes.ESC);
-      });
+    // Handle My NFTs button hover and click
+    nftButton.on('pointerover', () => {
+      nftButton.setFillStyle(0x005566);
+    });
+    
+    nftButton.on('pointerout', () => {
+      nftButton.setFillStyle(0x003344);
+    });
+    
+    nftButton.on('pointerdown', () => {
+      // Swap the terminal for the gallery and come back to it afterwards
+      terminalElements.destroy(true);
+      this.nftGallery?.open({ onClose: () => this.showScreensMessage() });
+    });
+    
+    // Let keys and the gamepad pick the buttons, cancel closes the terminal
+    this.controls?.openMenu([explorerLogo, playgroundLogo, faucetLogo, nftButton, continueButton], {
+      onCancel: () => terminalElements.destroy(true)
+    });
+  }
+
+  /**
+   * Ignore the interact key while the NFT gallery is open
+   */
+  protected interactWithNearbyObject() {
+    if (this.nftGallery?.isActive()) return;
+    super.interactWithNearbyObject();
+  }
+
+  /**
+   * Describe the latest NFT mint for the big-screens terminal
+   */
+  private describeMintStatus(): string {
+    const mint = TransactionTracker.getInstance().getLatest(NFT_MINT_TRANSACTION);
+    if (!mint) {
+      return '';
+    }
+    
+    switch (mint.status) {
+      case 'pending':
+        return `NFT mint pending... (${mint.id.substring(0, 16)})`;
+      case 'accepted':
+        return `NFT mint accepted\nTransaction: ${mint.transactionId ?? mint.id}`;
+      case 'rejected':
+        return `NFT mint rejected: ${mint.error ?? 'the network did not accept it'}`;
+      case 'failed':
+        return `NFT mint failed: ${mint.error ?? 'unknown error'}`;
     }
   }
 
@@ -1679,14 +1208,10 @@ export default class Level4Scene extends Scene {
       this.showFaucetStep2(parentGroup);
     });
     
-    // Add ESC key support for closing
-    const escKeyFaucet = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
-    if (escKeyFaucet) {
-      escKeyFaucet.once('down', () => {
-        guideElements.destroy(true);
-        this.input.keyboard?.removeKey(Phaser.Input.Keyboard.KeyCodes.ESC);
-      });
-    }
+    // Let interact continue and cancel close the guide
+    this.controls?.openMenu([continueButton], {
+      onCancel: () => guideElements.destroy(true)
+    });
   }
   
   /**
@@ -1801,14 +1326,10 @@ export default class Level4Scene extends Scene {
       guideElements.destroy(true);
     });
     
-    // Add ESC key support for closing
-    const escKeyFaucet = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
-    if (escKeyFaucet) {
-      escKeyFaucet.once('down', () => {
-        guideElements.destroy(true);
-        this.input.keyboard?.removeKey(Phaser.Input.Keyboard.KeyCodes.ESC);
-      });
-    }
+    // Let interact continue and cancel close the guide
+    this.controls?.openMenu([continueButton], {
+      onCancel: () => guideElements.destroy(true)
+    });
   }
 
   /**
@@ -1940,74 +1461,21 @@ export default class Level4Scene extends Scene {
     }
   }
 
-  update() {
-    if (!this.player || !this.cursors) return;
-    
-    // Update player movement and animations
-    this.player.update(this.cursors);
-    
-    // Check for nearby interactive objects
-    this.checkInteractiveObjects();
-    
-    // Check if player walks through the exit gate
-    this.checkPlayerExitGate();
-  }
-
   /**
    * Clean up any game objects when the scene shuts down
    */
   shutdown() {
+    super.shutdown();
+    
     // Player cleanup
     if (this.player && this.player.sprite) {
       this.player.sprite.destroy();
     }
     
-    // Clean up all indicators
-    this.interactionIndicators.forEach(indicator => {
-      if (indicator) {
-        indicator.destroy();
-      }
-    });
-    this.interactionIndicators.clear();
-    
-    // Clear interactive objects array
-    this.interactiveObjects = [];
-    
     // Remove keyboard events
     const keyboard = this.input?.keyboard;
     if (keyboard) {
-      keyboard.off('keydown-SPACE');
       keyboard.off('keydown-E');
     }
   }
-
-  /**
-   * Initialize keyboard controls
-   */
-  setupControls() {
-    if (this.input && this.input.keyboard) {
-      this.cursors = this.input.keyboard.createCursorKeys();
-      
-      // Set up interaction key (E or SPACE)
-      this.input.keyboard.on('keydown-E', () => {
-        this.handleInteraction();
-      });
-      
-      this.input.keyboard.on('keydown-SPACE', () => {
-        this.handleInteraction();
-      });
-    }
-  }
-
-  /**
-   * Handle interaction with nearby objects
-   */
-  handleInteraction() {
-    if (this.nearbyObject) {
-      const onInteract = this.nearbyObject.getData('onInteract');
-      if (onInteract) {
-        onInteract();
-      }
-    }
-  }
-} 
\ No newline at end of file
+}
@@ -1,8 +1,8 @@
 'use client'; /* This file is only executed on the client side */
 
-import { Scene } from 'phaser';
-import { loadTilemap, addCollision, MapLayers } from '@/lib/utils/mapLoader';
-import Player from '@/lib/classes/Player';
+import BaseLevelScene from '@/components/game/scenes/BaseLevelScene';
+import { isKeyBound } from '@/lib/utils/keyBindings';
+import { getSettings } from '@/lib/utils/settings';
 
 /**
  * Level5Scene - Aleo Ecosystem Integration
@@ -10,15 +10,11 @@ import Player from '@/lib/classes/Player';
  * This is the fifth and final level of the Legend of Leo game.
  * Players learn about integrating with the Aleo ecosystem and blockchain.
  */
-export default class Level5Scene extends Scene {
-  private player?: Player;
-  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
-  private map?: Phaser.Tilemaps.Tilemap;
-  private layers?: MapLayers;
-  private interactiveObjects: Phaser.GameObjects.GameObject[] = [];
-  private nearbyObject?: Phaser.GameObjects.GameObject;
-  // Remove the shared indicator and track object-specific indicators
-  private interactionIndicators: Map<Phaser.GameObjects.GameObject, Phaser.GameObjects.Sprite> = new Map();
+export default class Level5Scene extends BaseLevelScene {
+  // The outdoor area is large, so objects can be reached from further away
+  protected interactionRange: number = 100;
+  // Scene navigation brings the player back here, no need to remember it
+  protected persistScene: boolean = false;
   private finalNPC?: Phaser.GameObjects.Sprite;
   private backToMainButton?: Phaser.GameObjects.Rectangle;
   private debugCollisions: boolean = false; // Toggle for debugging collisions
@@ -36,23 +32,25 @@ export default class Level5Scene extends Scene {
   private isMiniMapVisible: boolean = false; // Set initially to false to hide the mini map
   private debugGraphics?: Phaser.GameObjects.Graphics;
 
-  // Add new properties for storing individual door indicators
-  private firstBuildingDoorIndicator?: Phaser.GameObjects.Sprite;
-  private secondBuildingDoorIndicator?: Phaser.GameObjects.Sprite;
-  private thirdBuildingLeftDoorIndicator?: Phaser.GameObjects.Sprite;
-  private thirdBuildingRightDoorIndicator?: Phaser.GameObjects.Sprite;
-  private randomHouseDoorIndicator?: Phaser.GameObjects.Sprite;
-
   constructor() {
     super({ key: 'Level5Scene' });
   }
 
   init() {
-    // Remove localStorage storage of current scene
-    // We don't need it anymore as we're using proper scene navigation
-    
-    // Initialize interactive objects array
-    this.interactiveObjects = [];
+    super.init();
+
+    // Restart Level reuses this instance, the mini map is built again hidden
+    this.finalNPC = undefined;
+    this.backToMainButton = undefined;
+    this.miniMap = undefined;
+    this.miniMapBg = undefined;
+    this.miniMapPlayer = undefined;
+    this.youAreHereText = undefined;
+    this.miniMapToggleBtn = undefined;
+    this.isMiniMapVisible = false;
+    this.lastPlayerPosition = { x: 0, y: 0 };
+    this.playerStationaryTime = 0;
+    this.debugGraphics = undefined;
   }
 
   preload() {
@@ -150,31 +148,7 @@ export default class Level5Scene extends Scene {
     this.cameras.main.setBackgroundColor('#87CEEB');
     
     // Load the tilemap or create a basic level if the map doesn't exist yet
-    try {
-      console.log('Loading level5 tilemap...');
-      const { map, layers } = loadTilemap(
-        this,
-        'level5',
-        ['Floor', 'Backwall', 'Objects', 'Collision'],
-        ['Collision'] // Only use the Collision layer for collisions
-      );
-      
-      this.map = map;
-      this.layers = layers;
-      
-      // Set world bounds based on the map dimensions
-      if (this.map) {
-        const mapWidth = this.map.widthInPixels;
-        const mapHeight = this.map.heightInPixels;
-        this.physics.world.setBounds(0, 0, mapWidth, mapHeight);
-        console.log(`Map dimensions: ${mapWidth}x${mapHeight}`);
-        
-        // Center the map in the game canvas
-        this.centerMap();
-      }
-    } catch (error) {
-      console.error('Failed to load level5 tilemap:', error);
-      // Fall back to creating a programmatic level
+    if (!this.loadLevelMap('level5', ['Floor', 'Backwall', 'Objects', 'Collision'])) {
       this.createBasicLevel();
     }
     
@@ -182,26 +156,15 @@ export default class Level5Scene extends Scene {
     const tileSize = 48;
     const startX = 10 * tileSize; 
     const startY = 40 * tileSize;
-    this.player = new Player(this, startX, startY);
-    
-    // Add collision with the Collision layer
-    if (this.player && this.layers) {
-      addCollision(this, this.player.sprite, this.layers, ['Collision']);
-    }
+    this.spawnPlayer(startX, startY);
     
     // Add the first building along the middle road
     this.addBuildings();
     
-    // Set up input
-    this.cursors = this.input?.keyboard?.createCursorKeys();
-    
-    // Add space key for interactions
-    this.input.keyboard?.on('keydown-SPACE', () => {
-      this.interactWithNearbyObject();
-    });
-    
-    // Add debug toggle key
+    // Add debug toggle key, unless D is bound to a game action (e.g. the WASD preset)
     this.input.keyboard?.on('keydown-D', () => {
+      if (isKeyBound(getSettings().controls, 'D')) return;
+
       this.debugCollisions = !this.debugCollisions;
       console.log(`Debug mode: ${this.debugCollisions ? 'enabled' : 'disabled'}`);
       
@@ -214,8 +177,8 @@ export default class Level5Scene extends Scene {
       this.physics.world.debugGraphic.visible = this.debugCollisions;
     });
     
-    // Add mini map toggle key
-    this.input.keyboard?.on('keydown-M', () => {
+    // Add mini map toggle
+    this.controls?.on('minimap', () => {
       this.isMiniMapVisible = !this.isMiniMapVisible;
       console.log(`Mini map: ${this.isMiniMapVisible ? 'visible' : 'hidden'}`);
       
@@ -224,20 +187,6 @@ export default class Level5Scene extends Scene {
       }
     });
     
-    // Set up camera to follow player
-    if (this.player) {
-      this.cameras.main.startFollow(this.player.sprite, true, 0.08, 0.08);
-      this.cameras.main.setZoom(1);
-      
-      // Set camera bounds based on the map
-      if (this.map) {
-        this.cameras.main.setBounds(0, 0, this.map.widthInPixels, this.map.heightInPixels);
-      }
-      
-      // Add a subtle deadzone for smoother camera
-      this.cameras.main.setDeadzone(100, 100);
-    }
-    
     // Show welcome message for level 5
     this.showWelcomeMessage();
     
@@ -256,51 +205,6 @@ export default class Level5Scene extends Scene {
     console.log("Level 5 scene fully initialized");
   }
   
-  /**
-   * Center the map within the game window
-   */
-  centerMap() {
-    if (!this.map) return;
-    
-    // Get the map and game dimensions
-    const mapWidth = this.map.widthInPixels;
-    const mapHeight = this.map.heightInPixels;
-    const gameWidth = this.scale.width;
-    const gameHeight = this.scale.height;
-    
-    // Calculate offset to center the map
-    const offsetX = Math.max(0, (gameWidth - mapWidth) / 2);
-    const offsetY = Math.max(0, (gameHeight - mapHeight) / 2);
-    
-    // Apply offset to all map layers by moving the container
-    if (this.map.layers) {
-      this.map.layers.forEach(layer => {
-        if (layer.tilemapLayer) {
-          layer.tilemapLayer.x = offsetX;
-          layer.tilemapLayer.y = offsetY;
-        }
-      });
-    }
-    
-    // Adjust physics world bounds
-    this.physics.world.setBounds(
-      offsetX, 
-      offsetY, 
-      mapWidth, 
-      mapHeight
-    );
-    
-    // Adjust camera bounds
-    this.cameras.main.setBounds(
-      offsetX,
-      offsetY,
-      mapWidth,
-      mapHeight
-    );
-    
-    console.log(`Centered map with offset: (${offsetX}, ${offsetY})`);
-  }
-
   /**
    * Create a basic level as fallback if the tilemap doesn't exist yet
    */
@@ -411,16 +315,7 @@ export default class Level5Scene extends Scene {
     
     // Make the NPC interactive
     this.finalNPC.setInteractive({ useHandCursor: true });
-    this.finalNPC.setData('interactive', true);
-    this.finalNPC.setData('onInteract', () => {
-      this.showFinalDialogue();
-    });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(this.finalNPC);
-    
-    // Create a dedicated indicator for the NPC
-    this.createInteractionIndicator(this.finalNPC);
+    this.addInteractable(this.finalNPC, () => this.showFinalDialogue());
     
     console.log('Added final NPC at:', npcX, npcY);
   }
@@ -515,6 +410,7 @@ export default class Level5Scene extends Scene {
       // Transition back to the main menu
       this.returnToMainMenu();
     });
+    this.controls?.openMenu([this.backToMainButton]);
   }
   
   /**
@@ -530,155 +426,6 @@ export default class Level5Scene extends Scene {
     });
   }
   
-  /**
-   * Create an interaction indicator for a specific object
-   */
-  createInteractionIndicator(object: Phaser.GameObjects.GameObject) {
-    // Get object position
-    let objX = 0;
-    let objY = 0;
-    
-    if ('getCenter' in object) {
-      const center = (object as unknown as Phaser.GameObjects.Sprite).getCenter();
-      objX = center.x;
-      objY = center.y;
-    } else if ('x' in object && 'y' in object) {
-      objX = (object as unknown as { x: number }).x;
-      objY = (object as unknown as { y: number }).y;
-    }
-    
-    // Position above the object
-    const x = objX;
-    const y = objY - 40;
-    
-    // Create indicator texture if it doesn't exist
-    if (!this.textures.exists('interaction-indicator')) {
-      const graphics = this.make.graphics({ x: 0, y: 0 });
-      
-      // Draw a small white dot with a glow effect
-      graphics.fillStyle(0xFFFFFF, 0.8);
-      graphics.fillCircle(16, 16, 4);
-      
-      // Add a subtle glow/halo
-      graphics.fillStyle(0xFFFFFF, 0.3);
-      graphics.fillCircle(16, 16, 8);
-      
-      graphics.generateTexture('interaction-indicator', 32, 32);
-    }
-    
-    // Create a dedicated indicator for this object
-    const indicator = this.add.sprite(x, y, 'interaction-indicator');
-    indicator.setVisible(false); // Hide initially
-    indicator.setDepth(200); // High depth to ensure visibility
-    
-    // Add animations
-    this.tweens.add({
-      targets: indicator,
-      y: y - 6,
-      duration: 1200,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    this.tweens.add({
-      targets: indicator,
-      alpha: 0.6,
-      duration: 1000,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    // Store the indicator reference
-    this.interactionIndicators.set(object, indicator);
-    
-    return indicator;
-  }
-  
-  /**
-   * Check for nearby interactive objects
-   */
-  checkForNearbyObjects() {
-    if (!this.player || this.interactiveObjects.length === 0) return;
-    
-    const playerX = this.player.sprite.x;
-    const playerY = this.player.sprite.y;
-    let nearestObject: Phaser.GameObjects.GameObject | undefined;
-    let shortestDistance = 100; // Interaction range
-    
-    // First, hide all indicators EXCEPT building door indicators
-    this.interactionIndicators.forEach((indicator, obj) => {
-      // Skip building entrance indicators - they should stay visible
-      if (obj.getData('isEntrance') === true) {
-        return;
-      }
-      indicator.setVisible(false);
-    });
-    
-    // Check distance to each interactive object
-    this.interactiveObjects.forEach(obj => {
-      if (!obj.active) return;
-      
-      // Define a type with x and y properties
-      interface PositionComponent {
-        x: number;
-        y: number;
-      }
-      
-      // Get object position with safer casting
-      const position = (obj as unknown) as PositionComponent;
-      const objX = position.x;
-      const objY = position.y;
-      
-      // Calculate distance
-      const distance = Phaser.Math.Distance.Between(playerX, playerY, objX, objY);
-      
-      // Get indicator for this object
-      const indicator = this.interactionIndicators.get(obj);
-      
-      // If in interaction range, update nearest object
-      if (distance < shortestDistance) {
-        shortestDistance = distance;
-        nearestObject = obj;
-      }
-      
-      // Update indicator visibility based on distance
-      if (indicator && obj.getData('isEntrance') === true) {
-        const interactionRange = 80; // Slightly larger than the nearest check
-        // We still want to animate the door indicators when near, but never hide them
-        if (distance < interactionRange) {
-          // Make it pulse more vigorously when very close
-          if (distance < 60) {
-            indicator.setAlpha(0.8 + Math.sin(this.time.now / 150) * 0.2);
-            indicator.setScale(1.3 + Math.sin(this.time.now / 200) * 0.1);
-          } else {
-            indicator.setAlpha(0.7 + Math.sin(this.time.now / 250) * 0.2);
-            indicator.setScale(1.2 + Math.sin(this.time.now / 300) * 0.05);
-          }
-        }
-      } else if (indicator && distance < shortestDistance) {
-        // For non-entrance objects, only show indicator when in range
-        indicator.setVisible(true);
-      }
-    });
-    
-    // Update the nearest object reference
-    this.nearbyObject = nearestObject;
-  }
-  
-  /**
-   * Interact with the nearby object if one exists
-   */
-  interactWithNearbyObject() {
-    if (this.nearbyObject) {
-      const onInteract = this.nearbyObject.getData('onInteract');
-      if (typeof onInteract === 'function') {
-        onInteract();
-      }
-    }
-  }
-
   /**
    * Create a mini map in the bottom left corner
    */
@@ -836,6 +583,14 @@ export default class Level5Scene extends Scene {
     if (!this.isMiniMapVisible) {
       this.miniMap.setVisible(false);
     }
+
+    // Keep the touch controls clear of the mini map and its toggle button
+    this.touchControls?.keepClear(new Phaser.Geom.Rectangle(
+      20,
+      this.cameras.main.height - 20 - this.miniMapSize - 10,
+      this.miniMapSize + 10,
+      this.miniMapSize + 10
+    ));
   }
   
   /**
@@ -948,20 +703,14 @@ export default class Level5Scene extends Scene {
   /**
    * Update - called each frame
    */
-  update(time: number, delta: number) {
-    // Update player movement if player exists
-    if (this.player && this.cursors) {
-      this.player.update(this.cursors);
-    }
+  update() {
+    super.update();
     
     // Update mini map player position only if mini map is visible
     if (this.miniMap && this.isMiniMapVisible) {
-      this.updateMiniMapPlayer(delta);
+      this.updateMiniMapPlayer(this.game.loop.delta);
     }
     
-    // Check for nearby objects
-    this.checkForNearbyObjects();
-    
     // Update debug visualizations if enabled
     if (this.debugCollisions) {
       this.drawDebugCollisions();
@@ -972,26 +721,12 @@ export default class Level5Scene extends Scene {
    * Clean up any game objects when the scene shuts down
    */
   shutdown() {
-    // We should NOT clear the localStorage here since we want to 
-    // persist the current scene when refreshing the page
-    
-    // Clean up all indicators
-    this.interactionIndicators.forEach(indicator => {
-      if (indicator) {
-        indicator.destroy();
-      }
-    });
-    this.interactionIndicators.clear();
-    
-    // Clear interactive objects array
-    this.interactiveObjects = [];
+    super.shutdown();
     
     // Remove keyboard events
     const keyboard = this.input?.keyboard;
     if (keyboard) {
-      keyboard.off('keydown-SPACE');
       keyboard.off('keydown-D');
-      keyboard.off('keydown-M');
     }
   }
 
@@ -1012,13 +747,9 @@ export default class Level5Scene extends Scene {
     
     // Make the building interactive but without visible indicator
     firstBuilding.setInteractive({ useHandCursor: true });
-    firstBuilding.setData('interactive', true);
-    firstBuilding.setData('onInteract', () => {
+    this.addInteractable(firstBuilding, () => {
       this.showBuildingInfo("First Building", "This is the first building in our outdoor area. It's positioned along the main road.");
-    });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(firstBuilding);
+    }, { indicator: 'none' });
     
     console.log('Added first building at:', buildingX, buildingY);
     
@@ -1029,18 +760,10 @@ export default class Level5Scene extends Scene {
     const firstBuildingDoor = this.add.rectangle(firstBuildingDoorX, firstBuildingDoorY, 30, 30, 0x000000, 0.1);
     firstBuildingDoor.setOrigin(0.5);
     firstBuildingDoor.setInteractive({ useHandCursor: true });
-    firstBuildingDoor.setData('interactive', true);
     firstBuildingDoor.setData('isEntrance', true); // Mark as entrance door
-    firstBuildingDoor.setData('onInteract', () => {
+    this.addInteractable(firstBuildingDoor, () => {
       this.enterBuilding('FirstBuildingScene', { x: firstBuildingDoorX, y: firstBuildingDoorY });
-    });
-    
-    // Add door to interactive objects
-    this.interactiveObjects.push(firstBuildingDoor);
-    
-    // Create indicator ONLY for the door
-    this.firstBuildingDoorIndicator = this.createDoorIndicator(firstBuildingDoor, firstBuildingDoorX, firstBuildingDoorY - 40);
-    this.firstBuildingDoorIndicator.setVisible(true); // Always visible
+    }, { indicator: 'always' });
     
     console.log('Added first building door at:', firstBuildingDoorX, firstBuildingDoorY);
     
@@ -1054,13 +777,9 @@ export default class Level5Scene extends Scene {
     
     // Make the second building interactive but without visible indicator
     secondBuilding.setInteractive({ useHandCursor: true });
-    secondBuilding.setData('interactive', true);
-    secondBuilding.setData('onInteract', () => {
+    this.addInteractable(secondBuilding, () => {
       this.showBuildingInfo("Second Building", "This is the second building in our outdoor area, located down the street from the first building.");
-    });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(secondBuilding);
+    }, { indicator: 'none' });
     
     console.log('Added second building at:', secondBuildingX, secondBuildingY);
     
@@ -1071,18 +790,10 @@ export default class Level5Scene extends Scene {
     const secondBuildingDoor = this.add.rectangle(secondBuildingDoorX, secondBuildingDoorY, 30, 30, 0x000000, 0.1);
     secondBuildingDoor.setOrigin(0.5);
     secondBuildingDoor.setInteractive({ useHandCursor: true });
-    secondBuildingDoor.setData('interactive', true);
     secondBuildingDoor.setData('isEntrance', true); // Mark as entrance door
-    secondBuildingDoor.setData('onInteract', () => {
+    this.addInteractable(secondBuildingDoor, () => {
       this.enterBuilding('SecondBuildingScene', { x: secondBuildingDoorX, y: secondBuildingDoorY });
-    });
-    
-    // Add door to interactive objects
-    this.interactiveObjects.push(secondBuildingDoor);
-    
-    // Create indicator ONLY for the door
-    this.secondBuildingDoorIndicator = this.createDoorIndicator(secondBuildingDoor, secondBuildingDoorX, secondBuildingDoorY - 40);
-    this.secondBuildingDoorIndicator.setVisible(true); // Always visible
+    }, { indicator: 'always' });
     
     console.log('Added second building door at:', secondBuildingDoorX, secondBuildingDoorY);
     
@@ -1098,13 +809,9 @@ export default class Level5Scene extends Scene {
     
     // Make the third building interactive but without visible indicator
     thirdBuilding.setInteractive({ useHandCursor: true });
-    thirdBuilding.setData('interactive', true);
-    thirdBuilding.setData('onInteract', () => {
+    this.addInteractable(thirdBuilding, () => {
       this.showBuildingInfo("Third Building", "This is the third building in our outdoor area, located south of the first building.");
-    });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(thirdBuilding);
+    }, { indicator: 'none' });
     
     console.log('Added third building at:', thirdBuildingX, thirdBuildingY);
     
@@ -1115,20 +822,12 @@ export default class Level5Scene extends Scene {
     const thirdBuildingDoor1 = this.add.rectangle(thirdBuildingDoor1X, thirdBuildingDoor1Y, 30, 30, 0x000000, 0.1);
     thirdBuildingDoor1.setOrigin(0.5);
     thirdBuildingDoor1.setInteractive({ useHandCursor: true });
-    thirdBuildingDoor1.setData('interactive', true);
     thirdBuildingDoor1.setData('isEntrance', true); // Mark as entrance door
-    thirdBuildingDoor1.setData('onInteract', () => {
+    this.addInteractable(thirdBuildingDoor1, () => {
       // Store the exit position for the left door with a special key
       this.buildingExitPoints.set('ThirdBuildingScene-left', { x: thirdBuildingDoor1X, y: thirdBuildingDoor1Y });
       this.enterBuilding('ThirdBuildingScene', { x: thirdBuildingDoor1X, y: thirdBuildingDoor1Y, door: 'left' });
-    });
-    
-    // Add door to interactive objects
-    this.interactiveObjects.push(thirdBuildingDoor1);
-    
-    // Create indicator for the first door
-    this.thirdBuildingLeftDoorIndicator = this.createDoorIndicator(thirdBuildingDoor1, thirdBuildingDoor1X, thirdBuildingDoor1Y - 40);
-    this.thirdBuildingLeftDoorIndicator.setVisible(true); // Always visible
+    }, { indicator: 'always' });
     
     console.log('Added third building left door at:', thirdBuildingDoor1X, thirdBuildingDoor1Y);
     
@@ -1139,20 +838,12 @@ export default class Level5Scene extends Scene {
     const thirdBuildingDoor2 = this.add.rectangle(thirdBuildingDoor2X, thirdBuildingDoor2Y, 30, 30, 0x000000, 0.6);
     thirdBuildingDoor2.setOrigin(0.5);
     thirdBuildingDoor2.setInteractive({ useHandCursor: true });
-    thirdBuildingDoor2.setData('interactive', true);
     thirdBuildingDoor2.setData('isEntrance', true); // Mark as entrance door
-    thirdBuildingDoor2.setData('onInteract', () => {
+    this.addInteractable(thirdBuildingDoor2, () => {
       // Store the exit position for the right door with a special key
       this.buildingExitPoints.set('ThirdBuildingScene-right', { x: thirdBuildingDoor2X, y: thirdBuildingDoor2Y });
       this.enterBuilding('ThirdBuildingScene', { x: thirdBuildingDoor2X, y: thirdBuildingDoor2Y, door: 'right' });
-    });
-    
-    // Add door to interactive objects
-    this.interactiveObjects.push(thirdBuildingDoor2);
-    
-    // Create indicator for the second door
-    this.thirdBuildingRightDoorIndicator = this.createDoorIndicator(thirdBuildingDoor2, thirdBuildingDoor2X, thirdBuildingDoor2Y - 40);
-    this.thirdBuildingRightDoorIndicator.setVisible(true); // Always visible
+    }, { indicator: 'always' });
     
     console.log('Added third building right door at:', thirdBuildingDoor2X, thirdBuildingDoor2Y);
     
@@ -1166,13 +857,9 @@ export default class Level5Scene extends Scene {
     
     // Make the random house interactive but without visible indicator
     randomHouse.setInteractive({ useHandCursor: true });
-    randomHouse.setData('interactive', true);
-    randomHouse.setData('onInteract', () => {
+    this.addInteractable(randomHouse, () => {
       this.showBuildingInfo("Random House", "This is a random house that appeared in the neighborhood. It's located on the same street as the third building.");
-    });
-    
-    // Add to interactive objects array
-    this.interactiveObjects.push(randomHouse);
+    }, { indicator: 'none' });
     
     console.log('Added random house at:', randomHouseX, randomHouseY);
     
@@ -1183,18 +870,10 @@ export default class Level5Scene extends Scene {
     const randomHouseDoor = this.add.rectangle(randomHouseDoorX, randomHouseDoorY, 30, 30, 0x000000, 0.1);
     randomHouseDoor.setOrigin(0.5);
     randomHouseDoor.setInteractive({ useHandCursor: true });
-    randomHouseDoor.setData('interactive', true);
     randomHouseDoor.setData('isEntrance', true); // Mark as entrance door
-    randomHouseDoor.setData('onInteract', () => {
+    this.addInteractable(randomHouseDoor, () => {
       this.enterBuilding('RandomHouseScene', { x: randomHouseDoorX, y: randomHouseDoorY });
-    });
-    
-    // Add door to interactive objects
-    this.interactiveObjects.push(randomHouseDoor);
-    
-    // Create indicator for the door
-    this.randomHouseDoorIndicator = this.createDoorIndicator(randomHouseDoor, randomHouseDoorX, randomHouseDoorY - 40);
-    this.randomHouseDoorIndicator.setVisible(true); // Always visible
+    }, { indicator: 'always' });
     
     console.log('Added random house door at:', randomHouseDoorX, randomHouseDoorY);
   }
@@ -1252,10 +931,11 @@ export default class Level5Scene extends Scene {
     // Group all elements for easier cleanup
     const infoGroup = this.add.group([infoBox, titleText, descText]);
     
-    // Add click handler to dismiss
+    // Add click, interact and cancel handlers to dismiss
     this.input.once('pointerdown', () => {
       infoGroup.destroy(true);
     });
+    this.controls?.dismissOn(infoBox, () => infoGroup.destroy(true));
     
     // Also dismiss after a few seconds
     this.time.delayedCall(5000, () => {
@@ -1277,29 +957,17 @@ export default class Level5Scene extends Scene {
     }
     
     const playerPos = this.player.sprite.getCenter();
-    const interactDistance = 60; // Interaction range
     
     // Draw interaction range circle
     this.debugGraphics.lineStyle(1, 0xff0000, 0.5);
-    this.debugGraphics.strokeCircle(playerPos.x, playerPos.y, interactDistance);
+    this.debugGraphics.strokeCircle(playerPos.x, playerPos.y, this.interactionRange);
     
     // Draw nearby objects
     this.interactiveObjects.forEach(obj => {
-      let objX = 0;
-      let objY = 0;
-      
-      if ('getCenter' in obj) {
-        const center = (obj as unknown as Phaser.GameObjects.Sprite).getCenter();
-        objX = center.x;
-        objY = center.y;
-      } else if ('x' in obj && 'y' in obj) {
-        objX = (obj as unknown as { x: number }).x;
-        objY = (obj as unknown as { y: number }).y;
-      }
-      
+      const { x: objX, y: objY } = this.getObjectCenter(obj);
       const distance = Phaser.Math.Distance.Between(playerPos.x, playerPos.y, objX, objY);
       
-      if (distance < interactDistance) {
+      if (distance < this.interactionRange) {
         this.debugGraphics?.lineStyle(2, 0x00ff00, 0.8);
         this.debugGraphics?.strokeCircle(objX, objY, 10);
       }
@@ -1525,21 +1193,12 @@ export default class Level5Scene extends Scene {
       // Add any player data you want to persist between scenes
     };
     
-    // Fade out
-    this.cameras.main.fadeOut(500);
-    
-    // When fade is complete, start the building scene
-    this.cameras.main.once('camerafadeoutcomplete', () => {
-      // Create data to pass to the building scene
-      const buildingData = {
-        fromLevel5: true,
-        playerData,
-        entryDoor: exitPoint.door || 'main'
-      };
-      
-      // Start the building scene
-      this.scene.start(building, buildingData);
-    });
+    // Fade out and start the building scene
+    this.transitionTo(building, {
+      fromLevel5: true,
+      playerData,
+      entryDoor: exitPoint.door || 'main'
+    }, 500);
   }
   
   /**
@@ -1580,53 +1239,4 @@ export default class Level5Scene extends Scene {
       group.destroy(true);
     });
   }
-
-  /**
-   * Create an indicator specifically for doors, which is always visible
-   */
-  createDoorIndicator(door: Phaser.GameObjects.GameObject, x: number, y: number): Phaser.GameObjects.Sprite {
-    // Create indicator texture if it doesn't exist
-    if (!this.textures.exists('interaction-indicator')) {
-      const graphics = this.make.graphics({ x: 0, y: 0 });
-      
-      // Draw a small white dot with a glow effect
-      graphics.fillStyle(0xFFFFFF, 0.8);
-      graphics.fillCircle(16, 16, 4);
-      
-      // Add a subtle glow/halo
-      graphics.fillStyle(0xFFFFFF, 0.3);
-      graphics.fillCircle(16, 16, 8);
-      
-      graphics.generateTexture('interaction-indicator', 32, 32);
-    }
-    
-    // Create a dedicated indicator for this door
-    const indicator = this.add.sprite(x, y, 'interaction-indicator');
-    indicator.setDepth(200); // High depth to ensure visibility
-    indicator.setScale(1.2); // Make door indicators slightly larger
-    
-    // Add animations
-    this.tweens.add({
-      targets: indicator,
-      y: y - 6,
-      duration: 1200,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    this.tweens.add({
-      targets: indicator,
-      alpha: 0.7,
-      duration: 1000,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    });
-    
-    // Store the indicator in the map as well for consistency
-    this.interactionIndicators.set(door, indicator);
-    
-    return indicator;
-  }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { PuzzleWalletService } from '@/lib/services/PuzzleWalletService';
+import { NftToken } from '@/lib/utils/nftMetadata';
+
+interface NftGalleryProps {
+  onClose: () => void;
+}
+
+type GalleryState =
+  | { status: 'disconnected' }
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'ready'; tokens: NftToken[] };
+
+// Overlay listing the Legend of Leo NFTs of the connected account
+export default function NftGallery({ onClose }: NftGalleryProps) {
+  const [state, setState] = useState<GalleryState>({ status: 'loading' });
+
+  useEffect(() => {
+    const walletService = PuzzleWalletService.getInstance();
+    let current = true;
+
+    const load = async () => {
+      if (!walletService.isConnected()) {
+        setState({ status: 'disconnected' });
+        return;
+      }
+
+      setState({ status: 'loading' });
+      const tokens = await walletService.getLeoNFTs();
+      if (current) {
+        setState(tokens ? { status: 'ready', tokens } : { status: 'error' });
+      }
+    };
+
+    // Reload when the player connects, disconnects or switches wallets
+    const connectionListener = () => {
+      load();
+    };
+
+    // The listener fires straight away when a wallet is already connected
+    walletService.addConnectionListener(connectionListener);
+    if (!walletService.isConnected()) {
+      setState({ status: 'disconnected' });
+    }
+    return () => {
+      current = false;
+      walletService.removeConnectionListener(connectionListener);
+    };
+  }, []);
+
+  const renderBody = () => {
+    switch (state.status) {
+      case 'disconnected':
+        return <p className="text-gray-300">Connect a wallet to see your NFTs.</p>;
+      case 'loading':
+        return <p className="text-gray-300">Loading your NFTs from the wallet...</p>;
+      case 'error':
+        return <p className="text-red-400">Could not load your NFTs. Check that your wallet is unlocked and try again.</p>;
+      case 'ready':
+        if (state.tokens.length === 0) {
+          return <p className="text-gray-300">You have no Legend of Leo NFTs yet. Graduate in Level 4 to mint one.</p>;
+        }
+        return (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-h-[60vh] overflow-y-auto">
+            {state.tokens.map(token => (
+              <div key={token.recordId} className="bg-gray-800 rounded-lg p-4 flex gap-4">
+                {token.metadata.image ? (
+                  <Image
+                    src={token.metadata.image}
+                    alt={token.metadata.name}
+                    width={96}
+                    height={96}
+                    unoptimized
+                    className="w-24 h-24 object-contain bg-black rounded"
+                  />
+                ) : (
+                  <div className="w-24 h-24 flex items-center justify-center bg-black rounded text-xs text-gray-500">
+                    No artwork
+                  </div>
+                )}
+                <div className="text-sm">
+                  <h3 className="font-medium">{token.metadata.name || 'Legend of Leo NFT'}</h3>
+                  <p className="text-gray-400 mb-2">Edition #{token.edition}</p>
+                  <dl>
+                    {token.metadata.attributes.map(attribute => (
+                      <div key={attribute.trait_type} className="flex gap-2">
+                        <dt className="text-gray-400">{attribute.trait_type}:</dt>
+                        <dd>{attribute.value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1001] flex items-center justify-center bg-black bg-opacity-70">
+      <div className="bg-gray-900 bg-opacity-90 p-8 rounded-lg shadow-lg w-full max-w-2xl text-white">
+        <h2 className="text-2xl font-bold mb-6 text-center">My NFTs</h2>
+        {renderBody()}
+        <div className="flex justify-center mt-6">
+          <button
+            onClick={onClose}
+            className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-6 rounded-lg transition duration-300 font-medium"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
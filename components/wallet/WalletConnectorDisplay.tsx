@@ -1,8 +1,12 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { AnsResolver } from '@/lib/services/AnsResolver';
+import { AuthService } from '@/lib/services/AuthService';
 import { PuzzleWalletService } from '@/lib/services/PuzzleWalletService';
+import { WalletAdapter } from '@/lib/services/WalletAdapter';
 import Image from 'next/image';
+import NftGallery from './NftGallery';
 
 // Inline styles to replace CSS modules
 const styles = {
@@ -55,7 +59,7 @@ const styles = {
     right: '0',
     backgroundColor: 'rgba(20, 20, 20, 0.9)',
     borderRadius: '8px',
-    width: '150px',
+    width: '200px',
     overflow: 'hidden',
     boxShadow: '0 4px 12px rgba(0, 0, 0, 0.2)',
     border: '1px solid rgba(255, 255, 255, 0.1)',
@@ -73,25 +77,35 @@ const styles = {
   
   dropdownItemHover: {
     backgroundColor: 'rgba(255, 255, 255, 0.1)'
+  } as const,
+  
+  dropdownHint: {
+    display: 'block',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.5)'
   } as const
 };
 
 export const WalletConnectorDisplay = () => {
   const [isConnected, setIsConnected] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
   const [address, setAddress] = useState('');
+  const [ansName, setAnsName] = useState<string | null>(null);
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [isButtonHovered, setIsButtonHovered] = useState(false);
-  const [isDropdownItemHovered, setIsDropdownItemHovered] = useState(false);
+  const [hoveredItem, setHoveredItem] = useState<string | null>(null);
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [isSigningIn, setIsSigningIn] = useState(false);
   const walletService = PuzzleWalletService.getInstance();
+  const authService = AuthService.getInstance();
 
   // Only set up listeners, no actual wallet checks on load
   useEffect(() => {
     // Set up listener for connection changes
     const connectionListener = (connected: boolean) => {
       setIsConnected(connected);
-      if (connected) {
-        setAddress(walletService.getAddress() || '');
-      }
+      setAddress(connected ? walletService.getAddress() || '' : '');
     };
 
     // Add the listener, which will fire when the wallet connects
@@ -109,23 +123,102 @@ export const WalletConnectorDisplay = () => {
     };
   }, [walletService]);
 
+  // Follow whether progress sync trusts this wallet
+  useEffect(() => {
+    const sessionListener = (signedInAddress: string | null) => {
+      setIsSignedIn(signedInAddress !== null);
+    };
+
+    authService.addSessionListener(sessionListener);
+    setIsSignedIn(authService.isSignedIn());
+
+    return () => {
+      authService.removeSessionListener(sessionListener);
+    };
+  }, [authService]);
+
+  // Show the account's primary ANS name instead of the address when it has one
+  useEffect(() => {
+    let current = true;
+    setAnsName(null);
+
+    if (address) {
+      AnsResolver.getInstance().resolveAddress(address).then(name => {
+        if (current) {
+          setAnsName(name);
+        }
+      });
+    }
+
+    return () => {
+      current = false;
+    };
+  }, [address]);
+
   // Handle disconnect
   const handleDisconnect = async () => {
     await walletService.disconnectWallet();
     setDropdownOpen(false);
   };
 
+  // Switch to the picked wallet and connect it, or send the player to install it
+  const handlePickWallet = async (wallet: WalletAdapter) => {
+    setDropdownOpen(false);
+
+    if (!wallet.isInstalled()) {
+      window.open(wallet.installUrl, '_blank', 'noopener,noreferrer');
+      return;
+    }
+
+    setIsConnecting(true);
+    await walletService.selectWallet(wallet.id);
+    await walletService.connectWallet();
+    setIsConnecting(false);
+  };
+
+  // Sign in with the wallet so progress syncs under its address
+  const handleSignIn = async () => {
+    setDropdownOpen(false);
+    setIsSigningIn(true);
+    await authService.signIn();
+    setIsSigningIn(false);
+  };
+
+  const handleSignOut = async () => {
+    setDropdownOpen(false);
+    await authService.signOut();
+  };
+
+  // Open the NFT gallery overlay
+  const handleOpenGallery = () => {
+    setDropdownOpen(false);
+    setGalleryOpen(true);
+  };
+
   // Toggle dropdown
   const toggleDropdown = () => {
     setDropdownOpen(!dropdownOpen);
   };
 
-  // Don't render anything if not connected
-  if (!isConnected) {
-    return null;
-  }
-
+  const currentWallet = walletService.getWallet();
+  const otherWallets = walletService.getWallets().filter(wallet => !isConnected || wallet.id !== currentWallet.id);
   const formattedAddress = walletService.formatAddress(address);
+
+  const renderItem = (key: string, label: string, onClick: () => void, hint?: string) => (
+    <div 
+      key={key}
+      style={{
+        ...styles.dropdownItem,
+        ...(hoveredItem === key ? styles.dropdownItemHover : {})
+      }}
+      onClick={onClick}
+      onMouseEnter={() => setHoveredItem(key)}
+      onMouseLeave={() => setHoveredItem(null)}
+    >
+      {label}
+      {hint && <span style={styles.dropdownHint}>{hint}</span>}
+    </div>
+  );
   
   return (
     <div style={styles.walletContainer}>
@@ -138,39 +231,49 @@ export const WalletConnectorDisplay = () => {
         onMouseEnter={() => setIsButtonHovered(true)}
         onMouseLeave={() => setIsButtonHovered(false)}
       >
-        <div style={styles.walletAvatar}>
-          <Image 
-            src="/assets/ui/avatar.png" 
-            alt="Wallet Avatar" 
-            width={28} 
-            height={28}
-            onError={(e) => {
-              // Fallback for missing wallet avatar image
-              const target = e.target as HTMLImageElement;
-              target.src = '/assets/ui/avatar.png';
-            }}
-          />
-        </div>
-        <div style={styles.walletAddress}>
-          {formattedAddress}
-        </div>
+        {isConnected ? (
+          <>
+            <div style={styles.walletAvatar}>
+              <Image 
+                src="/assets/ui/avatar.png" 
+                alt="Wallet Avatar" 
+                width={28} 
+                height={28}
+                onError={(e) => {
+                  // Fallback for missing wallet avatar image
+                  const target = e.target as HTMLImageElement;
+                  target.src = '/assets/ui/avatar.png';
+                }}
+              />
+            </div>
+            <div style={styles.walletAddress} title={ansName ? `${address} (${currentWallet.name})` : currentWallet.name}>
+              {ansName ?? formattedAddress}
+            </div>
+          </>
+        ) : (
+          <div style={{ ...styles.walletAddress, maxWidth: 'none' }}>
+            {isConnecting ? 'Connecting...' : 'Connect Wallet'}
+          </div>
+        )}
       </div>
       
       {dropdownOpen && (
         <div style={styles.dropdown}>
-          <div 
-            style={{
-              ...styles.dropdownItem,
-              ...(isDropdownItemHovered ? styles.dropdownItemHover : {})
-            }}
-            onClick={handleDisconnect}
-            onMouseEnter={() => setIsDropdownItemHovered(true)}
-            onMouseLeave={() => setIsDropdownItemHovered(false)}
-          >
-            Disconnect
-          </div>
+          {otherWallets.map(wallet => renderItem(
+            wallet.id,
+            isConnected ? `Switch to ${wallet.name}` : wallet.name,
+            () => handlePickWallet(wallet),
+            wallet.isInstalled() ? undefined : 'Not installed - get it'
+          ))}
+          {renderItem('nfts', 'My NFTs', handleOpenGallery)}
+          {isConnected && (isSignedIn
+            ? renderItem('sign-out', 'Sign out', handleSignOut)
+            : renderItem('sign-in', isSigningIn ? 'Signing in...' : 'Sign in to sync progress', handleSignIn))}
+          {isConnected && renderItem('disconnect', 'Disconnect', handleDisconnect)}
         </div>
       )}
+      
+      {galleryOpen && <NftGallery onClose={() => setGalleryOpen(false)} />}
     </div>
   );
 };
@@ -1,8 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
-import { PuzzleWalletService } from '@/lib/services/PuzzleWalletService';
 
 // Import WalletConnectorDisplay with dynamic import to prevent SSR issues
 const WalletConnectorDisplay = dynamic(
@@ -11,30 +9,6 @@ const WalletConnectorDisplay = dynamic(
 );
 
 export default function WalletConnectorWrapper() {
-  const [shouldRender, setShouldRender] = useState(false);
-  
-  // Check if the wallet service says we have an existing connection
-  useEffect(() => {
-    const walletService = PuzzleWalletService.getInstance();
-    
-    // If already connected, show the component
-    if (walletService.isConnected()) {
-      setShouldRender(true);
-      return;
-    }
-    
-    // Listen for connection
-    const connectionListener = (connected: boolean) => {
-      setShouldRender(connected);
-    };
-    
-    walletService.addConnectionListener(connectionListener);
-    
-    return () => {
-      walletService.removeConnectionListener(connectionListener);
-    };
-  }, []);
-  
-  // Only render the WalletConnectorDisplay if potentially connected
-  return shouldRender ? <WalletConnectorDisplay /> : null;
-} 
\ No newline at end of file
+  // The display doubles as the wallet picker, so it is shown even before a wallet is connected
+  return <WalletConnectorDisplay />;
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { PuzzleWalletService } from '@/lib/services/PuzzleWalletService';
+import {
+  WalletProviderKind,
+  createWalletProvider,
+  getWalletProviderKind,
+  setWalletProviderKind,
+} from '@/lib/services/WalletProvider';
+import {
+  MockWalletFailure,
+  MockWalletOptions,
+  getMockWalletOptions,
+  setMockWalletOptions,
+} from '@/lib/services/MockWalletProvider';
+
+const FAILURES: { value: MockWalletFailure; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'not-installed', label: 'Extension not installed' },
+  { value: 'user-rejected', label: 'User rejects requests' },
+  { value: 'missing-permissions', label: 'Missing program permissions' },
+  { value: 'insufficient-balance', label: 'Insufficient balance' },
+  { value: 'transaction-failed', label: 'Transactions fail on chain' },
+];
+
+// Dev menu section to switch between the Puzzle extension and the mock wallet
+export default function WalletDevSettings() {
+  const [kind, setKind] = useState<WalletProviderKind>(() => getWalletProviderKind());
+  const [options, setOptions] = useState<MockWalletOptions>(() => getMockWalletOptions());
+
+  // Apply the settings by handing the wallet service a fresh provider
+  const applyProvider = () => {
+    PuzzleWalletService.getInstance().setProvider(createWalletProvider());
+  };
+
+  const handleKindChange = (next: WalletProviderKind) => {
+    setWalletProviderKind(next);
+    setKind(next);
+    applyProvider();
+  };
+
+  const handleOptionsChange = (changes: Partial<MockWalletOptions>) => {
+    setMockWalletOptions(changes);
+    setOptions(getMockWalletOptions());
+    if (kind === 'mock') {
+      applyProvider();
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-700 text-sm">
+      <h3 className="font-medium mb-2 text-gray-300">Developer: Wallet</h3>
+      <label className="flex items-center justify-between mb-2">
+        Provider
+        <select
+          value={kind}
+          onChange={event => handleKindChange(event.target.value as WalletProviderKind)}
+          className="bg-gray-700 text-white py-1 px-2 rounded"
+        >
+          <option value="puzzle">Puzzle Wallet</option>
+          <option value="mock">Mock wallet</option>
+        </select>
+      </label>
+
+      {kind === 'mock' && (
+        <>
+          <label className="flex items-center justify-between mb-2">
+            Failure
+            <select
+              value={options.failure}
+              onChange={event => handleOptionsChange({ failure: event.target.value as MockWalletFailure })}
+              className="bg-gray-700 text-white py-1 px-2 rounded"
+            >
+              {FAILURES.map(failure => (
+                <option key={failure.value} value={failure.value}>{failure.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between">
+            Delay (ms)
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={options.delay}
+              onChange={event => handleOptionsChange({ delay: Math.max(0, Number(event.target.value) || 0) })}
+              className="bg-gray-700 text-white py-1 px-2 rounded w-24"
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Game, Scene } from 'phaser';
+import { AUDIO_ASSETS, AudioAsset, AudioKey, SCENE_MUSIC, getAudioKeys } from '@/lib/utils/audioManifest';
+import { AudioSettings, getSettings, subscribeSettings } from '@/lib/utils/settings';
+
+type Sound = Phaser.Sound.WebAudioSound | Phaser.Sound.HTML5AudioSound | Phaser.Sound.NoAudioSound;
+
+/**
+ * A volume moving towards a target over time
+ */
+interface Fade {
+  sound: Sound;
+  from: number;
+  to: number;
+  elapsed: number;
+  onComplete?: () => void;
+}
+
+// How long the old and new music overlap on a scene change, in ms
+const CROSSFADE_DURATION = 1000;
+
+// Shortest time between two footsteps, in ms
+const FOOTSTEP_INTERVAL = 300;
+
+const managers = new WeakMap<Game, AudioManager>();
+
+/**
+ * AudioManager - background music and sound effects of the game
+ *
+ * Each scene plays the music the audio manifest gives it, crossfading from
+ * the music of the scene before. Scenes without music of their own keep
+ * the current one playing. Sound effects are fired by name from the game
+ * code. Volumes come from the master, music and sfx buses in the settings
+ * and change as soon as the player moves them. Browsers keep audio locked
+ * until the first click or key press: music asked for before then starts
+ * on unlock, sound effects are dropped. One manager exists per game, get
+ * it with forGame.
+ */
+export default class AudioManager {
+  private game: Game;
+  private volumes: AudioSettings;
+  private unsubscribeSettings: () => void;
+  private music?: { key: AudioKey; sound: Sound };
+  // Music to start once the browser unlocks audio
+  private pendingMusic?: AudioKey;
+  private fades: Fade[] = [];
+  // Sounds that failed to load, not asked for again
+  private missing = new Set<AudioKey>();
+  private lastFootstep = -Infinity;
+
+  /**
+   * Get the manager of a game, created on first use and destroyed with the game
+   */
+  static forGame(game: Game): AudioManager {
+    let manager = managers.get(game);
+    if (!manager) {
+      manager = new AudioManager(game);
+      managers.set(game, manager);
+    }
+    return manager;
+  }
+
+  private constructor(game: Game) {
+    this.game = game;
+    this.volumes = getSettings().audio;
+    this.game.sound.volume = this.volumes.master;
+    this.unsubscribeSettings = subscribeSettings(settings => this.applyVolumes(settings.audio));
+
+    this.game.sound.on(Phaser.Sound.Events.UNLOCKED, this.handleUnlocked, this);
+    this.game.events.on(Phaser.Core.Events.STEP, this.updateFades, this);
+    this.game.events.once(Phaser.Core.Events.DESTROY, () => this.destroy());
+  }
+
+  /**
+   * Load the sounds a scene needs once it is created, then play its music
+   *
+   * Call it from init or create. The loader is reset between init and
+   * preload, so sounds are queued after create and loaded in the background
+   * while the scene already runs.
+   */
+  enterScene(scene: Scene) {
+    scene.events.once(Phaser.Scenes.Events.CREATE, () => {
+      const music = SCENE_MUSIC[scene.scene.key];
+      const needed = [...getAudioKeys('sfx'), ...(music ? [music] : [])]
+        .filter(key => !this.game.cache.audio.exists(key) && !this.missing.has(key));
+
+      if (needed.length === 0) {
+        if (music) this.playMusic(music);
+        return;
+      }
+
+      needed.forEach(key => scene.load.audio(key, AUDIO_ASSETS[key].urls));
+      const handleError = (file: Phaser.Loader.File) => {
+        if (file.key in AUDIO_ASSETS) {
+          this.missing.add(file.key as AudioKey);
+        }
+      };
+      scene.load.on(Phaser.Loader.Events.FILE_LOAD_ERROR, handleError);
+      scene.load.once(Phaser.Loader.Events.COMPLETE, () => {
+        scene.load.off(Phaser.Loader.Events.FILE_LOAD_ERROR, handleError);
+        // The player may have left the scene while its music loaded
+        if (music && scene.sys.isActive()) this.playMusic(music);
+      });
+      scene.load.start();
+    });
+  }
+
+  /**
+   * Crossfade to a music track, looped until other music is asked for
+   */
+  playMusic(key: AudioKey) {
+    if (this.music?.key === key) {
+      return;
+    }
+    if (this.game.sound.locked) {
+      this.pendingMusic = key;
+      return;
+    }
+    if (!this.game.cache.audio.exists(key)) {
+      return;
+    }
+
+    const previous = this.music;
+    if (previous) {
+      this.fadeTo(previous.sound, 0, () => previous.sound.destroy());
+    }
+
+    const sound = this.game.sound.add(key, { loop: true, volume: 0 }) as Sound;
+    sound.play();
+    this.music = { key, sound };
+    this.fadeTo(sound, this.getVolume(key));
+  }
+
+  /**
+   * Play a sound effect once, if audio is unlocked and the sound is loaded
+   */
+  playSfx(key: AudioKey) {
+    if (this.game.sound.locked || !this.game.cache.audio.exists(key)) {
+      return;
+    }
+    this.game.sound.play(key, { volume: this.getVolume(key) });
+  }
+
+  /**
+   * Play a footstep, called every frame the player walks
+   */
+  playFootstep() {
+    const now = this.game.loop.time;
+    if (now - this.lastFootstep < FOOTSTEP_INTERVAL) {
+      return;
+    }
+    this.lastFootstep = now;
+    this.playSfx('sfx-footstep');
+  }
+
+  // Volume of a sound on its bus, master applies to the whole sound manager
+  private getVolume(key: AudioKey): number {
+    const asset: AudioAsset = AUDIO_ASSETS[key];
+    return this.volumes[asset.bus] * (asset.volume ?? 1);
+  }
+
+  private applyVolumes(volumes: AudioSettings) {
+    this.volumes = volumes;
+    this.game.sound.volume = volumes.master;
+
+    if (this.music) {
+      const volume = this.getVolume(this.music.key);
+      const fade = this.fades.find(fade => fade.sound === this.music?.sound);
+      if (fade) {
+        fade.to = volume;
+      } else {
+        this.music.sound.volume = volume;
+      }
+    }
+  }
+
+  // Replace any fade running on the sound
+  private fadeTo(sound: Sound, to: number, onComplete?: () => void) {
+    this.fades = this.fades.filter(fade => fade.sound !== sound);
+    this.fades.push({ sound, from: sound.volume, to, elapsed: 0, onComplete });
+  }
+
+  // Fades run on the game loop, so they finish even if their scene stops or pauses
+  private updateFades(_time: number, delta: number) {
+    if (this.fades.length === 0) {
+      return;
+    }
+
+    const finished: Fade[] = [];
+    this.fades.forEach(fade => {
+      fade.elapsed += delta;
+      const progress = Math.min(fade.elapsed / CROSSFADE_DURATION, 1);
+      fade.sound.volume = fade.from + (fade.to - fade.from) * progress;
+      if (progress === 1) {
+        finished.push(fade);
+      }
+    });
+
+    this.fades = this.fades.filter(fade => !finished.includes(fade));
+    finished.forEach(fade => fade.onComplete?.());
+  }
+
+  private handleUnlocked() {
+    const key = this.pendingMusic;
+    this.pendingMusic = undefined;
+    if (key) {
+      this.playMusic(key);
+    }
+  }
+
+  private destroy() {
+    this.unsubscribeSettings();
+    this.game.sound.off(Phaser.Sound.Events.UNLOCKED, this.handleUnlocked, this);
+    this.game.events.off(Phaser.Core.Events.STEP, this.updateFades, this);
+    this.fades = [];
+    this.music = undefined;
+    managers.delete(this.game);
+  }
+}
@@ -0,0 +1,96 @@
+'use client'; /* This file is only executed on the client side */
+
+import type { InputDirection } from './InputController';
+
+/**
+ * ButtonMenu - keyboard and gamepad focus for a set of pointer buttons
+ *
+ * Buttons keep their pointer handlers: focusing a button sends it
+ * pointerover (and the previous one pointerout) so it shows its hover
+ * style, and activating it sends pointerdown. Hidden, destroyed and
+ * non-interactive buttons are skipped.
+ */
+export default class ButtonMenu {
+  private buttons: Phaser.GameObjects.GameObject[];
+  private focused: number = -1;
+
+  constructor(buttons: Phaser.GameObjects.GameObject[]) {
+    this.buttons = buttons;
+  }
+
+  /**
+   * Focus the first usable button, if nothing is focused yet
+   */
+  focusFirst() {
+    if (this.getFocused()) return;
+    const index = this.buttons.findIndex(button => this.isUsable(button));
+    if (index >= 0) {
+      this.focus(index);
+    }
+  }
+
+  /**
+   * Move the focus, up and left go to the previous button, down and right to the next
+   */
+  move(direction: InputDirection) {
+    if (!this.getFocused()) {
+      this.focusFirst();
+      return;
+    }
+
+    const step = direction === 'up' || direction === 'left' ? -1 : 1;
+    const count = this.buttons.length;
+
+    for (let offset = 1; offset <= count; offset++) {
+      const index = ((this.focused + step * offset) % count + count) % count;
+      if (this.isUsable(this.buttons[index])) {
+        this.focus(index);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Press the focused button
+   * @returns false when no usable button is focused
+   */
+  activate(): boolean {
+    const button = this.getFocused();
+    if (!button) return false;
+
+    button.emit('pointerdown');
+    return true;
+  }
+
+  /**
+   * Drop the focus and its hover style
+   */
+  blur() {
+    const button = this.buttons[this.focused];
+    if (button?.active) {
+      button.emit('pointerout');
+    }
+    this.focused = -1;
+  }
+
+  /**
+   * The focused button, if it is still usable
+   */
+  getFocused(): Phaser.GameObjects.GameObject | undefined {
+    const button = this.buttons[this.focused];
+    return button && this.isUsable(button) ? button : undefined;
+  }
+
+  private focus(index: number) {
+    if (index === this.focused) return;
+
+    this.blur();
+    this.focused = index;
+    this.buttons[index].emit('pointerover');
+  }
+
+  private isUsable(button: Phaser.GameObjects.GameObject): boolean {
+    const visible = (button as Partial<Phaser.GameObjects.Components.Visible>).visible ?? true;
+    return button.active && visible && !!button.input?.enabled;
+  }
+}
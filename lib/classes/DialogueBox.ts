@@ -0,0 +1,556 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Scene } from 'phaser';
+import { DialogueChoiceStyle, DialogueLayout } from '@/lib/utils/dialogueLoader';
+import { TEXT_SPEED_FACTORS, getSettings } from '@/lib/utils/settings';
+import AudioManager from './AudioManager';
+import ButtonMenu from './ButtonMenu';
+import InputController from './InputController';
+
+/**
+ * A single button rendered by the dialogue box
+ */
+export interface DialogueBoxChoice {
+  text: string;
+  style?: DialogueChoiceStyle;
+  color?: string;
+  onSelect: () => void;
+}
+
+/**
+ * Builder for custom widgets hosted inside the panel layout.
+ * May return a cleanup function (e.g. to remove DOM inputs).
+ */
+export type DialogueWidgetBuilder = (
+  container: Phaser.GameObjects.Container,
+  center: { x: number; y: number }
+) => (() => void) | void;
+
+/**
+ * Everything the box needs to render one screen of dialogue
+ */
+export interface DialogueView {
+  layout: DialogueLayout;
+  accent?: number;
+  speaker?: string;
+  title?: string;
+  subtitle?: string;
+  text?: string;
+  footer?: string;
+  choices?: DialogueBoxChoice[];
+  choiceLayout?: 'row' | 'column';
+  typingSpeed?: number;
+  autoCloseMs?: number;
+  widget?: DialogueWidgetBuilder;
+  onCancel?: () => void;
+  onAutoClose?: () => void;
+}
+
+const CHOICE_COLORS: Record<Exclude<DialogueChoiceStyle, 'accent'>, number> = {
+  primary: 0x4CAF50,
+  secondary: 0x666666,
+  danger: 0xF44336,
+  info: 0x2196F3,
+  warning: 0xFFA000
+};
+
+const DEFAULT_ACCENT = 0x6495ED;
+const DEFAULT_TYPING_SPEED: Record<DialogueLayout, number> = {
+  bottom: 10,
+  terminal: 5,
+  panel: 0,
+  toast: 0
+};
+
+// Shortest time between two typewriter blips in ms, text types faster than that
+const BLIP_INTERVAL = 70;
+
+/**
+ * DialogueBox - the one reusable dialogue renderer shared by every scene
+ *
+ * Renders a DialogueView with a typewriter effect, shows the choices once
+ * the text has finished typing and takes the scene's input while open:
+ * cancel closes, interact skips typing or confirms the focused choice and
+ * the arrows, d-pad or stick move the focus. Only one view is visible at
+ * a time; showing a new view replaces the previous one.
+ */
+export default class DialogueBox {
+  private scene: Scene;
+  private container?: Phaser.GameObjects.Container;
+  private bodyText?: Phaser.GameObjects.Text;
+  private choiceButtons: { bg: Phaser.GameObjects.Rectangle; label: Phaser.GameObjects.Text }[] = [];
+  private typewriterTimer?: Phaser.Time.TimerEvent;
+  private autoCloseTimer?: Phaser.Time.TimerEvent;
+  private widgetCleanup?: () => void;
+  private fullText: string = '';
+  private view?: DialogueView;
+  private menu?: ButtonMenu;
+  private removeInputLayer?: () => void;
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+
+    // Make sure nothing is left behind when the scene stops
+    this.scene.events.once('shutdown', () => this.destroy());
+  }
+
+  /**
+   * Whether a dialogue is currently on screen
+   */
+  isOpen(): boolean {
+    return !!this.container;
+  }
+
+  /**
+   * Render a view, replacing whatever is currently shown
+   */
+  show(view: DialogueView) {
+    const isReplacing = this.isOpen();
+    this.clear();
+
+    this.view = view;
+    const width = this.scene.cameras.main.width;
+    const height = this.scene.cameras.main.height;
+
+    this.container = this.scene.add.container(0, 0);
+    this.container.setDepth(view.layout === 'panel' ? 2000 : 1000);
+
+    switch (view.layout) {
+      case 'terminal':
+        this.renderTerminal(view, width, height);
+        break;
+      case 'panel':
+        this.renderPanel(view, width, height);
+        break;
+      case 'toast':
+        this.renderToast(view, width, height);
+        break;
+      default:
+        this.renderBottom(view, width, height);
+        break;
+    }
+
+    this.container.setScrollFactor(0, 0, true);
+
+    // Fade in panels the first time they open, like the building menus used to
+    if (view.layout === 'panel' && !isReplacing) {
+      this.container.setAlpha(0);
+      this.scene.tweens.add({
+        targets: this.container,
+        alpha: 1,
+        duration: 200,
+        ease: 'Power1'
+      });
+    }
+
+    // Toasts are only notices, the player keeps walking and interacting
+    this.menu = new ButtonMenu(this.choiceButtons.map(({ bg }) => bg));
+    if (view.layout !== 'toast') {
+      this.removeInputLayer = InputController.forScene(this.scene).pushLayer({
+        blocksMovement: true,
+        textInput: !!view.widget,
+        onAction: action => (action === 'cancel' ? this.handleCancel() : this.handleConfirm()),
+        onNavigate: direction => {
+          if (!this.typewriterTimer) this.menu?.move(direction);
+        }
+      });
+    }
+
+    this.startTypewriter(view);
+
+    if (view.autoCloseMs || view.layout === 'toast') {
+      this.autoCloseTimer = this.scene.time.delayedCall(view.autoCloseMs ?? 3000, () => {
+        if (view.onAutoClose) {
+          view.onAutoClose();
+        } else {
+          this.close();
+        }
+      });
+    }
+  }
+
+  /**
+   * Replace the body text, e.g. to report progress of an async action
+   */
+  setText(text: string) {
+    this.stopTypewriter();
+    this.fullText = text;
+    this.bodyText?.setText(text);
+  }
+
+  /**
+   * Enable or disable all choice buttons
+   */
+  setChoicesEnabled(enabled: boolean) {
+    this.choiceButtons.forEach(({ bg }) => {
+      if (enabled) {
+        bg.setInteractive({ useHandCursor: true });
+      } else {
+        bg.disableInteractive();
+      }
+    });
+  }
+
+  /**
+   * Change the label of a choice button
+   */
+  setChoiceLabel(index: number, text: string) {
+    this.choiceButtons[index]?.label.setText(text);
+  }
+
+  /**
+   * Close the dialogue (panels fade out, everything else disappears at once)
+   */
+  close() {
+    if (!this.container) return;
+
+    if (this.view?.layout === 'panel') {
+      const container = this.container;
+      this.detach();
+      this.scene.tweens.add({
+        targets: container,
+        alpha: 0,
+        duration: 200,
+        ease: 'Power1',
+        onComplete: () => container.destroy()
+      });
+    } else {
+      this.clear();
+    }
+  }
+
+  /**
+   * Tear everything down immediately
+   */
+  destroy() {
+    this.clear();
+  }
+
+  private clear() {
+    const container = this.container;
+    this.detach();
+    container?.destroy();
+  }
+
+  /**
+   * Stop timers, listeners and widgets but leave the container to the caller
+   */
+  private detach() {
+    this.stopTypewriter();
+    this.autoCloseTimer?.remove();
+    this.autoCloseTimer = undefined;
+
+    if (this.widgetCleanup) {
+      this.widgetCleanup();
+      this.widgetCleanup = undefined;
+    }
+
+    this.removeInputLayer?.();
+    this.removeInputLayer = undefined;
+    this.menu = undefined;
+
+    this.container = undefined;
+    this.bodyText = undefined;
+    this.choiceButtons = [];
+    this.view = undefined;
+  }
+
+  private handleCancel() {
+    if (!this.view) return;
+
+    if (this.view.onCancel) {
+      this.view.onCancel();
+    } else {
+      this.close();
+    }
+  }
+
+  private handleConfirm() {
+    if (this.typewriterTimer) {
+      // First press finishes the typing
+      this.setText(this.fullText);
+      this.revealChoices();
+      return;
+    }
+
+    // Widgets may take text input, so ENTER belongs to them
+    if (this.view?.widget) return;
+
+    this.menu?.activate();
+  }
+
+  private startTypewriter(view: DialogueView) {
+    // The player's text speed scales the delay every view asks for
+    const speed = (view.typingSpeed ?? DEFAULT_TYPING_SPEED[view.layout]) * TEXT_SPEED_FACTORS[getSettings().textSpeed];
+    const message = this.fullText;
+
+    if (!this.bodyText || speed <= 0 || message.length === 0) {
+      this.bodyText?.setText(message);
+      this.revealChoices();
+      return;
+    }
+
+    this.setChoicesVisible(false);
+
+    let currentChar = 0;
+    let lastBlip = -Infinity;
+    this.typewriterTimer = this.scene.time.addEvent({
+      delay: speed,
+      callback: () => {
+        this.bodyText?.setText(message.substring(0, currentChar));
+
+        // Spaces and line breaks type silently
+        const now = this.scene.time.now;
+        if (message.charAt(currentChar - 1).trim() && now - lastBlip >= BLIP_INTERVAL) {
+          lastBlip = now;
+          AudioManager.forGame(this.scene.game).playSfx('sfx-blip');
+        }
+        currentChar++;
+
+        // When typing is complete, show the choices
+        if (currentChar > message.length) {
+          this.stopTypewriter();
+          this.revealChoices();
+        }
+      },
+      repeat: message.length
+    });
+  }
+
+  private stopTypewriter() {
+    if (this.typewriterTimer) {
+      this.typewriterTimer.destroy();
+      this.typewriterTimer = undefined;
+    }
+  }
+
+  private revealChoices() {
+    this.setChoicesVisible(true);
+    this.menu?.focusFirst();
+  }
+
+  private setChoicesVisible(visible: boolean) {
+    this.choiceButtons.forEach(({ bg, label }) => {
+      bg.setVisible(visible);
+      label.setVisible(visible);
+    });
+  }
+
+  private getChoiceColor(choice: DialogueBoxChoice, fallback: number): number {
+    if (choice.color) {
+      return Phaser.Display.Color.HexStringToColor(choice.color).color;
+    }
+    if (choice.style === 'accent') {
+      return this.view?.accent ?? DEFAULT_ACCENT;
+    }
+    return choice.style ? CHOICE_COLORS[choice.style] : fallback;
+  }
+
+  /**
+   * Solid buttons used by the bottom and terminal layouts
+   */
+  private addSolidChoices(choices: DialogueBoxChoice[], centerX: number, y: number, fallbackColor: number) {
+    const buttonWidth = 160;
+    const buttonHeight = 40;
+    const buttonSpacing = 40;
+    const totalWidth = choices.length * buttonWidth + (choices.length - 1) * buttonSpacing;
+
+    choices.forEach((choice, index) => {
+      const x = centerX - totalWidth / 2 + buttonWidth / 2 + index * (buttonWidth + buttonSpacing);
+      const color = this.getChoiceColor(choice, fallbackColor);
+      const hoverColor = Phaser.Display.Color.IntegerToColor(color).darken(10).color;
+
+      const bg = this.scene.add.rectangle(x, y, buttonWidth, buttonHeight, color);
+      bg.setInteractive({ useHandCursor: true });
+      bg.on('pointerover', () => bg.setFillStyle(hoverColor));
+      bg.on('pointerout', () => bg.setFillStyle(color));
+      bg.on('pointerdown', () => choice.onSelect());
+
+      const label = this.scene.add.text(x, y, choice.text, {
+        fontSize: '16px',
+        color: '#FFFFFF'
+      });
+      label.setOrigin(0.5);
+
+      this.container?.add([bg, label]);
+      this.choiceButtons.push({ bg, label });
+    });
+  }
+
+  /**
+   * Translucent outlined buttons used by the panel layout
+   */
+  private addOutlinedChoice(choice: DialogueBoxChoice, x: number, y: number, width: number) {
+    const color = this.getChoiceColor(choice, DEFAULT_ACCENT);
+
+    const bg = this.scene.add.rectangle(x, y, width, 35, color, 0.3);
+    bg.setStrokeStyle(1, color, 0.7);
+    bg.setInteractive({ useHandCursor: true });
+    bg.on('pointerover', () => {
+      bg.fillAlpha = 0.7;
+    });
+    bg.on('pointerout', () => {
+      bg.fillAlpha = 0.3;
+    });
+    bg.on('pointerdown', () => choice.onSelect());
+
+    const label = this.scene.add.text(x, y, choice.text, {
+      fontSize: '16px',
+      color: '#ffffff',
+      align: 'center'
+    });
+    label.setOrigin(0.5);
+
+    this.container?.add([bg, label]);
+    this.choiceButtons.push({ bg, label });
+  }
+
+  private withSpeaker(view: DialogueView): string {
+    const text = view.text ?? '';
+    return view.speaker ? `${view.speaker}: ${text}` : text;
+  }
+
+  private renderBottom(view: DialogueView, width: number, height: number) {
+    this.fullText = this.withSpeaker(view);
+    this.bodyText = this.scene.add.text(width / 2, 0, this.fullText, {
+      fontSize: '24px',
+      color: '#FFFFFF',
+      align: 'center',
+      wordWrap: { width: width - 60 },
+      lineSpacing: 8
+    });
+    this.bodyText.setOrigin(0.5);
+
+    // Grow the box for long monologues, measured on the fully typed text
+    const boxHeight = Math.max(280, this.bodyText.height + 120);
+    const boxY = height - 10 - boxHeight / 2;
+    this.bodyText.setY(boxY - 30);
+    this.bodyText.setText('');
+
+    const box = this.scene.add.rectangle(width / 2, boxY, width - 30, boxHeight, 0x000000, 0.9);
+    box.setStrokeStyle(2, view.accent ?? 0xFFFFFF);
+
+    this.container?.add([box, this.bodyText]);
+    this.addSolidChoices(view.choices ?? [], width / 2, height - 55, CHOICE_COLORS.secondary);
+  }
+
+  private renderTerminal(view: DialogueView, width: number, height: number) {
+    const accent = view.accent ?? 0x00ff00;
+    const overlay = this.scene.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.5);
+
+    const box = this.scene.add.rectangle(width / 2, height - 300, width - 30, 580, 0x000000, 1);
+    box.setStrokeStyle(2, accent);
+
+    this.fullText = this.withSpeaker(view);
+    this.bodyText = this.scene.add.text(width / 2, height - 320, '', {
+      fontSize: '18px',
+      color: Phaser.Display.Color.IntegerToColor(accent).rgba,
+      align: 'left',
+      wordWrap: { width: width - 60 },
+      lineSpacing: 6
+    });
+    this.bodyText.setOrigin(0.5);
+
+    this.container?.add([overlay, box, this.bodyText]);
+    this.addSolidChoices(view.choices ?? [], width / 2, height - 70, CHOICE_COLORS.secondary);
+  }
+
+  private renderPanel(view: DialogueView, width: number, height: number) {
+    const x = width / 2;
+    const y = height / 2;
+    const accent = view.accent ?? DEFAULT_ACCENT;
+    const accentHex = Phaser.Display.Color.IntegerToColor(accent).rgba;
+
+    const bg = this.scene.add.rectangle(x, y, 700, 600, 0x000000, 0.9);
+    bg.setStrokeStyle(2, accent, 0.9);
+    this.container?.add(bg);
+
+    if (view.title) {
+      const title = this.scene.add.text(x, y - 240, view.title, {
+        fontSize: '28px',
+        color: '#ffffff',
+        fontStyle: 'bold',
+        align: 'center'
+      });
+      title.setOrigin(0.5);
+      this.container?.add(title);
+    }
+
+    if (view.subtitle) {
+      const subtitle = this.scene.add.text(x, y - 200, view.subtitle, {
+        fontSize: '18px',
+        color: accentHex,
+        align: 'center'
+      });
+      subtitle.setOrigin(0.5);
+      this.container?.add(subtitle);
+    }
+
+    if (view.widget && this.container) {
+      const cleanup = view.widget(this.container, { x, y });
+      if (cleanup) {
+        this.widgetCleanup = cleanup;
+      }
+    }
+
+    const choices = view.choices ?? [];
+    const isMenu = (view.choiceLayout ?? 'column') === 'column';
+
+    this.fullText = view.text ?? '';
+    if (this.fullText) {
+      // Menus show a one line greeting above the options, info pages a full body
+      this.bodyText = isMenu
+        ? this.scene.add.text(x, y - 160, '', {
+          fontSize: '16px',
+          color: '#cccccc',
+          align: 'center',
+          wordWrap: { width: 620 }
+        })
+        : this.scene.add.text(x, y - 10, '', {
+          fontSize: '16px',
+          color: '#cccccc',
+          align: 'left',
+          lineSpacing: 5,
+          wordWrap: { width: 620 }
+        });
+      this.bodyText.setOrigin(0.5);
+      this.container?.add(this.bodyText);
+    }
+
+    if (isMenu) {
+      choices.forEach((choice, index) => {
+        this.addOutlinedChoice(choice, x, y - 110 + index * 50, 400);
+      });
+    } else {
+      const spacing = 220;
+      const startX = x - ((choices.length - 1) * spacing) / 2;
+      choices.forEach((choice, index) => {
+        this.addOutlinedChoice(choice, startX + index * spacing, y + 220, 120);
+      });
+    }
+
+    if (view.footer) {
+      const footer = this.scene.add.text(x, y + 160, view.footer, {
+        fontSize: '14px',
+        color: '#aaaaaa',
+        align: 'center',
+        wordWrap: { width: 620 }
+      });
+      footer.setOrigin(0.5);
+      this.container?.add(footer);
+    }
+  }
+
+  private renderToast(view: DialogueView, width: number, height: number) {
+    this.fullText = this.withSpeaker(view);
+    this.bodyText = this.scene.add.text(width / 2, height / 2, '', {
+      fontSize: '18px',
+      color: '#FFFFFF',
+      backgroundColor: '#00000080',
+      padding: { x: 20, y: 10 },
+      align: 'center'
+    });
+    this.bodyText.setOrigin(0.5);
+    this.container?.add(this.bodyText);
+  }
+}
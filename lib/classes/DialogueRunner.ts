@@ -0,0 +1,345 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Scene } from 'phaser';
+import DialogueBox, { DialogueBoxChoice, DialogueWidgetBuilder } from '@/lib/classes/DialogueBox';
+import {
+  DialogueBranch,
+  DialogueChoice,
+  DialogueCondition,
+  DialogueEffect,
+  DialogueNode,
+  DialogueTree,
+  DialogueValue,
+  getDialogueTree
+} from '@/lib/utils/dialogueLoader';
+import { reportDialogueRepeat } from '@/lib/utils/statsBridge';
+import { trackEvent } from '@/lib/utils/analytics';
+
+/**
+ * Registry key for dialogue state that should outlive a single conversation
+ */
+const DIALOGUE_STATE_KEY = 'dialogueState';
+
+/**
+ * Handle passed to scene actions so they can drive the open dialogue
+ */
+export interface DialogueActionContext {
+  setText: (text: string) => void;
+  goto: (nodeId: string) => void;
+  close: () => void;
+  get: (key: string) => DialogueValue | undefined;
+  set: (key: string, value: DialogueValue) => void;
+}
+
+/**
+ * Scene callback for an `action` effect. Returning a node id continues the
+ * conversation there instead of following the choice's `next`.
+ */
+export type DialogueActionHandler = (
+  context: DialogueActionContext,
+  ...args: DialogueValue[]
+) => string | void | Promise<string | void>;
+
+export interface DialogueStartOptions {
+  /** Values the tree's conditions and {{placeholders}} can read */
+  state?: Record<string, DialogueValue>;
+  actions?: Record<string, DialogueActionHandler>;
+  widgets?: Record<string, DialogueWidgetBuilder>;
+  /** Start somewhere other than the tree's start node */
+  startNode?: string;
+  /** Called once the conversation has ended */
+  onClose?: () => void;
+}
+
+/**
+ * DialogueRunner - walks a JSON conversation tree and feeds the DialogueBox
+ *
+ * Evaluates conditions, runs side effects and hands scene-specific work
+ * (opening gates, wallet calls...) to the actions the scene registered.
+ */
+export default class DialogueRunner {
+  private scene: Scene;
+  private box: DialogueBox;
+  private tree?: DialogueTree;
+  private options: DialogueStartOptions = {};
+  private state: Record<string, DialogueValue> = {};
+  private currentNodeId?: string;
+  // Bumped on every navigation so stale async actions don't navigate again
+  private navigationId: number = 0;
+  // Nodes shown since the scene started, a node shown again counts as a repeat
+  private shownNodes: Set<string> = new Set();
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+    this.box = new DialogueBox(scene);
+  }
+
+  /**
+   * Whether a conversation is currently running
+   */
+  isActive(): boolean {
+    return !!this.currentNodeId;
+  }
+
+  /**
+   * Start a conversation
+   *
+   * @param treeId Tree id as passed to preloadDialogues
+   * @param options State, actions and widgets provided by the scene
+   * @returns false if the tree could not be loaded
+   */
+  start(treeId: string, options: DialogueStartOptions = {}): boolean {
+    const tree = getDialogueTree(this.scene, treeId);
+    if (!tree) {
+      return false;
+    }
+
+    this.tree = tree;
+    this.options = options;
+    this.state = {
+      ...(this.scene.registry.get(DIALOGUE_STATE_KEY) as Record<string, DialogueValue> | undefined),
+      ...options.state
+    };
+
+    const startNode = options.startNode ?? this.resolveBranches(tree.start);
+    if (!startNode) {
+      console.warn(`[DialogueRunner] No start node matched in "${treeId}"`);
+      return false;
+    }
+
+    this.goto(startNode);
+    return true;
+  }
+
+  /**
+   * Jump to a node of the current tree
+   */
+  goto(nodeId: string) {
+    const node = this.tree?.nodes[nodeId];
+    if (!node) {
+      console.error(`[DialogueRunner] Unknown dialogue node "${nodeId}"`);
+      this.close();
+      return;
+    }
+
+    this.navigationId++;
+    this.currentNodeId = nodeId;
+    this.trackRepeat(nodeId, node);
+    this.render(node);
+
+    if (node.effects) {
+      const navigationId = this.navigationId;
+      void this.runEffects(node.effects).then(target => {
+        // The player may have left the node while a slow action ran
+        if (target && navigationId === this.navigationId) this.goto(target);
+      });
+    }
+  }
+
+  /**
+   * End the conversation
+   */
+  close() {
+    if (!this.currentNodeId) return;
+
+    this.navigationId++;
+    this.currentNodeId = undefined;
+    this.box.close();
+
+    const onClose = this.options.onClose;
+    this.options = {};
+    onClose?.();
+  }
+
+  /**
+   * Replace the body text of the current node
+   */
+  setText(text: string) {
+    this.box.setText(this.interpolate(text));
+  }
+
+  /**
+   * Report nodes the player keeps coming back to, toasts are only notifications
+   */
+  private trackRepeat(nodeId: string, node: DialogueNode) {
+    const tree = this.tree as DialogueTree;
+    if ((node.layout ?? tree.layout) === 'toast') return;
+
+    const key = `${tree.id}:${nodeId}`;
+    if (this.shownNodes.has(key)) {
+      reportDialogueRepeat(tree.id, nodeId);
+    } else {
+      this.shownNodes.add(key);
+    }
+  }
+
+  private render(node: DialogueNode) {
+    const tree = this.tree as DialogueTree;
+    const layout = node.layout ?? tree.layout ?? 'bottom';
+    const text = Array.isArray(node.text) ? node.text.join('\n') : node.text;
+    const accent = tree.accent ? Phaser.Display.Color.HexStringToColor(tree.accent).color : undefined;
+
+    const choices: DialogueBoxChoice[] = (node.choices ?? [])
+      .filter(choice => !choice.if || this.evaluate(choice.if))
+      .map((choice, index) => ({
+        text: this.interpolate(choice.text),
+        style: choice.style,
+        color: choice.color,
+        onSelect: () => this.select(choice, index)
+      }));
+
+    // Nodes without choices still need a way out unless they close by themselves
+    const continueTarget = this.resolveBranches(node.next);
+    if (choices.length === 0 && layout !== 'toast' && !node.autoCloseMs) {
+      choices.push({
+        text: continueTarget ? 'Continue' : 'Close',
+        style: continueTarget ? 'primary' : 'secondary',
+        onSelect: () => (continueTarget ? this.goto(continueTarget) : this.close())
+      });
+    }
+
+    const widget = node.widget ? this.options.widgets?.[node.widget] : undefined;
+    if (node.widget && !widget) {
+      console.warn(`[DialogueRunner] Widget "${node.widget}" is not registered`);
+    }
+
+    this.box.show({
+      layout,
+      accent,
+      speaker: node.speaker,
+      title: node.title ? this.interpolate(node.title) : undefined,
+      subtitle: node.subtitle ? this.interpolate(node.subtitle) : undefined,
+      text: text ? this.interpolate(text) : undefined,
+      footer: node.footer ? this.interpolate(node.footer) : undefined,
+      choices,
+      choiceLayout: node.choiceLayout,
+      typingSpeed: tree.typingSpeed,
+      autoCloseMs: node.autoCloseMs,
+      widget,
+      onCancel: () => (node.cancel ? this.goto(node.cancel) : this.close()),
+      onAutoClose: () => (continueTarget ? this.goto(continueTarget) : this.close())
+    });
+  }
+
+  private async select(choice: DialogueChoice, index: number) {
+    const navigationId = this.navigationId;
+    trackEvent('dialogue-choice', {
+      treeId: (this.tree as DialogueTree).id,
+      nodeId: this.currentNodeId ?? '',
+      choice: index,
+      text: choice.text
+    });
+
+    if (choice.effects?.some(effect => effect.type === 'action')) {
+      this.box.setChoicesEnabled(false);
+      if (choice.pendingText) {
+        this.box.setChoiceLabel(index, choice.pendingText);
+      }
+    }
+
+    const target = choice.effects ? await this.runEffects(choice.effects) : undefined;
+
+    // An action may already have moved the conversation along
+    if (navigationId !== this.navigationId) return;
+
+    const next = target ?? choice.next;
+    if (next) {
+      this.goto(next);
+    } else {
+      this.close();
+    }
+  }
+
+  /**
+   * Run effects in order
+   *
+   * @returns The node id returned by the last action that returned one
+   */
+  private async runEffects(effects: DialogueEffect[]): Promise<string | undefined> {
+    let target: string | undefined;
+
+    for (const effect of effects) {
+      switch (effect.type) {
+        case 'set':
+          this.setValue(effect.key, effect.value);
+          break;
+        case 'openUrl':
+          if (typeof window !== 'undefined') {
+            window.open(effect.url, '_blank');
+          }
+          break;
+        case 'action': {
+          const handler = this.options.actions?.[effect.name];
+          if (!handler) {
+            console.warn(`[DialogueRunner] Action "${effect.name}" is not registered`);
+            break;
+          }
+
+          try {
+            const result = await handler(this.createActionContext(), ...(effect.args ?? []));
+            if (typeof result === 'string') {
+              target = result;
+            }
+          } catch (error) {
+            console.error(`[DialogueRunner] Action "${effect.name}" failed:`, error);
+          }
+          break;
+        }
+      }
+    }
+
+    return target;
+  }
+
+  private createActionContext(): DialogueActionContext {
+    return {
+      setText: text => this.setText(text),
+      goto: nodeId => this.goto(nodeId),
+      close: () => this.close(),
+      get: key => this.state[key],
+      set: (key, value) => this.setValue(key, value)
+    };
+  }
+
+  /**
+   * Store a value for this conversation and remember it for later ones
+   */
+  private setValue(key: string, value: DialogueValue) {
+    this.state[key] = value;
+
+    const persisted = (this.scene.registry.get(DIALOGUE_STATE_KEY) as Record<string, DialogueValue> | undefined) ?? {};
+    this.scene.registry.set(DIALOGUE_STATE_KEY, { ...persisted, [key]: value });
+  }
+
+  private resolveBranches(target: string | DialogueBranch[] | undefined): string | undefined {
+    if (!Array.isArray(target)) {
+      return target;
+    }
+    return target.find(branch => !branch.if || this.evaluate(branch.if))?.next;
+  }
+
+  private evaluate(condition: DialogueCondition): boolean {
+    if ('not' in condition) {
+      return !this.evaluate(condition.not);
+    }
+    if ('all' in condition) {
+      return condition.all.every(c => this.evaluate(c));
+    }
+    if ('any' in condition) {
+      return condition.any.some(c => this.evaluate(c));
+    }
+
+    const value = this.state[condition.flag];
+    return condition.equals === undefined ? !!value : value === condition.equals;
+  }
+
+  /**
+   * Replace {{key}} placeholders with values from the dialogue state
+   */
+  private interpolate(text: string): string {
+    return text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+      const value = this.state[key];
+      return value === undefined ? '' : String(value);
+    });
+  }
+}
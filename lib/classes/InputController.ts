@@ -0,0 +1,339 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Events, Scene } from 'phaser';
+import ButtonMenu from './ButtonMenu';
+import { requestMenu } from '@/lib/utils/menuBridge';
+import { BINDABLE_ACTIONS, BindableAction, KEY_CODES, KeyBindings } from '@/lib/utils/keyBindings';
+import { getSettings, subscribeSettings } from '@/lib/utils/settings';
+
+export type InputAction = 'interact' | 'cancel' | 'minimap' | 'menu';
+export type InputDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Movement wanted by the player, each axis from -1 to 1
+ */
+export interface MoveVector {
+  x: number;
+  y: number;
+}
+
+/**
+ * Something that takes over interact, cancel and navigation while it is on
+ * screen, e.g. a dialogue or a menu. Only the topmost layer hears them.
+ */
+export interface InputLayer {
+  /** Stop the player while the layer is open */
+  blocksMovement?: boolean;
+  /** The layer reads typed text itself, so only cancel still counts as an action key */
+  textInput?: boolean;
+  onAction(action: Exclude<InputAction, 'minimap' | 'menu'>): void;
+  onNavigate?(direction: InputDirection): void;
+}
+
+export interface MenuOptions {
+  /** Called on cancel (ESC or the B button) */
+  onCancel?: () => void;
+  /**
+   * Called on left and right with the focused button, e.g. to change a volume.
+   * Return false to move the focus instead.
+   */
+  onAdjust?: (button: Phaser.GameObjects.GameObject, step: -1 | 1) => boolean;
+}
+
+// Keys kept from the page, so arrows and SPACE don't scroll it
+const CAPTURED_KEYS = ['LEFT', 'RIGHT', 'UP', 'DOWN', 'SPACE'];
+
+// Standard gamepad mapping: A, B, Back, Start and the d-pad
+const PAD_BUTTONS: Record<number, InputAction | InputDirection> = {
+  0: 'interact',
+  1: 'cancel',
+  8: 'minimap',
+  9: 'menu',
+  12: 'up',
+  13: 'down',
+  14: 'left',
+  15: 'right'
+};
+
+// Stick travel ignored around the center, and needed to move a menu focus
+const STICK_DEADZONE = 0.3;
+const STICK_NAVIGATE_THRESHOLD = 0.6;
+
+const DIRECTIONS: InputDirection[] = ['left', 'right', 'up', 'down'];
+
+const controllers = new WeakMap<Scene, InputController>();
+
+/**
+ * InputController - one action map for keyboard, gamepad and on-screen controls
+ *
+ * Scenes read the move vector every frame and listen for the interact,
+ * cancel, minimap and menu events instead of binding keys themselves.
+ * Dialogues and menus push a layer to take interact, cancel and navigation
+ * for themselves while they are open. The menu action always opens the
+ * pause menu. Keys come from the player's settings and are rebound as soon
+ * as they change. One controller exists per running scene, get it with
+ * forScene.
+ */
+export default class InputController extends Events.EventEmitter {
+  private scene: Scene;
+  private keys: Partial<Record<InputDirection, Phaser.Input.Keyboard.Key[]>> = {};
+  private actionsByKeyCode = new Map<number, BindableAction>();
+  private unsubscribeSettings: () => void;
+  private layers: InputLayer[] = [];
+  private virtualMove: MoveVector = { x: 0, y: 0 };
+  private stickDirection: InputDirection | null = null;
+  // Pad buttons held when the scene started, e.g. the Start press that opened the pause menu
+  private heldPadButtons = new Set<string>();
+
+  /**
+   * Get the controller of a scene, created on first use and destroyed with the scene
+   */
+  static forScene(scene: Scene): InputController {
+    let controller = controllers.get(scene);
+    if (!controller) {
+      controller = new InputController(scene);
+      controllers.set(scene, controller);
+    }
+    return controller;
+  }
+
+  private constructor(scene: Scene) {
+    super();
+    this.scene = scene;
+
+    const keyboard = scene.input.keyboard;
+    if (keyboard) {
+      this.bindKeys(getSettings().controls);
+      keyboard.addCapture(CAPTURED_KEYS);
+      keyboard.on('keydown', this.handleKeyDown, this);
+    }
+    this.unsubscribeSettings = subscribeSettings(settings => this.bindKeys(settings.controls));
+
+    // A new scene sees held buttons as fresh presses, ignore them until they are let go
+    Array.from(navigator.getGamepads?.() ?? []).forEach(pad => {
+      pad?.buttons.forEach((button, index) => {
+        if (button.pressed) {
+          this.heldPadButtons.add(`${pad.index}:${index}`);
+        }
+      });
+    });
+
+    scene.input.gamepad?.on('down', this.handlePadDown, this);
+    scene.input.gamepad?.on('up', this.handlePadUp, this);
+    scene.events.on('update', this.pollStick, this);
+    scene.events.once('shutdown', () => this.destroy());
+  }
+
+  /**
+   * Get the movement from every input, or nothing while a dialogue or menu is open
+   */
+  getMove(): MoveVector {
+    if (this.isMovementBlocked()) {
+      return { x: 0, y: 0 };
+    }
+
+    const isDown = (direction: InputDirection) => this.keys[direction]?.some(key => key.isDown) ?? false;
+    let x = Number(isDown('right')) - Number(isDown('left')) + this.virtualMove.x;
+    let y = Number(isDown('down')) - Number(isDown('up')) + this.virtualMove.y;
+
+    this.getPads().forEach(pad => {
+      const stick = this.applyDeadzone(pad.leftStick);
+      x += Number(pad.right) - Number(pad.left) + stick.x;
+      y += Number(pad.down) - Number(pad.up) + stick.y;
+    });
+
+    return { x: Phaser.Math.Clamp(x, -1, 1), y: Phaser.Math.Clamp(y, -1, 1) };
+  }
+
+  /**
+   * Whether a dialogue or menu that stops the player is open
+   */
+  isMovementBlocked(): boolean {
+    return this.layers.some(layer => layer.blocksMovement);
+  }
+
+  /**
+   * Set the movement of on-screen controls, { x: 0, y: 0 } when released
+   */
+  setVirtualMove(move: MoveVector) {
+    this.virtualMove = { x: Phaser.Math.Clamp(move.x, -1, 1), y: Phaser.Math.Clamp(move.y, -1, 1) };
+  }
+
+  /**
+   * Trigger an action or move a menu focus, for on-screen controls
+   */
+  press(input: InputAction | InputDirection) {
+    if (input === 'interact' || input === 'cancel' || input === 'minimap' || input === 'menu') {
+      this.dispatch(input);
+    } else {
+      this.layers[this.layers.length - 1]?.onNavigate?.(input);
+    }
+  }
+
+  /**
+   * Put a layer on top of the others
+   * @returns Function removing the layer again
+   */
+  pushLayer(layer: InputLayer): () => void {
+    this.layers.push(layer);
+    return () => {
+      this.layers = this.layers.filter(candidate => candidate !== layer);
+    };
+  }
+
+  /**
+   * Make pointer buttons reachable with keys and the gamepad, the first one starts focused
+   *
+   * The menu goes away with its first button, or when the returned function is called.
+   */
+  openMenu(buttons: Phaser.GameObjects.GameObject[], options: MenuOptions = {}): () => void {
+    const menu = new ButtonMenu(buttons);
+    const removeLayer = this.pushLayer({
+      blocksMovement: true,
+      onAction: action => {
+        if (action === 'cancel') {
+          options.onCancel?.();
+        } else {
+          menu.activate();
+        }
+      },
+      onNavigate: direction => {
+        const focused = menu.getFocused();
+        const isSideways = direction === 'left' || direction === 'right';
+        if (isSideways && focused && options.onAdjust?.(focused, direction === 'left' ? -1 : 1)) return;
+        menu.move(direction);
+      }
+    });
+
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      removeLayer();
+      menu.blur();
+    };
+
+    buttons[0]?.once('destroy', close);
+    menu.focusFirst();
+    return close;
+  }
+
+  /**
+   * Let interact or cancel dismiss a message, like a click anywhere does
+   *
+   * Stops listening once the message is destroyed. The player can keep walking.
+   */
+  dismissOn(message: Phaser.GameObjects.GameObject, onDismiss: () => void) {
+    const removeLayer = this.pushLayer({
+      onAction: () => {
+        removeLayer();
+        onDismiss();
+      }
+    });
+    message.once('destroy', removeLayer);
+  }
+
+  destroy() {
+    controllers.delete(this.scene);
+    this.unsubscribeSettings();
+    this.scene.input.keyboard?.off('keydown', this.handleKeyDown, this);
+    this.scene.input.gamepad?.off('down', this.handlePadDown, this);
+    this.scene.input.gamepad?.off('up', this.handlePadUp, this);
+    this.scene.events.off('update', this.pollStick, this);
+    this.layers = [];
+    super.destroy();
+  }
+
+  private dispatch(action: InputAction) {
+    if (action === 'menu') {
+      requestMenu();
+      this.emit('menu');
+      return;
+    }
+
+    // The minimap is not part of a dialogue or menu, it toggles whatever is open
+    if (action === 'minimap') {
+      this.emit('minimap');
+      return;
+    }
+
+    const layer = this.layers[this.layers.length - 1];
+    if (layer) {
+      layer.onAction(action);
+    } else {
+      this.emit(action);
+    }
+  }
+
+  /**
+   * Listen for the keys of a set of bindings, replacing the previous ones
+   */
+  private bindKeys(bindings: KeyBindings) {
+    const keyboard = this.scene.input.keyboard;
+    if (!keyboard) return;
+
+    DIRECTIONS.forEach(direction => {
+      this.keys[direction]?.forEach(key => keyboard.removeKey(key));
+      this.keys[direction] = bindings[direction].map(name => keyboard.addKey(KEY_CODES[name], false));
+    });
+
+    this.actionsByKeyCode.clear();
+    BINDABLE_ACTIONS.forEach(action => {
+      bindings[action].forEach(name => this.actionsByKeyCode.set(KEY_CODES[name], action));
+    });
+  }
+
+  private handleKeyDown(event: KeyboardEvent) {
+    const input = this.actionsByKeyCode.get(event.keyCode);
+    if (!input) return;
+
+    if (this.layers[this.layers.length - 1]?.textInput && input !== 'cancel') return;
+
+    // Holding a key down does not repeat it
+    if (event.repeat) return;
+    this.press(input);
+  }
+
+  private handlePadDown(pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) {
+    const input = PAD_BUTTONS[button.index];
+    if (input && !this.heldPadButtons.has(`${pad.index}:${button.index}`)) {
+      this.press(input);
+    }
+  }
+
+  private handlePadUp(pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) {
+    this.heldPadButtons.delete(`${pad.index}:${button.index}`);
+  }
+
+  /**
+   * Turn stick flicks into menu navigation, once per push away from the center
+   */
+  private pollStick() {
+    let direction: InputDirection | null = null;
+    this.getPads().forEach(pad => {
+      const { x, y } = pad.leftStick;
+      if (Math.max(Math.abs(x), Math.abs(y)) < STICK_NAVIGATE_THRESHOLD) return;
+      direction = Math.abs(x) >= Math.abs(y) ? (x < 0 ? 'left' : 'right') : (y < 0 ? 'up' : 'down');
+    });
+
+    if (direction && direction !== this.stickDirection) {
+      this.press(direction);
+    }
+    this.stickDirection = direction;
+  }
+
+  private getPads(): Phaser.Input.Gamepad.Gamepad[] {
+    const gamepad = this.scene.input.gamepad;
+    return gamepad && gamepad.total > 0 ? gamepad.getAll() : [];
+  }
+
+  // Ignore small stick travel and scale the rest back to 0-1
+  private applyDeadzone(stick: Phaser.Math.Vector2): MoveVector {
+    const length = stick.length();
+    if (length < STICK_DEADZONE) {
+      return { x: 0, y: 0 };
+    }
+    const scale = Math.min((length - STICK_DEADZONE) / (1 - STICK_DEADZONE), 1) / length;
+    return { x: stick.x * scale, y: stick.y * scale };
+  }
+}
@@ -0,0 +1,440 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Scene } from 'phaser';
+import DialogueBox, { DialogueBoxChoice } from '@/lib/classes/DialogueBox';
+import { PuzzleWalletService } from '@/lib/services/PuzzleWalletService';
+import { AnsResolver } from '@/lib/services/AnsResolver';
+import { TrackedTransaction, TransactionTracker } from '@/lib/services/TransactionTracker';
+import { isAddress } from '@/lib/utils/leoLiterals';
+import { NftToken } from '@/lib/utils/nftMetadata';
+
+export interface NftGalleryOptions {
+  /** Called once the gallery is closed */
+  onClose?: () => void;
+}
+
+const ACCENT = 0x00ff00;
+const ART_SIZE = 140;
+
+// Kind of the tracked transfer transactions
+const NFT_TRANSFER_TRANSACTION = 'nft-transfer';
+
+// Longest recipient that can be typed, ANS names are shorter than addresses
+const MAX_RECIPIENT_LENGTH = 64;
+
+/**
+ * NftGalleryTerminal - in-game terminal listing the player's Legend of Leo NFTs
+ *
+ * Loads the connected account's Token records through the wallet service
+ * and pages through them in the shared DialogueBox, showing each token's
+ * art, edition and attributes. Without a wallet it explains how to get one
+ * connected instead.
+ *
+ * Tokens can be sent to another player: the recipient is typed (or pasted)
+ * as an aleo1 address or a .ans name, confirmed, and the transfer is
+ * followed through the TransactionTracker until it settles.
+ */
+export default class NftGalleryTerminal {
+  private scene: Scene;
+  private box: DialogueBox;
+  private options: NftGalleryOptions = {};
+  private tokens: NftToken[] = [];
+  private index: number = 0;
+  private active: boolean = false;
+  private recipientInput: string = '';
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+    this.box = new DialogueBox(scene);
+  }
+
+  /**
+   * Whether the gallery is currently open
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Open the gallery and load the player's tokens
+   */
+  async open(options: NftGalleryOptions = {}): Promise<void> {
+    this.options = options;
+    this.active = true;
+    this.tokens = [];
+    this.index = 0;
+
+    const walletService = PuzzleWalletService.getInstance();
+    if (!walletService.isConnected()) {
+      this.showMessage('No wallet connected.\n\nConnect a wallet from the top right corner to see your NFTs.');
+      return;
+    }
+
+    this.showMessage('Loading your NFTs from the wallet...', false);
+    const tokens = await walletService.getLeoNFTs();
+
+    // The player may have left while the wallet was answering
+    if (!this.active) return;
+
+    if (tokens === null) {
+      this.showMessage('Could not load your NFTs.\n\nCheck that your wallet is unlocked and try again.');
+    } else if (tokens.length === 0) {
+      this.showMessage('You have no Legend of Leo NFTs yet.\n\nGraduate in Level 4 to mint one.');
+    } else {
+      this.tokens = tokens;
+      this.showToken();
+    }
+  }
+
+  /**
+   * Close the gallery
+   */
+  close() {
+    if (!this.active) return;
+
+    this.active = false;
+    this.box.close();
+
+    const onClose = this.options.onClose;
+    this.options = {};
+    onClose?.();
+  }
+
+  private showMessage(text: string, closable: boolean = true) {
+    this.box.show({
+      layout: 'panel',
+      accent: ACCENT,
+      title: 'NFT Gallery',
+      text,
+      choiceLayout: 'row',
+      choices: closable ? [{ text: 'Close', style: 'secondary', onSelect: () => this.close() }] : [],
+      onCancel: () => this.close()
+    });
+  }
+
+  private showToken() {
+    const token = this.tokens[this.index];
+    const details = [
+      ...token.metadata.attributes.map(attribute => `${attribute.trait_type}: ${attribute.value}`),
+      `Creator: ${PuzzleWalletService.getInstance().formatAddress(token.creator)}`
+    ].join('\n');
+
+    const choices: DialogueBoxChoice[] = [];
+    if (this.tokens.length > 1) {
+      choices.push({ text: 'Previous', style: 'secondary', onSelect: () => this.turnPage(-1) });
+    }
+    choices.push({ text: 'Close', style: 'secondary', onSelect: () => this.close() });
+    choices.push({ text: 'Transfer', style: 'primary', onSelect: () => this.startTransfer(token) });
+    if (this.tokens.length > 1) {
+      choices.push({ text: 'Next', style: 'secondary', onSelect: () => this.turnPage(1) });
+    }
+
+    this.box.show({
+      layout: 'panel',
+      accent: ACCENT,
+      title: token.metadata.name || 'Legend of Leo NFT',
+      subtitle: `Edition #${token.edition}`,
+      footer: this.tokens.length > 1 ? `${this.index + 1} of ${this.tokens.length}` : undefined,
+      choiceLayout: 'row',
+      choices,
+      onCancel: () => this.close(),
+      widget: (container, center) => {
+        const detailsText = this.scene.add.text(center.x, center.y + 60, details, {
+          fontSize: '16px',
+          color: '#cccccc',
+          align: 'center',
+          lineSpacing: 5,
+          wordWrap: { width: 620 }
+        });
+        detailsText.setOrigin(0.5);
+        container.add(detailsText);
+
+        return this.addArt(container, center.x, center.y - 90, token.metadata.image);
+      }
+    });
+  }
+
+  private turnPage(step: number) {
+    this.index = (this.index + step + this.tokens.length) % this.tokens.length;
+    this.showToken();
+  }
+
+  private getTokenLabel(token: NftToken): string {
+    return `${token.metadata.name || 'Legend of Leo NFT'} #${token.edition}`;
+  }
+
+  private startTransfer(token: NftToken) {
+    this.recipientInput = '';
+    this.showRecipientInput(token);
+  }
+
+  /**
+   * Ask who the token goes to
+   */
+  private showRecipientInput(token: NftToken) {
+    let statusText: Phaser.GameObjects.Text | undefined;
+    let resolving = false;
+
+    const submit = async () => {
+      const input = this.recipientInput.trim();
+      if (resolving || !statusText) return;
+
+      if (isAddress(input)) {
+        this.showTransferConfirm(token, input);
+        return;
+      }
+      const resolver = AnsResolver.getInstance();
+      if (!resolver.isValidName(input)) {
+        statusText.setColor('#ff6666');
+        statusText.setText('Enter an aleo1... address or a name ending in .ans');
+        return;
+      }
+
+      resolving = true;
+      this.box.setChoicesEnabled(false);
+      statusText.setColor('#cccccc');
+      statusText.setText(`Looking up ${input}...`);
+
+      const address = await resolver.resolveName(input);
+
+      // The player may have gone back while the name was resolving
+      if (!this.active || !statusText.active) return;
+
+      if (address) {
+        this.showTransferConfirm(token, address, input);
+        return;
+      }
+
+      resolving = false;
+      this.box.setChoicesEnabled(true);
+      statusText.setColor('#ff6666');
+      statusText.setText(`Could not find ${input}, check the name and try again`);
+    };
+
+    this.box.show({
+      layout: 'panel',
+      accent: ACCENT,
+      title: 'Transfer NFT',
+      subtitle: this.getTokenLabel(token),
+      choiceLayout: 'row',
+      choices: [
+        { text: 'Back', style: 'secondary', onSelect: () => this.showToken() },
+        { text: 'Continue', style: 'primary', onSelect: () => submit() }
+      ],
+      onCancel: () => this.showToken(),
+      widget: (container, center) => {
+        const prompt = this.scene.add.text(center.x, center.y - 70, 'Type or paste the recipient\'s Aleo address or .ans name:', {
+          fontSize: '16px',
+          color: '#cccccc',
+          align: 'center',
+          wordWrap: { width: 620 }
+        });
+        prompt.setOrigin(0.5);
+
+        const inputBackground = this.scene.add.rectangle(center.x, center.y - 20, 640, 44, 0x333333, 1);
+        inputBackground.setStrokeStyle(2, ACCENT);
+
+        const inputText = this.scene.add.text(center.x, center.y - 20, '', {
+          fontSize: '14px',
+          color: '#ffffff',
+          align: 'center'
+        });
+        inputText.setOrigin(0.5);
+
+        statusText = this.scene.add.text(center.x, center.y + 40, '', {
+          fontSize: '15px',
+          color: '#cccccc',
+          align: 'center',
+          wordWrap: { width: 620 }
+        });
+        statusText.setOrigin(0.5);
+
+        container.add([prompt, inputBackground, inputText, statusText]);
+
+        const render = () => {
+          inputText.setText(`${this.recipientInput}|`);
+        };
+        render();
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+          // Leave shortcuts such as paste to the browser
+          if (resolving || event.ctrlKey || event.metaKey) return;
+
+          if (event.key === 'Backspace') {
+            this.recipientInput = this.recipientInput.slice(0, -1);
+          } else if (event.key === 'Enter') {
+            submit();
+          } else if (event.key.length === 1 && this.recipientInput.length < MAX_RECIPIENT_LENGTH) {
+            this.recipientInput += event.key;
+          }
+          render();
+        };
+
+        const handlePaste = (event: ClipboardEvent) => {
+          const text = event.clipboardData?.getData('text')?.trim();
+          if (resolving || !text) return;
+
+          this.recipientInput = (this.recipientInput + text).slice(0, MAX_RECIPIENT_LENGTH);
+          render();
+        };
+
+        this.scene.input.keyboard?.on('keydown', handleKeyDown);
+        window.addEventListener('paste', handlePaste);
+
+        return () => {
+          this.scene.input.keyboard?.off('keydown', handleKeyDown);
+          window.removeEventListener('paste', handlePaste);
+        };
+      }
+    });
+  }
+
+  /**
+   * Ask the player to confirm the resolved recipient
+   * @param name The .ans name the address was resolved from
+   */
+  private showTransferConfirm(token: NftToken, address: string, name?: string) {
+    const recipient = name ? `${name}\n${address}` : address;
+
+    this.box.show({
+      layout: 'panel',
+      accent: ACCENT,
+      title: 'Confirm Transfer',
+      subtitle: this.getTokenLabel(token),
+      text: `Send this NFT to\n\n${recipient}\n\nIt leaves your wallet for good once the network accepts the transfer.`,
+      choiceLayout: 'row',
+      choices: [
+        { text: 'Cancel', style: 'secondary', onSelect: () => this.showRecipientInput(token) },
+        { text: 'Confirm', style: 'primary', onSelect: () => this.submitTransfer(token, address) }
+      ],
+      onCancel: () => this.showRecipientInput(token)
+    });
+  }
+
+  private async submitTransfer(token: NftToken, address: string) {
+    this.box.setChoicesEnabled(false);
+    this.box.setText('Approve the transfer in your wallet...');
+
+    const response = await PuzzleWalletService.getInstance().transferLeoNFT(token, address);
+    if (!this.active) return;
+
+    if (!response?.eventId) {
+      this.box.show({
+        layout: 'panel',
+        accent: ACCENT,
+        title: 'Transfer Failed',
+        text: 'The wallet did not create the transfer.\n\nThe NFT is still yours, check that your wallet is unlocked and try again.',
+        choiceLayout: 'row',
+        choices: [{ text: 'Back', style: 'secondary', onSelect: () => this.showToken() }],
+        onCancel: () => this.showToken()
+      });
+      return;
+    }
+
+    const transaction = TransactionTracker.getInstance().track(response.eventId, NFT_TRANSFER_TRANSACTION);
+    this.showTransferStatus(token, address, transaction);
+  }
+
+  /**
+   * Follow the submitted transfer until it settles
+   */
+  private showTransferStatus(token: NftToken, address: string, transaction: TrackedTransaction) {
+    const describe = (current: TrackedTransaction): string => {
+      switch (current.status) {
+        case 'accepted':
+          return `Transfer complete!\n\nEdition #${token.edition} now belongs to\n${address}`;
+        case 'rejected':
+        case 'failed':
+          return `The transfer failed: ${current.error ?? 'the network rejected it'}.\n\nThe NFT is still yours.`;
+        default:
+          return 'Transfer submitted.\n\nWaiting for the network to accept it, this can take a few minutes...';
+      }
+    };
+
+    this.box.show({
+      layout: 'panel',
+      accent: ACCENT,
+      title: 'NFT Transfer',
+      subtitle: this.getTokenLabel(token),
+      footer: `Request ${transaction.id}`,
+      choiceLayout: 'row',
+      choices: [
+        { text: 'Close', style: 'secondary', onSelect: () => this.close() },
+        // Reload, a settled transfer has spent the token
+        { text: 'My NFTs', style: 'primary', onSelect: () => this.open(this.options) }
+      ],
+      onCancel: () => this.close(),
+      widget: (container, center) => {
+        const statusText = this.scene.add.text(center.x, center.y, describe(transaction), {
+          fontSize: '16px',
+          color: '#cccccc',
+          align: 'center',
+          lineSpacing: 5,
+          wordWrap: { width: 620 }
+        });
+        statusText.setOrigin(0.5);
+        container.add(statusText);
+
+        return TransactionTracker.getInstance().subscribe(updated => {
+          if (updated.id === transaction.id && statusText.active) {
+            statusText.setText(describe(updated));
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Show the token's art, loading it the first time it is needed
+   * @returns Cleanup for the loader listeners
+   */
+  private addArt(container: Phaser.GameObjects.Container, x: number, y: number, url: string): (() => void) | void {
+    const placeholder = this.scene.add.text(x, y, url ? 'Loading artwork...' : 'No artwork', {
+      fontSize: '14px',
+      color: '#888888'
+    });
+    placeholder.setOrigin(0.5);
+    container.add(placeholder);
+
+    if (!url) return;
+
+    const key = `nft-art-${url}`;
+    const isSvg = url.toLowerCase().split('?')[0].endsWith('.svg');
+
+    const showArt = () => {
+      if (!container.active) return;
+
+      placeholder.destroy();
+      const art = this.scene.add.image(x, y, key);
+      art.setScale(Math.min(ART_SIZE / art.width, ART_SIZE / art.height));
+      container.add(art);
+    };
+
+    if (this.scene.textures.exists(key)) {
+      showArt();
+      return;
+    }
+
+    const loader = this.scene.load;
+    const completeEvent = `filecomplete-${isSvg ? 'svg' : 'image'}-${key}`;
+    const handleError = (file: Phaser.Loader.File) => {
+      if (file.key === key && placeholder.active) {
+        placeholder.setText('Artwork unavailable');
+      }
+    };
+
+    loader.once(completeEvent, showArt);
+    loader.on(Phaser.Loader.Events.FILE_LOAD_ERROR, handleError);
+    if (isSvg) {
+      loader.svg(key, url);
+    } else {
+      loader.image(key, url);
+    }
+    loader.start();
+
+    return () => {
+      loader.off(completeEvent, showArt);
+      loader.off(Phaser.Loader.Events.FILE_LOAD_ERROR, handleError);
+    };
+  }
+}
@@ -1,6 +1,8 @@
 'use client'; /* This file is only executed on the client side */
 
 import { Scene } from 'phaser';
+import AudioManager from './AudioManager';
+import type { MoveVector } from './InputController';
 
 /**
  * Player class to handle character movement, animations and interactions
@@ -201,9 +203,7 @@ export default class Player {
     console.log('Placeholder animations created successfully');
   }
   
-  update(cursors: Phaser.Types.Input.Keyboard.CursorKeys): void {
-    if (!cursors) return;
-    
+  update(move: MoveVector): void {
     // Reset velocity
     this.sprite.setVelocity(0);
     
@@ -213,24 +213,23 @@ export default class Player {
     let newDirection = this.currentDirection;
     
     // Implement strict 4-directional movement (no diagonals)
-    // Priority: Left/Right over Up/Down
+    // The stronger axis wins, Left/Right over Up/Down on a tie
+    const horizontal = Math.abs(move.x) >= Math.abs(move.y);
     
-    if (cursors.left.isDown) {
-      // Left movement takes precedence
+    if (horizontal && move.x < 0) {
       this.sprite.setVelocityX(-this.moveSpeed);
       newDirection = 'left';
       moving = true;
-    } else if (cursors.right.isDown) {
-      // Right movement if not moving left
+    } else if (horizontal && move.x > 0) {
       this.sprite.setVelocityX(this.moveSpeed);
       newDirection = 'right';
       moving = true;
-    } else if (cursors.up.isDown) {
+    } else if (move.y < 0) {
       // Only move up if not moving horizontally
       this.sprite.setVelocityY(-this.moveSpeed);
       newDirection = 'up';
       moving = true;
-    } else if (cursors.down.isDown) {
+    } else if (move.y > 0) {
       // Only move down if not moving horizontally
       this.sprite.setVelocityY(this.moveSpeed);
       newDirection = 'down';
@@ -246,6 +245,11 @@ export default class Player {
     // Update animation based on movement state
     this.updateAnimation(moving, directionChanged);
     
+    // Footsteps keep their own pace, whatever the frame rate
+    if (moving) {
+      AudioManager.forGame(this.scene.game).playFootstep();
+    }
+    
     // Update internal state
     this.isMoving = moving;
   }
@@ -0,0 +1,382 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Scene } from 'phaser';
+import DialogueBox, { DialogueBoxChoice, DialogueView } from '@/lib/classes/DialogueBox';
+import {
+  FreeTextQuestion,
+  OrderingQuestion,
+  QuizAnswer,
+  QuizDefinition,
+  QuizQuestion,
+  describeCorrectAnswer,
+  getQuiz,
+  isCorrectAnswer
+} from '@/lib/utils/quizLoader';
+import { quizCompleted, quizStarted } from '@/lib/utils/quizBridge';
+import { reportQuestionMiss } from '@/lib/utils/statsBridge';
+import { trackEvent } from '@/lib/utils/analytics';
+
+/**
+ * Outcome of a quiz attempt
+ */
+export interface QuizResult {
+  quizId: string;
+  moduleId: string;
+  /** Percentage (0-100) */
+  score: number;
+  correct: number;
+  total: number;
+  passed: boolean;
+  /** Attempts made in this run */
+  attempts: number;
+}
+
+export interface QuizStartOptions {
+  /** Called once the quiz panel is closed with the best attempt of the run, if any was finished */
+  onClose?: (result?: QuizResult) => void;
+}
+
+const DEFAULT_ACCENT = '#4CAF50';
+
+/**
+ * QuizRunner - asks the questions of a JSON quiz in the shared DialogueBox
+ *
+ * Shows an explanation after every answer, scores the attempt against the
+ * quiz's passing score, offers retries and reports each attempt to the
+ * game state through the quiz bridge.
+ */
+export default class QuizRunner {
+  private scene: Scene;
+  private box: DialogueBox;
+  private quiz?: QuizDefinition;
+  private options: QuizStartOptions = {};
+  private questionIndex: number = 0;
+  private earnedPoints: number = 0;
+  private correctCount: number = 0;
+  private attempts: number = 0;
+  private bestResult?: QuizResult;
+  // Ordering questions: shuffled item order and the items picked so far
+  private orderingItems: number[] = [];
+  private orderingPicks: number[] = [];
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+    this.box = new DialogueBox(scene);
+  }
+
+  /**
+   * Whether a quiz is currently open
+   */
+  isActive(): boolean {
+    return !!this.quiz;
+  }
+
+  /**
+   * Open a quiz on its intro screen
+   *
+   * @param quizId Quiz id as passed to preloadQuizzes
+   * @param options Callback for when the player is done
+   * @returns false if the quiz could not be loaded
+   */
+  start(quizId: string, options: QuizStartOptions = {}): boolean {
+    const quiz = getQuiz(this.scene, quizId);
+    if (!quiz) {
+      return false;
+    }
+
+    this.quiz = quiz;
+    this.options = options;
+    this.attempts = 0;
+    this.bestResult = undefined;
+
+    const total = quiz.questions.length;
+    this.show({
+      layout: 'panel',
+      title: quiz.title,
+      text: quiz.intro ?? `Answer ${total} question${total === 1 ? '' : 's'}. You need ${quiz.passingScore}% to pass.`,
+      choiceLayout: 'row',
+      choices: [
+        { text: 'Start', style: 'primary', onSelect: () => this.beginAttempt() },
+        { text: 'Not now', style: 'secondary', onSelect: () => this.close() }
+      ]
+    });
+    return true;
+  }
+
+  /**
+   * Close the quiz and hand the best result to the scene
+   */
+  close() {
+    if (!this.quiz) return;
+
+    this.quiz = undefined;
+    this.box.close();
+
+    const onClose = this.options.onClose;
+    const result = this.bestResult;
+    this.options = {};
+    onClose?.(result);
+  }
+
+  private beginAttempt() {
+    const quiz = this.quiz as QuizDefinition;
+
+    this.attempts++;
+    this.questionIndex = 0;
+    this.earnedPoints = 0;
+    this.correctCount = 0;
+    quizStarted(quiz.moduleId);
+
+    this.askQuestion();
+  }
+
+  private askQuestion() {
+    const question = (this.quiz as QuizDefinition).questions[this.questionIndex];
+
+    switch (question.type) {
+      case 'multiple-choice':
+        this.showQuestion(question, question.options.map((option, index) => ({
+          text: option,
+          style: 'accent',
+          onSelect: () => this.answer(index)
+        })));
+        break;
+      case 'true-false':
+        this.showQuestion(question, [
+          { text: 'True', style: 'accent', onSelect: () => this.answer(true) },
+          { text: 'False', style: 'accent', onSelect: () => this.answer(false) }
+        ]);
+        break;
+      case 'ordering':
+        this.orderingItems = this.shuffleItems(question);
+        this.orderingPicks = [];
+        this.showOrdering(question);
+        break;
+      case 'free-text':
+        this.showFreeText(question);
+        break;
+    }
+  }
+
+  private showQuestion(question: QuizQuestion, choices: DialogueBoxChoice[], footer?: string) {
+    this.show({
+      layout: 'panel',
+      title: (this.quiz as QuizDefinition).title,
+      subtitle: this.getProgressLabel(),
+      text: question.prompt,
+      choices,
+      footer
+    });
+  }
+
+  private showOrdering(question: OrderingQuestion) {
+    const remaining = this.orderingItems.filter(index => !this.orderingPicks.includes(index));
+    const choices: DialogueBoxChoice[] = remaining.map(index => ({
+      text: question.items[index],
+      style: 'accent',
+      onSelect: () => this.pickOrderingItem(question, index)
+    }));
+
+    if (this.orderingPicks.length > 0) {
+      choices.push({
+        text: 'Start over',
+        style: 'secondary',
+        onSelect: () => {
+          this.orderingPicks = [];
+          this.showOrdering(question);
+        }
+      });
+    }
+
+    const picked = this.orderingPicks.map((index, position) => `${position + 1}. ${question.items[index]}`);
+    this.showQuestion(
+      question,
+      choices,
+      picked.length > 0 ? `Your order: ${picked.join('  ')}` : 'Pick the items in the right order'
+    );
+  }
+
+  private pickOrderingItem(question: OrderingQuestion, index: number) {
+    this.orderingPicks.push(index);
+
+    if (this.orderingPicks.length === question.items.length) {
+      this.answer([...this.orderingPicks]);
+    } else {
+      this.showOrdering(question);
+    }
+  }
+
+  private showFreeText(question: FreeTextQuestion) {
+    let typed = '';
+    const submit = () => {
+      if (typed.trim()) {
+        this.answer(typed);
+      }
+    };
+
+    this.show({
+      layout: 'panel',
+      title: (this.quiz as QuizDefinition).title,
+      subtitle: this.getProgressLabel(),
+      text: question.prompt,
+      choiceLayout: 'row',
+      choices: [{ text: 'Submit', style: 'primary', onSelect: submit }],
+      widget: (container, center) => {
+        const placeholder = question.placeholder ?? 'Type your answer...';
+
+        const field = this.scene.add.rectangle(center.x, center.y + 100, 400, 40, 0x333333, 1);
+        field.setStrokeStyle(2, 0xFFFFFF);
+
+        const inputText = this.scene.add.text(center.x, center.y + 100, placeholder, {
+          fontSize: '18px',
+          color: '#888888',
+          align: 'center'
+        });
+        inputText.setOrigin(0.5);
+
+        container.add([field, inputText]);
+
+        const handleKeyDown = (event: { key: string }) => {
+          if (event.key === 'Enter') {
+            // Wait a frame so the same ENTER press doesn't also confirm the feedback screen
+            this.scene.time.delayedCall(0, submit);
+            return;
+          }
+
+          if (event.key === 'Backspace') {
+            typed = typed.slice(0, -1);
+          } else if (event.key.length === 1 && typed.length < 40) {
+            typed += event.key;
+          }
+
+          inputText.setText(typed ? `${typed}|` : placeholder);
+          inputText.setColor(typed ? '#FFFFFF' : '#888888');
+        };
+        this.scene.input.keyboard?.on('keydown', handleKeyDown);
+
+        return () => {
+          this.scene.input.keyboard?.off('keydown', handleKeyDown);
+        };
+      }
+    });
+  }
+
+  private answer(answer: QuizAnswer) {
+    const quiz = this.quiz as QuizDefinition;
+    const question = quiz.questions[this.questionIndex];
+    const correct = isCorrectAnswer(question, answer);
+    trackEvent('quiz-answer', { quizId: quiz.id, questionId: question.id, correct, attempt: this.attempts });
+
+    if (correct) {
+      this.earnedPoints += question.points ?? 1;
+      this.correctCount++;
+    } else {
+      reportQuestionMiss(quiz.id, question.id);
+    }
+
+    const lines: string[] = [];
+    if (!correct) {
+      lines.push(`Correct answer:\n${describeCorrectAnswer(question)}`);
+    }
+    if (question.explanation) {
+      lines.push(question.explanation);
+    }
+
+    const isLast = this.questionIndex === quiz.questions.length - 1;
+    this.show({
+      layout: 'panel',
+      title: correct ? 'Correct!' : 'Not quite',
+      subtitle: this.getProgressLabel(),
+      text: lines.join('\n\n'),
+      choiceLayout: 'row',
+      choices: [{
+        text: isLast ? 'See results' : 'Next',
+        style: 'primary',
+        onSelect: () => {
+          if (isLast) {
+            this.finishAttempt();
+          } else {
+            this.questionIndex++;
+            this.askQuestion();
+          }
+        }
+      }]
+    });
+  }
+
+  private finishAttempt() {
+    const quiz = this.quiz as QuizDefinition;
+    const totalPoints = quiz.questions.reduce((sum, question) => sum + (question.points ?? 1), 0);
+    const score = Math.round((this.earnedPoints / totalPoints) * 100);
+
+    const result: QuizResult = {
+      quizId: quiz.id,
+      moduleId: quiz.moduleId,
+      score,
+      correct: this.correctCount,
+      total: quiz.questions.length,
+      passed: score >= quiz.passingScore,
+      attempts: this.attempts
+    };
+
+    if (!this.bestResult || result.score >= this.bestResult.score) {
+      this.bestResult = result;
+    }
+
+    quizCompleted({ moduleId: quiz.moduleId, score, passed: result.passed });
+
+    const canRetry = !result.passed && (quiz.maxAttempts === undefined || this.attempts < quiz.maxAttempts);
+    const summary = `You scored ${score}% (${result.correct} of ${result.total} correct). You need ${quiz.passingScore}% to pass.`;
+
+    let choices: DialogueBoxChoice[];
+    let text = summary;
+    if (result.passed) {
+      choices = [{ text: 'Continue', style: 'primary', onSelect: () => this.close() }];
+    } else if (canRetry) {
+      choices = [
+        { text: 'Try again', style: 'primary', onSelect: () => this.beginAttempt() },
+        { text: 'Leave', style: 'secondary', onSelect: () => this.close() }
+      ];
+    } else {
+      text = `${summary}\n\nReview what you have learned and come back when you are ready.`;
+      choices = [{ text: 'Leave', style: 'secondary', onSelect: () => this.close() }];
+    }
+
+    this.show({
+      layout: 'panel',
+      title: quiz.title,
+      subtitle: result.passed ? 'Passed' : 'Not passed yet',
+      text,
+      choiceLayout: 'row',
+      choices
+    });
+  }
+
+  private show(view: Omit<DialogueView, 'accent' | 'onCancel'>) {
+    const quiz = this.quiz as QuizDefinition;
+
+    this.box.show({
+      ...view,
+      accent: Phaser.Display.Color.HexStringToColor(quiz.accent ?? DEFAULT_ACCENT).color,
+      onCancel: () => this.close()
+    });
+  }
+
+  private getProgressLabel(): string {
+    return `Question ${this.questionIndex + 1} of ${(this.quiz as QuizDefinition).questions.length}`;
+  }
+
+  /**
+   * Shuffle the item indices of an ordering question so they never start out solved
+   */
+  private shuffleItems(question: OrderingQuestion): number[] {
+    const indices = question.items.map((_, index) => index);
+    const isSolved = (order: number[]) => order.every((itemIndex, position) => itemIndex === position);
+
+    let order = Phaser.Utils.Array.Shuffle([...indices]);
+    for (let tries = 0; tries < 10 && isSolved(order); tries++) {
+      order = Phaser.Utils.Array.Shuffle([...indices]);
+    }
+    return isSolved(order) ? indices.reverse() : order;
+  }
+}
@@ -0,0 +1,210 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Scene } from 'phaser';
+import InputController from './InputController';
+
+// Sizes in CSS pixels, so the controls keep their size on the player's screen
+const JOYSTICK_RADIUS = 56;
+const THUMB_RADIUS = 24;
+const BUTTON_RADIUS = 34;
+const MARGIN = 24;
+
+// Thumb travel ignored around the joystick center, as a share of its radius
+const THUMB_DEADZONE = 0.2;
+
+// Largest share of the shorter screen side a control may take on small screens
+const MAX_SCREEN_SHARE = 0.2;
+
+// Below dialogue boxes and the minimap, they are hidden while a dialogue is open anyway
+const DEPTH = 900;
+
+/**
+ * TouchControls - virtual joystick and interact button for touch screens
+ *
+ * Feeds the scene's InputController, so the player moves exactly as with
+ * the keyboard or a gamepad. The controls are laid out in screen pixels,
+ * kept at the same physical size whatever the canvas is scaled to, and
+ * hidden while a dialogue or menu is open. Scenes with their own UI in a
+ * bottom corner reserve it with keepClear.
+ */
+export default class TouchControls {
+  private scene: Scene;
+  private controls: InputController;
+  private joystick: Phaser.GameObjects.Container;
+  private base: Phaser.GameObjects.Arc;
+  private thumb: Phaser.GameObjects.Arc;
+  private button: Phaser.GameObjects.Container;
+  private buttonBg: Phaser.GameObjects.Arc;
+  private reserved: Phaser.Geom.Rectangle[] = [];
+  private center = { x: 0, y: 0 };
+  private radius: number = JOYSTICK_RADIUS;
+  private pointerId: number | null = null;
+
+  /**
+   * Whether the device has a touch screen
+   */
+  static isSupported(scene: Scene): boolean {
+    return scene.sys.game.device.input.touch;
+  }
+
+  constructor(scene: Scene, controls: InputController) {
+    this.scene = scene;
+    this.controls = controls;
+
+    // One finger on the joystick and one on the button
+    if (scene.input.manager.pointersTotal < 2) {
+      scene.input.addPointer(2 - scene.input.manager.pointersTotal);
+    }
+
+    this.base = scene.add.circle(0, 0, JOYSTICK_RADIUS, 0x000000, 0.35);
+    this.base.setStrokeStyle(2, 0xFFFFFF, 0.5);
+    this.base.setInteractive();
+    this.thumb = scene.add.circle(0, 0, THUMB_RADIUS, 0xFFFFFF, 0.5);
+    this.joystick = scene.add.container(0, 0, [this.base, this.thumb]);
+
+    this.buttonBg = scene.add.circle(0, 0, BUTTON_RADIUS, 0x4CAF50, 0.6);
+    this.buttonBg.setStrokeStyle(2, 0xFFFFFF, 0.6);
+    this.buttonBg.setInteractive();
+    const label = scene.add.text(0, 0, 'A', {
+      fontSize: '24px',
+      color: '#FFFFFF',
+      fontStyle: 'bold'
+    });
+    label.setOrigin(0.5);
+    this.button = scene.add.container(0, 0, [this.buttonBg, label]);
+
+    [this.joystick, this.button].forEach(container => {
+      container.setScrollFactor(0, 0, true);
+      container.setDepth(DEPTH);
+    });
+
+    this.base.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      this.pointerId = pointer.id;
+      this.moveThumb(pointer);
+    });
+    this.buttonBg.on('pointerdown', () => {
+      this.buttonBg.setFillStyle(0x2E7D32, 0.8);
+      this.controls.press('interact');
+    });
+    this.buttonBg.on('pointerup', () => this.buttonBg.setFillStyle(0x4CAF50, 0.6));
+    this.buttonBg.on('pointerout', () => this.buttonBg.setFillStyle(0x4CAF50, 0.6));
+
+    scene.input.on('pointermove', this.handlePointerMove, this);
+    scene.input.on('pointerup', this.handlePointerUp, this);
+    scene.input.on('pointerupoutside', this.handlePointerUp, this);
+    scene.scale.on('resize', this.layout, this);
+    scene.events.on('update', this.update, this);
+    // A paused scene misses the finger lifting, so let go of the stick right away
+    scene.events.on('pause', this.release, this);
+    scene.events.once('shutdown', () => this.destroy());
+
+    this.layout();
+  }
+
+  /**
+   * Keep the controls out of an area of the screen, e.g. a minimap in a corner
+   * @param area Area in screen pixels of the game
+   */
+  keepClear(area: Phaser.Geom.Rectangle) {
+    this.reserved.push(area);
+    this.layout();
+  }
+
+  destroy() {
+    this.release();
+    this.scene.input.off('pointermove', this.handlePointerMove, this);
+    this.scene.input.off('pointerup', this.handlePointerUp, this);
+    this.scene.input.off('pointerupoutside', this.handlePointerUp, this);
+    this.scene.scale.off('resize', this.layout, this);
+    this.scene.events.off('update', this.update, this);
+    this.scene.events.off('pause', this.release, this);
+    this.joystick.destroy();
+    this.button.destroy();
+  }
+
+  /**
+   * Place and size the controls for the current screen and camera zoom
+   */
+  private layout() {
+    const camera = this.scene.cameras.main;
+    const { width, height } = camera;
+
+    // Game pixels per CSS pixel, capped so the controls still fit small screens
+    const cssScale = Math.min(
+      this.scene.scale.displayScale.x,
+      (Math.min(width, height) * MAX_SCREEN_SHARE) / (JOYSTICK_RADIUS * 2)
+    );
+    const margin = MARGIN * cssScale;
+    this.radius = JOYSTICK_RADIUS * cssScale;
+    const buttonRadius = BUTTON_RADIUS * cssScale;
+
+    this.center = this.placeAbove(margin + this.radius, height - margin - this.radius, this.radius, margin);
+    const buttonCenter = this.placeAbove(width - margin - buttonRadius, height - margin - buttonRadius, buttonRadius, margin);
+
+    // Objects fixed to the camera are still zoomed around its center, undo that
+    const zoom = camera.zoom;
+    const toCamera = (x: number, y: number) => ({
+      x: width / 2 + (x - width / 2) / zoom,
+      y: height / 2 + (y - height / 2) / zoom
+    });
+
+    const joystickPosition = toCamera(this.center.x, this.center.y);
+    this.joystick.setPosition(joystickPosition.x, joystickPosition.y).setScale(cssScale / zoom);
+    const buttonPosition = toCamera(buttonCenter.x, buttonCenter.y);
+    this.button.setPosition(buttonPosition.x, buttonPosition.y).setScale(cssScale / zoom);
+  }
+
+  /**
+   * Move a control up until it no longer overlaps a reserved area
+   */
+  private placeAbove(x: number, y: number, radius: number, margin: number): { x: number; y: number } {
+    let centerY = y;
+    this.reserved.forEach(area => {
+      const bounds = new Phaser.Geom.Rectangle(x - radius, centerY - radius, radius * 2, radius * 2);
+      if (Phaser.Geom.Intersects.RectangleToRectangle(bounds, area)) {
+        centerY = area.top - margin - radius;
+      }
+    });
+    return { x, y: centerY };
+  }
+
+  private update() {
+    const visible = !this.controls.isMovementBlocked();
+    if (!visible && this.pointerId !== null) {
+      this.release();
+    }
+    this.joystick.setVisible(visible);
+    this.button.setVisible(visible);
+  }
+
+  private handlePointerMove(pointer: Phaser.Input.Pointer) {
+    if (pointer.id === this.pointerId) {
+      this.moveThumb(pointer);
+    }
+  }
+
+  private handlePointerUp(pointer: Phaser.Input.Pointer) {
+    if (pointer.id === this.pointerId) {
+      this.release();
+    }
+  }
+
+  /**
+   * Turn the finger's offset from the joystick center into a move vector
+   */
+  private moveThumb(pointer: Phaser.Input.Pointer) {
+    const offset = new Phaser.Math.Vector2(pointer.x - this.center.x, pointer.y - this.center.y).scale(1 / this.radius);
+    if (offset.length() > 1) {
+      offset.normalize();
+    }
+
+    this.thumb.setPosition(offset.x * JOYSTICK_RADIUS, offset.y * JOYSTICK_RADIUS);
+    this.controls.setVirtualMove(offset.length() < THUMB_DEADZONE ? { x: 0, y: 0 } : { x: offset.x, y: offset.y });
+  }
+
+  private release() {
+    this.pointerId = null;
+    this.thumb.setPosition(0, 0);
+    this.controls.setVirtualMove({ x: 0, y: 0 });
+  }
+}
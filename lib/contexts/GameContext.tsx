@@ -1,45 +1,77 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-
-// Define our game state structure
-interface GameState {
-  score: number;
-  level: number;
-  playerName: string;
-  completedModules: string[];
-  wallet: {
-    connected: boolean;
-    address: string | null;
-    balance: number;
-  };
-  quizProgress: {
-    [moduleId: string]: {
-      started: boolean;
-      completed: boolean;
-      score: number;
-    };
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { AuthService } from '@/lib/services/AuthService';
+import { TransactionTracker } from '@/lib/services/TransactionTracker';
+import { trackEvent } from '@/lib/utils/analytics';
+import { applyProgressFields } from '@/lib/utils/progressFields';
+import { isProgressSyncEnabled, recordProgressChanges, syncProgress } from '@/lib/utils/progressSync';
+import { QUIZ_EVENTS, QuizResultData } from '@/lib/utils/quizBridge';
+import { STATS_EVENTS, SceneTimeData } from '@/lib/utils/statsBridge';
+import {
+  GameState,
+  initialGameState,
+  getActiveSlot,
+  getSavedGameState,
+  saveGameState,
+  setActiveSlot,
+} from '@/lib/utils/saveManager';
+
+// Record the start of a quiz attempt, keeping the best result of earlier ones
+const withQuizStarted = (state: GameState, moduleId: string): GameState => {
+  const progress = state.quizProgress[moduleId];
+  return {
+    ...state,
+    quizProgress: {
+      ...state.quizProgress,
+      [moduleId]: {
+        started: true,
+        completed: progress?.completed ?? false,
+        score: progress?.score ?? 0,
+        passed: progress?.passed ?? false,
+        attempts: (progress?.attempts ?? 0) + 1,
+      },
+    },
   };
-}
+};
 
-// Initial state to use if nothing in localStorage
-const initialGameState: GameState = {
-  score: 0,
-  level: 1,
-  playerName: '',
-  completedModules: [],
-  wallet: {
-    connected: false,
-    address: null,
-    balance: 0,
-  },
-  quizProgress: {},
+// Record a finished quiz attempt; a failed retry never undoes an earlier pass
+const withQuizCompleted = (state: GameState, moduleId: string, score: number, passed: boolean): GameState => {
+  const progress = state.quizProgress[moduleId];
+  return {
+    ...state,
+    quizProgress: {
+      ...state.quizProgress,
+      [moduleId]: {
+        started: true,
+        completed: true,
+        score: Math.max(score, progress?.score ?? 0),
+        passed: passed || (progress?.passed ?? false),
+        attempts: Math.max(progress?.attempts ?? 0, 1),
+      },
+    },
+  };
 };
 
+// Add to one of the learner stats' counters
+const withCount = (counts: Record<string, number>, key: string, amount: number = 1): Record<string, number> => ({
+  ...counts,
+  [key]: (counts[key] ?? 0) + amount,
+});
+
+// Wait this long after the last change before syncing progress to the server
+const SYNC_DELAY = 2000;
+
+// Transaction kind Level4Scene tracks NFT mints under
+const NFT_MINT_TRANSACTION = 'nft-mint';
+
 // The game context will provide state and update functions
 interface GameContextType {
   gameState: GameState;
+  activeSlot: number;
+  selectSaveSlot: (slot: number) => void;
   setPlayerName: (name: string) => void;
+  setCohort: (cohort: string) => void;
   updateScore: (points: number) => void;
   advanceLevel: () => void;
   completeModule: (moduleId: string) => void;
@@ -47,7 +79,7 @@ interface GameContextType {
   disconnectWallet: () => void;
   updateWalletBalance: (balance: number) => void;
   startQuiz: (moduleId: string) => void;
-  completeQuiz: (moduleId: string, score: number) => void;
+  completeQuiz: (moduleId: string, score: number, passed?: boolean) => void;
   resetGameState: () => void;
 }
 
@@ -69,34 +101,174 @@ interface GameProviderProps {
 }
 
 export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
-  // Initialize state from localStorage or use initial values
-  const [gameState, setGameState] = useState<GameState>(() => {
-    // Only access localStorage on the client side
-    if (typeof window !== 'undefined') {
-      const savedState = localStorage.getItem('legendOfLeoGameState');
-      if (savedState) {
-        try {
-          return JSON.parse(savedState);
-        } catch (error) {
-          console.error('Failed to parse saved game state:', error);
-        }
-      }
-    }
-    return initialGameState;
-  });
+  // Initialize state from the active slot's save document (migrated and validated) or use initial values
+  const [gameState, setGameState] = useState<GameState>(() => getSavedGameState());
+  const [activeSlot, setActiveSlotState] = useState<number>(() => getActiveSlot());
+  const lastSavedState = useRef<GameState>(gameState);
+  // Latest state for the sync, which runs outside of renders
+  const currentState = useRef<GameState>(gameState);
+  // State taken over from the server, saved without counting as a local change
+  const remoteState = useRef<GameState | null>(null);
+  const syncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Sync the active slot with the server and take over progress made on other devices
+  const runSync = useCallback(async (slot: number) => {
+    const newer = await syncProgress(slot, currentState.current);
+    if (!newer || Object.keys(newer).length === 0 || slot !== getActiveSlot()) return;
 
-  // Save state to localStorage whenever it changes
+    setGameState(prev => {
+      const next = applyProgressFields(prev, newer);
+      remoteState.current = next;
+      return next;
+    });
+  }, []);
+
+  // Save state whenever it changes, but don't turn an empty slot into a save just by loading it
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('legendOfLeoGameState', JSON.stringify(gameState));
+    currentState.current = gameState;
+    if (gameState === lastSavedState.current) return;
+
+    const previous = lastSavedState.current;
+    lastSavedState.current = gameState;
+    saveGameState(gameState);
+
+    if (!isProgressSyncEnabled()) return;
+
+    if (gameState === remoteState.current) {
+      remoteState.current = null;
+      return;
+    }
+
+    // Push local changes once the player pauses
+    recordProgressChanges(activeSlot, previous, gameState);
+    if (syncTimer.current) {
+      clearTimeout(syncTimer.current);
     }
-  }, [gameState]);
+    syncTimer.current = setTimeout(() => {
+      syncTimer.current = null;
+      runSync(activeSlot);
+    }, SYNC_DELAY);
+  }, [gameState, activeSlot, runSync]);
+
+  // Sync when a slot is loaded, and again when signing in or out changes which player this is
+  useEffect(() => {
+    if (!isProgressSyncEnabled()) return;
+
+    const authService = AuthService.getInstance();
+    const sessionListener = () => {
+      runSync(activeSlot);
+    };
+
+    authService.addSessionListener(sessionListener);
+    runSync(activeSlot);
+
+    return () => {
+      authService.removeSessionListener(sessionListener);
+      if (syncTimer.current) {
+        clearTimeout(syncTimer.current);
+        syncTimer.current = null;
+      }
+    };
+  }, [activeSlot, runSync]);
+
+  // Record quiz attempts reported by the Phaser scenes
+  useEffect(() => {
+    const handleQuizStarted = (event: Event) => {
+      const { moduleId } = (event as CustomEvent<{ moduleId: string }>).detail;
+      setGameState(prev => withQuizStarted(prev, moduleId));
+    };
+
+    const handleQuizCompleted = (event: Event) => {
+      const { moduleId, score, passed } = (event as CustomEvent<QuizResultData>).detail;
+      setGameState(prev => withQuizCompleted(prev, moduleId, score, passed));
+    };
+
+    window.addEventListener(QUIZ_EVENTS.STARTED, handleQuizStarted);
+    window.addEventListener(QUIZ_EVENTS.COMPLETED, handleQuizCompleted);
+
+    return () => {
+      window.removeEventListener(QUIZ_EVENTS.STARTED, handleQuizStarted);
+      window.removeEventListener(QUIZ_EVENTS.COMPLETED, handleQuizCompleted);
+    };
+  }, []);
+
+  // Add up where the player spends time and gets stuck, for the instructor dashboard
+  useEffect(() => {
+    const handleSceneTime = (event: Event) => {
+      const { sceneKey, milliseconds } = (event as CustomEvent<SceneTimeData>).detail;
+      setGameState(prev => ({
+        ...prev,
+        stats: { ...prev.stats, sceneTime: withCount(prev.stats.sceneTime, sceneKey, milliseconds) },
+      }));
+    };
+
+    const handleDialogueRepeated = (event: Event) => {
+      const { key } = (event as CustomEvent<{ key: string }>).detail;
+      setGameState(prev => ({
+        ...prev,
+        stats: { ...prev.stats, dialogueRepeats: withCount(prev.stats.dialogueRepeats, key) },
+      }));
+    };
+
+    const handleQuestionMissed = (event: Event) => {
+      const { key } = (event as CustomEvent<{ key: string }>).detail;
+      setGameState(prev => ({
+        ...prev,
+        stats: { ...prev.stats, questionMisses: withCount(prev.stats.questionMisses, key) },
+      }));
+    };
+
+    // Keep the status of the latest NFT mint
+    const unsubscribeMints = TransactionTracker.getInstance().subscribe(transaction => {
+      if (transaction.kind !== NFT_MINT_TRANSACTION) return;
+      if (transaction.status !== 'pending') {
+        trackEvent('mint-result', { status: transaction.status, transactionId: transaction.transactionId });
+      }
+      setGameState(prev => ({
+        ...prev,
+        stats: {
+          ...prev.stats,
+          mint: {
+            status: transaction.status,
+            transactionId: transaction.transactionId,
+            updatedAt: transaction.updatedAt,
+          },
+        },
+      }));
+    });
+
+    window.addEventListener(STATS_EVENTS.SCENE_TIME, handleSceneTime);
+    window.addEventListener(STATS_EVENTS.DIALOGUE_REPEATED, handleDialogueRepeated);
+    window.addEventListener(STATS_EVENTS.QUESTION_MISSED, handleQuestionMissed);
+
+    return () => {
+      window.removeEventListener(STATS_EVENTS.SCENE_TIME, handleSceneTime);
+      window.removeEventListener(STATS_EVENTS.DIALOGUE_REPEATED, handleDialogueRepeated);
+      window.removeEventListener(STATS_EVENTS.QUESTION_MISSED, handleQuestionMissed);
+      unsubscribeMints();
+    };
+  }, []);
+
+  // Switch to another save slot and load its state
+  const selectSaveSlot = (slot: number) => {
+    setActiveSlot(slot);
+    const savedState = getSavedGameState();
+    lastSavedState.current = savedState;
+    currentState.current = savedState;
+    setActiveSlotState(slot);
+    setGameState(savedState);
+  };
 
   // State update functions
   const setPlayerName = (name: string) => {
     setGameState(prev => ({ ...prev, playerName: name }));
   };
 
+  // Stable, so components can join a cohort from an effect
+  const setCohort = useCallback((cohort: string) => {
+    setGameState(prev => (prev.cohort === cohort ? prev : { ...prev, cohort }));
+  }, []);
+
   const updateScore = (points: number) => {
     setGameState(prev => ({ ...prev, score: prev.score + points }));
   };
@@ -147,31 +319,11 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   };
 
   const startQuiz = (moduleId: string) => {
-    setGameState(prev => ({
-      ...prev,
-      quizProgress: {
-        ...prev.quizProgress,
-        [moduleId]: {
-          started: true,
-          completed: false,
-          score: 0,
-        },
-      },
-    }));
+    setGameState(prev => withQuizStarted(prev, moduleId));
   };
 
-  const completeQuiz = (moduleId: string, score: number) => {
-    setGameState(prev => ({
-      ...prev,
-      quizProgress: {
-        ...prev.quizProgress,
-        [moduleId]: {
-          started: true,
-          completed: true,
-          score,
-        },
-      },
-    }));
+  const completeQuiz = (moduleId: string, score: number, passed: boolean = true) => {
+    setGameState(prev => withQuizCompleted(prev, moduleId, score, passed));
   };
 
   const resetGameState = () => {
@@ -181,7 +333,10 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   // Create value object with state and update functions
   const value: GameContextType = {
     gameState,
+    activeSlot,
+    selectSaveSlot,
     setPlayerName,
+    setCohort,
     updateScore,
     advanceLevel,
     completeModule,
@@ -16,6 +16,8 @@ export const SceneKeys = {
   FirstBuilding: 'FirstBuildingScene',
   SecondBuilding: 'SecondBuildingScene',
   ThirdBuilding: 'ThirdBuildingScene',
+  // Overlay launched over the scene being played
+  Pause: 'PauseScene',
 };
 
 /**
@@ -38,6 +40,7 @@ export const gameScenes = async () => {
   const FirstBuildingScene = (await import('@/components/game/scenes/buildings/FirstBuildingScene')).default;
   const SecondBuildingScene = (await import('@/components/game/scenes/buildings/SecondBuildingScene')).default;
   const ThirdBuildingScene = (await import('@/components/game/scenes/buildings/ThirdBuildingScene')).default;
+  const PauseScene = (await import('@/components/game/scenes/PauseScene')).default;
   
   return [
     MainScene,
@@ -50,5 +53,6 @@ export const gameScenes = async () => {
     FirstBuildingScene,
     SecondBuildingScene,
     ThirdBuildingScene,
+    PauseScene,
   ];
 }; 
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockSignature } from '@/lib/services/mockSignature';
+import {
+  MAX_CHALLENGES,
+  createChallenge,
+  createSessionToken,
+  readSessionToken,
+  verifyChallenge
+} from './auth';
+import { getSignatureVerifierKind } from './signatureVerifier';
+
+// The mock verifier is only used in development
+Object.assign(process.env, { NODE_ENV: 'development', AUTH_SECRET: 'test-secret' });
+
+const ADDRESS = 'aleo1rhgdu77hgyqd3xjj8ucu3jj9r2krwz6mnzyd80gncr5fxcwlh5rsvzp9px';
+const OTHER_ADDRESS = 'aleo1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq3ljyzc';
+
+describe('challenge and login', () => {
+  it('issues a challenge naming the address', () => {
+    const challenge = createChallenge(ADDRESS);
+    assert.match(challenge.message, new RegExp(`Address: ${ADDRESS}`));
+    assert.ok(challenge.expiresAt > Date.now());
+  });
+
+  it('signs in with a signature of the outstanding challenge, once', async () => {
+    const { message } = createChallenge(ADDRESS);
+    const signature = createMockSignature(ADDRESS, message);
+
+    assert.equal(await verifyChallenge(ADDRESS, signature), true);
+    assert.equal(await verifyChallenge(ADDRESS, signature), false);
+
+    const { token, session } = createSessionToken(ADDRESS);
+    assert.deepEqual(readSessionToken(token), session);
+  });
+
+  it('rejects a signature of another address or an older challenge', async () => {
+    const first = createChallenge(ADDRESS);
+    createChallenge(ADDRESS);
+    assert.equal(await verifyChallenge(ADDRESS, createMockSignature(ADDRESS, first.message)), false);
+
+    const { message } = createChallenge(ADDRESS);
+    assert.equal(await verifyChallenge(ADDRESS, createMockSignature(OTHER_ADDRESS, message)), false);
+  });
+
+  it('rejects a forged session token', () => {
+    const { token } = createSessionToken(ADDRESS);
+    const [, signature] = token.split('.');
+    const payload = Buffer.from(JSON.stringify({ address: OTHER_ADDRESS, expiresAt: Date.now() + 1000 })).toString('base64url');
+    assert.equal(readSessionToken(`${payload}.${signature}`), null);
+  });
+
+  it('drops the oldest challenges past the cap', async () => {
+    const { message } = createChallenge(ADDRESS);
+    for (let index = 0; index < MAX_CHALLENGES; index++) {
+      createChallenge(`player-${index}`);
+    }
+    assert.equal(await verifyChallenge(ADDRESS, createMockSignature(ADDRESS, message)), false);
+
+    const latest = createChallenge(OTHER_ADDRESS);
+    assert.equal(await verifyChallenge(OTHER_ADDRESS, createMockSignature(OTHER_ADDRESS, latest.message)), true);
+  });
+});
+
+describe('expiry', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['Date'], now: Date.now() }));
+  afterEach(() => mock.timers.reset());
+
+  it('rejects a challenge signed after it expired', async () => {
+    const { message, expiresAt } = createChallenge(ADDRESS);
+    mock.timers.tick(expiresAt - Date.now());
+    assert.equal(await verifyChallenge(ADDRESS, createMockSignature(ADDRESS, message)), false);
+  });
+
+  it('ends a session when it expires', () => {
+    const { token, session } = createSessionToken(ADDRESS);
+    mock.timers.tick(session.expiresAt - Date.now() - 1);
+    assert.deepEqual(readSessionToken(token), session);
+    mock.timers.tick(1);
+    assert.equal(readSessionToken(token), null);
+  });
+});
+
+describe('signature verifier', () => {
+  afterEach(() => Object.assign(process.env, { NODE_ENV: 'development', AUTH_SIGNATURE_VERIFIER: '' }));
+
+  it('uses the mock verifier only in development', () => {
+    mock.method(console, 'warn', () => undefined);
+    assert.equal(getSignatureVerifierKind(), 'mock');
+    Object.assign(process.env, { AUTH_SIGNATURE_VERIFIER: 'aleo' });
+    assert.equal(getSignatureVerifierKind(), 'aleo');
+    Object.assign(process.env, { NODE_ENV: 'production', AUTH_SIGNATURE_VERIFIER: 'mock' });
+    assert.equal(getSignatureVerifierKind(), 'aleo');
+    mock.restoreAll();
+  });
+});
@@ -0,0 +1,182 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { SignatureVerifier, createSignatureVerifier } from '@/lib/server/signatureVerifier';
+
+/**
+ * Wallet sign-in for the API routes
+ *
+ * A player asks for a challenge for their address, signs it with their
+ * wallet and trades the signature for a session cookie. Challenges are
+ * single use and short lived; sessions are stateless tokens signed with
+ * AUTH_SECRET, so they survive restarts when the secret is set.
+ * Challenges live in memory, so sign-in needs a single server instance.
+ *
+ * Instructors are the wallets listed in INSTRUCTOR_ADDRESSES (comma
+ * separated), nobody is without the list. INSTRUCTOR_ACCESS=open makes
+ * every visitor an instructor, honoured in development only.
+ */
+
+// Cookie holding the session token
+export const SESSION_COOKIE = 'leo_session';
+
+// How long a challenge can be signed, and how long a session lasts
+const CHALLENGE_TTL = 5 * 60 * 1000;
+export const SESSION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+// Most challenges kept at once, the oldest are dropped past it
+export const MAX_CHALLENGES = 10000;
+
+// Shape of an Aleo address, the verifier checks the rest
+const ADDRESS_PATTERN = /^aleo1[qpzry9x8gf2tvdw0s3jn54khce6mua7l]{58}$/;
+
+// A signed-in wallet
+export interface Session {
+  address: string;
+  /** Milliseconds since the epoch */
+  expiresAt: number;
+}
+
+interface Challenge {
+  message: string;
+  expiresAt: number;
+}
+
+// Outstanding challenges by address in the order they were issued, a new one replaces the last
+const challenges = new Map<string, Challenge>();
+
+let verifier: SignatureVerifier | null = null;
+let generatedSecret: string | null = null;
+
+function getVerifier(): SignatureVerifier {
+  if (!verifier) {
+    verifier = createSignatureVerifier();
+  }
+  return verifier;
+}
+
+function getSecret(): string {
+  if (process.env.AUTH_SECRET) {
+    return process.env.AUTH_SECRET;
+  }
+  if (!generatedSecret) {
+    console.warn('[Auth] AUTH_SECRET is not set, sessions end when the server restarts');
+    generatedSecret = randomBytes(32).toString('hex');
+  }
+  return generatedSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Check whether a string looks like an Aleo address
+ */
+export function isWalletAddress(value: string): boolean {
+  return ADDRESS_PATTERN.test(value);
+}
+
+/**
+ * Issue a challenge for an address to sign
+ */
+export function createChallenge(address: string): Challenge {
+  // Drop challenges nobody signed
+  const now = Date.now();
+  challenges.forEach((challenge, key) => {
+    if (challenge.expiresAt <= now) {
+      challenges.delete(key);
+    }
+  });
+
+  const expiresAt = now + CHALLENGE_TTL;
+  const message = [
+    'Sign in to Legend of Leo',
+    `Address: ${address}`,
+    `Nonce: ${randomBytes(16).toString('hex')}`,
+    `Expires: ${new Date(expiresAt).toISOString()}`
+  ].join('\n');
+
+  // Keep the map bounded when many addresses ask at once
+  challenges.delete(address);
+  while (challenges.size >= MAX_CHALLENGES) {
+    challenges.delete(challenges.keys().next().value!);
+  }
+
+  const challenge = { message, expiresAt };
+  challenges.set(address, challenge);
+  return challenge;
+}
+
+/**
+ * Check a signature of the address's outstanding challenge
+ *
+ * The challenge is used up whether or not the signature is valid.
+ */
+export async function verifyChallenge(address: string, signature: string): Promise<boolean> {
+  const challenge = challenges.get(address);
+  challenges.delete(address);
+
+  if (!challenge || challenge.expiresAt <= Date.now()) {
+    return false;
+  }
+  return getVerifier().verify(address, challenge.message, signature);
+}
+
+/**
+ * Create the session token of a signed-in address
+ */
+export function createSessionToken(address: string): { token: string; session: Session } {
+  const session: Session = { address, expiresAt: Date.now() + SESSION_TTL };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, session };
+}
+
+/**
+ * Read a session token
+ * @returns null when the token is forged, malformed or expired
+ */
+export function readSessionToken(token: string): Session | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof session.address !== 'string' || typeof session.expiresAt !== 'number' || session.expiresAt <= Date.now()) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the session of the wallet that sent a request
+ */
+export function getSession(request: NextRequest): Session | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? readSessionToken(token) : null;
+}
+
+/**
+ * Check whether a signed-in wallet may see every player's progress
+ */
+export function isInstructor(session: Session | null): boolean {
+  if (process.env.NODE_ENV === 'development' && process.env.INSTRUCTOR_ACCESS === 'open') {
+    return true;
+  }
+
+  const addresses = (process.env.INSTRUCTOR_ADDRESSES ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  return !!session && addresses.includes(session.address);
+}
@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AnalyticsEvent } from '@/lib/utils/analyticsEvents';
+
+/**
+ * Where the events API stores the events it receives
+ */
+export interface EventSink {
+  readonly kind: string;
+  write(events: AnalyticsEvent[]): Promise<void>;
+}
+
+/**
+ * Sink writing events to newline-delimited JSON files, one file per day
+ *
+ * Files go to EVENTS_DATA_DIR (.data/events by default) and are named by
+ * the UTC date the events arrived, e.g. events-2025-05-20.ndjson. Each
+ * line is an event with the time the server received it.
+ */
+export class FileEventSink implements EventSink {
+  readonly kind = 'file';
+  private readonly directory: string;
+  // Appends run one after another so lines never interleave
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(directory: string = process.env.EVENTS_DATA_DIR || path.join(process.cwd(), '.data', 'events')) {
+    this.directory = directory;
+  }
+
+  write(events: AnalyticsEvent[]): Promise<void> {
+    const receivedAt = Date.now();
+    const lines = events.map(event => JSON.stringify({ ...event, receivedAt })).join('\n') + '\n';
+    const filePath = path.join(this.directory, `events-${new Date(receivedAt).toISOString().slice(0, 10)}.ndjson`);
+
+    const write = this.writes.catch(() => undefined).then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(filePath, lines, 'utf8');
+    });
+    this.writes = write;
+    return write;
+  }
+}
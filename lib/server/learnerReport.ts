@@ -0,0 +1,305 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { listProgress } from '@/lib/server/progressStore';
+import type { LearnerStats, MintRecord, QuizProgress } from '@/lib/utils/saveManager';
+import { PlayerProgress } from '@/lib/utils/progressFields';
+
+/**
+ * Learner report behind the instructor dashboard
+ *
+ * Turns the progress players synced into one summary per player, sums
+ * them up per cohort and finds the dialogues and quiz questions players
+ * repeat most. Synced values come from the players' browsers, so every
+ * one of them is checked before it is used.
+ */
+
+// Where the game's dialogue trees and quizzes live, to label trouble spots
+const ASSETS_DIR = path.join(process.cwd(), 'public', 'assets');
+
+// Asset ids are relative paths like "level1/guard"
+const ASSET_ID_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/;
+
+// What the dashboard shows about a player
+export interface LearnerSummary {
+  playerId: string;
+  playerName: string;
+  cohort: string;
+  level: number;
+  score: number;
+  completedModules: string[];
+  quizzes: Record<string, QuizProgress>;
+  stats: LearnerStats;
+  /** Milliseconds played across all scenes */
+  totalTime: number;
+  /** Time of the last sync, milliseconds since the epoch */
+  lastActiveAt: number;
+}
+
+// Players of a cohort taken together
+export interface CohortSummary {
+  cohort: string;
+  players: number;
+  averageLevel: number;
+  averageModules: number;
+  /** Share of started quizzes that were passed, 0-1 */
+  quizPassRate: number;
+  minted: number;
+}
+
+// A dialogue node or quiz question players keep repeating
+export interface TroubleSpot {
+  kind: 'dialogue' | 'question';
+  /** Dialogue tree or quiz id */
+  sourceId: string;
+  /** Node or question id */
+  itemId: string;
+  /** Text of the node or question, when the asset could be read */
+  label: string | null;
+  /** Repeats or wrong answers across all players */
+  count: number;
+  /** Players who repeated it at least once */
+  players: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toNumber = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+// Keep the entries of a map whose values are counts
+const toCounts = (value: unknown): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  if (isObject(value)) {
+    Object.entries(value).forEach(([key, count]) => {
+      if (typeof count === 'number' && Number.isFinite(count) && count > 0) {
+        counts[key] = count;
+      }
+    });
+  }
+  return counts;
+};
+
+function toMint(value: unknown): MintRecord | null {
+  if (!isObject(value) || typeof value.status !== 'string') {
+    return null;
+  }
+  return {
+    status: value.status as MintRecord['status'],
+    transactionId: typeof value.transactionId === 'string' ? value.transactionId : undefined,
+    updatedAt: toNumber(value.updatedAt)
+  };
+}
+
+/**
+ * Summarize the synced progress of a player
+ */
+export function summarizeLearner(progress: PlayerProgress): LearnerSummary {
+  const value = (path: string) => progress.fields[path]?.value;
+
+  const quizzes: Record<string, QuizProgress> = {};
+  Object.entries(progress.fields).forEach(([fieldPath, field]) => {
+    if (fieldPath.startsWith('quizProgress.') && isObject(field.value)) {
+      quizzes[fieldPath.slice('quizProgress.'.length)] = {
+        started: field.value.started === true,
+        completed: field.value.completed === true,
+        score: toNumber(field.value.score),
+        passed: field.value.passed === true,
+        attempts: toNumber(field.value.attempts)
+      };
+    }
+  });
+
+  const stats = isObject(value('stats')) ? value('stats') as Record<string, unknown> : {};
+  const sceneTime = toCounts(stats.sceneTime);
+  const completedModules = value('completedModules');
+
+  return {
+    playerId: progress.playerId,
+    playerName: typeof value('playerName') === 'string' ? value('playerName') as string : '',
+    cohort: typeof value('cohort') === 'string' ? value('cohort') as string : '',
+    level: toNumber(value('level')) || 1,
+    score: toNumber(value('score')),
+    completedModules: Array.isArray(completedModules)
+      ? completedModules.filter((id): id is string => typeof id === 'string')
+      : [],
+    quizzes,
+    stats: {
+      sceneTime,
+      dialogueRepeats: toCounts(stats.dialogueRepeats),
+      questionMisses: toCounts(stats.questionMisses),
+      mint: toMint(stats.mint)
+    },
+    totalTime: Object.values(sceneTime).reduce((sum, time) => sum + time, 0),
+    lastActiveAt: progress.updatedAt
+  };
+}
+
+/**
+ * Get the summaries of every stored player, most recently active first
+ * @param cohort Only players of this cohort, "" for players without one
+ */
+export async function getLearners(cohort?: string): Promise<LearnerSummary[]> {
+  const learners = (await listProgress()).map(summarizeLearner);
+  return cohort === undefined ? learners : learners.filter(learner => learner.cohort === cohort);
+}
+
+/**
+ * Sum up learners per cohort, players without one are grouped under ""
+ */
+export function summarizeCohorts(learners: LearnerSummary[]): CohortSummary[] {
+  const cohorts = new Map<string, LearnerSummary[]>();
+  learners.forEach(learner => {
+    cohorts.set(learner.cohort, [...(cohorts.get(learner.cohort) ?? []), learner]);
+  });
+
+  return [...cohorts.entries()]
+    .map(([cohort, members]) => {
+      const quizzes = members.flatMap(member => Object.values(member.quizzes)).filter(quiz => quiz.started);
+      return {
+        cohort,
+        players: members.length,
+        averageLevel: members.reduce((sum, member) => sum + member.level, 0) / members.length,
+        averageModules: members.reduce((sum, member) => sum + member.completedModules.length, 0) / members.length,
+        quizPassRate: quizzes.length > 0 ? quizzes.filter(quiz => quiz.passed).length / quizzes.length : 0,
+        minted: members.filter(member => member.stats.mint?.status === 'accepted').length
+      };
+    })
+    .sort((a, b) => a.cohort.localeCompare(b.cohort));
+}
+
+/**
+ * Read a dialogue tree or quiz of the game
+ * @returns null when the id is malformed or the file cannot be read
+ */
+async function readAsset(folder: 'dialogue' | 'quizzes', id: string): Promise<Record<string, unknown> | null> {
+  if (!ASSET_ID_PATTERN.test(id)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(path.join(ASSETS_DIR, folder, `${id}.json`), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Text shown for a dialogue node, with its speaker
+function getNodeLabel(tree: Record<string, unknown> | null, nodeId: string): string | null {
+  const node = isObject(tree?.nodes) ? tree.nodes[nodeId] : undefined;
+  if (!isObject(node)) {
+    return null;
+  }
+
+  const text = Array.isArray(node.text) ? node.text.join(' ') : node.text ?? node.title;
+  if (typeof text !== 'string') {
+    return null;
+  }
+  return typeof node.speaker === 'string' ? `${node.speaker}: ${text}` : text;
+}
+
+// Prompt of a quiz question
+function getQuestionLabel(quiz: Record<string, unknown> | null, questionId: string): string | null {
+  const question = Array.isArray(quiz?.questions)
+    ? quiz.questions.find(candidate => isObject(candidate) && candidate.id === questionId)
+    : undefined;
+  return isObject(question) && typeof question.prompt === 'string' ? question.prompt : null;
+}
+
+/**
+ * Find the dialogue nodes and quiz questions players repeat most
+ * @param limit Spots of each kind to return
+ */
+export async function getTroubleSpots(learners: LearnerSummary[], limit: number = 10): Promise<TroubleSpot[]> {
+  const collect = async (kind: TroubleSpot['kind']) => {
+    const totals = new Map<string, { count: number; players: number }>();
+    learners.forEach(learner => {
+      const counts = kind === 'dialogue' ? learner.stats.dialogueRepeats : learner.stats.questionMisses;
+      Object.entries(counts).forEach(([key, count]) => {
+        const total = totals.get(key) ?? { count: 0, players: 0 };
+        totals.set(key, { count: total.count + count, players: total.players + 1 });
+      });
+    });
+
+    const top = [...totals.entries()]
+      .sort((a, b) => b[1].count - a[1].count || b[1].players - a[1].players)
+      .slice(0, limit);
+
+    const assets = new Map<string, Promise<Record<string, unknown> | null>>();
+    return Promise.all(top.map(async ([key, total]) => {
+      // Keys are "sourceId:itemId", the source id is a path without colons
+      const separator = key.indexOf(':');
+      const sourceId = key.slice(0, separator);
+      const itemId = key.slice(separator + 1);
+
+      if (!assets.has(sourceId)) {
+        assets.set(sourceId, readAsset(kind === 'dialogue' ? 'dialogue' : 'quizzes', sourceId));
+      }
+      const asset = await assets.get(sourceId) ?? null;
+
+      return {
+        kind,
+        sourceId,
+        itemId,
+        label: kind === 'dialogue' ? getNodeLabel(asset, itemId) : getQuestionLabel(asset, itemId),
+        ...total
+      };
+    }));
+  };
+
+  return [...await collect('dialogue'), ...await collect('question')];
+}
+
+// Quote a CSV cell, and keep spreadsheets from running player-typed text as a formula
+function toCsvCell(value: string | number): string {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export learners as CSV, one row per player
+ *
+ * Every quiz and scene any player reached gets its own columns, so the
+ * sheet can be sorted and charted directly.
+ */
+export function learnersToCsv(learners: LearnerSummary[]): string {
+  const quizIds = [...new Set(learners.flatMap(learner => Object.keys(learner.quizzes)))].sort();
+  const sceneKeys = [...new Set(learners.flatMap(learner => Object.keys(learner.stats.sceneTime)))].sort();
+
+  const header = [
+    'player_id',
+    'player_name',
+    'cohort',
+    'level',
+    'score',
+    'completed_modules',
+    ...quizIds.flatMap(id => [`quiz ${id} score`, `quiz ${id} attempts`, `quiz ${id} passed`]),
+    ...sceneKeys.map(key => `minutes in ${key}`),
+    'total_minutes',
+    'mint_status',
+    'mint_transaction',
+    'last_active'
+  ];
+
+  const minutes = (milliseconds: number) => Math.round(milliseconds / 6000) / 10;
+  const rows = learners.map(learner => [
+    learner.playerId,
+    learner.playerName,
+    learner.cohort,
+    learner.level,
+    learner.score,
+    learner.completedModules.join(';'),
+    ...quizIds.flatMap(id => {
+      const quiz = learner.quizzes[id];
+      return quiz ? [quiz.score, quiz.attempts, quiz.passed ? 'yes' : 'no'] : ['', '', ''];
+    }),
+    ...sceneKeys.map(key => minutes(learner.stats.sceneTime[key] ?? 0)),
+    minutes(learner.totalTime),
+    learner.stats.mint?.status ?? 'none',
+    learner.stats.mint?.transactionId ?? '',
+    new Date(learner.lastActiveAt).toISOString()
+  ]);
+
+  return [header, ...rows].map(row => row.map(toCsvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PlayerProgress, ProgressFields, mergeProgressFields } from '@/lib/utils/progressFields';
+
+/**
+ * File-based store behind the progress API
+ *
+ * Keeps one JSON file per player in PROGRESS_DATA_DIR (.data/progress by
+ * default). Writes to the same player are queued so concurrent requests
+ * merge instead of overwriting each other, and files are replaced
+ * atomically so a crash never leaves half a document behind.
+ */
+
+const DATA_DIR = process.env.PROGRESS_DATA_DIR || path.join(process.cwd(), '.data', 'progress');
+
+// Writes still running per player
+const writes = new Map<string, Promise<unknown>>();
+
+// Player ids are validated by the route, so they are safe file names
+function getFilePath(playerId: string): string {
+  return path.join(DATA_DIR, `${playerId}.json`);
+}
+
+/**
+ * Run writes to the same player one after another
+ */
+function queueWrite<T>(playerId: string, write: () => Promise<T>): Promise<T> {
+  const previous = writes.get(playerId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(write);
+  writes.set(playerId, next);
+
+  next.finally(() => {
+    if (writes.get(playerId) === next) {
+      writes.delete(playerId);
+    }
+  }).catch(() => undefined);
+  return next;
+}
+
+/**
+ * Get the progress of a player
+ * @returns null when nothing was stored for the player
+ */
+export async function getProgress(playerId: string): Promise<PlayerProgress | null> {
+  try {
+    return JSON.parse(await fs.readFile(getFilePath(playerId), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the progress of every player, most recently updated first
+ */
+export async function listProgress(): Promise<PlayerProgress[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(DATA_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const players = await Promise.all(files
+    .filter(file => file.endsWith('.json'))
+    .map(file => getProgress(file.slice(0, -'.json'.length))));
+
+  return players
+    .filter((progress): progress is PlayerProgress => progress !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Merge fields into the progress of a player, the newest write of each field wins
+ * @returns The merged progress
+ */
+export function saveProgress(playerId: string, fields: ProgressFields): Promise<PlayerProgress> {
+  return queueWrite(playerId, async () => {
+    const current = await getProgress(playerId);
+    const progress: PlayerProgress = {
+      playerId,
+      updatedAt: Date.now(),
+      fields: mergeProgressFields(current?.fields ?? {}, fields)
+    };
+
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    const filePath = getFilePath(playerId);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(progress), 'utf8');
+    await fs.rename(tempPath, filePath);
+
+    return progress;
+  });
+}
+
+/**
+ * Delete the progress of a player
+ * @returns false when nothing was stored for the player
+ */
+export function deleteProgress(playerId: string): Promise<boolean> {
+  return queueWrite(playerId, async () => {
+    try {
+      await fs.unlink(getFilePath(playerId));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,100 @@
+import { createMockSignature } from '@/lib/services/mockSignature';
+
+/**
+ * Checks that a message was signed by an Aleo address
+ */
+export interface SignatureVerifier {
+  readonly kind: SignatureVerifierKind;
+  verify(address: string, message: string, signature: string): Promise<boolean>;
+}
+
+export type SignatureVerifierKind = 'aleo' | 'mock';
+
+// Verifies real signatures, loaded on first use since it brings a large wasm module
+const ALEO_SDK_MODULE = '@provablehq/sdk';
+
+// The parts of the Aleo SDK the verifier uses
+interface AleoSdk {
+  Address: {
+    from_string(address: string): { verify(message: Uint8Array, signature: unknown): boolean };
+  };
+  Signature: {
+    from_string(signature: string): unknown;
+  };
+}
+
+/**
+ * Verifier for signatures made by the mock wallets
+ *
+ * Lets the sign-in flow run in tests and development without a real
+ * wallet; it accepts nothing a real wallet signed.
+ */
+export class MockSignatureVerifier implements SignatureVerifier {
+  readonly kind = 'mock';
+
+  async verify(address: string, message: string, signature: string): Promise<boolean> {
+    return signature === createMockSignature(address, message);
+  }
+}
+
+/**
+ * Verifier for real wallet signatures, backed by the Aleo SDK
+ *
+ * The SDK is loaded on first use. If it fails to load every signature is
+ * rejected, so a broken install never lets anyone in.
+ */
+export class AleoSignatureVerifier implements SignatureVerifier {
+  readonly kind = 'aleo';
+  private sdk?: Promise<AleoSdk | null>;
+
+  async verify(address: string, message: string, signature: string): Promise<boolean> {
+    const sdk = await this.loadSdk();
+    if (!sdk) {
+      return false;
+    }
+
+    try {
+      return sdk.Address.from_string(address).verify(new TextEncoder().encode(message), sdk.Signature.from_string(signature));
+    } catch (error) {
+      console.warn('[SignatureVerifier] Could not verify signature:', error);
+      return false;
+    }
+  }
+
+  private loadSdk(): Promise<AleoSdk | null> {
+    if (!this.sdk) {
+      this.sdk = import(/* webpackIgnore: true */ /* turbopackIgnore: true */ ALEO_SDK_MODULE)
+        .then(sdk => sdk as AleoSdk)
+        .catch(error => {
+          console.error(`[SignatureVerifier] Could not load ${ALEO_SDK_MODULE} to verify wallet signatures:`, error);
+          return null;
+        });
+    }
+    return this.sdk;
+  }
+}
+
+/**
+ * Get the verifier to use
+ *
+ * Development defaults to the mock wallets' signatures, set
+ * `AUTH_SIGNATURE_VERIFIER=aleo` to check real ones. Anywhere else only
+ * real signatures are accepted, since anyone can make a mock signature.
+ */
+export function getSignatureVerifierKind(): SignatureVerifierKind {
+  const kind = process.env.AUTH_SIGNATURE_VERIFIER;
+  if (process.env.NODE_ENV !== 'development') {
+    if (kind === 'mock') {
+      console.warn('[SignatureVerifier] AUTH_SIGNATURE_VERIFIER=mock is ignored outside development');
+    }
+    return 'aleo';
+  }
+  return kind === 'aleo' ? 'aleo' : 'mock';
+}
+
+/**
+ * Create a verifier of the given kind
+ */
+export function createSignatureVerifier(kind: SignatureVerifierKind = getSignatureVerifierKind()): SignatureVerifier {
+  return kind === 'mock' ? new MockSignatureVerifier() : new AleoSignatureVerifier();
+}
@@ -0,0 +1,289 @@
+import { AnalyticsEvent, AnalyticsEventData, AnalyticsEventName, MAX_EVENT_STRING_LENGTH } from '@/lib/utils/analyticsEvents';
+
+// Where events are sent, another origin can be configured
+const EVENTS_API_URL = process.env.NEXT_PUBLIC_ANALYTICS_URL || '/api/events';
+
+// Storage key of the player's opt-out
+const OPT_OUT_KEY = 'legendOfLeo.analyticsOptOut';
+
+// IndexedDB database and store holding events not sent yet
+const DB_NAME = 'legendOfLeo.analytics';
+const STORE_NAME = 'events';
+
+// Events per request, and how often queued events are sent
+const BATCH_SIZE = 50;
+const FLUSH_INTERVAL = 15000;
+
+// Oldest events are dropped beyond this, e.g. while offline for a long time
+const MAX_QUEUED = 1000;
+
+// Wrap an IndexedDB request in a promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Service that records gameplay events and sends them to the events API
+ *
+ * Events are queued in IndexedDB so they survive reloads and going
+ * offline, and are sent in batches every few seconds and when the page is
+ * hidden. Nothing is recorded when analytics are turned off with
+ * NEXT_PUBLIC_ANALYTICS=off or the player opted out. Game code records
+ * events through trackEvent in lib/utils/analytics.
+ */
+export class AnalyticsService {
+  private static instance: AnalyticsService;
+  private readonly sessionId: string;
+  private db?: Promise<IDBDatabase | null>;
+  // Queue used when IndexedDB is not available, e.g. in some private windows
+  private memoryQueue: AnalyticsEvent[] = [];
+  private queued: number = 0;
+  private flushing: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AnalyticsService {
+    if (!AnalyticsService.instance) {
+      AnalyticsService.instance = new AnalyticsService();
+    }
+    return AnalyticsService.instance;
+  }
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    this.sessionId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : Math.random().toString(36).slice(2);
+
+    if (typeof window !== 'undefined') {
+      // Send what is left before the player leaves
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          void this.flush();
+        }
+      });
+    }
+  }
+
+  /**
+   * Whether events are recorded
+   */
+  public isEnabled(): boolean {
+    return typeof window !== 'undefined'
+      && process.env.NEXT_PUBLIC_ANALYTICS !== 'off'
+      && !this.isOptedOut();
+  }
+
+  /**
+   * Whether the player turned analytics off
+   */
+  public isOptedOut(): boolean {
+    try {
+      return localStorage.getItem(OPT_OUT_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Turn analytics off or back on for this browser, opting out drops queued events
+   */
+  public async setOptOut(optOut: boolean): Promise<void> {
+    try {
+      if (optOut) {
+        localStorage.setItem(OPT_OUT_KEY, 'true');
+      } else {
+        localStorage.removeItem(OPT_OUT_KEY);
+      }
+    } catch (error) {
+      console.warn('[AnalyticsService] Could not store opt-out:', error);
+    }
+
+    if (optOut) {
+      await this.clear();
+    }
+  }
+
+  /**
+   * Record an event
+   */
+  public track<K extends AnalyticsEventName>(name: K, data: AnalyticsEventData[K]): void {
+    if (!this.isEnabled()) return;
+
+    const event: AnalyticsEvent<K> = {
+      id: crypto.randomUUID(),
+      name,
+      data: this.truncate(data),
+      sessionId: this.sessionId,
+      time: Date.now()
+    };
+
+    void this.enqueue(event as AnalyticsEvent).then(() => {
+      if (this.queued >= BATCH_SIZE) {
+        void this.flush();
+      }
+    });
+
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => void this.flush(), FLUSH_INTERVAL);
+    }
+  }
+
+  /**
+   * Send queued events now
+   */
+  public flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendQueued()
+        .catch(error => console.warn('[AnalyticsService] Could not flush events:', error))
+        .finally(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  // Long strings such as error messages are cut to what the API accepts
+  private truncate<T>(data: T): T {
+    const truncated = { ...data } as Record<string, unknown>;
+    Object.entries(truncated).forEach(([key, value]) => {
+      if (typeof value === 'string' && value.length > MAX_EVENT_STRING_LENGTH) {
+        truncated[key] = value.slice(0, MAX_EVENT_STRING_LENGTH);
+      }
+    });
+    return truncated as T;
+  }
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('[AnalyticsService] IndexedDB unavailable, keeping events in memory:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async enqueue(event: AnalyticsEvent): Promise<void> {
+    const db = await this.openDb();
+    if (!db) {
+      this.memoryQueue = [...this.memoryQueue, event].slice(-MAX_QUEUED);
+      this.queued = this.memoryQueue.length;
+      return;
+    }
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestToPromise(store.add(event));
+      this.queued = await requestToPromise(store.count());
+
+      if (this.queued > MAX_QUEUED) {
+        await this.deleteOldest(db, this.queued - MAX_QUEUED);
+        this.queued = MAX_QUEUED;
+      }
+    } catch (error) {
+      console.warn('[AnalyticsService] Could not queue event:', error);
+    }
+  }
+
+  /**
+   * Read the oldest queued events with their keys
+   */
+  private async readBatch(db: IDBDatabase): Promise<{ keys: IDBValidKey[]; events: AnalyticsEvent[] }> {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const [keys, events] = await Promise.all([
+      requestToPromise(store.getAllKeys(null, BATCH_SIZE)),
+      requestToPromise(store.getAll(null, BATCH_SIZE))
+    ]);
+    return { keys, events };
+  }
+
+  private async deleteOldest(db: IDBDatabase, count: number): Promise<void> {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const keys = await requestToPromise(store.getAllKeys(null, count));
+    if (keys.length > 0) {
+      await requestToPromise(store.delete(IDBKeyRange.bound(keys[0], keys[keys.length - 1])));
+    }
+  }
+
+  private async clear(): Promise<void> {
+    this.memoryQueue = [];
+    this.queued = 0;
+
+    const db = await this.openDb();
+    if (db) {
+      await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+    }
+  }
+
+  /**
+   * Send queued events batch by batch until the queue is empty or a request fails
+   */
+  private async sendQueued(): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const db = await this.openDb();
+    for (;;) {
+      const batch = db ? await this.readBatch(db) : { keys: [], events: this.memoryQueue.slice(0, BATCH_SIZE) };
+      if (batch.events.length === 0) {
+        this.queued = 0;
+        return;
+      }
+
+      if (!(await this.send(batch.events))) return;
+
+      if (db) {
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        await requestToPromise(store.delete(IDBKeyRange.bound(batch.keys[0], batch.keys[batch.keys.length - 1])));
+        this.queued = await requestToPromise(store.count());
+      } else {
+        this.memoryQueue = this.memoryQueue.slice(batch.events.length);
+        this.queued = this.memoryQueue.length;
+      }
+    }
+  }
+
+  /**
+   * Post a batch to the events API
+   * @returns true when the batch is done with, false to try it again later
+   */
+  private async send(events: AnalyticsEvent[]): Promise<boolean> {
+    try {
+      const response = await fetch(EVENTS_API_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ events }),
+        keepalive: true
+      });
+
+      // The API rejected the batch itself, sending it again would not help
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        console.warn(`[AnalyticsService] Events API rejected a batch with status ${response.status}, dropping it`);
+        return true;
+      }
+      return response.ok;
+    } catch (error) {
+      console.warn('[AnalyticsService] Could not send events:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { StubAnsProvider } from './StubAnsProvider';
+
+/**
+ * The ANS (Aleo Name Service) lookups AnsResolver depends on
+ *
+ * Providers answer null when a name or address is simply not registered
+ * and throw an Error when the lookup itself fails, so the resolver only
+ * caches real answers.
+ */
+export interface AnsProvider {
+  readonly kind: AnsProviderKind;
+
+  /**
+   * Get the address a name points to
+   * @param name Full name including the .ans suffix
+   */
+  getAddress(name: string): Promise<string | null>;
+
+  /**
+   * Get the primary name of an address
+   */
+  getPrimaryName(address: string): Promise<string | null>;
+}
+
+export type AnsProviderKind = 'api' | 'stub';
+
+// Testnet API of the Aleo Name Service
+export const DEFAULT_ANS_API_URL = 'https://testnet-api.aleonames.id';
+
+// Give up on API requests after this long
+const REQUEST_TIMEOUT = 8000;
+
+/**
+ * Provider backed by the ANS HTTP API
+ */
+export class HttpAnsProvider implements AnsProvider {
+  readonly kind = 'api';
+  private baseUrl: string;
+  private timeout: number;
+
+  /**
+   * @param baseUrl API to query, without a trailing slash
+   * @param timeout Request timeout in milliseconds
+   */
+  constructor(baseUrl: string = DEFAULT_ANS_API_URL, timeout: number = REQUEST_TIMEOUT) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.timeout = timeout;
+  }
+
+  async getAddress(name: string): Promise<string | null> {
+    const data = await this.request(`/address/${encodeURIComponent(name)}`);
+    return data?.address ?? null;
+  }
+
+  async getPrimaryName(address: string): Promise<string | null> {
+    const data = await this.request(`/primary_name/${encodeURIComponent(address)}`);
+    return data?.name ?? null;
+  }
+
+  /**
+   * GET an API path
+   * @returns The JSON body, or null on 404 which the API uses for "not registered"
+   */
+  private async request(path: string): Promise<{ address?: string; name?: string } | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, { signal: controller.signal });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`ANS API request failed with status ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`ANS API request timed out after ${this.timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Get the provider to use
+ *
+ * Set `NEXT_PUBLIC_ANS_PROVIDER=stub` to resolve names from the in-memory
+ * stub, and `NEXT_PUBLIC_ANS_API_URL` to point the API provider at another
+ * server.
+ */
+export function getAnsProviderKind(): AnsProviderKind {
+  return process.env.NEXT_PUBLIC_ANS_PROVIDER === 'stub' ? 'stub' : 'api';
+}
+
+/**
+ * Create a provider of the given kind
+ */
+export function createAnsProvider(kind: AnsProviderKind = getAnsProviderKind()): AnsProvider {
+  if (kind === 'stub') {
+    return new StubAnsProvider();
+  }
+  return new HttpAnsProvider(process.env.NEXT_PUBLIC_ANS_API_URL || DEFAULT_ANS_API_URL);
+}
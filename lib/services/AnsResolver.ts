@@ -0,0 +1,228 @@
+import { AnsProvider, createAnsProvider } from './AnsProvider';
+import { StubAnsProvider } from './StubAnsProvider';
+import { isAddress } from '@/lib/utils/leoLiterals';
+
+export interface AnsResolverOptions {
+  /** Entries kept per direction before the least recently used is dropped */
+  cacheSize: number;
+  /** How long answers stay cached, in milliseconds */
+  cacheTtl: number;
+}
+
+const DEFAULT_OPTIONS: AnsResolverOptions = {
+  cacheSize: 100,
+  cacheTtl: 5 * 60 * 1000
+};
+
+// Lowercase labels separated by dots, ending in .ans
+const ANS_NAME_PATTERN = /^[a-z0-9_-]+(\.[a-z0-9_-]+)*\.ans$/;
+const MAX_NAME_LENGTH = 64;
+
+/**
+ * Least recently used cache whose entries expire
+ */
+class LruCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+  private size: number;
+  private ttl: number;
+
+  constructor(size: number, ttl: number) {
+    this.size = size;
+    this.ttl = ttl;
+  }
+
+  /**
+   * @returns undefined when the key is missing or expired
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Re-insert so the map keeps the most recently used last
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttl });
+
+    while (this.entries.size > this.size) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Service that resolves ANS (Aleo Name Service) names and addresses
+ *
+ * Validates what it is asked before going to the provider and caches the
+ * answers, including "not registered", in both directions. Lookups that
+ * fail are not cached and resolve to null like unknown names.
+ */
+export class AnsResolver {
+  private static instance: AnsResolver;
+  private provider: AnsProvider;
+  private options: AnsResolverOptions;
+  private addresses: LruCache<string | null>;
+  private names: LruCache<string | null>;
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AnsResolver {
+    if (!AnsResolver.instance) {
+      AnsResolver.instance = new AnsResolver();
+    }
+    return AnsResolver.instance;
+  }
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    this.provider = createAnsProvider();
+    this.options = { ...DEFAULT_OPTIONS };
+    this.addresses = new LruCache(this.options.cacheSize, this.options.cacheTtl);
+    this.names = new LruCache(this.options.cacheSize, this.options.cacheTtl);
+  }
+
+  /**
+   * Swap the provider or cache settings, e.g. to use the stub in tests
+   *
+   * Clears the cache.
+   */
+  public configure(options: Partial<AnsResolverOptions> & { provider?: AnsProvider }) {
+    const { provider, ...cacheOptions } = options;
+    if (provider) {
+      this.provider = provider;
+    }
+    this.options = { ...this.options, ...cacheOptions };
+    this.addresses = new LruCache(this.options.cacheSize, this.options.cacheTtl);
+    this.names = new LruCache(this.options.cacheSize, this.options.cacheTtl);
+  }
+
+  public getProvider(): AnsProvider {
+    return this.provider;
+  }
+
+  /**
+   * Forget every cached answer, e.g. after registering a name
+   */
+  public clearCache() {
+    this.addresses.clear();
+    this.names.clear();
+  }
+
+  /**
+   * Normalize a name the way the ANS stores it
+   */
+  public normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+
+  /**
+   * Check whether a name is well formed, e.g. "leo.ans" or "sub.leo.ans"
+   */
+  public isValidName(name: string): boolean {
+    const normalized = this.normalizeName(name);
+    return normalized.length <= MAX_NAME_LENGTH && ANS_NAME_PATTERN.test(normalized);
+  }
+
+  /**
+   * Resolve a name to the address it points to
+   * @param name Full name including the .ans suffix
+   * @returns null when the name is malformed, not registered or the lookup failed
+   */
+  public async resolveName(name: string): Promise<string | null> {
+    if (!this.isValidName(name)) {
+      return null;
+    }
+    return (await this.lookupName(this.normalizeName(name))) ?? null;
+  }
+
+  /**
+   * Check whether a name can still be registered
+   * @returns null when the name is malformed or the lookup failed
+   */
+  public async isAvailable(name: string): Promise<boolean | null> {
+    if (!this.isValidName(name)) {
+      return null;
+    }
+
+    const address = await this.lookupName(this.normalizeName(name));
+    return address === undefined ? null : address === null;
+  }
+
+  /**
+   * Cache a name the player just registered as the primary name of its address
+   *
+   * The API can take a while to index new registrations, the stub keeps
+   * the name for good.
+   */
+  public rememberName(name: string, address: string) {
+    const normalized = this.normalizeName(name);
+    this.addresses.set(normalized, address);
+    this.names.set(address, normalized);
+
+    if (this.provider instanceof StubAnsProvider) {
+      this.provider.register(normalized, address);
+      this.provider.setPrimaryName(normalized);
+    }
+  }
+
+  /**
+   * Resolve an address to its primary name
+   * @returns null when the address is malformed, has no primary name or the lookup failed
+   */
+  public async resolveAddress(address: string): Promise<string | null> {
+    if (!isAddress(address)) {
+      return null;
+    }
+
+    const cached = this.names.get(address);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      const name = await this.provider.getPrimaryName(address);
+      this.names.set(address, name);
+      return name;
+    } catch (error) {
+      console.warn('[AnsResolver] Error resolving address:', address, error);
+      return null;
+    }
+  }
+
+  /**
+   * Look up a normalized name, through the cache
+   * @returns undefined when the lookup failed
+   */
+  private async lookupName(name: string): Promise<string | null | undefined> {
+    const cached = this.addresses.get(name);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      const address = await this.provider.getAddress(name);
+      this.addresses.set(name, address);
+      return address;
+    } catch (error) {
+      console.warn('[AnsResolver] Error resolving name:', name, error);
+      return undefined;
+    }
+  }
+}
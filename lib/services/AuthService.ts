@@ -0,0 +1,165 @@
+import { PuzzleWalletService } from './PuzzleWalletService';
+
+// Where the auth API lives, next to the progress API by default
+const AUTH_API_URL = process.env.NEXT_PUBLIC_AUTH_API_URL || '/api/auth';
+
+type SessionListener = (address: string | null) => void;
+
+/**
+ * Service that signs the player in to the game's API with their wallet
+ *
+ * Asks the server for a challenge, has the connected wallet sign it and
+ * trades the signature for a session cookie. The API only trusts a wallet
+ * address once its owner signed in this way.
+ */
+export class AuthService {
+  private static instance: AuthService;
+  private address: string | null = null;
+  // Signed-in address the listeners last heard about
+  private notifiedAddress: string | null = null;
+  private listeners: SessionListener[] = [];
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    // A session only counts while its wallet is connected, so check again on every change
+    PuzzleWalletService.getInstance().addConnectionListener(connected => {
+      this.notify();
+      if (connected) {
+        this.refreshSession();
+      }
+    });
+  }
+
+  /**
+   * Ask the server which wallet is signed in
+   * @returns The signed-in address, null when nobody is
+   */
+  public async refreshSession(): Promise<string | null> {
+    try {
+      const response = await fetch(`${AUTH_API_URL}/session`, { credentials: 'include' });
+      this.setAddress(response.ok ? (await response.json()).address : null);
+    } catch (error) {
+      console.warn('[AuthService] Could not check session:', error);
+    }
+    return this.address;
+  }
+
+  /**
+   * Sign in with the connected wallet
+   * @returns true once the server accepted the signature
+   */
+  public async signIn(): Promise<boolean> {
+    const wallet = PuzzleWalletService.getInstance();
+    const address = wallet.getAddress();
+    if (!address) {
+      console.error('[AuthService] Cannot sign in: No account connected');
+      return false;
+    }
+
+    try {
+      const challengeResponse = await fetch(`${AUTH_API_URL}/challenge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ address })
+      });
+      if (!challengeResponse.ok) {
+        throw new Error(`Challenge request failed with status ${challengeResponse.status}`);
+      }
+      const { message } = await challengeResponse.json();
+
+      const signed = await wallet.signMessage(message);
+      if (!signed) {
+        return false;
+      }
+
+      const loginResponse = await fetch(`${AUTH_API_URL}/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ address, signature: signed.signature })
+      });
+      if (!loginResponse.ok) {
+        throw new Error(`Login failed with status ${loginResponse.status}`);
+      }
+
+      console.log('[AuthService] Signed in as', address);
+      this.setAddress(address);
+      return true;
+    } catch (error) {
+      console.error('[AuthService] Error signing in:', error);
+      return false;
+    }
+  }
+
+  /**
+   * End the session
+   */
+  public async signOut(): Promise<void> {
+    try {
+      await fetch(`${AUTH_API_URL}/session`, { method: 'DELETE', credentials: 'include' });
+    } catch (error) {
+      console.warn('[AuthService] Error signing out:', error);
+    }
+    this.setAddress(null);
+  }
+
+  /**
+   * Get the address of the signed-in wallet, whether or not it is connected
+   */
+  public getSignedInAddress(): string | null {
+    return this.address;
+  }
+
+  /**
+   * Whether the connected wallet is the one signed in
+   */
+  public isSignedIn(): boolean {
+    const address = PuzzleWalletService.getInstance().getAddress();
+    return address !== null && address === this.address;
+  }
+
+  /**
+   * Add a listener for sign-in changes, called with the signed-in address or null
+   */
+  public addSessionListener(listener: SessionListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Remove a sign-in listener
+   */
+  public removeSessionListener(listener: SessionListener): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  private setAddress(address: string | null): void {
+    this.address = address;
+    this.notify();
+  }
+
+  private notify(): void {
+    const address = this.isSignedIn() ? this.address : null;
+    if (address === this.notifiedAddress) {
+      return;
+    }
+    this.notifiedAddress = address;
+    this.listeners.forEach(listener => listener(address));
+  }
+}
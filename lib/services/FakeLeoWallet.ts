@@ -0,0 +1,86 @@
+import { EventStatus, EventType, Network, ProgramIdPermissions } from '@puzzlehq/sdk-core';
+import { LeoRecord, LeoTransaction, LeoWalletApi } from './LeoWalletAdapter';
+import { MockWalletProvider } from './MockWalletProvider';
+
+/**
+ * Local stand-in for the API Leo Wallet injects into the page
+ *
+ * Backed by a MockWalletProvider, so it simulates the same account,
+ * balances, delay and failure modes as the mock Puzzle wallet.
+ */
+export class FakeLeoWallet implements LeoWalletApi {
+  publicKey?: string;
+  private mock: MockWalletProvider;
+
+  constructor(mock: MockWalletProvider = new MockWalletProvider()) {
+    this.mock = mock;
+  }
+
+  async connect(_decryptPermission: string, _network: string, programs: string[] = []): Promise<void> {
+    const response = await this.mock.connect({
+      dAppInfo: { name: 'Legend of Leo' },
+      permissions: { programIds: { [Network.AleoTestnet]: programs } as ProgramIdPermissions }
+    });
+    this.publicKey = response.connection.address;
+  }
+
+  async disconnect(): Promise<void> {
+    await this.mock.disconnect();
+    this.publicKey = undefined;
+  }
+
+  async signMessage(message: Uint8Array): Promise<{ signature: Uint8Array }> {
+    const response = await this.mock.requestSignature({ message: new TextDecoder().decode(message) });
+    return { signature: new TextEncoder().encode(response.signature) };
+  }
+
+  async requestTransaction(transaction: LeoTransaction): Promise<{ transactionId?: string }> {
+    const [transition] = transaction.transitions;
+    const response = await this.mock.requestCreateEvent({
+      type: EventType.Execute,
+      programId: transition.program,
+      functionId: transition.functionName,
+      fee: transaction.fee / 1_000_000,
+      inputs: transition.inputs
+    });
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    return { transactionId: response.eventId };
+  }
+
+  async transactionStatus(transactionId: string): Promise<{ status: string }> {
+    const { event } = await this.mock.getEvent({ id: transactionId });
+    switch (event.status) {
+      case EventStatus.Settled:
+        return { status: 'Finalized' };
+      case EventStatus.Failed:
+        return { status: 'Failed' };
+      default:
+        return { status: 'Pending' };
+    }
+  }
+
+  async requestRecordPlaintexts(program: string): Promise<{ records: LeoRecord[] }> {
+    const response = await this.mock.getRecords({ filter: { programIds: [program], status: 'All' } });
+    return {
+      records: response.records.map(record => ({
+        id: record._id,
+        owner: record.owner ?? '',
+        program_id: record.programId,
+        recordName: record.name,
+        spent: String(record.status) === 'Spent',
+        data: record.data as Record<string, string>,
+        plaintext: record.plaintext
+      }))
+    };
+  }
+
+  /**
+   * Public balance of the simulated account, for LeoWalletAdapter's fetchPublicBalance
+   */
+  async getPublicMicrocredits(): Promise<number> {
+    return Math.round(this.mock.getOptions().publicCredits * 1_000_000);
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  TransactionStatusResult,
+  TransitionRequest,
+  WalletAdapter,
+  WalletBalance,
+  WalletRecord
+} from './WalletAdapter';
+
+/**
+ * The API the Leo Wallet extension injects as `window.leoWallet`
+ */
+export interface LeoWalletApi {
+  /** Address of the connected account, unset until connected */
+  publicKey?: string;
+  connect(decryptPermission: LeoDecryptPermission, network: string, programs?: string[]): Promise<void>;
+  disconnect(): Promise<void>;
+  signMessage(message: Uint8Array): Promise<{ signature: Uint8Array }>;
+  requestTransaction(transaction: LeoTransaction): Promise<{ transactionId?: string }>;
+  transactionStatus(transactionId: string): Promise<{ status: string }>;
+  requestRecordPlaintexts(program: string): Promise<{ records: LeoRecord[] }>;
+}
+
+export type LeoDecryptPermission = 'NO_DECRYPT' | 'UPON_REQUEST' | 'AUTO_DECRYPT' | 'ON_CHAIN_HISTORY';
+
+export interface LeoTransaction {
+  address: string;
+  chainId: string;
+  transitions: {
+    program: string;
+    functionName: string;
+    inputs: string[];
+  }[];
+  /** Fee in microcredits */
+  fee: number;
+  feePrivate: boolean;
+}
+
+export interface LeoRecord {
+  id: string;
+  owner: string;
+  program_id: string;
+  recordName: string;
+  spent: boolean;
+  data: Record<string, string>;
+  plaintext: string;
+}
+
+export interface LeoWalletAdapterOptions {
+  /** Finds the injected API, override it to test against a fake */
+  getWallet?: () => LeoWalletApi | undefined;
+  /** Looks up the public credits balance in microcredits */
+  fetchPublicBalance?: (address: string) => Promise<number>;
+}
+
+declare global {
+  interface Window {
+    leoWallet?: LeoWalletApi;
+    leo?: LeoWalletApi;
+  }
+}
+
+const LEO_NETWORK = 'testnetbeta';
+
+// Public balances live in the credits.aleo account mapping
+const PUBLIC_BALANCE_URL = 'https://api.explorer.provable.com/v1/testnet/program/credits.aleo/mapping/account/';
+
+const MICROCREDITS_PER_CREDIT = 1_000_000;
+
+/**
+ * Read the public balance of an address from the explorer API
+ */
+async function fetchPublicBalance(address: string): Promise<number> {
+  const response = await fetch(`${PUBLIC_BALANCE_URL}${address}`);
+  if (!response.ok) {
+    throw new Error(`Could not load the public balance (${response.status})`);
+  }
+
+  // The mapping value is a JSON string like "1500000u64", or null for a new account
+  const value = (await response.json()) as string | null;
+  return value ? parseInt(value, 10) : 0;
+}
+
+/**
+ * Leo Wallet adapter
+ *
+ * Talks to the API the extension injects into the page. Private balances
+ * are summed from the account's unspent credits records, public balances
+ * come from the explorer.
+ */
+export class LeoWalletAdapter implements WalletAdapter {
+  readonly id = 'leo';
+  readonly name = 'Leo Wallet';
+  readonly installUrl = 'https://www.leo.app/';
+  private getWallet: () => LeoWalletApi | undefined;
+  private fetchPublicBalance: (address: string) => Promise<number>;
+
+  constructor(options: LeoWalletAdapterOptions = {}) {
+    this.getWallet = options.getWallet
+      ?? (() => (typeof window !== 'undefined' ? window.leoWallet ?? window.leo : undefined));
+    this.fetchPublicBalance = options.fetchPublicBalance ?? fetchPublicBalance;
+  }
+
+  isInstalled(): boolean {
+    return !!this.getWallet();
+  }
+
+  async connect(programIds: string[]): Promise<string> {
+    const wallet = this.requireWallet();
+    await wallet.connect('UPON_REQUEST', LEO_NETWORK, programIds);
+
+    if (!wallet.publicKey) {
+      throw new Error('Connection failed or was cancelled');
+    }
+    return wallet.publicKey;
+  }
+
+  async disconnect(): Promise<void> {
+    await this.getWallet()?.disconnect();
+  }
+
+  async getConnectedAddress(): Promise<string | null> {
+    return this.getWallet()?.publicKey ?? null;
+  }
+
+  async getBalances(address: string): Promise<WalletBalance[]> {
+    const records = await this.getRecords('credits.aleo');
+    const privateMicrocredits = records
+      .filter(record => !record.spent)
+      .reduce((sum, record) => sum + (parseInt(record.plaintext.match(/microcredits:\s*(\d+)u64/)?.[1] ?? '0', 10)), 0);
+    const publicMicrocredits = await this.fetchPublicBalance(address).catch(error => {
+      console.warn('[LeoWalletAdapter] Could not load the public balance:', error);
+      return 0;
+    });
+
+    return [{
+      programId: 'credits.aleo',
+      name: 'Aleo Credits',
+      symbol: 'ALEO',
+      coinbaseSymbol: 'aleo',
+      values: {
+        private: privateMicrocredits / MICROCREDITS_PER_CREDIT,
+        public: publicMicrocredits / MICROCREDITS_PER_CREDIT
+      }
+    }];
+  }
+
+  async signMessage(message: string): Promise<string> {
+    const wallet = this.requireConnectedWallet();
+    const response = await wallet.signMessage(new TextEncoder().encode(message));
+    return new TextDecoder().decode(response.signature);
+  }
+
+  async executeTransition(request: TransitionRequest): Promise<string> {
+    const wallet = this.requireConnectedWallet();
+    const response = await wallet.requestTransaction({
+      address: wallet.publicKey as string,
+      chainId: LEO_NETWORK,
+      transitions: [{
+        program: request.programId,
+        functionName: request.functionName,
+        // Leo Wallet takes records as their plaintext
+        inputs: request.inputs.map(input => (typeof input === 'string' ? input : input.plaintext))
+      }],
+      fee: Math.round(request.fee * MICROCREDITS_PER_CREDIT),
+      feePrivate: false
+    });
+
+    if (!response.transactionId) {
+      throw new Error('The wallet did not create the transaction');
+    }
+    return response.transactionId;
+  }
+
+  async getTransactionStatus(id: string): Promise<TransactionStatusResult> {
+    const wallet = this.requireConnectedWallet();
+    const { status } = await wallet.transactionStatus(id);
+
+    // Leo Wallet tracks requests by its own id, only report it when it is an on-chain id
+    switch (status.toLowerCase()) {
+      case 'finalized':
+      case 'completed':
+        return { status: 'accepted', transactionId: id.startsWith('at1') ? id : undefined };
+      case 'rejected':
+        return { status: 'rejected', error: 'The transaction was rejected by the network' };
+      case 'failed':
+        return { status: 'failed', error: 'The transaction failed' };
+      default:
+        return { status: 'pending' };
+    }
+  }
+
+  async getRecords(programId: string): Promise<WalletRecord[]> {
+    const wallet = this.requireConnectedWallet();
+    const response = await wallet.requestRecordPlaintexts(programId);
+
+    return response.records.map(record => ({
+      id: record.id,
+      programId: record.program_id,
+      name: record.recordName,
+      plaintext: record.plaintext,
+      spent: record.spent
+    }));
+  }
+
+  private requireWallet(): LeoWalletApi {
+    const wallet = this.getWallet();
+    if (!wallet) {
+      throw new Error('Leo Wallet not detected');
+    }
+    return wallet;
+  }
+
+  private requireConnectedWallet(): LeoWalletApi {
+    const wallet = this.requireWallet();
+    if (!wallet.publicKey) {
+      throw new Error('Leo Wallet is not connected');
+    }
+    return wallet;
+  }
+}
@@ -0,0 +1,431 @@
+import {
+  ConnectRequestParams,
+  ConnectResponse,
+  CreateEventRequestData,
+  CreateEventResponse,
+  EventStatus,
+  EventType,
+  GetBalancesRequest,
+  GetBalancesResponse,
+  GetEventRequest,
+  GetEventResponse,
+  GetRecordsRequest,
+  GetRecordsResponse,
+  GetSelectedAccountResponse,
+  Network,
+  ProgramIdPermissions,
+  SdkError,
+  SignatureRequest,
+  SignatureResponse,
+  Visibility
+} from '@puzzlehq/sdk-core';
+import type { WalletProvider } from './WalletProvider';
+import { createMockSignature, mockHash } from './mockSignature';
+
+/**
+ * Failures the mock can be told to produce
+ * - not-installed: behaves as if the extension is missing
+ * - user-rejected: the player declines every request in the wallet popup
+ * - missing-permissions: connecting grants no program permissions
+ * - insufficient-balance: the account has no credits to pay fees
+ * - transaction-failed: events are accepted but fail on chain
+ */
+export type MockWalletFailure =
+  | 'none'
+  | 'not-installed'
+  | 'user-rejected'
+  | 'missing-permissions'
+  | 'insufficient-balance'
+  | 'transaction-failed';
+
+export interface MockWalletOptions {
+  /** Delay before every response in milliseconds */
+  delay: number;
+  /** Time an event stays pending before it settles, in milliseconds */
+  settleTime: number;
+  failure: MockWalletFailure;
+  address: string;
+  /** Credits in the account */
+  publicCredits: number;
+  privateCredits: number;
+}
+
+// An event the mock accepted, kept so tests and the dev menu can inspect it
+export interface MockWalletEvent {
+  eventId: string;
+  programId: string;
+  functionId: string;
+  inputs: string[];
+  /** Records of the account the event spends */
+  spentRecordIds: string[];
+  fee: number;
+  createdAt: number;
+  /** Whether the event fails once it would have settled */
+  fails: boolean;
+}
+
+type Balance = GetBalancesResponse['balances'][number];
+type WalletRecord = GetRecordsResponse['records'][number];
+
+// RecordStatus is not re-exported by sdk-core
+const UNSPENT = 'Unspent' as unknown as WalletRecord['status'];
+const SPENT = 'Spent' as unknown as WalletRecord['status'];
+
+// Options saved by the dev menu
+const OPTIONS_STORAGE_KEY = 'legendOfLeo.mockWallet';
+
+// The game's NFT program, whose mints and transfers leave a Token record like on chain
+const NFT_PROGRAM_ID = 'legend_of_leo_nft.aleo';
+
+export const DEFAULT_MOCK_WALLET_OPTIONS: MockWalletOptions = {
+  delay: 600,
+  settleTime: 8000,
+  failure: 'none',
+  address: 'aleo1mgfq6g40l6zkhsm063n3uhr43qk5e0zsua5aszeq5080dsvlcvxsn0rrau',
+  publicCredits: 5,
+  privateCredits: 10
+};
+
+// Error messages match the extension so callers handle both the same way
+const USER_REJECTED_MESSAGE = 'User rejected the request';
+const NO_PERMISSIONS_MESSAGE = 'No permissions set for any program IDs';
+
+/**
+ * Load the mock options saved by the dev menu
+ */
+export function getMockWalletOptions(): MockWalletOptions {
+  if (typeof window === 'undefined') {
+    return { ...DEFAULT_MOCK_WALLET_OPTIONS };
+  }
+
+  try {
+    const stored = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return { ...DEFAULT_MOCK_WALLET_OPTIONS, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return { ...DEFAULT_MOCK_WALLET_OPTIONS };
+  }
+}
+
+/**
+ * Save mock options for the next mock that is created
+ */
+export function setMockWalletOptions(options: Partial<MockWalletOptions>): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify({ ...getMockWalletOptions(), ...options }));
+}
+
+/**
+ * In-memory stand-in for the Puzzle Wallet extension
+ *
+ * Simulates one account with a credits balance, signs messages with a fake
+ * but stable signature and accepts events for the programs it was granted
+ * at connect time, charging their fee. Every event that settles leaves one
+ * record owned by the account, NFT mints leave a Token record, and spends
+ * the records it took as inputs. NFT transfers only leave a Token record
+ * when sent to the account itself. Every call resolves after the
+ * configured delay.
+ */
+export class MockWalletProvider implements WalletProvider {
+  readonly kind = 'mock';
+  private options: MockWalletOptions;
+  private connected: boolean = false;
+  private permissions: ProgramIdPermissions = {};
+  private events: MockWalletEvent[] = [];
+
+  constructor(options: Partial<MockWalletOptions> = {}) {
+    this.options = { ...getMockWalletOptions(), ...options };
+  }
+
+  /**
+   * Change the simulated behaviour, e.g. to switch failure modes mid-test
+   */
+  configure(options: Partial<MockWalletOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): MockWalletOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Events accepted so far, oldest first
+   */
+  getEvents(): MockWalletEvent[] {
+    return [...this.events];
+  }
+
+  async connect(request: ConnectRequestParams): Promise<ConnectResponse> {
+    await this.respond();
+    this.assertInstalled();
+    this.assertApproved();
+
+    this.connected = true;
+    this.permissions = this.options.failure === 'missing-permissions' ? {} : request.permissions.programIds;
+    console.log('[MockWallet] Connected', this.options.address);
+
+    return {
+      connection: {
+        dAppInfo: { ...request.dAppInfo, hostname: typeof window !== 'undefined' ? window.location.hostname : 'localhost' },
+        permissions: { programIds: this.permissions },
+        expiry: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        address: this.options.address,
+        network: Network.AleoTestnet,
+        balances: this.getBalances()
+      }
+    };
+  }
+
+  async disconnect(): Promise<void> {
+    await this.respond();
+    this.connected = false;
+    this.permissions = {};
+  }
+
+  async getAccount(): Promise<GetSelectedAccountResponse> {
+    await this.respond();
+    this.assertConnected();
+
+    const address = this.options.address;
+    return {
+      account: {
+        address,
+        shortenedAddress: `${address.slice(0, 9)}...${address.slice(-5)}`,
+        network: Network.AleoTestnet
+      }
+    };
+  }
+
+  async getBalance(request: GetBalancesRequest): Promise<GetBalancesResponse> {
+    await this.respond();
+    this.assertConnected();
+
+    if (request.address && request.address !== this.options.address) {
+      return { balances: [] };
+    }
+    return { balances: this.getBalances() };
+  }
+
+  async getRecords(request: GetRecordsRequest): Promise<GetRecordsResponse> {
+    await this.respond();
+    this.assertConnected();
+
+    const programIds = request.filter?.programIds;
+    const settled = this.events.filter(event => !event.fails && Date.now() >= event.createdAt + this.options.settleTime);
+    const spentRecordIds = settled.flatMap(event => event.spentRecordIds);
+    const eventRecords = settled
+      .map(event => this.getEventRecord(event))
+      .filter((record): record is WalletRecord => record !== null);
+
+    const records = [this.getCreditsRecord(), ...eventRecords]
+      .filter(record => !programIds || programIds.includes(record.programId))
+      .map(record => (spentRecordIds.includes(record._id) ? { ...record, status: SPENT } : record));
+    return { records, pageCount: 1 };
+  }
+
+  async requestCreateEvent(request: CreateEventRequestData): Promise<CreateEventResponse> {
+    await this.respond();
+    this.assertConnected();
+
+    const granted = Object.values(this.permissions).some(programIds => programIds?.includes(request.programId));
+    if (!granted) {
+      throw new Error(NO_PERMISSIONS_MESSAGE);
+    }
+
+    this.assertApproved();
+
+    const total = this.options.publicCredits + this.options.privateCredits;
+    if (this.options.failure === 'insufficient-balance' || total < request.fee) {
+      return { error: 'Insufficient balance to pay the fee' };
+    }
+
+    // Pay the fee from public credits first, like the wallet does
+    const fromPublic = Math.min(this.options.publicCredits, request.fee);
+    this.options.publicCredits -= fromPublic;
+    this.options.privateCredits -= request.fee - fromPublic;
+
+    const event: MockWalletEvent = {
+      eventId: `mock-event-${this.events.length + 1}-${Date.now().toString(36)}`,
+      programId: request.programId,
+      functionId: request.functionId,
+      inputs: request.inputs.map(input => (typeof input === 'string' ? input : input.plaintext)),
+      spentRecordIds: request.inputs.flatMap(input => (typeof input === 'string' ? [] : [input._id])),
+      fee: request.fee,
+      createdAt: Date.now(),
+      fails: this.options.failure === 'transaction-failed'
+    };
+    this.events.push(event);
+    console.log('[MockWallet] Created event', event);
+
+    return { eventId: event.eventId };
+  }
+
+  async getEvent(request: GetEventRequest): Promise<GetEventResponse> {
+    await this.respond();
+    this.assertConnected();
+
+    const event = this.events.find(candidate => candidate.eventId === request.id);
+    if (!event) {
+      throw new Error(`Event ${request.id} not found`);
+    }
+
+    // Events settle, or fail, once the settle time has passed
+    const settledAt = event.createdAt + this.options.settleTime;
+    const done = Date.now() >= settledAt;
+    const status = !done ? EventStatus.Pending : event.fails ? EventStatus.Failed : EventStatus.Settled;
+
+    return {
+      event: {
+        _id: event.eventId,
+        type: EventType.Execute,
+        owner: this.options.address,
+        status,
+        created: new Date(event.createdAt),
+        settled: status === EventStatus.Settled ? new Date(settledAt) : undefined,
+        network: Network.AleoTestnet,
+        transactionId: status === EventStatus.Settled ? `at1mock${mockHash(event.eventId)}` : undefined,
+        visibility: Visibility.Private,
+        fee: event.fee,
+        functionId: event.functionId,
+        programId: event.programId,
+        inputs: event.inputs,
+        transitions: [],
+        error: status === EventStatus.Failed ? 'Transaction failed on chain' : undefined
+      }
+    };
+  }
+
+  async requestSignature(request: SignatureRequest): Promise<SignatureResponse> {
+    await this.respond();
+    this.assertConnected();
+    this.assertApproved();
+
+    return { signature: createMockSignature(this.options.address, request.message) };
+  }
+
+  private getBalances(): Balance[] {
+    if (this.options.failure === 'insufficient-balance') {
+      return [];
+    }
+
+    return [{
+      tokenId: '3443843282313283355522573239085696902919850365217539366784739393210722344986field',
+      name: 'Aleo Credits',
+      symbol: 'ALEO',
+      decimals: 6,
+      isMTSP: false,
+      programId: 'credits.aleo',
+      recordName: 'credits',
+      priority: 0,
+      coinbaseSymbol: 'aleo',
+      owner: this.options.address,
+      network: Network.AleoTestnet,
+      values: {
+        private: this.options.privateCredits,
+        public: this.options.publicCredits
+      }
+    }];
+  }
+
+  private getCreditsRecord(): WalletRecord {
+    const microcredits = Math.round(this.options.privateCredits * 1_000_000);
+    return this.createRecord('mock-credits', 'credits.aleo', 'transfer_private', 'credits', {
+      owner: `${this.options.address}.private`,
+      microcredits: `${microcredits}u64.private`
+    }, microcredits);
+  }
+
+  private getEventRecord(event: MockWalletEvent): WalletRecord | null {
+    if (event.programId === NFT_PROGRAM_ID && (event.functionId === 'mint' || event.functionId === 'self_mint')) {
+      return this.getTokenRecord(event);
+    }
+    if (event.programId === NFT_PROGRAM_ID && event.functionId === 'transfer') {
+      return this.getTransferredTokenRecord(event);
+    }
+
+    const data: Record<string, string> = { owner: `${this.options.address}.private` };
+    event.inputs.forEach((input, index) => {
+      data[`input${index}`] = `${input}.private`;
+    });
+    return this.createRecord(event.eventId, event.programId, event.functionId, 'Output', data, 0, event.createdAt);
+  }
+
+  private getTokenRecord(event: MockWalletEvent): WalletRecord {
+    // mint takes the receiver first, self_mint mints to the caller
+    const [receiver, metadata, name, image, attributes, edition] = event.functionId === 'mint'
+      ? event.inputs
+      : [this.options.address, ...event.inputs];
+
+    return this.createRecord(event.eventId, event.programId, event.functionId, 'Token', {
+      owner: `${receiver}.private`,
+      data: `{ metadata: ${metadata}, name: ${name}, image: ${image}, attributes: ${attributes}, creator: ${this.options.address} }`,
+      edition: `${edition}.private`
+    }, 0, event.createdAt);
+  }
+
+  private getTransferredTokenRecord(event: MockWalletEvent): WalletRecord | null {
+    // The new owner gets the record, which is only this account when sent to itself
+    const [token, receiver] = event.inputs;
+    if (receiver !== this.options.address) {
+      return null;
+    }
+
+    const plaintext = token.replace(/owner:\s*[^,\s}]+/, `owner: ${receiver}.private`);
+    return { ...this.createRecord(event.eventId, event.programId, event.functionId, 'Token', {}, 0, event.createdAt), plaintext };
+  }
+
+  private createRecord(
+    id: string,
+    programId: string,
+    functionId: string,
+    name: string,
+    data: Record<string, string>,
+    microcredits: number,
+    createdAt: number = Date.now()
+  ): WalletRecord {
+    const plaintext = `{\n${Object.entries(data).map(([key, value]) => `  ${key}: ${value}`).join(',\n')}\n}`;
+    return {
+      _id: `${id}-record`,
+      eventId: id,
+      height: 0,
+      timestamp: new Date(createdAt),
+      ciphertext: `record1mock${mockHash(plaintext)}`,
+      programId,
+      functionId,
+      name,
+      network: Network.AleoTestnet,
+      transactionId: `at1mock${mockHash(id)}`,
+      transitionId: `au1mock${mockHash(id)}`,
+      index: 0,
+      status: UNSPENT,
+      owner: this.options.address,
+      plaintext,
+      microcredits,
+      data
+    };
+  }
+
+  private respond(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.options.delay));
+  }
+
+  private assertInstalled() {
+    if (this.options.failure === 'not-installed') {
+      throw new Error(SdkError.PuzzleWalletNotDetected);
+    }
+  }
+
+  private assertConnected() {
+    this.assertInstalled();
+    if (!this.connected) {
+      throw new Error(SdkError.NotConnected);
+    }
+  }
+
+  private assertApproved() {
+    if (this.options.failure === 'user-rejected') {
+      throw new Error(USER_REJECTED_MESSAGE);
+    }
+  }
+}
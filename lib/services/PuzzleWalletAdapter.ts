@@ -0,0 +1,132 @@
+import { EventStatus, EventType, GetRecordsResponse, Network, ProgramIdPermissions } from '@puzzlehq/sdk-core';
+import {
+  TransactionStatusResult,
+  TransitionRequest,
+  WalletAdapter,
+  WalletBalance,
+  WalletRecord
+} from './WalletAdapter';
+import { WalletProvider } from './WalletProvider';
+
+type PuzzleRecord = GetRecordsResponse['records'][number];
+
+/**
+ * Puzzle Wallet adapter
+ *
+ * Goes through a WalletProvider, so the same adapter drives the browser
+ * extension and the in-memory mock.
+ */
+export class PuzzleWalletAdapter implements WalletAdapter {
+  readonly id = 'puzzle';
+  readonly name = 'Puzzle Wallet';
+  readonly installUrl = 'https://puzzle.online/';
+  private provider: WalletProvider;
+  // Records from the last getRecords calls, the wallet wants them back as it sent them
+  private records: Map<string, PuzzleRecord> = new Map();
+
+  constructor(provider: WalletProvider) {
+    this.provider = provider;
+  }
+
+  isInstalled(): boolean {
+    // The SDK only reports a missing extension once it is called
+    return true;
+  }
+
+  async connect(programIds: string[]): Promise<string> {
+    const response = await this.provider.connect({
+      dAppInfo: {
+        name: 'Legend of Leo',
+        description: 'An educational game about blockchain & digital security',
+      },
+      permissions: {
+        programIds: {
+          [Network.AleoTestnet]: programIds,
+          [Network.AleoMainnet]: programIds
+        } as ProgramIdPermissions
+      }
+    });
+
+    if (!response?.connection) {
+      throw new Error('Connection failed or was cancelled');
+    }
+    return response.connection.address;
+  }
+
+  async disconnect(): Promise<void> {
+    await this.provider.disconnect();
+    this.records.clear();
+  }
+
+  async getConnectedAddress(): Promise<string | null> {
+    const result = await this.provider.getAccount();
+    return result?.account?.address ?? null;
+  }
+
+  async getBalances(address: string): Promise<WalletBalance[]> {
+    const response = await this.provider.getBalance({ address });
+    return (response.balances ?? []).map(balance => ({
+      programId: balance.programId,
+      name: balance.name,
+      symbol: balance.symbol,
+      coinbaseSymbol: balance.coinbaseSymbol,
+      values: { ...balance.values }
+    }));
+  }
+
+  async signMessage(message: string): Promise<string> {
+    const response = await this.provider.requestSignature({ message });
+    return response.signature;
+  }
+
+  async executeTransition(request: TransitionRequest): Promise<string> {
+    const response = await this.provider.requestCreateEvent({
+      type: EventType.Execute,
+      programId: request.programId,
+      functionId: request.functionName,
+      fee: request.fee,
+      inputs: request.inputs.map(input => {
+        if (typeof input === 'string') {
+          return input;
+        }
+        // Records not loaded through getRecords are passed as plaintext
+        return this.records.get(input.id) ?? input.plaintext;
+      })
+    });
+
+    if (!response.eventId) {
+      throw new Error(response.error ?? 'The wallet did not create the transaction');
+    }
+    return response.eventId;
+  }
+
+  async getTransactionStatus(id: string): Promise<TransactionStatusResult> {
+    const { event } = await this.provider.getEvent({ id });
+
+    switch (event.status) {
+      case EventStatus.Settled:
+        return { status: 'accepted', transactionId: event.transactionId };
+      case EventStatus.Failed:
+        return { status: 'failed', transactionId: event.transactionId, error: event.error };
+      default:
+        return { status: 'pending', transactionId: event.transactionId };
+    }
+  }
+
+  async getRecords(programId: string): Promise<WalletRecord[]> {
+    const response = await this.provider.getRecords({
+      filter: { programIds: [programId], status: 'All' }
+    });
+
+    return response.records.map(record => {
+      this.records.set(record._id, record);
+      return {
+        id: record._id,
+        programId: record.programId,
+        name: record.name,
+        plaintext: record.plaintext,
+        spent: String(record.status) === 'Spent'
+      };
+    });
+  }
+}
@@ -1,59 +1,96 @@
-import { 
-  connect, 
-  getAccount, 
-  requestSignature,
-  disconnect,
-  getBalance,
-  requestCreateEvent,
-  ConnectResponse,
-  SignatureResponse,
-  Network,
-  GetSelectedAccountResponse,
-  GetBalancesResponse,
-  CreateEventResponse,
-  ConnectionWithAccountInfo,
-  ProgramIdPermissions,
-  CreateEventRequestData,
-  EventType
-} from '@puzzlehq/sdk-core';
+import { CreateEventResponse, SignatureResponse } from '@puzzlehq/sdk-core';
+import {
+  TransactionStatusResult,
+  WalletAdapter,
+  WalletBalance,
+  WalletId,
+  WalletRecord
+} from './WalletAdapter';
+import { PuzzleWalletAdapter } from './PuzzleWalletAdapter';
+import { LeoWalletAdapter } from './LeoWalletAdapter';
+import { FakeLeoWallet } from './FakeLeoWallet';
+import { MockWalletProvider } from './MockWalletProvider';
+import { WalletProvider, createWalletProvider } from './WalletProvider';
+import { NftMetadata, NftToken, decodeTokenRecord, encodeNftMetadata } from '@/lib/utils/nftMetadata';
+import { decodeField, encodeAddress, encodeField, encodeScalar } from '@/lib/utils/leoLiterals';
+import { ANS_REGISTER_FUNCTION, ANS_REGISTRAR_PROGRAM_ID, ANS_TLD_HASH, encodeAnsName, getAnsLabel } from '@/lib/utils/ansName';
+import { trackEvent } from '@/lib/utils/analytics';
+
+// Program the game mints its NFTs with
+const NFT_PROGRAM_ID = 'legend_of_leo_nft.aleo';
+
+// Public mappings of the NFT program, read to find the next edition
+const NFT_MAPPING_URL = `https://api.explorer.provable.com/v1/testnet/program/${NFT_PROGRAM_ID}/mapping/`;
+
+// Wallet picked in the wallet picker
+const WALLET_STORAGE_KEY = 'legendOfLeo.wallet';
 
 /**
- * Represents the balance information from the Puzzle Wallet
+ * Read the edition the next mint has to use
+ *
+ * The contract only accepts current_supply + 1, stored under 3field in the
+ * collection_info mapping.
  */
-interface Balance {
-  tokenId: string;
-  name: string;
-  symbol?: string;
-  decimals: number;
-  supply?: number;
-  maxSupply?: number;
-  admin?: string;
-  externalAuthorizationRequired?: boolean;
-  externalAuthorizationParty?: string;
-  isMTSP: boolean;
-  programId: string;
-  recordName: string;
-  displayIfZero?: boolean;
-  iconURL?: string;
-  usageCount?: number;
-  priority: number;
-  coinbaseSymbol?: string;
-  owner: string;
-  network: Network;
-  values: {
-    private: number;
-    public: number;
+async function fetchNextNftEdition(): Promise<number> {
+  const response = await fetch(`${NFT_MAPPING_URL}collection_info/${encodeField(3)}`);
+  if (!response.ok) {
+    throw new Error(`Could not load the NFT supply (${response.status})`);
+  }
+
+  // The mapping value is a JSON string like "12field", or null before initialize
+  const value = (await response.json()) as string | null;
+  return (value ? Number(decodeField(value)) : 0) + 1;
+}
+
+/**
+ * Create the adapter for each supported wallet
+ *
+ * With the mock provider Leo Wallet is backed by a fake of its injected API,
+ * so both wallets can be played without their extensions.
+ */
+function createWalletAdapters(provider: WalletProvider): Record<WalletId, WalletAdapter> {
+  if (provider.kind === 'mock') {
+    const fakeLeoWallet = new FakeLeoWallet(new MockWalletProvider());
+    return {
+      puzzle: new PuzzleWalletAdapter(provider),
+      leo: new LeoWalletAdapter({
+        getWallet: () => fakeLeoWallet,
+        fetchPublicBalance: () => fakeLeoWallet.getPublicMicrocredits()
+      })
+    };
+  }
+
+  return {
+    puzzle: new PuzzleWalletAdapter(provider),
+    leo: new LeoWalletAdapter()
   };
 }
 
 /**
- * Service for interacting with Puzzle Wallet
+ * Get the wallet picked in the wallet picker, Puzzle Wallet by default
+ */
+function getStoredWalletId(): WalletId {
+  if (typeof window !== 'undefined' && localStorage.getItem(WALLET_STORAGE_KEY) === 'leo') {
+    return 'leo';
+  }
+  return 'puzzle';
+}
+
+/**
+ * Service for interacting with the player's wallet
+ *
+ * Wallet calls go through the WalletAdapter of the wallet picked by the
+ * player, Puzzle Wallet or Leo Wallet. The Puzzle adapter in turn uses a
+ * WalletProvider, either the browser extension or the in-memory mock used
+ * for offline development.
  */
 export class PuzzleWalletService {
   private static instance: PuzzleWalletService;
+  private provider: WalletProvider = createWalletProvider();
+  private adapters: Record<WalletId, WalletAdapter> = createWalletAdapters(this.provider);
+  private walletId: WalletId = getStoredWalletId();
   private address: string | null = null;
-  private connection: ConnectionWithAccountInfo | null = null;
-  private balances: Balance[] = [];
+  private balances: WalletBalance[] = [];
   private connectionListeners: Array<(connected: boolean) => void> = [];
   private connectionChecked: boolean = false;
   
@@ -73,12 +110,65 @@ export class PuzzleWalletService {
   private constructor() {}
   
   /**
-   * Connect to Puzzle wallet
+   * Get the provider wallet calls go through
+   */
+  public getProvider(): WalletProvider {
+    return this.provider;
+  }
+  
+  /**
+   * Switch to another provider, dropping the current connection
+   */
+  public setProvider(provider: WalletProvider): void {
+    console.log(`[PuzzleWalletService] Using ${provider.kind} wallet provider`);
+    this.provider = provider;
+    this.adapters = createWalletAdapters(provider);
+    this.resetConnection();
+  }
+  
+  /**
+   * Get the adapters of every supported wallet, for the wallet picker
+   */
+  public getWallets(): WalletAdapter[] {
+    return Object.values(this.adapters);
+  }
+  
+  /**
+   * Get the adapter of the wallet in use
+   */
+  public getWallet(): WalletAdapter {
+    return this.adapters[this.walletId];
+  }
+  
+  /**
+   * Switch to another wallet, disconnecting the current one
+   */
+  public async selectWallet(walletId: WalletId): Promise<void> {
+    if (walletId === this.walletId) {
+      return;
+    }
+    
+    if (this.address) {
+      await this.disconnectWallet();
+    }
+    
+    this.walletId = walletId;
+    this.connectionChecked = false;
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(WALLET_STORAGE_KEY, walletId);
+    }
+    console.log(`[PuzzleWalletService] Using ${this.getWallet().name}`);
+  }
+  
+  /**
+   * Connect to the selected wallet
    * @returns True if connection was successful
    */
   public async connectWallet(): Promise<boolean> {
+    const wallet = this.getWallet();
+    
     try {
-      console.log('[PuzzleWalletService] Connecting to Puzzle wallet...');
+      console.log(`[PuzzleWalletService] Connecting to ${wallet.name}...`);
       
       // Suppress console errors during connection attempt
       const originalConsoleError = console.error;
@@ -100,69 +190,42 @@ export class PuzzleWalletService {
         originalConsoleError.apply(console, args);
       };
       
-      // Connect with required parameters according to docs
-      let connectResult: ConnectResponse | undefined;
+      // Request permission for our NFT program
       try {
-        connectResult = await connect({
-          dAppInfo: {
-            name: "Legend of Leo",
-            description: "An educational game about blockchain & digital security",
-          },
-          permissions: {
-            programIds: {
-              [Network.AleoTestnet]: ['legend_of_leo_nft.aleo'], // Request permission for our NFT program
-              [Network.AleoMainnet]: ['legend_of_leo_nft.aleo']  // Also request mainnet permissions
-            } as ProgramIdPermissions
-          }
-        });
+        this.address = await wallet.connect([NFT_PROGRAM_ID, ANS_REGISTRAR_PROGRAM_ID]);
       } finally {
         // Restore original error handler
         console.error = originalConsoleError;
       }
       
-      // Store connection information
-      if (connectResult?.connection) {
-        this.connection = connectResult.connection;
-        this.address = connectResult.connection.address;
-        this.connectionChecked = true;
-        
-        // Get balances if available
-        if (connectResult.connection.balances) {
-          this.balances = connectResult.connection.balances;
-        } else {
-          // Try to fetch balances separately
-          await this.fetchBalances();
-        }
-        
-        this.notifyConnectionListeners(true);
-        console.log('[PuzzleWalletService] Connected successfully to:', this.address);
-        return true;
-      }
+      this.connectionChecked = true;
+      await this.fetchBalances();
       
-      console.log('[PuzzleWalletService] Connection failed or user cancelled');
-      this.notifyConnectionListeners(false);
-      return false;
+      this.notifyConnectionListeners(true);
+      console.log('[PuzzleWalletService] Connected successfully to:', this.address);
+      return true;
     } catch (error) {
-      console.warn('[PuzzleWalletService] Error connecting to wallet:', error);
+      console.warn(`[PuzzleWalletService] Error connecting to ${wallet.name}:`, error);
+      trackEvent('wallet-connect-failed', {
+        walletId: wallet.id,
+        reason: error instanceof Error ? error.message : String(error)
+      });
+      this.address = null;
       this.notifyConnectionListeners(false);
       return false;
     }
   }
   
   /**
-   * Disconnect from the Puzzle wallet
+   * Disconnect from the selected wallet
    * @returns True if disconnection was successful
    */
   public async disconnectWallet(): Promise<boolean> {
     try {
-      console.log('[PuzzleWalletService] Disconnecting from Puzzle wallet...');
-      await disconnect();
+      console.log('[PuzzleWalletService] Disconnecting from wallet...');
+      await this.getWallet().disconnect();
       
-      this.address = null;
-      this.connection = null;
-      this.balances = [];
-      this.connectionChecked = false;
-      this.notifyConnectionListeners(false);
+      this.resetConnection();
       
       console.log('[PuzzleWalletService] Disconnected successfully');
       return true;
@@ -176,7 +239,7 @@ export class PuzzleWalletService {
    * Fetch account balances
    * @returns Balance information if successful
    */
-  public async fetchBalances(): Promise<Balance[] | null> {
+  public async fetchBalances(): Promise<WalletBalance[] | null> {
     if (!this.address) {
       console.error('[PuzzleWalletService] Cannot fetch balances: No account connected');
       return null;
@@ -184,16 +247,8 @@ export class PuzzleWalletService {
     
     try {
       console.log('[PuzzleWalletService] Fetching balances...');
-      // Pass required account parameter
-      const balanceResponse: GetBalancesResponse = await getBalance({
-        address: this.address
-      });
-      
-      if (balanceResponse.balances) {
-        this.balances = balanceResponse.balances;
-        return this.balances;
-      }
-      return null;
+      this.balances = await this.getWallet().getBalances(this.address);
+      return this.balances;
     } catch (error) {
       console.error('[PuzzleWalletService] Error fetching balances:', error);
       return null;
@@ -209,8 +264,8 @@ export class PuzzleWalletService {
    * @returns Event response if successful
    */
   public async createEvent(
-    programId: string, 
-    functionId: string, 
+    programId: string,
+    functionId: string,
     inputs: string[],
     fee: number = 0
   ): Promise<CreateEventResponse | null> {
@@ -222,17 +277,14 @@ export class PuzzleWalletService {
     try {
       console.log('[PuzzleWalletService] Creating event for program:', programId, 'function:', functionId);
       
-      const eventData: CreateEventRequestData = {
-        type: EventType.Execute,
+      const eventId = await this.getWallet().executeTransition({
         programId,
-        functionId,
-        fee,
-        inputs
-      };
-      
-      const eventResponse = await requestCreateEvent(eventData);
-      console.log('[PuzzleWalletService] Event created successfully:', eventResponse);
-      return eventResponse;
+        functionName: functionId,
+        inputs,
+        fee
+      });
+      console.log('[PuzzleWalletService] Event created successfully:', eventId);
+      return { eventId };
     } catch (error) {
       console.error('[PuzzleWalletService] Error creating event:', error);
       return null;
@@ -252,15 +304,76 @@ export class PuzzleWalletService {
     
     try {
       console.log('[PuzzleWalletService] Requesting signature for message:', message);
-      const signature = await requestSignature({ message });
+      const signature = await this.getWallet().signMessage(message);
       console.log('[PuzzleWalletService] Signature response:', signature);
-      return signature;
+      return { signature };
     } catch (error) {
       console.error('[PuzzleWalletService] Error signing message:', error);
       return null;
     }
   }
   
+  /**
+   * Look up a transaction submitted through a wallet
+   * @param id The event or request id the wallet returned
+   * @param walletId Wallet the transaction was submitted with, defaults to the current one
+   * @returns The status, or null if the wallet could not be asked
+   */
+  public async getTransactionStatus(id: string, walletId: WalletId = this.walletId): Promise<TransactionStatusResult | null> {
+    if (!this.address || walletId !== this.walletId) {
+      return null;
+    }
+    
+    try {
+      return await this.adapters[walletId].getTransactionStatus(id);
+    } catch (error) {
+      console.warn('[PuzzleWalletService] Error getting transaction status:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Get the records of a program owned by the connected account
+   * @param programId Program to query, e.g. "credits.aleo"
+   * @returns The records, or null if the wallet could not be queried
+   */
+  public async getRecords(programId: string): Promise<WalletRecord[] | null> {
+    if (!this.address) {
+      console.error('[PuzzleWalletService] Cannot get records: No account connected');
+      return null;
+    }
+    
+    try {
+      return await this.getWallet().getRecords(programId);
+    } catch (error) {
+      console.error('[PuzzleWalletService] Error getting records:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Get the Legend of Leo NFTs owned by the connected account
+   * @returns Unspent Token records, newest edition first, or null when they could not be loaded
+   */
+  public async getLeoNFTs(): Promise<NftToken[] | null> {
+    const records = await this.getRecords(NFT_PROGRAM_ID);
+    if (!records) {
+      return null;
+    }
+    
+    return records
+      .filter(record => record.name === 'Token' && !record.spent)
+      .flatMap(record => {
+        try {
+          return [decodeTokenRecord(record)];
+        } catch (error) {
+          console.warn('[PuzzleWalletService] Skipping unreadable Token record:', record.id, error);
+          return [];
+        }
+      })
+      .sort((a, b) => b.edition - a.edition);
+  }
+  
   /**
    * Check if a wallet is connected
    */
@@ -278,7 +391,7 @@ export class PuzzleWalletService {
   /**
    * Get account balances
    */
-  public getBalances(): Balance[] {
+  public getBalances(): WalletBalance[] {
     return this.balances;
   }
   
@@ -295,7 +408,7 @@ export class PuzzleWalletService {
     console.log('[PuzzleWalletService] Checking wallet balances for Aleo credits');
     
     // First check: Look specifically for the official credits.aleo program ID
-    const officialCredits = this.balances.find(balance => 
+    const officialCredits = this.balances.find(balance =>
       balance.programId === 'credits.aleo'
     );
     
@@ -306,7 +419,7 @@ export class PuzzleWalletService {
     }
     
     // Second check: Look for coinbaseSymbol === "aleo"
-    const aleoSymbolCredits = this.balances.find(balance => 
+    const aleoSymbolCredits = this.balances.find(balance =>
       balance.coinbaseSymbol === 'aleo'
     );
     
@@ -317,7 +430,7 @@ export class PuzzleWalletService {
     }
     
     // Fallback check: Look for any credit-like token as last resort
-    const anyCredits = this.balances.find(balance => 
+    const anyCredits = this.balances.find(balance =>
       balance.name.toLowerCase().includes('credit') ||
       (balance.symbol && balance.symbol.toLowerCase().includes('credit'))
     );
@@ -366,6 +479,16 @@ export class PuzzleWalletService {
     this.connectionListeners.forEach(listener => listener(connected));
   }
   
+  /**
+   * Forget the current connection and tell the listeners
+   */
+  private resetConnection(): void {
+    this.address = null;
+    this.balances = [];
+    this.connectionChecked = false;
+    this.notifyConnectionListeners(false);
+  }
+  
   /**
    * Refresh the account connection status
    * @param skipApiCall If true, will only check local state without making API calls
@@ -382,32 +505,11 @@ export class PuzzleWalletService {
     }
     
     try {
-      // Wrap getAccount in a silent try-catch to avoid console errors
-      let result: GetSelectedAccountResponse | null = null;
-      try {
-        result = await getAccount();
-      } catch (getAccountError) {
-        // Silently handle TRPC errors from getAccount - these are expected when wallet isn't connected
-        const errorMessage = getAccountError instanceof Error ? getAccountError.message : String(getAccountError);
-        
-        // Only log at debug level, don't use console.error
-        if (
-          errorMessage.includes('TRPCClientError') ||
-          errorMessage.includes('No connection found for hostname') ||
-          errorMessage.includes('Puzzle Wallet not detected')
-        ) {
-          console.log('[PuzzleWalletService] Wallet not connected yet - will connect on demand');
-          this.connectionChecked = true;
-          return false;
-        }
-        
-        // Re-throw unexpected errors
-        throw getAccountError;
-      }
+      const address = await this.getWallet().getConnectedAddress();
+      this.connectionChecked = true;
       
-      if (result?.account) {
-        this.address = result.account.address;
-        this.connectionChecked = true;
+      if (address) {
+        this.address = address;
         
         // Try to fetch balances when refreshing connection
         this.fetchBalances().catch(() => {
@@ -416,21 +518,20 @@ export class PuzzleWalletService {
         
         this.notifyConnectionListeners(true);
         return true;
-      } else {
-        this.address = null;
-        this.balances = [];
-        this.connection = null;
-        this.connectionChecked = true;
-        this.notifyConnectionListeners(false);
-        return false;
       }
+      
+      this.address = null;
+      this.balances = [];
+      this.notifyConnectionListeners(false);
+      return false;
     } catch (error) {
       // Check if error indicates wallet is not detected or no connection
       const errorMessage = error instanceof Error ? error.message : String(error);
       
       // Handle common expected errors silently - avoid using console.error
       if (
-        errorMessage.includes('Puzzle Wallet not detected') || 
+        errorMessage.includes('not detected') ||
+        errorMessage.includes('not connected') ||
         errorMessage.includes('No connection found for hostname') ||
         errorMessage.includes('TRPCClientError') ||
         errorMessage.includes('wallet')
@@ -445,118 +546,173 @@ export class PuzzleWalletService {
       
       this.address = null;
       this.balances = [];
-      this.connection = null;
       this.connectionChecked = true;
       this.notifyConnectionListeners(false);
       return false;
     }
   }
   
+  /**
+   * Get the edition the next NFT mint must carry
+   *
+   * The contract rejects any edition but the next one, so a mint that
+   * another player's mint overtook has to be submitted again with a new one.
+   * The mock wallet has no mappings to read.
+   */
+  public async getNextNftEdition(): Promise<number> {
+    return this.provider.kind === 'mock' ? 1 : fetchNextNftEdition();
+  }
+
   /**
    * Mint an NFT from the Legend of Leo contract
-   * @param name Name field for the NFT
-   * @param image Image field reference for the NFT
-   * @param edition Edition number as a scalar
-   * @returns Event response if successful
+   * @param metadata Metadata URI, name, image and attributes of the NFT
+   * @param edition Edition number, looked up on chain when omitted
+   * @returns Event response and the edition minted, null without a connected account
+   * @throws If the next edition could not be looked up or the wallet refused the mint
    */
   public async mintLeoNFT(
-    name: string = '123field', 
-    image: string = '456field', 
-    edition: string = '1scalar'
-  ): Promise<CreateEventResponse | null> {
+    metadata: NftMetadata,
+    edition?: number
+  ): Promise<(CreateEventResponse & { edition: number }) | null> {
     if (!this.address) {
       console.error('[PuzzleWalletService] Cannot mint NFT: No account connected');
       return null;
     }
     
+    // A failed lookup is thrown to the caller, minting a guessed edition would only be rejected
+    if (edition === undefined) {
+      edition = await this.getNextNftEdition();
+    }
+    
+    console.log('[PuzzleWalletService] Minting Legend of Leo NFT...');
+    
+    // Suppress console errors during connection attempt
+    const originalConsoleError = console.error;
+    console.error = (...args) => {
+      const errorMessage = args.length > 0 ? String(args[0]) : '';
+      
+      // Suppress wallet-related errors
+      if (
+        errorMessage.includes('TRPCClientError') ||
+        errorMessage.includes('No connection found for hostname') ||
+        errorMessage.includes('Puzzle Wallet') ||
+        errorMessage.includes('wallet')
+      ) {
+        return;
+      }
+      
+      // Log other errors normally
+      originalConsoleError.apply(console, args);
+    };
+    
     try {
-      console.log('[PuzzleWalletService] Minting Legend of Leo NFT...');
+      // These are the inputs that the self_mint function expects, the token goes to the caller
+      const data = encodeNftMetadata(metadata);
+      const inputs = [
+        data.metadata,           // metadata URI, [field; 4]
+        data.name,               // name, [field; 4]
+        data.image,              // image URI, [field; 16]
+        data.attributes,         // attributes, [attribute; 3]
+        encodeScalar(edition)    // edition scalar
+      ];
       
-      // Suppress console errors during connection attempt
-      const originalConsoleError = console.error;
-      console.error = (...args) => {
-        const errorMessage = args.length > 0 ? String(args[0]) : '';
-        
-        // Suppress wallet-related errors
-        if (
-          errorMessage.includes('TRPCClientError') ||
-          errorMessage.includes('No connection found for hostname') ||
-          errorMessage.includes('Puzzle Wallet') ||
-          errorMessage.includes('wallet')
-        ) {
-          return;
-        }
-        
-        // Log other errors normally
-        originalConsoleError.apply(console, args);
+      const request = {
+        programId: NFT_PROGRAM_ID, // Use the actual deployed program ID
+        functionName: 'self_mint', // Only the collection admin can mint to other addresses
+        fee: 0.01,                 // Set appropriate fee
+        inputs
       };
+      console.log('[PuzzleWalletService] Executing transition:', request);
       
-      try {
-        // Get the user's address for the receiver parameter
-        const receiver = this.address;
-        
-        // These are the inputs that the mint function expects
-        const inputs = [
-          receiver, // receiver address
-          name,     // name field
-          image,    // image field
-          edition   // edition scalar
-        ];
-        
-        console.log('[PuzzleWalletService] Creating event with inputs:', {
-          type: EventType.Execute,
-          programId: 'legend_of_leo_nft.aleo',
-          functionId: 'mint',
-          fee: 0.01,
-          inputs
-        });
-        
-        // Create the mint event using the deployed contract
-        const eventResponse = await requestCreateEvent({
-          type: EventType.Execute,
-          programId: 'legend_of_leo_nft.aleo', // Use the actual deployed program ID
-          functionId: 'mint',                  // Use the mint function
-          fee: 0.01,                           // Set appropriate fee
-          inputs
-        });
-        
-        // The SDK returns eventId, not id
-        console.log('[PuzzleWalletService] NFT minted successfully:', eventResponse);
-        
-        // Make sure we have the full response with eventId
-        if (!eventResponse.eventId) {
-          console.warn('[PuzzleWalletService] Event response missing eventId:', eventResponse);
-        }
-        
-        return eventResponse;
-      } catch (error) {
-        // Log detailed error information
-        console.error('[PuzzleWalletService] Error in requestCreateEvent:', error);
-        
-        // Check if we need to reconnect with proper permissions
-        if (error instanceof Error && 
-            error.message.includes('No permissions set for any program IDs')) {
-          console.log('[PuzzleWalletService] Attempting to reconnect with proper permissions...');
-          
-          // Disconnect first
-          await this.disconnectWallet().catch(() => {});
-          
-          // Try to reconnect with proper permissions
-          const reconnected = await this.connectWallet();
-          if (reconnected) {
-            console.log('[PuzzleWalletService] Successfully reconnected with proper permissions, try minting again');
-          }
-        }
-        
-        // Re-throw to handle at higher level
-        throw error;
-      } finally {
-        // Restore original error handler
-        console.error = originalConsoleError;
-      }
+      // Execute the mint transition using the deployed contract
+      const eventId = await this.getWallet().executeTransition(request);
+      console.log('[PuzzleWalletService] NFT minted successfully:', eventId);
+      
+      return { eventId, edition };
     } catch (error) {
       console.warn('[PuzzleWalletService] Error minting NFT:', error);
+      // The caller shows the wallet's error to the player
+      throw error;
+    } finally {
+      // Restore original error handler
+      console.error = originalConsoleError;
+    }
+  }
+  
+  /**
+   * Send a Legend of Leo NFT to another account with the contract's transfer transition
+   * @param token Token record of the connected account, from getLeoNFTs
+   * @param recipient Aleo address of the new owner
+   * @returns Event response if successful
+   */
+  public async transferLeoNFT(token: NftToken, recipient: string): Promise<CreateEventResponse | null> {
+    if (!this.address) {
+      console.error('[PuzzleWalletService] Cannot transfer NFT: No account connected');
+      return null;
+    }
+    
+    try {
+      // The token record is spent, the recipient receives a new one
+      const record: WalletRecord = {
+        id: token.recordId,
+        programId: NFT_PROGRAM_ID,
+        name: 'Token',
+        plaintext: token.plaintext,
+        spent: false
+      };
+      const request = {
+        programId: NFT_PROGRAM_ID,
+        functionName: 'transfer',
+        fee: 0.01,
+        inputs: [record, encodeAddress(recipient)]
+      };
+      console.log('[PuzzleWalletService] Transferring NFT edition', token.edition, 'to', recipient);
+      
+      const eventId = await this.getWallet().executeTransition(request);
+      console.log('[PuzzleWalletService] NFT transfer created:', eventId);
+      return { eventId };
+    } catch (error) {
+      console.warn('[PuzzleWalletService] Error transferring NFT:', error);
       return null;
     }
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Register an ANS name for the connected account
+   * @param name Top level name, with or without the .ans suffix
+   * @returns Event response if successful
+   */
+  public async registerAnsName(name: string): Promise<CreateEventResponse | null> {
+    if (!this.address) {
+      console.error('[PuzzleWalletService] Cannot register ANS name: No account connected');
+      return null;
+    }
+    
+    const label = getAnsLabel(name);
+    if (!label) {
+      console.error('[PuzzleWalletService] Cannot register ANS name: Invalid name', name);
+      return null;
+    }
+    
+    try {
+      const request = {
+        programId: ANS_REGISTRAR_PROGRAM_ID,
+        functionName: ANS_REGISTER_FUNCTION,
+        fee: 0.01,
+        inputs: [
+          encodeAnsName(label),        // name, [u128; 4]
+          ANS_TLD_HASH,                // parent, .ans
+          encodeAddress(this.address)  // receiver
+        ]
+      };
+      console.log('[PuzzleWalletService] Registering ANS name:', `${label}.ans`);
+      
+      const eventId = await this.getWallet().executeTransition(request);
+      console.log('[PuzzleWalletService] ANS registration created:', eventId);
+      return { eventId };
+    } catch (error) {
+      console.warn('[PuzzleWalletService] Error registering ANS name:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import type { AnsProvider } from './AnsProvider';
+import { DEFAULT_MOCK_WALLET_OPTIONS } from './MockWalletProvider';
+
+export interface StubAnsOptions {
+  /** Delay before every response in milliseconds */
+  delay: number;
+  /** Registered names and the addresses they point to */
+  names: Record<string, string>;
+}
+
+export const DEFAULT_STUB_ANS_OPTIONS: StubAnsOptions = {
+  delay: 300,
+  names: {
+    // The mock wallet's account, so the wallet display shows a name in development
+    'player.ans': DEFAULT_MOCK_WALLET_OPTIONS.address,
+    'leo.ans': 'aleo1rhgdu77hgyqd3xjj8ucu3jj9r2krwz6mnzyd80gncr5fxcwlh5rsvzp9px',
+    'test.ans': 'aleo1wyvu96dvv0auq9e4qme54kjuhzglyfcf576h0g3nrrmrmr0505pqd6wnry',
+    'aleo.ans': 'aleo1s3ws5tra87fjycnjrwsjcrnw2qxr8jfqqdugnf0xzqqw29q9m5pqem2u4t'
+  }
+};
+
+/**
+ * In-memory stand-in for the ANS API
+ *
+ * Resolves a fixed set of names so the ANS building and the NFT transfer
+ * flow work offline. Names can be registered at runtime; the first name
+ * registered for an address is its primary name unless one is set.
+ */
+export class StubAnsProvider implements AnsProvider {
+  readonly kind = 'stub';
+  private delay: number;
+  private names: Map<string, string>;
+  private primaryNames: Map<string, string> = new Map();
+
+  constructor(options: Partial<StubAnsOptions> = {}) {
+    const { delay, names } = { ...DEFAULT_STUB_ANS_OPTIONS, ...options };
+    this.delay = delay;
+    this.names = new Map(Object.entries(names));
+  }
+
+  /**
+   * Register a name, replacing the address it pointed to before
+   */
+  register(name: string, address: string) {
+    this.names.set(name, address);
+  }
+
+  /**
+   * Make a registered name the primary name of its address
+   */
+  setPrimaryName(name: string) {
+    const address = this.names.get(name);
+    if (!address) {
+      throw new Error(`${name} is not registered`);
+    }
+    this.primaryNames.set(address, name);
+  }
+
+  async getAddress(name: string): Promise<string | null> {
+    await this.respond();
+    return this.names.get(name) ?? null;
+  }
+
+  async getPrimaryName(address: string): Promise<string | null> {
+    await this.respond();
+
+    const primaryName = this.primaryNames.get(address);
+    if (primaryName) {
+      return primaryName;
+    }
+    for (const [name, owner] of this.names) {
+      if (owner === address) {
+        return name;
+      }
+    }
+    return null;
+  }
+
+  private respond(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.delay));
+  }
+}
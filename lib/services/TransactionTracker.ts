@@ -0,0 +1,226 @@
+import { PuzzleWalletService } from './PuzzleWalletService';
+import { TransactionStatus, WalletId } from './WalletAdapter';
+
+// A transaction the game is waiting on
+export interface TrackedTransaction {
+  /** Id the wallet returned when the transaction was submitted */
+  id: string;
+  walletId: WalletId;
+  /** What the transaction is for, e.g. "nft-mint" */
+  kind: string;
+  status: TransactionStatus;
+  /** On-chain transaction id, once the wallet knows it */
+  transactionId?: string;
+  error?: string;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  updatedAt: number;
+  /** Status checks made so far */
+  checks: number;
+}
+
+type TransactionListener = (transaction: TrackedTransaction) => void;
+
+// Storage key for tracked transactions
+const STORAGE_KEY = 'legendOfLeo.transactions';
+
+// Polling backoff: 3s, 6s, 12s, ... capped at one minute
+const POLL_BASE_DELAY = 3000;
+const POLL_MAX_DELAY = 60000;
+
+// Give up on transactions that are still pending after this long
+const PENDING_TIMEOUT = 30 * 60 * 1000;
+
+// Finished transactions kept for the terminal and other displays
+const MAX_FINISHED = 20;
+
+/**
+ * Service that follows submitted transactions until they settle
+ *
+ * Polls the wallet with backoff, persists what it tracks so pending
+ * transactions are picked up again after a reload, and tells subscribers
+ * every time a transaction changes status.
+ */
+export class TransactionTracker {
+  private static instance: TransactionTracker;
+  private transactions: TrackedTransaction[] = [];
+  private listeners: TransactionListener[] = [];
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TransactionTracker {
+    if (!TransactionTracker.instance) {
+      TransactionTracker.instance = new TransactionTracker();
+    }
+    return TransactionTracker.instance;
+  }
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    this.load();
+
+    // Check again right away whenever a wallet connects
+    PuzzleWalletService.getInstance().addConnectionListener(connected => {
+      if (connected) {
+        this.getPending().forEach(transaction => this.schedule(transaction, 0));
+      }
+    });
+
+    this.getPending().forEach(transaction => this.schedule(transaction, 0));
+  }
+
+  /**
+   * Start following a submitted transaction
+   * @param id The id the wallet returned
+   * @param kind What the transaction is for, used to look it up later
+   */
+  public track(id: string, kind: string): TrackedTransaction {
+    const now = Date.now();
+    const transaction: TrackedTransaction = {
+      id,
+      walletId: PuzzleWalletService.getInstance().getWallet().id,
+      kind,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      checks: 0
+    };
+
+    this.transactions = [...this.transactions.filter(existing => existing.id !== id), transaction];
+    this.save();
+    this.notify(transaction);
+    this.schedule(transaction, POLL_BASE_DELAY);
+
+    console.log(`[TransactionTracker] Tracking ${kind} transaction ${id}`);
+    return transaction;
+  }
+
+  /**
+   * Get a tracked transaction by the id the wallet returned
+   */
+  public getTransaction(id: string): TrackedTransaction | undefined {
+    return this.transactions.find(transaction => transaction.id === id);
+  }
+
+  /**
+   * Get the most recent transaction of a kind
+   */
+  public getLatest(kind: string): TrackedTransaction | undefined {
+    return [...this.transactions].reverse().find(transaction => transaction.kind === kind);
+  }
+
+  /**
+   * Get the transactions still waiting to settle
+   */
+  public getPending(): TrackedTransaction[] {
+    return this.transactions.filter(transaction => transaction.status === 'pending');
+  }
+
+  /**
+   * Listen for status changes
+   * @returns A function that removes the listener
+   */
+  public subscribe(listener: TransactionListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Poll a transaction after a delay, replacing any poll already scheduled
+   */
+  private schedule(transaction: TrackedTransaction, delay: number): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    clearTimeout(this.timers.get(transaction.id));
+    this.timers.set(transaction.id, setTimeout(() => this.poll(transaction.id), delay));
+  }
+
+  private async poll(id: string): Promise<void> {
+    this.timers.delete(id);
+
+    const transaction = this.getTransaction(id);
+    if (!transaction || transaction.status !== 'pending') {
+      return;
+    }
+
+    if (Date.now() - transaction.createdAt > PENDING_TIMEOUT) {
+      this.update(transaction, { status: 'failed', error: 'Timed out waiting for the transaction' });
+      return;
+    }
+
+    // Without a connection to the right wallet there is nothing to ask, the connection listener resumes polling
+    const walletService = PuzzleWalletService.getInstance();
+    if (!walletService.isConnected() || walletService.getWallet().id !== transaction.walletId) {
+      return;
+    }
+
+    const result = await walletService.getTransactionStatus(id, transaction.walletId);
+    const checks = transaction.checks + 1;
+
+    if (result && (result.status !== transaction.status || result.transactionId !== transaction.transactionId)) {
+      this.update(transaction, { ...result, checks });
+    } else {
+      this.update(transaction, { checks }, false);
+    }
+
+    const current = this.getTransaction(id);
+    if (current?.status === 'pending') {
+      this.schedule(current, Math.min(POLL_BASE_DELAY * 2 ** current.checks, POLL_MAX_DELAY));
+    }
+  }
+
+  private update(transaction: TrackedTransaction, changes: Partial<TrackedTransaction>, notify: boolean = true): void {
+    const updated: TrackedTransaction = { ...transaction, ...changes, updatedAt: Date.now() };
+    this.transactions = this.transactions.map(existing => (existing.id === transaction.id ? updated : existing));
+    this.save();
+
+    if (notify) {
+      console.log(`[TransactionTracker] ${updated.kind} transaction ${updated.id} is ${updated.status}`);
+      this.notify(updated);
+    }
+  }
+
+  private notify(transaction: TrackedTransaction): void {
+    this.listeners.forEach(listener => listener(transaction));
+  }
+
+  private load(): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      this.transactions = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('[TransactionTracker] Could not read tracked transactions:', error);
+      this.transactions = [];
+    }
+  }
+
+  private save(): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    // Keep every pending transaction but only the latest finished ones
+    const finished = this.transactions.filter(transaction => transaction.status !== 'pending');
+    const dropped = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED)));
+    this.transactions = this.transactions.filter(transaction => !dropped.has(transaction));
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.transactions));
+    } catch (error) {
+      console.error('[TransactionTracker] Could not store tracked transactions:', error);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Wallet adapters
+ *
+ * Every supported browser wallet is wrapped in a WalletAdapter so the game
+ * can talk to Puzzle Wallet and Leo Wallet the same way. Adapters throw an
+ * Error with the wallet's message when a request fails or is rejected;
+ * PuzzleWalletService turns those into the null/false results the scenes
+ * expect.
+ */
+
+export type WalletId = 'puzzle' | 'leo';
+
+// Credits or token balance of the connected account
+export interface WalletBalance {
+  programId: string;
+  name: string;
+  symbol?: string;
+  coinbaseSymbol?: string;
+  values: {
+    private: number;
+    public: number;
+  };
+}
+
+// A transition input: a Leo literal, or a record of the account to spend
+export type TransitionInput = string | WalletRecord;
+
+// A program function to execute from the connected account
+export interface TransitionRequest {
+  programId: string;
+  functionName: string;
+  inputs: TransitionInput[];
+  /** Fee in credits */
+  fee: number;
+}
+
+// A record owned by the connected account
+export interface WalletRecord {
+  id: string;
+  programId: string;
+  name: string;
+  /** Decrypted record, e.g. "{ owner: aleo1....private, ... }" */
+  plaintext: string;
+  spent: boolean;
+}
+
+// Where a submitted transaction stands
+export type TransactionStatus = 'pending' | 'accepted' | 'rejected' | 'failed';
+
+export interface TransactionStatusResult {
+  status: TransactionStatus;
+  /** On-chain transaction id, once the wallet knows it */
+  transactionId?: string;
+  error?: string;
+}
+
+export interface WalletAdapter {
+  readonly id: WalletId;
+  /** Name shown in the wallet picker */
+  readonly name: string;
+  /** Where players can get the extension */
+  readonly installUrl: string;
+
+  /**
+   * Whether the extension is available in this browser
+   */
+  isInstalled(): boolean;
+
+  /**
+   * Ask the player to connect
+   *
+   * @param programIds Programs the game will execute
+   * @returns The connected address
+   */
+  connect(programIds: string[]): Promise<string>;
+
+  disconnect(): Promise<void>;
+
+  /**
+   * Get the address of an existing connection without prompting the player
+   *
+   * @returns null when the game is not connected
+   */
+  getConnectedAddress(): Promise<string | null>;
+
+  getBalances(address: string): Promise<WalletBalance[]>;
+
+  /**
+   * Sign a message with the connected account
+   *
+   * @returns The signature
+   */
+  signMessage(message: string): Promise<string>;
+
+  /**
+   * Execute a program function
+   *
+   * @returns The id the wallet uses to track the transaction
+   */
+  executeTransition(request: TransitionRequest): Promise<string>;
+
+  /**
+   * Look up a transaction submitted with executeTransition
+   *
+   * @param id The id executeTransition returned
+   */
+  getTransactionStatus(id: string): Promise<TransactionStatusResult>;
+
+  /**
+   * Get the records of a program owned by the connected account
+   */
+  getRecords(programId: string): Promise<WalletRecord[]>;
+}
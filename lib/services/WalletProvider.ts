@@ -0,0 +1,100 @@
+import {
+  connect,
+  disconnect,
+  getAccount,
+  getBalance,
+  getEvent,
+  getRecords,
+  requestCreateEvent,
+  requestSignature,
+  ConnectRequestParams,
+  ConnectResponse,
+  CreateEventRequestData,
+  CreateEventResponse,
+  GetBalancesRequest,
+  GetBalancesResponse,
+  GetEventRequest,
+  GetEventResponse,
+  GetRecordsRequest,
+  GetRecordsResponse,
+  GetSelectedAccountResponse,
+  SignatureRequest,
+  SignatureResponse
+} from '@puzzlehq/sdk-core';
+import { MockWalletProvider } from './MockWalletProvider';
+
+/**
+ * The Puzzle SDK calls PuzzleWalletAdapter depends on
+ *
+ * Mirrors the parts of `@puzzlehq/sdk-core` the game uses, so the real
+ * extension can be swapped for the in-memory mock during development.
+ */
+export interface WalletProvider {
+  readonly kind: WalletProviderKind;
+  connect(request: ConnectRequestParams): Promise<ConnectResponse>;
+  disconnect(): Promise<void>;
+  getAccount(): Promise<GetSelectedAccountResponse>;
+  getBalance(request: GetBalancesRequest): Promise<GetBalancesResponse>;
+  getEvent(request: GetEventRequest): Promise<GetEventResponse>;
+  getRecords(request: GetRecordsRequest): Promise<GetRecordsResponse>;
+  requestCreateEvent(request: CreateEventRequestData): Promise<CreateEventResponse>;
+  requestSignature(request: SignatureRequest): Promise<SignatureResponse>;
+}
+
+export type WalletProviderKind = 'puzzle' | 'mock';
+
+// Dev menu override, takes precedence over the env flag
+const PROVIDER_STORAGE_KEY = 'legendOfLeo.walletProvider';
+
+/**
+ * Provider backed by the Puzzle Wallet browser extension
+ */
+export const puzzleWalletProvider: WalletProvider = {
+  kind: 'puzzle',
+  connect,
+  disconnect,
+  getAccount,
+  getBalance,
+  getEvent,
+  getRecords,
+  requestCreateEvent,
+  requestSignature
+};
+
+/**
+ * Get the wallet provider to use
+ *
+ * Set `NEXT_PUBLIC_WALLET_PROVIDER=mock` to default to the mock, the dev
+ * menu can override it per browser.
+ */
+export function getWalletProviderKind(): WalletProviderKind {
+  if (typeof window !== 'undefined') {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (stored === 'puzzle' || stored === 'mock') {
+      return stored;
+    }
+  }
+  return process.env.NEXT_PUBLIC_WALLET_PROVIDER === 'mock' ? 'mock' : 'puzzle';
+}
+
+/**
+ * Remember the provider picked in the dev menu, null to go back to the env flag
+ */
+export function setWalletProviderKind(kind: WalletProviderKind | null): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  if (kind) {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, kind);
+  } else {
+    localStorage.removeItem(PROVIDER_STORAGE_KEY);
+  }
+}
+
+/**
+ * Create a provider of the given kind
+ */
+export function createWalletProvider(kind: WalletProviderKind = getWalletProviderKind()): WalletProvider {
+  return kind === 'mock' ? new MockWalletProvider() : puzzleWalletProvider;
+}
@@ -0,0 +1,26 @@
+/**
+ * Signatures made by the mock wallets
+ *
+ * Not cryptography: a small stable hash of the signer and the message, so
+ * the mock signature verifier on the server can check what the mock wallet
+ * signed and the sign-in flow runs without a real wallet.
+ */
+
+/**
+ * Small stable hash, the same text always gets the same result
+ */
+export function mockHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36).padStart(7, '0').repeat(4);
+}
+
+/**
+ * Signature the mock wallet gives a message signed by an address
+ */
+export function createMockSignature(address: string, message: string): string {
+  return `sign1mock${mockHash(`${address}:${message}`)}`;
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { AnalyticsService } from '@/lib/services/AnalyticsService';
+import { AnalyticsEventData, AnalyticsEventName } from '@/lib/utils/analyticsEvents';
+
+/**
+ * Record a gameplay event, see lib/utils/analyticsEvents for the events
+ *
+ * The one way game code emits analytics. Scenes get scene and interaction
+ * events from BaseLevelScene and dialogue and quiz events from the runners,
+ * so they rarely need to call this themselves.
+ */
+export function trackEvent<K extends AnalyticsEventName>(name: K, data: AnalyticsEventData[K]) {
+  if (typeof window !== 'undefined') {
+    AnalyticsService.getInstance().track(name, data);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Analytics events
+ *
+ * Schema of every gameplay event the game records and the data each one
+ * carries. Shared by the analytics service in the browser and the events
+ * API, so it must not touch the DOM. Add an event here, to both the type
+ * and the field list, before emitting it.
+ */
+
+// Data carried by each event
+export interface AnalyticsEventData {
+  'scene-enter': { sceneKey: string };
+  /** duration: milliseconds since the scene was entered */
+  'scene-exit': { sceneKey: string; duration: number };
+  /** target: name of the object the player interacted with */
+  'interaction': { sceneKey: string; target: string };
+  /** choice: index of the picked choice, text: its label before placeholders are filled in */
+  'dialogue-choice': { treeId: string; nodeId: string; choice: number; text: string };
+  /** attempt: attempt of the quiz in this run, starting at 1 */
+  'quiz-answer': { quizId: string; questionId: string; correct: boolean; attempt: number };
+  'wallet-connect-failed': { walletId: string; reason: string };
+  'mint-result': { status: string; transactionId?: string };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventData;
+
+// An event as queued in the browser and sent to the events API
+export interface AnalyticsEvent<K extends AnalyticsEventName = AnalyticsEventName> {
+  id: string;
+  name: K;
+  data: AnalyticsEventData[K];
+  /** Random id of the page load, events carry no player id */
+  sessionId: string;
+  /** Milliseconds since the epoch */
+  time: number;
+}
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+// Type of every data field, "?" marks optional ones
+const EVENT_FIELDS: { [K in AnalyticsEventName]: Record<keyof AnalyticsEventData[K], FieldType | `${FieldType}?`> } = {
+  'scene-enter': { sceneKey: 'string' },
+  'scene-exit': { sceneKey: 'string', duration: 'number' },
+  'interaction': { sceneKey: 'string', target: 'string' },
+  'dialogue-choice': { treeId: 'string', nodeId: 'string', choice: 'number', text: 'string' },
+  'quiz-answer': { quizId: 'string', questionId: 'string', correct: 'boolean', attempt: 'number' },
+  'wallet-connect-failed': { walletId: 'string', reason: 'string' },
+  'mint-result': { status: 'string', transactionId: 'string?' }
+};
+
+// Longest string accepted in an event
+export const MAX_EVENT_STRING_LENGTH = 500;
+
+/**
+ * Check whether a name is a known event
+ */
+export function isAnalyticsEventName(name: unknown): name is AnalyticsEventName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(EVENT_FIELDS, name);
+}
+
+/**
+ * Check that a value is a well-formed event
+ * @returns A list of problems, empty when the event is valid
+ */
+export function validateAnalyticsEvent(value: unknown): string[] {
+  const isObject = (candidate: unknown): candidate is Record<string, unknown> =>
+    !!candidate && typeof candidate === 'object' && !Array.isArray(candidate);
+  const isShortString = (candidate: unknown) => typeof candidate === 'string' && candidate.length <= MAX_EVENT_STRING_LENGTH;
+
+  if (!isObject(value)) {
+    return ['Event must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (!isShortString(value.id) || !value.id) errors.push('id must be a string');
+  if (!isShortString(value.sessionId) || !value.sessionId) errors.push('sessionId must be a string');
+  if (typeof value.time !== 'number' || !Number.isFinite(value.time)) errors.push('time must be a number');
+
+  if (!isAnalyticsEventName(value.name)) {
+    errors.push(`Unknown event "${String(value.name)}"`);
+    return errors;
+  }
+
+  const data = value.data;
+  if (!isObject(data)) {
+    errors.push('data must be an object');
+    return errors;
+  }
+
+  const fields: Record<string, string> = EVENT_FIELDS[value.name];
+  Object.keys(data).forEach(key => {
+    if (!(key in fields)) errors.push(`${value.name} has no field ${key}`);
+  });
+  Object.entries(fields).forEach(([key, type]) => {
+    const optional = type.endsWith('?');
+    const field = data[key];
+    if (field === undefined && optional) return;
+    if (typeof field !== type.replace('?', '') || (typeof field === 'string' && !isShortString(field))) {
+      errors.push(`${value.name}.${key} must be a ${type.replace('?', '')}`);
+    }
+  });
+
+  return errors;
+}
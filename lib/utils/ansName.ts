@@ -0,0 +1,54 @@
+'use client';
+
+import { encodeArray, encodeInteger } from '@/lib/utils/leoLiterals';
+
+/**
+ * ANS registration inputs
+ *
+ * The ANS registrar takes a name as [u128; 4]: the UTF-8 bytes of the label
+ * packed little-endian, 16 bytes per integer. Top level names are
+ * registered under the hash of .ans itself.
+ */
+
+// Registrar program and transition that register a name for the caller
+export const ANS_REGISTRAR_PROGRAM_ID = process.env.NEXT_PUBLIC_ANS_REGISTRAR_PROGRAM || 'ans_registrar.aleo';
+export const ANS_REGISTER_FUNCTION = 'register_fld';
+
+// Name hash of the .ans top level domain
+export const ANS_TLD_HASH = '559532657689873513833888656958509165446284001025178663602770230581478239512field';
+
+const NAME_INTEGERS = 4;
+const BYTES_PER_INTEGER = 16;
+
+// Labels the registrar accepts: lowercase letters, digits, - and _
+const LABEL_PATTERN = /^[a-z0-9_-]+$/;
+
+/**
+ * Strip the .ans suffix of a top level name
+ * @returns The label, or null when the name is not one the registrar accepts
+ */
+export function getAnsLabel(name: string): string | null {
+  const label = name.trim().toLowerCase().replace(/\.ans$/, '');
+  if (!LABEL_PATTERN.test(label) || label.length > NAME_INTEGERS * BYTES_PER_INTEGER) {
+    return null;
+  }
+  return label;
+}
+
+/**
+ * Encode a label as the registrar's [u128; 4] name
+ */
+export function encodeAnsName(label: string): string {
+  const bytes = new TextEncoder().encode(label);
+  if (bytes.length > NAME_INTEGERS * BYTES_PER_INTEGER) {
+    throw new Error(`"${label}" is too long for an ANS name`);
+  }
+
+  const integers: string[] = [];
+  for (let index = 0; index < NAME_INTEGERS; index++) {
+    const chunk = bytes.subarray(index * BYTES_PER_INTEGER, (index + 1) * BYTES_PER_INTEGER);
+    const value = chunk.reduceRight((total, byte) => (total << BigInt(8)) + BigInt(byte), BigInt(0));
+    integers.push(encodeInteger(value, 'u128'));
+  }
+  return encodeArray(integers, NAME_INTEGERS);
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { SceneKeys } from '@/lib/game/scenes';
+
+/**
+ * Audio manifest
+ *
+ * Every sound of the game is declared here once. The audio manager loads
+ * what a scene needs when the scene starts, so scenes never list audio in
+ * their preload. Files live in public/assets/audio, each sound as .ogg with
+ * an .mp3 fallback for browsers without Ogg support. A sound whose files
+ * are missing is skipped without breaking the game.
+ */
+
+// Volume bus a sound plays on, set in the settings
+export type AudioBus = 'music' | 'sfx';
+
+export interface AudioAsset {
+  bus: AudioBus;
+  /** Files to try, the browser picks the first format it can play */
+  urls: string[];
+  /** Loudness of this sound relative to the others on its bus, 1 by default */
+  volume?: number;
+}
+
+// Ogg and mp3 files of a sound under /assets/audio
+function audioFiles(path: string): string[] {
+  return [`/assets/audio/${path}.ogg`, `/assets/audio/${path}.mp3`];
+}
+
+export const AUDIO_ASSETS = {
+  'music-main': { bus: 'music', urls: audioFiles('music/main') },
+  'music-level1': { bus: 'music', urls: audioFiles('music/level1') },
+  'music-level2': { bus: 'music', urls: audioFiles('music/level2') },
+  'music-level3': { bus: 'music', urls: audioFiles('music/level3') },
+  'music-level4': { bus: 'music', urls: audioFiles('music/level4') },
+  'music-level5': { bus: 'music', urls: audioFiles('music/level5') },
+  'music-indoors': { bus: 'music', urls: audioFiles('music/indoors'), volume: 0.7 },
+  'sfx-footstep': { bus: 'sfx', urls: audioFiles('sfx/footstep'), volume: 0.4 },
+  'sfx-indicator': { bus: 'sfx', urls: audioFiles('sfx/indicator'), volume: 0.6 },
+  'sfx-blip': { bus: 'sfx', urls: audioFiles('sfx/blip'), volume: 0.3 },
+  'sfx-gate-open': { bus: 'sfx', urls: audioFiles('sfx/gate-open') },
+  'sfx-keycard': { bus: 'sfx', urls: audioFiles('sfx/keycard') },
+  'sfx-mint-success': { bus: 'sfx', urls: audioFiles('sfx/mint-success') }
+} satisfies Record<string, AudioAsset>;
+
+export type AudioKey = keyof typeof AUDIO_ASSETS;
+
+/**
+ * Background music of each scene. Scenes not listed, like the pause menu,
+ * keep whatever music is playing.
+ */
+export const SCENE_MUSIC: Record<string, AudioKey> = {
+  [SceneKeys.Main]: 'music-main',
+  [SceneKeys.Level1]: 'music-level1',
+  [SceneKeys.Level2]: 'music-level2',
+  [SceneKeys.Level3]: 'music-level3',
+  [SceneKeys.Level4]: 'music-level4',
+  [SceneKeys.Level5]: 'music-level5',
+  [SceneKeys.FirstBuilding]: 'music-indoors',
+  [SceneKeys.SecondBuilding]: 'music-indoors',
+  [SceneKeys.ThirdBuilding]: 'music-indoors',
+  // Registered by Level5 when the player enters a house
+  RandomHouseScene: 'music-indoors'
+};
+
+/**
+ * Keys of every sound on a bus
+ */
+export function getAudioKeys(bus: AudioBus): AudioKey[] {
+  return (Object.keys(AUDIO_ASSETS) as AudioKey[]).filter(key => AUDIO_ASSETS[key].bus === bus);
+}
@@ -0,0 +1,203 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Scene } from 'phaser';
+
+/**
+ * Dialogue Loader
+ *
+ * Conversation trees live as JSON files under `public/assets/dialogue/`
+ * and are loaded through the regular Phaser loader so they share the
+ * scene's preload phase. A tree id maps directly to its file path,
+ * e.g. `level1/guard` -> `/assets/dialogue/level1/guard.json`.
+ */
+
+/**
+ * Primitive values a dialogue tree can read from or write to its state
+ */
+export type DialogueValue = string | number | boolean;
+
+/**
+ * Visual presets understood by the DialogueBox
+ * - bottom: NPC box along the bottom of the screen with a typewriter
+ * - terminal: full-height green-on-black terminal readout
+ * - panel: centered menu panel used by the building NPCs
+ * - toast: short centered message that closes by itself
+ */
+export type DialogueLayout = 'bottom' | 'terminal' | 'panel' | 'toast';
+
+/**
+ * Button presets for choices
+ */
+export type DialogueChoiceStyle = 'primary' | 'secondary' | 'danger' | 'info' | 'warning' | 'accent';
+
+/**
+ * Conditions are evaluated against the dialogue state.
+ * A bare `flag` condition passes when the value is truthy.
+ */
+export type DialogueCondition =
+  | { flag: string; equals?: DialogueValue }
+  | { not: DialogueCondition }
+  | { all: DialogueCondition[] }
+  | { any: DialogueCondition[] };
+
+/**
+ * Side effects run when a node is entered or a choice is picked
+ */
+export type DialogueEffect =
+  | { type: 'set'; key: string; value: DialogueValue }
+  | { type: 'openUrl'; url: string }
+  | { type: 'action'; name: string; args?: DialogueValue[] };
+
+/**
+ * A conditional jump; the first branch whose condition passes wins
+ */
+export interface DialogueBranch {
+  if?: DialogueCondition;
+  next: string;
+}
+
+export interface DialogueChoice {
+  text: string;
+  /** Node to continue with, omit (or null) to close the dialogue */
+  next?: string | null;
+  if?: DialogueCondition;
+  effects?: DialogueEffect[];
+  style?: DialogueChoiceStyle;
+  /** Hex colour override, e.g. "#FF8C00" */
+  color?: string;
+  /** Label shown on the button while an async action is running */
+  pendingText?: string;
+}
+
+export interface DialogueNode {
+  speaker?: string;
+  title?: string;
+  subtitle?: string;
+  /** Body text; arrays are joined with new lines */
+  text?: string | string[];
+  footer?: string;
+  layout?: DialogueLayout;
+  /** Place choices side by side instead of stacking them (panel layout) */
+  choiceLayout?: 'row' | 'column';
+  effects?: DialogueEffect[];
+  choices?: DialogueChoice[];
+  /** Automatic continuation when the node has no choices */
+  next?: string | DialogueBranch[];
+  /** Node to show when ESC is pressed, omit to close the dialogue */
+  cancel?: string;
+  /** Close (or continue) automatically after this many milliseconds */
+  autoCloseMs?: number;
+  /** Render a custom widget registered by the scene instead of body text */
+  widget?: string;
+}
+
+export interface DialogueTree {
+  id: string;
+  start: string | DialogueBranch[];
+  layout?: DialogueLayout;
+  /** Accent colour used for borders and default choices */
+  accent?: string;
+  /** Milliseconds per character, 0 shows the text instantly */
+  typingSpeed?: number;
+  nodes: Record<string, DialogueNode>;
+}
+
+/**
+ * Get the loader cache key for a dialogue tree
+ */
+export function getDialogueCacheKey(id: string): string {
+  return `dialogue:${id}`;
+}
+
+/**
+ * Queue dialogue trees for loading in a scene's preload phase
+ *
+ * @param scene The current Phaser scene
+ * @param ids Tree ids relative to /assets/dialogue without extension
+ */
+export function preloadDialogues(scene: Scene, ids: string[]): void {
+  ids.forEach(id => {
+    const key = getDialogueCacheKey(id);
+    if (!scene.cache.json.exists(key)) {
+      scene.load.json(key, `/assets/dialogue/${id}.json`);
+    }
+  });
+}
+
+/**
+ * Get a loaded dialogue tree from the cache
+ *
+ * @param scene The current Phaser scene
+ * @param id The tree id used with preloadDialogues
+ * @returns The validated tree, or undefined if it is missing or malformed
+ */
+export function getDialogueTree(scene: Scene, id: string): DialogueTree | undefined {
+  const data = scene.cache.json.get(getDialogueCacheKey(id)) as unknown;
+
+  if (!data) {
+    console.error(`[DialogueLoader] Dialogue "${id}" has not been loaded`);
+    return undefined;
+  }
+
+  const errors = validateDialogueTree(data);
+  if (errors.length > 0) {
+    console.error(`[DialogueLoader] Dialogue "${id}" is invalid:`, errors);
+    return undefined;
+  }
+
+  return data as DialogueTree;
+}
+
+/**
+ * Check that a tree is structurally sound and that every node reference resolves
+ *
+ * @param data Parsed JSON
+ * @returns A list of problems, empty when the tree is valid
+ */
+export function validateDialogueTree(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return ['Tree must be an object'];
+  }
+
+  const tree = data as Partial<DialogueTree>;
+  if (!tree.nodes || typeof tree.nodes !== 'object') {
+    return ['Tree is missing a "nodes" object'];
+  }
+
+  const nodes = tree.nodes;
+  const checkTarget = (target: string | null | undefined, where: string) => {
+    if (target && !nodes[target]) {
+      errors.push(`${where} points to unknown node "${target}"`);
+    }
+  };
+  const checkBranches = (target: string | DialogueBranch[] | undefined, where: string) => {
+    if (Array.isArray(target)) {
+      target.forEach((branch, index) => checkTarget(branch.next, `${where}[${index}]`));
+    } else {
+      checkTarget(target, where);
+    }
+  };
+
+  if (!tree.start) {
+    errors.push('Tree is missing a "start" node');
+  }
+  checkBranches(tree.start, 'start');
+
+  Object.entries(nodes).forEach(([nodeId, node]) => {
+    if (!node.text && !node.title && !node.widget) {
+      errors.push(`Node "${nodeId}" has no text, title or widget`);
+    }
+    checkBranches(node.next, `Node "${nodeId}" next`);
+    checkTarget(node.cancel, `Node "${nodeId}" cancel`);
+    node.choices?.forEach((choice, index) => {
+      if (!choice.text) {
+        errors.push(`Node "${nodeId}" choice ${index} has no text`);
+      }
+      checkTarget(choice.next, `Node "${nodeId}" choice ${index}`);
+    });
+  });
+
+  return errors;
+}
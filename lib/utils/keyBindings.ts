@@ -0,0 +1,196 @@
+'use client';
+
+/**
+ * Key bindings
+ *
+ * Which keyboard keys trigger each rebindable action. Keys are stored by
+ * name ("W", "SPACE", "UP") so settings stay readable; KEY_CODES turns
+ * them into the key codes Phaser listens for.
+ */
+
+// Actions the player can rebind, in the order the controls screen lists them
+export const BINDABLE_ACTIONS = ['up', 'down', 'left', 'right', 'interact', 'cancel', 'minimap', 'menu'] as const;
+
+export type BindableAction = typeof BINDABLE_ACTIONS[number];
+
+/** One or two keys per action, the second one is optional */
+export type KeyBindings = Record<BindableAction, string[]>;
+
+export const ACTION_LABELS: Record<BindableAction, string> = {
+  up: 'Move up',
+  down: 'Move down',
+  left: 'Move left',
+  right: 'Move right',
+  interact: 'Interact / confirm',
+  cancel: 'Cancel / back',
+  minimap: 'Toggle minimap',
+  menu: 'Pause'
+};
+
+// Most keys bound to one action
+export const MAX_KEYS_PER_ACTION = 2;
+
+const DIGIT_NAMES = ['ZERO', 'ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE'];
+
+// Keys that can be bound, by name, with their key codes
+export const KEY_CODES: Record<string, number> = {
+  BACKSPACE: 8,
+  TAB: 9,
+  ENTER: 13,
+  SHIFT: 16,
+  CTRL: 17,
+  ALT: 18,
+  ESC: 27,
+  SPACE: 32,
+  LEFT: 37,
+  UP: 38,
+  RIGHT: 39,
+  DOWN: 40,
+  ...Object.fromEntries(DIGIT_NAMES.map((name, digit) => [name, 48 + digit])),
+  ...Object.fromEntries(Array.from({ length: 26 }, (_, index) => [String.fromCharCode(65 + index), 65 + index])),
+  SEMICOLON: 186,
+  COMMA: 188,
+  PERIOD: 190,
+  FORWARD_SLASH: 191,
+  OPEN_BRACKET: 219,
+  CLOSED_BRACKET: 221,
+  QUOTES: 222
+};
+
+const KEY_LABELS: Record<string, string> = {
+  BACKSPACE: 'Backspace',
+  TAB: 'Tab',
+  ENTER: 'Enter',
+  SHIFT: 'Shift',
+  CTRL: 'Ctrl',
+  ALT: 'Alt',
+  ESC: 'Esc',
+  SPACE: 'Space',
+  LEFT: '←',
+  UP: '↑',
+  RIGHT: '→',
+  DOWN: '↓',
+  SEMICOLON: ';',
+  COMMA: ',',
+  PERIOD: '.',
+  FORWARD_SLASH: '/',
+  OPEN_BRACKET: '[',
+  CLOSED_BRACKET: ']',
+  QUOTES: "'"
+};
+
+// Presets the controls screen offers, arrows are the default
+export const KEY_PRESETS: Record<'arrows' | 'wasd', { label: string; bindings: KeyBindings }> = {
+  arrows: {
+    label: 'Arrow keys',
+    bindings: {
+      up: ['UP'],
+      down: ['DOWN'],
+      left: ['LEFT'],
+      right: ['RIGHT'],
+      interact: ['SPACE', 'ENTER'],
+      cancel: ['ESC'],
+      minimap: ['M'],
+      menu: ['P']
+    }
+  },
+  wasd: {
+    label: 'WASD',
+    bindings: {
+      up: ['W', 'UP'],
+      down: ['S', 'DOWN'],
+      left: ['A', 'LEFT'],
+      right: ['D', 'RIGHT'],
+      interact: ['SPACE', 'ENTER'],
+      cancel: ['ESC'],
+      minimap: ['M'],
+      menu: ['P']
+    }
+  }
+};
+
+export const DEFAULT_KEY_BINDINGS = KEY_PRESETS.arrows.bindings;
+
+// A key bound to more than one action
+export interface KeyConflict {
+  key: string;
+  actions: BindableAction[];
+}
+
+/**
+ * Label of a key for the screen, e.g. "Space" or "↑"
+ */
+export function getKeyLabel(key: string): string {
+  if (DIGIT_NAMES.includes(key)) {
+    return DIGIT_NAMES.indexOf(key).toString();
+  }
+  return KEY_LABELS[key] ?? key;
+}
+
+/**
+ * Keys of an action for hints on screen, e.g. "Space or Enter"
+ */
+export function getActionKeysLabel(bindings: KeyBindings, action: BindableAction): string {
+  return bindings[action].map(getKeyLabel).join(' or ');
+}
+
+/**
+ * Name of the key pressed in a keyboard event
+ * @returns null for keys that cannot be bound
+ */
+export function getKeyName(event: Pick<KeyboardEvent, 'keyCode'>): string | null {
+  return Object.keys(KEY_CODES).find(name => KEY_CODES[name] === event.keyCode) ?? null;
+}
+
+/**
+ * Check whether a key is bound to any action
+ */
+export function isKeyBound(bindings: KeyBindings, key: string): boolean {
+  return BINDABLE_ACTIONS.some(action => bindings[action].includes(key));
+}
+
+/**
+ * Find keys bound to more than one action
+ */
+export function findKeyConflicts(bindings: KeyBindings): KeyConflict[] {
+  const actionsByKey = new Map<string, BindableAction[]>();
+  BINDABLE_ACTIONS.forEach(action => {
+    bindings[action].forEach(key => {
+      actionsByKey.set(key, [...(actionsByKey.get(key) ?? []), action]);
+    });
+  });
+
+  return [...actionsByKey.entries()]
+    .filter(([, actions]) => actions.length > 1)
+    .map(([key, actions]) => ({ key, actions }));
+}
+
+/**
+ * Check that a value is a complete set of bindings without conflicts
+ * @returns A list of problems, empty when the bindings are valid
+ */
+export function validateKeyBindings(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Key bindings must be an object'];
+  }
+
+  const bindings = value as Record<string, unknown>;
+  const errors: string[] = [];
+  BINDABLE_ACTIONS.forEach(action => {
+    const keys = bindings[action];
+    if (!Array.isArray(keys) || keys.length === 0 || keys.length > MAX_KEYS_PER_ACTION) {
+      errors.push(`${action} must have 1 to ${MAX_KEYS_PER_ACTION} keys`);
+    } else if (keys.some(key => typeof key !== 'string' || !(key in KEY_CODES))) {
+      errors.push(`${action} has an unknown key`);
+    } else if (new Set(keys).size !== keys.length) {
+      errors.push(`${action} has the same key twice`);
+    }
+  });
+
+  if (errors.length === 0) {
+    findKeyConflicts(bindings as KeyBindings).forEach(conflict => {
+      errors.push(`${conflict.key} is bound to ${conflict.actions.join(' and ')}`);
+    });
+  }
+  return errors;
+}
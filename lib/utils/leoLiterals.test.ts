@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LeoIntegerType,
+  decodeAddress,
+  decodeField,
+  decodeInteger,
+  decodeScalar,
+  decodeString,
+  encodeAddress,
+  encodeField,
+  encodeInteger,
+  encodeScalar,
+  encodeString,
+  encodeStringFields,
+  isAddress,
+  parseLeoValue
+} from './leoLiterals';
+
+const ADDRESS = 'aleo1rhgdu77hgyqd3xjj8ucu3jj9r2krwz6mnzyd80gncr5fxcwlh5rsvzp9px';
+
+const FIELD_MODULUS = BigInt('8444461749428370424248824938781546531375899335154063827935233455917409239041');
+const SCALAR_MODULUS = BigInt('2111115437357092606062206234695386632838870926408408195193685246394721360383');
+
+describe('addresses', () => {
+  it('round-trips a valid address, with or without a visibility suffix', () => {
+    assert.equal(decodeAddress(encodeAddress(ADDRESS)), ADDRESS);
+    assert.equal(decodeAddress(`${ADDRESS}.private`), ADDRESS);
+  });
+
+  it('rejects an address with a bad checksum', () => {
+    const tampered = `${ADDRESS.slice(0, -1)}${ADDRESS.endsWith('x') ? 'q' : 'x'}`;
+    assert.equal(isAddress(tampered), false);
+    assert.throws(() => encodeAddress(tampered), /not a valid Aleo address/);
+    assert.throws(() => decodeAddress(`${tampered}.private`), /not a valid Aleo address/);
+  });
+
+  it('rejects the wrong prefix, length or characters', () => {
+    assert.equal(isAddress(`aleb1${ADDRESS.slice(5)}`), false);
+    assert.equal(isAddress(ADDRESS.slice(0, -1)), false);
+    assert.equal(isAddress(`${ADDRESS.slice(0, -1)}b`), false);
+  });
+});
+
+describe('strings packed into fields', () => {
+  const roundTrip = (value: string, length: number) => decodeString(parseLeoValue(encodeString(value, length)));
+
+  it('round-trips ASCII and multi-byte UTF-8', () => {
+    assert.equal(roundTrip('Legend of Leo Graduate', 4), 'Legend of Leo Graduate');
+    assert.equal(roundTrip('Léo 🦁 ✓', 4), 'Léo 🦁 ✓');
+    assert.equal(roundTrip('', 4), '');
+  });
+
+  it('splits at 31 bytes per field and pads with 0field', () => {
+    const value = 'a'.repeat(32);
+    const fields = encodeStringFields(value, 4);
+    assert.equal(fields.length, 4);
+    assert.notEqual(fields[0], '0field');
+    assert.equal(fields[1], `${'a'.charCodeAt(0)}field`);
+    assert.deepEqual(fields.slice(2), ['0field', '0field']);
+    assert.equal(decodeString(fields), value);
+  });
+
+  it('round-trips a string that fills every field, even split inside a character', () => {
+    const value = `${'a'.repeat(30)}🦁${'b'.repeat(90)}`;
+    assert.equal(new TextEncoder().encode(value).length, 124);
+    assert.equal(roundTrip(value, 4), value);
+  });
+
+  it('rejects strings that do not fit or contain null characters', () => {
+    assert.throws(() => encodeString('a'.repeat(125), 4), /too long/);
+    assert.throws(() => encodeString('a\0b', 4), /null characters/);
+  });
+
+  it('rejects values that are not arrays of fields', () => {
+    assert.throws(() => decodeString('12field'), /array of fields/);
+    assert.throws(() => decodeString(['12u8']), /not a field literal/);
+  });
+});
+
+describe('integers', () => {
+  const limits: [LeoIntegerType, bigint, bigint][] = [
+    ['u8', BigInt(0), BigInt(255)],
+    ['u64', BigInt(0), BigInt('18446744073709551615')],
+    ['u128', BigInt(0), BigInt('340282366920938463463374607431768211455')],
+    ['i8', BigInt(-128), BigInt(127)],
+    ['i64', BigInt('-9223372036854775808'), BigInt('9223372036854775807')],
+    ['i128', BigInt('-170141183460469231731687303715884105728'), BigInt('170141183460469231731687303715884105727')]
+  ];
+
+  it('round-trips the limits of each type', () => {
+    limits.forEach(([type, min, max]) => {
+      assert.equal(decodeInteger(encodeInteger(min, type), type), min);
+      assert.equal(decodeInteger(encodeInteger(max, type), type), max);
+    });
+    assert.equal(decodeInteger('500u64.private', 'u64'), BigInt(500));
+    assert.equal(encodeInteger('42', 'u32'), '42u32');
+  });
+
+  it('rejects values just outside the range when encoding and decoding', () => {
+    limits.forEach(([type, min, max]) => {
+      assert.throws(() => encodeInteger(max + BigInt(1), type), /out of range/);
+      assert.throws(() => encodeInteger(min - BigInt(1), type), /out of range/);
+      assert.throws(() => decodeInteger(`${max + BigInt(1)}${type}`, type), /out of range/);
+    });
+  });
+
+  it('rejects unsafe numbers, fractions and the wrong type suffix', () => {
+    assert.throws(() => encodeInteger(Number.MAX_SAFE_INTEGER + 1, 'u64'), /whole number/);
+    assert.throws(() => encodeInteger(1.5, 'u8'), /whole number/);
+    assert.throws(() => encodeInteger('12abc', 'u8'), /whole number/);
+    assert.throws(() => decodeInteger('12u32', 'u64'), /not a u64 literal/);
+  });
+});
+
+describe('fields and scalars', () => {
+  it('round-trips values up to the modulus', () => {
+    assert.equal(decodeField(encodeField(FIELD_MODULUS - BigInt(1))), FIELD_MODULUS - BigInt(1));
+    assert.equal(decodeScalar(encodeScalar(SCALAR_MODULUS - BigInt(1))), SCALAR_MODULUS - BigInt(1));
+    assert.equal(decodeScalar('1scalar.private'), BigInt(1));
+  });
+
+  it('rejects the modulus and negative values', () => {
+    assert.throws(() => encodeField(FIELD_MODULUS), /out of range/);
+    assert.throws(() => encodeScalar(SCALAR_MODULUS), /out of range/);
+    assert.throws(() => encodeField(-1), /out of range/);
+    assert.throws(() => decodeField(`${FIELD_MODULUS}field`), /out of range/);
+  });
+});
@@ -0,0 +1,356 @@
+'use client';
+
+/**
+ * Leo literals
+ *
+ * Program inputs and record plaintexts are written as Leo literals such as
+ * `12field`, `1scalar`, `500u64` or `{ owner: aleo1..., data: [1field, 0field] }`.
+ * This file turns JS values into those literals and back, and rejects values
+ * a program would: out of range numbers, malformed addresses and arrays of
+ * the wrong length. Encoders and decoders throw an Error on invalid input.
+ */
+
+export type LeoIntegerType = 'u8' | 'u16' | 'u32' | 'u64' | 'u128' | 'i8' | 'i16' | 'i32' | 'i64' | 'i128';
+
+// A parsed plaintext: a literal, an array or a struct
+export type LeoValue = string | LeoValue[] | { [member: string]: LeoValue };
+
+// Numbers can be passed as JS numbers, bigints or decimal strings
+export type LeoNumber = number | bigint | string;
+
+// Orders of the field and scalar groups, values must stay below them
+const FIELD_MODULUS = BigInt('8444461749428370424248824938781546531375899335154063827935233455917409239041');
+const SCALAR_MODULUS = BigInt('2111115437357092606062206234695386632838870926408408195193685246394721360383');
+
+// UTF-8 bytes packed into each field of a string, 31 bytes stay below the field modulus
+const STRING_BYTES_PER_FIELD = 31;
+
+const INTEGER_BITS: Record<LeoIntegerType, number> = {
+  u8: 8, u16: 16, u32: 32, u64: 64, u128: 128,
+  i8: 8, i16: 16, i32: 32, i64: 64, i128: 128
+};
+
+// Addresses are bech32m with the "aleo" prefix
+const ADDRESS_PREFIX = 'aleo';
+const ADDRESS_LENGTH = 63;
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32M_CONSTANT = 0x2bc830a3;
+
+// Literals may carry a visibility suffix in record plaintexts
+const VISIBILITY_SUFFIX = /\.(private|public|constant)$/;
+
+/**
+ * Convert a number input to a bigint
+ */
+function toBigInt(value: LeoNumber, type: string): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`${value} is not a whole number that can be encoded as ${type}`);
+    }
+    return BigInt(value);
+  }
+  if (!/^-?\d+$/.test(value.trim())) {
+    throw new Error(`"${value}" is not a whole number that can be encoded as ${type}`);
+  }
+  return BigInt(value.trim());
+}
+
+/**
+ * Strip the visibility suffix and check a literal has the expected type
+ * @returns The part before the type, e.g. "12" for "12field.private"
+ */
+function literalValue(literal: string, type: string): string {
+  const value = literal.trim().replace(VISIBILITY_SUFFIX, '');
+  if (!value.endsWith(type)) {
+    throw new Error(`"${literal}" is not a ${type} literal`);
+  }
+  return value.slice(0, -type.length);
+}
+
+function decodeNumber(literal: string, type: string): bigint {
+  const digits = literalValue(literal, type);
+  if (!/^-?\d+$/.test(digits)) {
+    throw new Error(`"${literal}" is not a ${type} literal`);
+  }
+  return BigInt(digits);
+}
+
+function encodeModular(value: LeoNumber, type: string, modulus: bigint): string {
+  const number = toBigInt(value, type);
+  if (number < BigInt(0) || number >= modulus) {
+    throw new Error(`${number} is out of range for ${type}`);
+  }
+  return `${number}${type}`;
+}
+
+function decodeModular(literal: string, type: string, modulus: bigint): bigint {
+  const number = decodeNumber(literal, type);
+  if (number < BigInt(0) || number >= modulus) {
+    throw new Error(`"${literal}" is out of range for ${type}`);
+  }
+  return number;
+}
+
+// Range of an integer type
+function integerRange(type: LeoIntegerType): [bigint, bigint] {
+  const bits = BigInt(INTEGER_BITS[type]);
+  return type.startsWith('u')
+    ? [BigInt(0), (BigInt(1) << bits) - BigInt(1)]
+    : [-(BigInt(1) << (bits - BigInt(1))), (BigInt(1) << (bits - BigInt(1))) - BigInt(1)];
+}
+
+export function encodeField(value: LeoNumber): string {
+  return encodeModular(value, 'field', FIELD_MODULUS);
+}
+
+export function decodeField(literal: string): bigint {
+  return decodeModular(literal, 'field', FIELD_MODULUS);
+}
+
+export function encodeScalar(value: LeoNumber): string {
+  return encodeModular(value, 'scalar', SCALAR_MODULUS);
+}
+
+export function decodeScalar(literal: string): bigint {
+  return decodeModular(literal, 'scalar', SCALAR_MODULUS);
+}
+
+export function encodeInteger(value: LeoNumber, type: LeoIntegerType): string {
+  const number = toBigInt(value, type);
+  const [min, max] = integerRange(type);
+  if (number < min || number > max) {
+    throw new Error(`${number} is out of range for ${type}`);
+  }
+  return `${number}${type}`;
+}
+
+export function decodeInteger(literal: string, type: LeoIntegerType): bigint {
+  const number = decodeNumber(literal, type);
+  const [min, max] = integerRange(type);
+  if (number < min || number > max) {
+    throw new Error(`"${literal}" is out of range for ${type}`);
+  }
+  return number;
+}
+
+export function encodeBool(value: boolean): string {
+  return value ? 'true' : 'false';
+}
+
+export function decodeBool(literal: string): boolean {
+  const value = literal.trim().replace(VISIBILITY_SUFFIX, '');
+  if (value !== 'true' && value !== 'false') {
+    throw new Error(`"${literal}" is not a bool literal`);
+  }
+  return value === 'true';
+}
+
+// bech32m checksum, see BIP 350
+function bech32Polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  values.forEach(value => {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generators.forEach((generator, index) => {
+      if ((top >>> index) & 1) {
+        checksum ^= generator;
+      }
+    });
+  });
+  return checksum >>> 0;
+}
+
+/**
+ * Check whether a string is a well-formed Aleo address
+ */
+export function isAddress(address: string): boolean {
+  if (address.length !== ADDRESS_LENGTH || !address.startsWith(`${ADDRESS_PREFIX}1`)) {
+    return false;
+  }
+
+  const data = [...address.slice(ADDRESS_PREFIX.length + 1)].map(character => BECH32_CHARSET.indexOf(character));
+  if (data.includes(-1)) {
+    return false;
+  }
+
+  const prefix = [...ADDRESS_PREFIX].map(character => character.charCodeAt(0));
+  const expandedPrefix = [...prefix.map(code => code >> 5), 0, ...prefix.map(code => code & 31)];
+  return bech32Polymod([...expandedPrefix, ...data]) === BECH32M_CONSTANT;
+}
+
+export function encodeAddress(address: string): string {
+  if (!isAddress(address)) {
+    throw new Error(`"${address}" is not a valid Aleo address`);
+  }
+  return address;
+}
+
+export function decodeAddress(literal: string): string {
+  return encodeAddress(literal.trim().replace(VISIBILITY_SUFFIX, ''));
+}
+
+/**
+ * Format literals as an array
+ * @param length Expected number of elements, checked when given
+ */
+export function encodeArray(elements: string[], length?: number): string {
+  if (length !== undefined && elements.length !== length) {
+    throw new Error(`Expected ${length} array elements but got ${elements.length}`);
+  }
+  return `[${elements.join(', ')}]`;
+}
+
+/**
+ * Format literals as a struct, members keep the order they are given in
+ */
+export function encodeStruct(members: Record<string, string>): string {
+  const entries = Object.entries(members).map(([name, value]) => `${name}: ${value}`);
+  return `{ ${entries.join(', ')} }`;
+}
+
+/**
+ * Encode a string as the elements of a [field; N] array
+ * @param length Number of fields in the array
+ * @returns Field literals, padded with 0field
+ */
+export function encodeStringFields(value: string, length: number): string[] {
+  if (value.includes('\0')) {
+    throw new Error('Strings stored on chain cannot contain null characters');
+  }
+
+  const bytes = new TextEncoder().encode(value);
+  if (bytes.length > length * STRING_BYTES_PER_FIELD) {
+    throw new Error(`"${value}" is too long to store on chain (${bytes.length} of ${length * STRING_BYTES_PER_FIELD} bytes)`);
+  }
+
+  const fields: string[] = [];
+  for (let index = 0; index < length; index++) {
+    const chunk = bytes.subarray(index * STRING_BYTES_PER_FIELD, (index + 1) * STRING_BYTES_PER_FIELD);
+    fields.push(encodeField(chunk.reduce((total, byte) => (total << BigInt(8)) + BigInt(byte), BigInt(0))));
+  }
+  return fields;
+}
+
+/**
+ * Encode a string as a [field; N] array literal
+ */
+export function encodeString(value: string, length: number): string {
+  return encodeArray(encodeStringFields(value, length), length);
+}
+
+/**
+ * Decode a string written by encodeStringFields
+ * @param fields Field literals, or an array literal parsed with parseLeoValue
+ */
+export function decodeString(fields: LeoValue): string {
+  if (!Array.isArray(fields)) {
+    throw new Error('Strings are stored as an array of fields');
+  }
+
+  const bytes: number[] = [];
+  fields.forEach(field => {
+    if (typeof field !== 'string') {
+      throw new Error('Strings are stored as an array of fields');
+    }
+
+    // Padding fields are zero and add nothing
+    const chunk: number[] = [];
+    for (let number = decodeField(field); number > BigInt(0); number >>= BigInt(8)) {
+      chunk.unshift(Number(number & BigInt(0xff)));
+    }
+    bytes.push(...chunk);
+  });
+
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/**
+ * Get a member of a struct parsed with parseLeoValue
+ */
+export function getMember(value: LeoValue, name: string): LeoValue {
+  if (typeof value !== 'object' || Array.isArray(value) || !(name in value)) {
+    throw new Error(`Leo value has no member "${name}"`);
+  }
+  return value[name];
+}
+
+/**
+ * Get a literal member of a struct parsed with parseLeoValue
+ */
+export function getLiteral(value: LeoValue, name: string): string {
+  const member = getMember(value, name);
+  if (typeof member !== 'string') {
+    throw new Error(`Leo member "${name}" is not a literal`);
+  }
+  return member;
+}
+
+/**
+ * Parse a plaintext such as a record into literals, arrays and structs
+ *
+ * Literals are returned as written, visibility suffix included, so they can
+ * be passed to the decoders above.
+ */
+export function parseLeoValue(text: string): LeoValue {
+  const tokens = text.match(/[{}[\],:]|[^\s{}[\],:]+/g) ?? [];
+  let position = 0;
+
+  const next = (): string => {
+    if (position >= tokens.length) {
+      throw new Error('Unexpected end of Leo value');
+    }
+    return tokens[position++];
+  };
+
+  const expect = (token: string) => {
+    const found = next();
+    if (found !== token) {
+      throw new Error(`Expected "${token}" but found "${found}" in Leo value`);
+    }
+  };
+
+  const parseValue = (): LeoValue => {
+    const token = next();
+
+    if (token === '[') {
+      const elements: LeoValue[] = [];
+      while (tokens[position] !== ']') {
+        elements.push(parseValue());
+        if (tokens[position] !== ']') {
+          expect(',');
+        }
+      }
+      expect(']');
+      return elements;
+    }
+
+    if (token === '{') {
+      const members: { [member: string]: LeoValue } = {};
+      while (tokens[position] !== '}') {
+        const name = next();
+        expect(':');
+        members[name] = parseValue();
+        if (tokens[position] !== '}') {
+          expect(',');
+        }
+      }
+      expect('}');
+      return members;
+    }
+
+    if ([']', '}', ',', ':'].includes(token)) {
+      throw new Error(`Unexpected "${token}" in Leo value`);
+    }
+    return token;
+  };
+
+  const value = parseValue();
+  if (position !== tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" after Leo value`);
+  }
+  return value;
+}
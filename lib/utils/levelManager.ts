@@ -1,5 +1,7 @@
 'use client';
 
+import { loadSave, updateSave } from '@/lib/utils/saveManager';
+
 /**
  * Level management utility for Legend of Leo
  * Handles tracking current level and dispatching level change events
@@ -8,11 +10,10 @@
 // Custom event for level changes
 const LEVEL_CHANGED_EVENT = 'level-changed';
 
-// Get the current level from localStorage
+// Get the current level from the active save slot
 export function getCurrentLevel(): number {
   try {
-    const savedLevel = localStorage.getItem('currentLevel');
-    return savedLevel ? parseInt(savedLevel, 10) : 1;
+    return loadSave().progress.currentLevel;
   } catch (error) {
     console.error('[LevelManager] Error getting current level:', error);
     return 1; // Default to level 1 if there's an error
@@ -27,8 +28,8 @@ export function setCurrentLevel(level: number): void {
     // Ensure level is a positive number
     const validLevel = Math.max(1, level);
     
-    // Store in localStorage
-    localStorage.setItem('currentLevel', validLevel.toString());
+    // Store in the active save slot
+    updateSave(save => ({ ...save, progress: { ...save.progress, currentLevel: validLevel } }));
     console.log(`[LevelManager] Level set to ${validLevel}`);
     
     // Dispatch level changed event
@@ -0,0 +1,53 @@
+'use client';
+
+/**
+ * This file provides a bridge between the Phaser pause menu and React.
+ * Scenes and the React menu button ask for the pause menu here and
+ * GameContainer opens PauseScene over the running scene. PauseScene hands
+ * the screens that need the DOM (rebinding keys, save files) back to React
+ * as panels, and asks React to leave the game for the title screen.
+ */
+
+// Event names
+export const MENU_EVENTS = {
+  OPEN: 'menu-open',
+  CLOSED: 'menu-closed',
+  PANEL_OPEN: 'menu-panel-open',
+  PANEL_CLOSED: 'menu-panel-closed',
+  QUIT: 'menu-quit'
+};
+
+// Pause menu screens rendered by React
+export type MenuPanel = 'controls' | 'transfer' | 'wallet';
+
+// Dispatch an event on the window, if there is one
+function dispatch(type: string, detail?: unknown) {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+}
+
+// Ask for the pause menu
+export function requestMenu() {
+  dispatch(MENU_EVENTS.OPEN);
+}
+
+// Notify that the pause menu closed and the game runs again
+export function menuClosed() {
+  dispatch(MENU_EVENTS.CLOSED);
+}
+
+// Show a React panel on top of the pause menu
+export function openMenuPanel(panel: MenuPanel) {
+  dispatch(MENU_EVENTS.PANEL_OPEN, panel);
+}
+
+// Notify that the player left the panel, back to the pause menu
+export function menuPanelClosed() {
+  dispatch(MENU_EVENTS.PANEL_CLOSED);
+}
+
+// Leave the game for the title screen
+export function quitToTitle() {
+  dispatch(MENU_EVENTS.QUIT);
+}
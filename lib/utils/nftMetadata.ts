@@ -0,0 +1,178 @@
+'use client';
+
+import { GameState } from '@/lib/utils/saveManager';
+import {
+  LeoValue,
+  decodeAddress,
+  decodeScalar,
+  decodeString,
+  encodeArray,
+  encodeString,
+  encodeStruct,
+  getLiteral,
+  getMember,
+  parseLeoValue
+} from '@/lib/utils/leoLiterals';
+
+/**
+ * Graduation NFT metadata
+ *
+ * The NFT program stores strings the way ARC-721 does, as fixed-size field
+ * arrays (see encodeString in leoLiterals.ts). This file converts the
+ * program's TokenData to and from metadata and builds the graduation NFT's
+ * metadata from the player's GameState.
+ */
+
+// Array lengths of the strings in the program's TokenData
+export const NFT_FIELD_LENGTHS = {
+  metadata: 4,
+  name: 4,
+  image: 16,
+  attribute: 4
+};
+
+// TokenData always carries this many attributes
+export const NFT_ATTRIBUTE_COUNT = 3;
+
+// Off-chain metadata JSON and artwork, served from public/
+const GRADUATION_METADATA_PATH = '/assets/nft/graduation.json';
+const GRADUATION_IMAGE_PATH = '/assets/ui/aleo-logo.svg';
+
+export const GRADUATION_NFT_NAME = 'Legend of Leo Graduate';
+
+export interface NftAttribute {
+  trait_type: string;
+  value: string;
+}
+
+// TokenData without the creator, which the program sets itself
+export interface NftMetadata {
+  /** URI of the off-chain metadata JSON */
+  metadata: string;
+  name: string;
+  /** Image URI */
+  image: string;
+  attributes: NftAttribute[];
+}
+
+// NftMetadata as the Leo literals the mint transition takes
+export interface EncodedNftMetadata {
+  metadata: string;
+  name: string;
+  image: string;
+  attributes: string;
+}
+
+// A Token record of the NFT program
+export interface NftToken {
+  /** Wallet id of the record */
+  recordId: string;
+  /** Record plaintext, spending the token takes it as input */
+  plaintext: string;
+  owner: string;
+  creator: string;
+  edition: number;
+  metadata: NftMetadata;
+}
+
+/**
+ * Encode metadata into the inputs of the mint transition
+ */
+export function encodeNftMetadata(metadata: NftMetadata): EncodedNftMetadata {
+  if (metadata.attributes.length > NFT_ATTRIBUTE_COUNT) {
+    throw new Error(`An NFT can have at most ${NFT_ATTRIBUTE_COUNT} attributes`);
+  }
+
+  // Unused attribute slots stay empty
+  const attributes = [...metadata.attributes];
+  while (attributes.length < NFT_ATTRIBUTE_COUNT) {
+    attributes.push({ trait_type: '', value: '' });
+  }
+
+  // "value" is reserved in Aleo instructions, the program calls it trait_value
+  const encodedAttributes = attributes.map(attribute => encodeStruct({
+    trait_type: encodeString(attribute.trait_type, NFT_FIELD_LENGTHS.attribute),
+    trait_value: encodeString(attribute.value, NFT_FIELD_LENGTHS.attribute)
+  }));
+
+  return {
+    metadata: encodeString(metadata.metadata, NFT_FIELD_LENGTHS.metadata),
+    name: encodeString(metadata.name, NFT_FIELD_LENGTHS.name),
+    image: encodeString(metadata.image, NFT_FIELD_LENGTHS.image),
+    attributes: encodeArray(encodedAttributes, NFT_ATTRIBUTE_COUNT)
+  };
+}
+
+/**
+ * Decode a TokenData struct parsed with parseLeoValue back into metadata
+ *
+ * Empty attribute slots are left out.
+ */
+export function decodeNftMetadata(data: LeoValue): NftMetadata {
+  const attributes = getMember(data, 'attributes');
+  if (!Array.isArray(attributes)) {
+    throw new Error('TokenData attributes are not an array');
+  }
+
+  return {
+    metadata: decodeString(getMember(data, 'metadata')),
+    name: decodeString(getMember(data, 'name')),
+    image: decodeString(getMember(data, 'image')),
+    attributes: attributes
+      .map(attribute => ({
+        trait_type: decodeString(getMember(attribute, 'trait_type')),
+        value: decodeString(getMember(attribute, 'trait_value'))
+      }))
+      .filter(attribute => attribute.trait_type !== '')
+  };
+}
+
+/**
+ * Decode a Token record returned by the wallet
+ */
+export function decodeTokenRecord(record: { id: string; plaintext: string }): NftToken {
+  const token = parseLeoValue(record.plaintext);
+  const data = getMember(token, 'data');
+
+  return {
+    recordId: record.id,
+    plaintext: record.plaintext,
+    owner: decodeAddress(getLiteral(token, 'owner')),
+    creator: decodeAddress(getLiteral(data, 'creator')),
+    edition: Number(decodeScalar(getLiteral(token, 'edition'))),
+    metadata: decodeNftMetadata(data)
+  };
+}
+
+/**
+ * Build the graduation NFT's metadata from the player's progress
+ * @param state Game state of the active save slot
+ * @param levelsCompleted Levels finished when graduating
+ * @param completedAt When the player graduated
+ */
+export function createGraduationMetadata(
+  state: GameState,
+  levelsCompleted: number,
+  completedAt: Date = new Date()
+): NftMetadata {
+  // Average of the best scores of every finished quiz
+  const scores = Object.values(state.quizProgress)
+    .filter(progress => progress.completed)
+    .map(progress => progress.score);
+  const quizScore = scores.length > 0
+    ? Math.round(scores.reduce((total, score) => total + score, 0) / scores.length)
+    : 0;
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+  return {
+    metadata: `${origin}${GRADUATION_METADATA_PATH}`,
+    name: GRADUATION_NFT_NAME,
+    image: `${origin}${GRADUATION_IMAGE_PATH}`,
+    attributes: [
+      { trait_type: 'Levels Completed', value: String(levelsCompleted) },
+      { trait_type: 'Quiz Score', value: `${quizScore}%` },
+      { trait_type: 'Completion Date', value: completedAt.toISOString().slice(0, 10) }
+    ]
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GameState } from './saveManager';
+import {
+  applyProgressFields,
+  getPlayerIdWallet,
+  getProgressValues,
+  getWalletPlayerId,
+  isProgressFieldValue
+} from './progressFields';
+
+const state: GameState = {
+  score: 10,
+  level: 2,
+  playerName: 'Leo',
+  cohort: '',
+  completedModules: ['wallet-basics'],
+  wallet: { connected: false, address: null, balance: 0 },
+  quizProgress: {
+    'wallet-basics': { started: true, completed: true, score: 80, passed: true, attempts: 1 }
+  },
+  stats: { sceneTime: {}, dialogueRepeats: {}, questionMisses: {}, mint: null }
+};
+
+describe('progress field values', () => {
+  it('accepts every field of a valid state', () => {
+    Object.entries(getProgressValues(state)).forEach(([path, value]) => {
+      assert.equal(isProgressFieldValue(path, value), true, path);
+    });
+  });
+
+  it('rejects values of the wrong type', () => {
+    assert.equal(isProgressFieldValue('score', '100'), false);
+    assert.equal(isProgressFieldValue('score', Number.NaN), false);
+    assert.equal(isProgressFieldValue('completedModules', { 0: 'wallet-basics' }), false);
+    assert.equal(isProgressFieldValue('cohort', 'not a cohort!'), false);
+    assert.equal(isProgressFieldValue('stats', { sceneTime: { Level1Scene: 'long' } }), false);
+    assert.equal(isProgressFieldValue('quizProgress.wallet-basics', { passed: 'yes' }), false);
+    assert.equal(isProgressFieldValue('wallet', state.wallet), false);
+  });
+
+  it('applies valid fields and skips malformed ones', () => {
+    const next = applyProgressFields(state, {
+      score: { value: 'lots', updatedAt: 1 },
+      level: { value: 3, updatedAt: 1 },
+      'quizProgress.privacy': { value: { started: true, completed: false, score: 0, passed: false, attempts: 1 }, updatedAt: 1 }
+    });
+
+    assert.equal(next.score, 10);
+    assert.equal(next.level, 3);
+    assert.equal(next.quizProgress.privacy?.attempts, 1);
+    assert.equal(state.quizProgress.privacy, undefined);
+  });
+});
+
+describe('wallet player ids', () => {
+  const address = 'aleo1rhgdu77hgyqd3xjj8ucu3jj9r2krwz6mnzyd80gncr5fxcwlh5rsvzp9px';
+
+  it('gives each slot of a wallet its own id', () => {
+    assert.notEqual(getWalletPlayerId(address, 1), getWalletPlayerId(address, 2));
+    assert.equal(getPlayerIdWallet(getWalletPlayerId(address, 2)), address);
+    assert.equal(getPlayerIdWallet(address), address);
+  });
+
+  it('finds no wallet in generated or malformed ids', () => {
+    assert.equal(getPlayerIdWallet('player-1234'), null);
+    assert.equal(getPlayerIdWallet(`${address}-copy`), null);
+    assert.equal(getPlayerIdWallet(address.toUpperCase()), null);
+  });
+});
@@ -0,0 +1,167 @@
+import type { GameState, QuizProgress } from '@/lib/utils/saveManager';
+
+/**
+ * Progress fields
+ *
+ * Progress is synced field by field so two devices can play at once: each
+ * field carries the time it last changed and the newest write wins. The
+ * fields are the parts of GameState that follow the player between
+ * devices; the wallet connection stays with the browser. Shared by the
+ * progress API and the client sync, so it must not touch the DOM.
+ */
+
+// A field value and the time it was last changed, milliseconds since the epoch
+export interface ProgressField {
+  value: unknown;
+  updatedAt: number;
+}
+
+// Fields by path, e.g. "score" or "quizProgress.wallet-basics"
+export type ProgressFields = Record<string, ProgressField>;
+
+// Progress stored for a player
+export interface PlayerProgress {
+  playerId: string;
+  /** Time of the last write, milliseconds since the epoch */
+  updatedAt: number;
+  fields: ProgressFields;
+}
+
+// Player ids are generated ids or wallet addresses
+export const PLAYER_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+// Signed-in players sync each save slot under their address and the slot number
+const WALLET_PLAYER_ID_PATTERN = /^(aleo1[a-z0-9]{58})(?:-slot\d+)?$/;
+
+// Cohort codes instructors hand out, e.g. "aleo-workshop-2"
+export const COHORT_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+
+// Whole GameState members synced as one field
+const STATE_FIELDS = ['score', 'level', 'playerName', 'cohort', 'completedModules', 'stats'] as const;
+
+// Each quiz is its own field, so quizzes finished on different devices both count
+const QUIZ_FIELD_PREFIX = 'quizProgress.';
+
+type StateField = typeof STATE_FIELDS[number];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isCountMap(value: unknown): boolean {
+  return isObject(value) && Object.values(value).every(isNumber);
+}
+
+function isQuizProgress(value: unknown): value is QuizProgress {
+  return isObject(value)
+    && typeof value.started === 'boolean'
+    && typeof value.completed === 'boolean'
+    && isNumber(value.score)
+    && typeof value.passed === 'boolean'
+    && isNumber(value.attempts);
+}
+
+// Checks for the value of each whole field, matching the save document
+const FIELD_VALIDATORS: Record<StateField, (value: unknown) => boolean> = {
+  score: isNumber,
+  level: isNumber,
+  playerName: value => typeof value === 'string',
+  cohort: value => typeof value === 'string' && (value === '' || COHORT_PATTERN.test(value)),
+  completedModules: value => Array.isArray(value) && value.every(id => typeof id === 'string'),
+  stats: value => isObject(value)
+    && isCountMap(value.sceneTime)
+    && isCountMap(value.dialogueRepeats)
+    && isCountMap(value.questionMisses)
+    && (value.mint === null
+      || (isObject(value.mint) && typeof value.mint.status === 'string' && isNumber(value.mint.updatedAt)))
+};
+
+/**
+ * Get the player id a wallet syncs a save slot under
+ */
+export function getWalletPlayerId(address: string, slot: number): string {
+  return `${address}-slot${slot}`;
+}
+
+/**
+ * Get the wallet a player id belongs to
+ * @returns null for generated player ids
+ */
+export function getPlayerIdWallet(playerId: string): string | null {
+  return WALLET_PLAYER_ID_PATTERN.exec(playerId)?.[1] ?? null;
+}
+
+/**
+ * Check whether a path names a synced field
+ */
+export function isProgressFieldPath(path: string): boolean {
+  return (STATE_FIELDS as readonly string[]).includes(path)
+    || (path.startsWith(QUIZ_FIELD_PREFIX) && path.length > QUIZ_FIELD_PREFIX.length);
+}
+
+/**
+ * Check whether a value has the type of its field, so a bad write can't end up in GameState
+ */
+export function isProgressFieldValue(path: string, value: unknown): boolean {
+  if (path.startsWith(QUIZ_FIELD_PREFIX)) {
+    return isProgressFieldPath(path) && isQuizProgress(value);
+  }
+  return isProgressFieldPath(path) && FIELD_VALIDATORS[path as StateField](value);
+}
+
+/**
+ * Get the value of every synced field of a state
+ */
+export function getProgressValues(state: GameState): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  STATE_FIELDS.forEach(field => {
+    values[field] = state[field];
+  });
+  Object.entries(state.quizProgress).forEach(([moduleId, progress]) => {
+    values[`${QUIZ_FIELD_PREFIX}${moduleId}`] = progress;
+  });
+  return values;
+}
+
+/**
+ * List the synced fields that differ between two states
+ */
+export function getChangedProgressPaths(previous: GameState, next: GameState): string[] {
+  const before = getProgressValues(previous);
+  const after = getProgressValues(next);
+  return Object.keys(after).filter(path => JSON.stringify(before[path]) !== JSON.stringify(after[path]));
+}
+
+/**
+ * Write field values into a state, skipping values of the wrong type
+ */
+export function applyProgressFields(state: GameState, fields: ProgressFields): GameState {
+  const next: GameState = { ...state, quizProgress: { ...state.quizProgress } };
+  Object.entries(fields).forEach(([path, { value }]) => {
+    if (!isProgressFieldValue(path, value)) {
+      console.warn(`[Progress] Ignoring malformed ${path} from the server`);
+    } else if (path.startsWith(QUIZ_FIELD_PREFIX) && isQuizProgress(value)) {
+      next.quizProgress[path.slice(QUIZ_FIELD_PREFIX.length)] = value;
+    } else {
+      Object.assign(next, { [path]: value });
+    }
+  });
+  return next;
+}
+
+/**
+ * Merge fields, keeping the newest write of each; ties keep the current one
+ */
+export function mergeProgressFields(current: ProgressFields, incoming: ProgressFields): ProgressFields {
+  const merged = { ...current };
+  Object.entries(incoming).forEach(([path, field]) => {
+    if (!merged[path] || field.updatedAt > merged[path].updatedAt) {
+      merged[path] = field;
+    }
+  });
+  return merged;
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { AuthService } from '@/lib/services/AuthService';
+import { GameState } from '@/lib/utils/saveManager';
+import {
+  PlayerProgress,
+  ProgressFields,
+  getChangedProgressPaths,
+  getProgressValues,
+  getWalletPlayerId,
+  isProgressFieldValue,
+} from '@/lib/utils/progressFields';
+
+/**
+ * Progress sync for Legend of Leo
+ *
+ * Mirrors the active slot's progress to the progress API so it can be
+ * continued on another device. Every synced field remembers when it last
+ * changed locally; a sync sends all fields, the server keeps the newest
+ * write of each, and remote fields newer than the local ones are taken
+ * over. Each slot syncs on its own: under the wallet address and slot
+ * number once the player signed in, and an id generated for the slot
+ * otherwise.
+ */
+
+// Where the progress API lives, another origin can be configured
+const PROGRESS_API_URL = process.env.NEXT_PUBLIC_PROGRESS_API_URL || '/api/progress';
+
+// Sync state per slot
+const SYNC_KEY_PREFIX = 'legendOfLeo.progressSync.slot';
+
+// What the sync remembers about a slot
+interface SlotSyncState {
+  /** Player id generated for the slot, used without a wallet */
+  playerId: string;
+  /** When each field last changed, milliseconds since the epoch */
+  updatedAt: Record<string, number>;
+}
+
+/**
+ * Whether progress is synced at all, set NEXT_PUBLIC_PROGRESS_SYNC=off to keep it local
+ */
+export function isProgressSyncEnabled(): boolean {
+  return typeof window !== 'undefined' && process.env.NEXT_PUBLIC_PROGRESS_SYNC !== 'off';
+}
+
+function loadSyncState(slot: number): SlotSyncState {
+  try {
+    const stored = localStorage.getItem(`${SYNC_KEY_PREFIX}${slot}`);
+    if (stored) {
+      const state = JSON.parse(stored);
+      if (typeof state.playerId === 'string' && state.updatedAt && typeof state.updatedAt === 'object') {
+        return state;
+      }
+    }
+  } catch (error) {
+    console.warn('Error loading progress sync state:', error);
+  }
+
+  const state = { playerId: `player-${crypto.randomUUID()}`, updatedAt: {} };
+  saveSyncState(slot, state);
+  return state;
+}
+
+function saveSyncState(slot: number, state: SlotSyncState) {
+  try {
+    localStorage.setItem(`${SYNC_KEY_PREFIX}${slot}`, JSON.stringify(state));
+  } catch (error) {
+    console.warn('Error saving progress sync state:', error);
+  }
+}
+
+/**
+ * Get the id progress of a slot is stored under
+ */
+export function getProgressPlayerId(slot: number): string {
+  const auth = AuthService.getInstance();
+  const address = auth.isSignedIn() ? auth.getSignedInAddress() : null;
+  return address ? getWalletPlayerId(address, slot) : loadSyncState(slot).playerId;
+}
+
+/**
+ * Remember which fields the player changed locally
+ * @param previous State before the change
+ * @param next State after the change
+ */
+export function recordProgressChanges(slot: number, previous: GameState, next: GameState) {
+  const paths = getChangedProgressPaths(previous, next);
+  if (paths.length === 0) return;
+
+  const state = loadSyncState(slot);
+  const now = Date.now();
+  paths.forEach(path => {
+    state.updatedAt[path] = now;
+  });
+  saveSyncState(slot, state);
+}
+
+/**
+ * Start the sync of a slot over after its save was created, imported or deleted
+ *
+ * The slot gets a new player id, and every field of the new save counts as
+ * changed now so it wins over what the slot synced before. Slots sync
+ * under ids of their own, so the player's other slots keep their progress.
+ * @param state Game state now in the slot, none if the slot was emptied
+ */
+export function resetProgressSync(slot: number, state?: GameState) {
+  try {
+    localStorage.removeItem(`${SYNC_KEY_PREFIX}${slot}`);
+  } catch (error) {
+    console.warn('Error clearing progress sync state:', error);
+  }
+  if (!state) return;
+
+  const syncState = loadSyncState(slot);
+  const now = Date.now();
+  Object.keys(getProgressValues(state)).forEach(path => {
+    syncState.updatedAt[path] = now;
+  });
+  saveSyncState(slot, syncState);
+}
+
+/**
+ * Send the slot's progress to the server and get back what changed elsewhere
+ *
+ * @param state Current state of the slot
+ * @returns Fields changed on another device more recently than here, null if the sync failed
+ */
+export async function syncProgress(slot: number, state: GameState): Promise<ProgressFields | null> {
+  const syncState = loadSyncState(slot);
+  const playerId = getProgressPlayerId(slot);
+
+  // Fields never changed here count as oldest, so a fresh device takes over saved progress
+  const fields: ProgressFields = {};
+  Object.entries(getProgressValues(state)).forEach(([path, value]) => {
+    fields[path] = { value, updatedAt: syncState.updatedAt[path] ?? 0 };
+  });
+
+  try {
+    const response = await fetch(`${PROGRESS_API_URL}?playerId=${encodeURIComponent(playerId)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ fields })
+    });
+    if (!response.ok) {
+      throw new Error(`Progress API responded with status ${response.status}`);
+    }
+
+    const progress: PlayerProgress = await response.json();
+
+    // Take over well-formed remote fields newer than ours, stamped with their remote time
+    const newer: ProgressFields = {};
+    const latest = loadSyncState(slot);
+    Object.entries(progress.fields).forEach(([path, field]) => {
+      if (isProgressFieldValue(path, field.value) && field.updatedAt > (latest.updatedAt[path] ?? 0)) {
+        newer[path] = field;
+        latest.updatedAt[path] = field.updatedAt;
+      }
+    });
+    saveSyncState(slot, latest);
+
+    return newer;
+  } catch (error) {
+    console.warn('Error syncing progress:', error);
+    return null;
+  }
+}
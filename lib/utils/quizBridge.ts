@@ -0,0 +1,43 @@
+'use client';
+
+import { getSavedGameState } from '@/lib/utils/saveManager';
+
+/**
+ * This file provides a bridge between Phaser quizzes and the React game state.
+ * Scenes report quiz progress here and GameContext records it in quizProgress.
+ */
+
+// Event names
+export const QUIZ_EVENTS = {
+  STARTED: 'quiz-started',
+  COMPLETED: 'quiz-completed'
+};
+
+// Interface for a finished quiz attempt
+export interface QuizResultData {
+  moduleId: string;
+  /** Percentage (0-100) */
+  score: number;
+  passed: boolean;
+}
+
+// Notify that a quiz attempt has started
+export function quizStarted(moduleId: string) {
+  if (typeof window !== 'undefined') {
+    const event = new CustomEvent(QUIZ_EVENTS.STARTED, { detail: { moduleId } });
+    window.dispatchEvent(event);
+  }
+}
+
+// Notify that a quiz attempt has finished
+export function quizCompleted(result: QuizResultData) {
+  if (typeof window !== 'undefined') {
+    const event = new CustomEvent(QUIZ_EVENTS.COMPLETED, { detail: result });
+    window.dispatchEvent(event);
+  }
+}
+
+// Check whether the player has ever passed a module's quiz in the active save slot
+export function hasPassedQuiz(moduleId: string): boolean {
+  return !!getSavedGameState().quizProgress[moduleId]?.passed;
+}
@@ -0,0 +1,230 @@
+'use client'; /* This file is only executed on the client side */
+
+import { Scene } from 'phaser';
+
+/**
+ * Quiz Loader
+ *
+ * Every learning module defines its quiz as a JSON file under
+ * `public/assets/quizzes/`. Quizzes are loaded through the Phaser loader
+ * like dialogue trees; a quiz id maps to its file path,
+ * e.g. `level1/privacy` -> `/assets/quizzes/level1/privacy.json`.
+ */
+
+interface QuizQuestionBase {
+  id: string;
+  prompt: string;
+  /** Shown after the player answers, whether they were right or not */
+  explanation?: string;
+  /** Weight of the question in the score, defaults to 1 */
+  points?: number;
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple-choice';
+  options: string[];
+  /** Index of the correct option */
+  answer: number;
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true-false';
+  answer: boolean;
+}
+
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  /** Items in the correct order, they are shuffled when shown */
+  items: string[];
+}
+
+export interface FreeTextQuestion extends QuizQuestionBase {
+  type: 'free-text';
+  /** Accepted answers, compared after trimming and collapsing whitespace */
+  accept: string[];
+  caseSensitive?: boolean;
+  placeholder?: string;
+}
+
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | OrderingQuestion
+  | FreeTextQuestion;
+
+/**
+ * What the player submitted for a question
+ * - multiple-choice: option index
+ * - true-false: boolean
+ * - ordering: item indices in the order the player picked them
+ * - free-text: the typed text
+ */
+export type QuizAnswer = number | boolean | number[] | string;
+
+export interface QuizDefinition {
+  id: string;
+  /** Module the quiz belongs to, used as the key in the saved quiz progress */
+  moduleId: string;
+  title: string;
+  /** Shown before the first question */
+  intro?: string;
+  /** Percentage (0-100) needed to pass */
+  passingScore: number;
+  /** Attempts per run before the player has to come back later, omit for unlimited */
+  maxAttempts?: number;
+  /** Accent colour used for the quiz panel, e.g. "#4CAF50" */
+  accent?: string;
+  questions: QuizQuestion[];
+}
+
+const QUESTION_TYPES: QuizQuestion['type'][] = ['multiple-choice', 'true-false', 'ordering', 'free-text'];
+
+/**
+ * Get the loader cache key for a quiz
+ */
+export function getQuizCacheKey(id: string): string {
+  return `quiz:${id}`;
+}
+
+/**
+ * Queue quizzes for loading in a scene's preload phase
+ *
+ * @param scene The current Phaser scene
+ * @param ids Quiz ids relative to /assets/quizzes without extension
+ */
+export function preloadQuizzes(scene: Scene, ids: string[]): void {
+  ids.forEach(id => {
+    const key = getQuizCacheKey(id);
+    if (!scene.cache.json.exists(key)) {
+      scene.load.json(key, `/assets/quizzes/${id}.json`);
+    }
+  });
+}
+
+/**
+ * Get a loaded quiz from the cache
+ *
+ * @param scene The current Phaser scene
+ * @param id The quiz id used with preloadQuizzes
+ * @returns The validated quiz, or undefined if it is missing or malformed
+ */
+export function getQuiz(scene: Scene, id: string): QuizDefinition | undefined {
+  const data = scene.cache.json.get(getQuizCacheKey(id)) as unknown;
+
+  if (!data) {
+    console.error(`[QuizLoader] Quiz "${id}" has not been loaded`);
+    return undefined;
+  }
+
+  const errors = validateQuiz(data);
+  if (errors.length > 0) {
+    console.error(`[QuizLoader] Quiz "${id}" is invalid:`, errors);
+    return undefined;
+  }
+
+  return data as QuizDefinition;
+}
+
+/**
+ * Check that a quiz is structurally sound and every answer points somewhere
+ *
+ * @param data Parsed JSON
+ * @returns A list of problems, empty when the quiz is valid
+ */
+export function validateQuiz(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return ['Quiz must be an object'];
+  }
+
+  const quiz = data as Partial<QuizDefinition>;
+  if (!quiz.moduleId) {
+    errors.push('Quiz is missing a "moduleId"');
+  }
+  if (typeof quiz.passingScore !== 'number' || quiz.passingScore < 0 || quiz.passingScore > 100) {
+    errors.push('Quiz "passingScore" must be a number between 0 and 100');
+  }
+  if (!Array.isArray(quiz.questions) || quiz.questions.length === 0) {
+    errors.push('Quiz has no questions');
+    return errors;
+  }
+
+  quiz.questions.forEach((question, index) => {
+    const where = `Question ${question.id ?? index}`;
+
+    if (!question.prompt) {
+      errors.push(`${where} has no prompt`);
+    }
+    if (!QUESTION_TYPES.includes(question.type)) {
+      errors.push(`${where} has unknown type "${question.type}"`);
+      return;
+    }
+
+    switch (question.type) {
+      case 'multiple-choice':
+        if (!Array.isArray(question.options) || question.options.length < 2) {
+          errors.push(`${where} needs at least two options`);
+        } else if (!Number.isInteger(question.answer) || !question.options[question.answer]) {
+          errors.push(`${where} answer points to a missing option`);
+        }
+        break;
+      case 'true-false':
+        if (typeof question.answer !== 'boolean') {
+          errors.push(`${where} answer must be true or false`);
+        }
+        break;
+      case 'ordering':
+        if (!Array.isArray(question.items) || question.items.length < 2) {
+          errors.push(`${where} needs at least two items`);
+        }
+        break;
+      case 'free-text':
+        if (!Array.isArray(question.accept) || question.accept.length === 0) {
+          errors.push(`${where} has no accepted answers`);
+        }
+        break;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Check an answer against a question
+ */
+export function isCorrectAnswer(question: QuizQuestion, answer: QuizAnswer): boolean {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return answer === question.answer;
+    case 'ordering':
+      return Array.isArray(answer)
+        && answer.length === question.items.length
+        && answer.every((itemIndex, position) => itemIndex === position);
+    case 'free-text': {
+      if (typeof answer !== 'string') return false;
+      const normalize = (text: string) => {
+        const collapsed = text.trim().replace(/\s+/g, ' ');
+        return question.caseSensitive ? collapsed : collapsed.toLowerCase();
+      };
+      return question.accept.some(accepted => normalize(accepted) === normalize(answer));
+    }
+  }
+}
+
+/**
+ * Describe the correct answer, shown when the player got it wrong
+ */
+export function describeCorrectAnswer(question: QuizQuestion): string {
+  switch (question.type) {
+    case 'multiple-choice':
+      return question.options[question.answer];
+    case 'true-false':
+      return question.answer ? 'True' : 'False';
+    case 'ordering':
+      return question.items.map((item, index) => `${index + 1}. ${item}`).join('\n');
+    case 'free-text':
+      return question.accept[0];
+  }
+}
@@ -0,0 +1,748 @@
+'use client';
+
+/**
+ * Save management utility for Legend of Leo
+ *
+ * Each save slot holds one versioned document in localStorage. Documents
+ * written by older builds are upgraded through an ordered chain of
+ * migrations, every document is validated before it is used, and the last
+ * good save of each slot is kept as a backup to recover from corruption.
+ * Reads and writes go to the active slot unless a slot is passed.
+ */
+
+// Current version of the save document, bump it together with a new migration
+export const SAVE_VERSION = 5;
+
+// Number of save slots offered on the start screen
+export const SAVE_SLOT_COUNT = 5;
+
+// Storage keys
+const SLOT_KEY_PREFIX = 'legendOfLeoSave.slot';
+const ACTIVE_SLOT_KEY = 'legendOfLeoSave.activeSlot';
+
+// The single save written before slots existed, it becomes slot 1
+const UNSLOTTED_SAVE_KEY = 'legendOfLeoSave';
+
+// Keys written by builds before the save document existed
+const LEGACY_KEYS = {
+  GAME_STATE: 'legendOfLeoGameState',
+  CURRENT_LEVEL: 'currentLevel',
+  CURRENT_SCENE: 'currentScene',
+  ANS_NAME: 'playerANSName',
+  ANS_ADDRESS: 'playerAddress',
+  ANS_SEARCHES: 'ansSearches'
+};
+
+// Progress of a single module quiz
+export interface QuizProgress {
+  started: boolean;
+  completed: boolean;
+  /** Best score so far, percentage (0-100) */
+  score: number;
+  passed: boolean;
+  attempts: number;
+}
+
+// Latest NFT mint of the player
+export interface MintRecord {
+  status: 'pending' | 'accepted' | 'rejected' | 'failed';
+  /** On-chain transaction id, once the wallet knows it */
+  transactionId?: string;
+  /** Milliseconds since the epoch */
+  updatedAt: number;
+}
+
+// What instructors see about how the player is getting on
+export interface LearnerStats {
+  /** Milliseconds played in each scene, by scene key */
+  sceneTime: Record<string, number>;
+  /** Times a dialogue node was shown again, by "treeId:nodeId" */
+  dialogueRepeats: Record<string, number>;
+  /** Wrong answers to a quiz question, by "quizId:questionId" */
+  questionMisses: Record<string, number>;
+  mint: MintRecord | null;
+}
+
+// Game state managed by GameContext
+export interface GameState {
+  score: number;
+  level: number;
+  playerName: string;
+  /** Workshop the player joined, empty when playing alone */
+  cohort: string;
+  completedModules: string[];
+  wallet: {
+    connected: boolean;
+    address: string | null;
+    balance: number;
+  };
+  quizProgress: {
+    [moduleId: string]: QuizProgress;
+  };
+  stats: LearnerStats;
+}
+
+// Metadata shown for a save slot on the start screen
+export interface SaveSlotInfo {
+  name: string;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  /** Total time played in milliseconds */
+  playtime: number;
+}
+
+// A name lookup remembered by the ANS building
+export interface AnsSearch {
+  name: string;
+  address: string;
+}
+
+// An ANS registration submitted from the ANS building, waiting to be confirmed
+export interface AnsRegistration {
+  name: string;
+  /** Account the name is registered for */
+  address: string;
+  /** Id the wallet returned for the registration transaction */
+  requestId: string;
+}
+
+// Everything the game persists between sessions
+export interface SaveDocument {
+  version: number;
+  /** Time of the last write, milliseconds since the epoch */
+  savedAt: number;
+  slot: SaveSlotInfo;
+  game: GameState;
+  progress: {
+    currentLevel: number;
+    /** Scene to return to after a reload, null to start from the menu */
+    currentScene: string | null;
+  };
+  ans: {
+    name: string | null;
+    address: string | null;
+    searches: AnsSearch[];
+    /** Becomes the name above once the network accepts it */
+    pending: AnsRegistration | null;
+  };
+}
+
+// Initial state to use if nothing has been saved
+export const initialGameState: GameState = {
+  score: 0,
+  level: 1,
+  playerName: '',
+  cohort: '',
+  completedModules: [],
+  wallet: {
+    connected: false,
+    address: null,
+    balance: 0,
+  },
+  quizProgress: {},
+  stats: {
+    sceneTime: {},
+    dialogueRepeats: {},
+    questionMisses: {},
+    mint: null,
+  },
+};
+
+type SaveData = Record<string, unknown>;
+
+/**
+ * Migrations in order: MIGRATIONS[n] upgrades a version n document to n + 1.
+ * Never edit a shipped migration, append a new one and bump SAVE_VERSION.
+ */
+const MIGRATIONS: ((data: SaveData) => SaveData)[] = [
+  // 0 -> 1: collect the loose legacy keys into one document
+  data => ({
+    version: 1,
+    savedAt: Date.now(),
+    // Old states may lack fields added later, so fill them in from the defaults
+    game: {
+      ...initialGameState,
+      ...(data.game && typeof data.game === 'object' ? data.game : {})
+    },
+    progress: {
+      currentLevel: data.currentLevel ?? 1,
+      currentScene: data.currentScene ?? null
+    },
+    ans: {
+      name: data.playerANSName ?? null,
+      address: data.playerAddress ?? null,
+      searches: Array.isArray(data.ansSearches) ? data.ansSearches : []
+    }
+  }),
+
+  // 1 -> 2: quiz progress records whether the quiz was passed and how often it was tried
+  data => {
+    const game = data.game as SaveData;
+    const quizProgress = (game.quizProgress ?? {}) as Record<string, SaveData>;
+
+    return {
+      ...data,
+      version: 2,
+      game: {
+        ...game,
+        quizProgress: Object.fromEntries(Object.entries(quizProgress).map(([moduleId, progress]) => [
+          moduleId,
+          {
+            ...progress,
+            passed: progress.passed ?? false,
+            attempts: progress.attempts ?? (progress.started ? 1 : 0)
+          }
+        ]))
+      }
+    };
+  },
+
+  // 2 -> 3: saves live in named slots; unslotted saves always end up in slot 1
+  data => ({
+    ...data,
+    version: 3,
+    slot: {
+      name: 'Save 1',
+      createdAt: typeof data.savedAt === 'number' ? data.savedAt : Date.now(),
+      playtime: 0
+    }
+  }),
+
+  // 3 -> 4: ANS names are registered on chain and only saved once confirmed
+  data => ({
+    ...data,
+    version: 4,
+    ans: {
+      ...(data.ans as SaveData),
+      pending: null
+    }
+  }),
+
+  // 4 -> 5: players can join a workshop cohort, and learner stats are kept for instructors
+  data => ({
+    ...data,
+    version: 5,
+    game: {
+      ...(data.game as SaveData),
+      cohort: '',
+      stats: { sceneTime: {}, dialogueRepeats: {}, questionMisses: {}, mint: null }
+    }
+  })
+];
+
+/**
+ * Check that a current-version document has every field with the right type
+ *
+ * @param data Parsed document
+ * @returns A list of problems, empty when the document is valid
+ */
+export function validateSaveDocument(data: unknown): string[] {
+  const errors: string[] = [];
+  const isObject = (value: unknown): value is SaveData => !!value && typeof value === 'object' && !Array.isArray(value);
+  const expect = (condition: boolean, message: string) => {
+    if (!condition) errors.push(message);
+  };
+
+  if (!isObject(data)) {
+    return ['Save must be an object'];
+  }
+
+  expect(data.version === SAVE_VERSION, `Save version must be ${SAVE_VERSION}`);
+  expect(typeof data.savedAt === 'number', 'savedAt must be a number');
+
+  const slot = data.slot;
+  expect(
+    isObject(slot)
+      && typeof slot.name === 'string'
+      && typeof slot.createdAt === 'number'
+      && typeof slot.playtime === 'number',
+    'slot is malformed'
+  );
+
+  const game = data.game;
+  if (!isObject(game)) {
+    errors.push('game must be an object');
+  } else {
+    expect(typeof game.score === 'number', 'game.score must be a number');
+    expect(typeof game.level === 'number', 'game.level must be a number');
+    expect(typeof game.playerName === 'string', 'game.playerName must be a string');
+    expect(typeof game.cohort === 'string', 'game.cohort must be a string');
+    expect(
+      Array.isArray(game.completedModules) && game.completedModules.every(id => typeof id === 'string'),
+      'game.completedModules must be a list of strings'
+    );
+
+    const wallet = game.wallet;
+    expect(
+      isObject(wallet)
+        && typeof wallet.connected === 'boolean'
+        && (wallet.address === null || typeof wallet.address === 'string')
+        && typeof wallet.balance === 'number',
+      'game.wallet is malformed'
+    );
+
+    if (!isObject(game.quizProgress)) {
+      errors.push('game.quizProgress must be an object');
+    } else {
+      Object.entries(game.quizProgress).forEach(([moduleId, progress]) => {
+        expect(
+          isObject(progress)
+            && typeof progress.started === 'boolean'
+            && typeof progress.completed === 'boolean'
+            && typeof progress.score === 'number'
+            && typeof progress.passed === 'boolean'
+            && typeof progress.attempts === 'number',
+          `game.quizProgress.${moduleId} is malformed`
+        );
+      });
+    }
+
+    const isCountMap = (value: unknown) => isObject(value) && Object.values(value).every(count => typeof count === 'number');
+    const stats = game.stats;
+    expect(
+      isObject(stats)
+        && isCountMap(stats.sceneTime)
+        && isCountMap(stats.dialogueRepeats)
+        && isCountMap(stats.questionMisses)
+        && (stats.mint === null
+          || (isObject(stats.mint)
+            && typeof stats.mint.status === 'string'
+            && typeof stats.mint.updatedAt === 'number')),
+      'game.stats is malformed'
+    );
+  }
+
+  const progress = data.progress;
+  expect(
+    isObject(progress)
+      && typeof progress.currentLevel === 'number'
+      && (progress.currentScene === null || typeof progress.currentScene === 'string'),
+    'progress is malformed'
+  );
+
+  const ans = data.ans;
+  expect(
+    isObject(ans)
+      && (ans.name === null || typeof ans.name === 'string')
+      && (ans.address === null || typeof ans.address === 'string')
+      && Array.isArray(ans.searches)
+      && ans.searches.every(search => isObject(search) && typeof search.name === 'string' && typeof search.address === 'string')
+      && (ans.pending === null
+        || (isObject(ans.pending)
+          && typeof ans.pending.name === 'string'
+          && typeof ans.pending.address === 'string'
+          && typeof ans.pending.requestId === 'string')),
+    'ans is malformed'
+  );
+
+  return errors;
+}
+
+/**
+ * Run the migrations a document still needs
+ *
+ * @throws If the document is newer than this build or a migration fails
+ */
+export function migrateSaveDocument(data: SaveData): SaveData {
+  const version = typeof data.version === 'number' ? data.version : 0;
+  if (version > SAVE_VERSION) {
+    throw new Error(`Save version ${version} is newer than supported version ${SAVE_VERSION}`);
+  }
+
+  let migrated = data;
+  for (let from = version; from < SAVE_VERSION; from++) {
+    migrated = MIGRATIONS[from](migrated);
+    console.log(`[SaveManager] Migrated save from version ${from} to ${from + 1}`);
+  }
+  return migrated;
+}
+
+/**
+ * Parse, migrate and validate a stored document
+ *
+ * @returns The document, or undefined with the reason logged when it is unusable
+ */
+function parseSaveDocument(raw: string, source: string): SaveDocument | undefined {
+  try {
+    const data = JSON.parse(raw) as unknown;
+    if (!data || typeof data !== 'object') {
+      throw new Error('Save is not an object');
+    }
+
+    const migrated = migrateSaveDocument(data as SaveData);
+    const errors = validateSaveDocument(migrated);
+    if (errors.length > 0) {
+      console.error(`[SaveManager] ${source} is invalid:`, errors);
+      return undefined;
+    }
+
+    return migrated as unknown as SaveDocument;
+  } catch (error) {
+    console.error(`[SaveManager] Could not read ${source}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Gather the loose keys written before the save document existed
+ *
+ * @returns A version 0 document, or undefined if nothing was ever saved
+ */
+function readLegacySave(): SaveData | undefined {
+  const read = (key: string) => localStorage.getItem(key);
+  const parse = (key: string) => {
+    const raw = read(key);
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch (error) {
+      console.error(`[SaveManager] Ignoring unreadable legacy key "${key}":`, error);
+      return undefined;
+    }
+  };
+
+  if (Object.values(LEGACY_KEYS).every(key => read(key) === null)) {
+    return undefined;
+  }
+
+  const savedLevel = parseInt(read(LEGACY_KEYS.CURRENT_LEVEL) ?? '', 10);
+  return {
+    version: 0,
+    game: parse(LEGACY_KEYS.GAME_STATE),
+    currentLevel: Number.isNaN(savedLevel) ? undefined : savedLevel,
+    currentScene: read(LEGACY_KEYS.CURRENT_SCENE) ?? undefined,
+    playerANSName: read(LEGACY_KEYS.ANS_NAME) ?? undefined,
+    playerAddress: read(LEGACY_KEYS.ANS_ADDRESS) ?? undefined,
+    ansSearches: parse(LEGACY_KEYS.ANS_SEARCHES)
+  };
+}
+
+// Storage keys of a slot's document, its backup and the last corrupted copy
+function getSlotKeys(slot: number) {
+  const save = `${SLOT_KEY_PREFIX}${slot}`;
+  return { save, backup: `${save}.backup`, corrupt: `${save}.corrupt` };
+}
+
+// Create an empty document for a player without any progress
+function createSaveDocument(slot: number, name: string = `Save ${slot}`): SaveDocument {
+  const now = Date.now();
+  return {
+    version: SAVE_VERSION,
+    savedAt: now,
+    slot: {
+      name,
+      createdAt: now,
+      playtime: 0
+    },
+    game: initialGameState,
+    progress: {
+      currentLevel: 1,
+      currentScene: null
+    },
+    ans: {
+      name: null,
+      address: null,
+      searches: [],
+      pending: null
+    }
+  };
+}
+
+/**
+ * Move progress saved before slots existed into slot 1
+ *
+ * The unslotted document is moved as is (loading migrates it), the loose
+ * legacy keys are collected into a new document first.
+ */
+function importUnslottedSave() {
+  const keys = getSlotKeys(1);
+  if (localStorage.getItem(keys.save) !== null) return;
+
+  const unslotted = localStorage.getItem(UNSLOTTED_SAVE_KEY);
+  if (unslotted !== null) {
+    localStorage.setItem(keys.save, unslotted);
+
+    const backup = localStorage.getItem(`${UNSLOTTED_SAVE_KEY}.backup`);
+    if (backup !== null) {
+      localStorage.setItem(keys.backup, backup);
+    }
+
+    [UNSLOTTED_SAVE_KEY, `${UNSLOTTED_SAVE_KEY}.backup`, `${UNSLOTTED_SAVE_KEY}.corrupt`]
+      .forEach(key => localStorage.removeItem(key));
+    console.log('[SaveManager] Moved the existing save into slot 1');
+    return;
+  }
+
+  const legacy = readLegacySave();
+  if (!legacy) return;
+
+  const save = parseSaveDocument(JSON.stringify(legacy), 'legacy save') ?? createSaveDocument(1);
+  if (writeSave(save, 1)) {
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+  }
+}
+
+/**
+ * Get the slot that reads and writes go to by default
+ */
+export function getActiveSlot(): number {
+  if (typeof window === 'undefined') {
+    return 1;
+  }
+
+  const slot = parseInt(localStorage.getItem(ACTIVE_SLOT_KEY) ?? '', 10);
+  return slot >= 1 && slot <= SAVE_SLOT_COUNT ? slot : 1;
+}
+
+/**
+ * Make a slot the one the game reads from and writes to
+ */
+export function setActiveSlot(slot: number): void {
+  if (typeof window === 'undefined' || slot < 1 || slot > SAVE_SLOT_COUNT) {
+    return;
+  }
+
+  localStorage.setItem(ACTIVE_SLOT_KEY, slot.toString());
+  console.log(`[SaveManager] Active save slot set to ${slot}`);
+}
+
+/**
+ * Whether anything has been saved in a slot
+ */
+export function hasSave(slot: number = getActiveSlot()): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+
+  if (slot === 1) {
+    importUnslottedSave();
+  }
+  return localStorage.getItem(getSlotKeys(slot).save) !== null;
+}
+
+/**
+ * Load the save document of a slot
+ *
+ * Falls back to the backup of the last good save and finally to an empty
+ * save. Whatever is recovered is written back so the next load does not
+ * have to repeat the work. Empty slots return a fresh document without
+ * writing it.
+ */
+export function loadSave(slot: number = getActiveSlot()): SaveDocument {
+  if (typeof window === 'undefined') {
+    return createSaveDocument(slot);
+  }
+
+  try {
+    if (slot === 1) {
+      importUnslottedSave();
+    }
+
+    const keys = getSlotKeys(slot);
+    const raw = localStorage.getItem(keys.save);
+    if (raw === null) {
+      return createSaveDocument(slot);
+    }
+
+    const save = parseSaveDocument(raw, `slot ${slot}`);
+    if (save) {
+      // Persist migrations right away so the backup is in the current format too
+      if (JSON.parse(raw).version !== SAVE_VERSION) {
+        writeSave(save, slot);
+      }
+      return save;
+    }
+
+    // Keep the broken save around for inspection, then fall back to the backup
+    localStorage.setItem(keys.corrupt, raw);
+
+    const backupRaw = localStorage.getItem(keys.backup);
+    const backup = backupRaw ? parseSaveDocument(backupRaw, `backup of slot ${slot}`) : undefined;
+    if (backup) {
+      console.warn(`[SaveManager] Slot ${slot} was corrupted, restored the last good save`);
+      localStorage.setItem(keys.save, JSON.stringify(backup));
+      return backup;
+    }
+
+    console.warn(`[SaveManager] Slot ${slot} was corrupted and no backup is available, starting fresh`);
+    localStorage.removeItem(keys.save);
+    return createSaveDocument(slot);
+  } catch (error) {
+    console.error('[SaveManager] Error loading save:', error);
+    return createSaveDocument(slot);
+  }
+}
+
+/**
+ * Write a complete save document, keeping the previous one as the backup
+ *
+ * @returns false if the document is invalid or storage is unavailable
+ */
+export function writeSave(save: SaveDocument, slot: number = getActiveSlot()): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+
+  const next: SaveDocument = { ...save, version: SAVE_VERSION, savedAt: Date.now() };
+  const errors = validateSaveDocument(next);
+  if (errors.length > 0) {
+    console.error('[SaveManager] Refusing to write an invalid save:', errors);
+    return false;
+  }
+
+  try {
+    const keys = getSlotKeys(slot);
+
+    // Only a save that still loads is worth keeping as the backup
+    const previous = localStorage.getItem(keys.save);
+    if (previous && validateSaveDocument(JSON.parse(previous)).length === 0) {
+      localStorage.setItem(keys.backup, previous);
+    }
+
+    localStorage.setItem(keys.save, JSON.stringify(next));
+    return true;
+  } catch (error) {
+    console.error('[SaveManager] Error writing save:', error);
+    return false;
+  }
+}
+
+/**
+ * Change part of the save document
+ *
+ * @param update Receives the current save and returns the new one
+ * @param slot Slot to change, defaults to the active one
+ */
+export function updateSave(update: (save: SaveDocument) => SaveDocument, slot: number = getActiveSlot()): boolean {
+  return writeSave(update(loadSave(slot)), slot);
+}
+
+// Get the game state stored in the save
+export function getSavedGameState(): GameState {
+  return loadSave().game;
+}
+
+// Store the game state managed by GameContext
+export function saveGameState(game: GameState): boolean {
+  return updateSave(save => ({ ...save, game }));
+}
+
+// Get the scene to return to after a reload
+export function getSavedScene(): string | null {
+  return loadSave().progress.currentScene;
+}
+
+// Remember the scene to return to after a reload, null to forget it
+export function setSavedScene(sceneKey: string | null): boolean {
+  return updateSave(save => ({ ...save, progress: { ...save.progress, currentScene: sceneKey } }));
+}
+
+// Get the player's ANS name, address and recent lookups
+export function getAnsProfile(): SaveDocument['ans'] {
+  return loadSave().ans;
+}
+
+// Update the player's ANS name, address, recent lookups or pending registration
+export function updateAnsProfile(ans: Partial<SaveDocument['ans']>): boolean {
+  return updateSave(save => ({ ...save, ans: { ...save.ans, ...ans } }));
+}
+
+// Track time spent playing in the active slot
+export function addPlaytime(milliseconds: number): boolean {
+  if (milliseconds <= 0 || !hasSave()) {
+    return false;
+  }
+  return updateSave(save => ({ ...save, slot: { ...save.slot, playtime: save.slot.playtime + milliseconds } }));
+}
+
+// What the start screen shows for a save slot
+export interface SaveSlotSummary {
+  slot: number;
+  /** False when nothing has been saved in the slot yet */
+  used: boolean;
+  name: string;
+  level: number;
+  score: number;
+  completedModules: number;
+  /** Total time played in milliseconds */
+  playtime: number;
+  /** Milliseconds since the epoch, null for empty slots */
+  lastPlayedAt: number | null;
+}
+
+/**
+ * Describe every save slot, empty ones included
+ */
+export function listSaveSlots(): SaveSlotSummary[] {
+  return Array.from({ length: SAVE_SLOT_COUNT }, (_, index) => {
+    const slot = index + 1;
+    const used = hasSave(slot);
+    const save = loadSave(slot);
+
+    return {
+      slot,
+      used,
+      name: save.slot.name,
+      level: save.game.level,
+      score: save.game.score,
+      completedModules: save.game.completedModules.length,
+      playtime: save.slot.playtime,
+      lastPlayedAt: used ? save.savedAt : null
+    };
+  });
+}
+
+/**
+ * Start a new save in a slot, replacing whatever was saved there
+ */
+export function createSaveSlot(slot: number, name: string): boolean {
+  deleteSaveSlot(slot);
+  return writeSave(createSaveDocument(slot, name.trim() || `Save ${slot}`), slot);
+}
+
+/**
+ * Rename a used save slot
+ */
+export function renameSaveSlot(slot: number, name: string): boolean {
+  const trimmed = name.trim();
+  if (!trimmed || !hasSave(slot)) {
+    return false;
+  }
+  return updateSave(save => ({ ...save, slot: { ...save.slot, name: trimmed } }), slot);
+}
+
+/**
+ * Remove a save slot together with its backup
+ */
+export function deleteSaveSlot(slot: number): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const keys = getSlotKeys(slot);
+  Object.values(keys).forEach(key => localStorage.removeItem(key));
+  console.log(`[SaveManager] Deleted save slot ${slot}`);
+}
+
+/**
+ * Copy a save slot into the first empty slot
+ *
+ * @returns The slot the copy was written to, or null if every slot is used
+ */
+export function duplicateSaveSlot(slot: number): number | null {
+  if (!hasSave(slot)) {
+    return null;
+  }
+
+  const target = listSaveSlots().find(summary => !summary.used)?.slot;
+  if (target === undefined) {
+    return null;
+  }
+
+  const save = loadSave(slot);
+  const copy: SaveDocument = {
+    ...save,
+    slot: { ...save.slot, name: `${save.slot.name} (copy)`, createdAt: Date.now() }
+  };
+  return writeSave(copy, target) ? target : null;
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import {
+  SaveDocument,
+  hasSave,
+  loadSave,
+  migrateSaveDocument,
+  validateSaveDocument,
+  writeSave,
+} from '@/lib/utils/saveManager';
+import { resetProgressSync } from '@/lib/utils/progressSync';
+
+/**
+ * Save transfer utility for Legend of Leo
+ *
+ * Moves a save slot between browsers, either as a downloadable `.leosave`
+ * JSON file or as a compact share code that can be pasted. Both wrap the
+ * save document in the same envelope. Imports are migrated and validated
+ * like any stored save, and can be compared against the slot they would
+ * overwrite before they are applied.
+ */
+
+// File extension of exported saves
+export const SAVE_FILE_EXTENSION = '.leosave';
+
+// Marks a JSON file as an exported save
+const SAVE_FILE_FORMAT = 'legend-of-leo-save';
+
+// Prefix of share codes, bump it if the encoding ever changes
+const SHARE_CODE_PREFIX = 'LEO1:';
+
+// Wrapper written around an exported save document
+export interface SaveFile {
+  format: typeof SAVE_FILE_FORMAT;
+  /** Milliseconds since the epoch */
+  exportedAt: number;
+  save: SaveDocument;
+}
+
+// Outcome of reading an imported file or share code
+export interface SaveImportResult {
+  /** The migrated document, only set when it is valid */
+  save?: SaveDocument;
+  /** Problems found, empty when the import can be applied */
+  errors: string[];
+}
+
+// One field that an import would change
+export interface SaveDiffEntry {
+  label: string;
+  current: string;
+  incoming: string;
+}
+
+/**
+ * Wrap the save of a slot for export
+ */
+function createSaveFile(slot: number): SaveFile {
+  return {
+    format: SAVE_FILE_FORMAT,
+    exportedAt: Date.now(),
+    save: loadSave(slot)
+  };
+}
+
+// Base64 helpers that keep non-ASCII slot and player names intact
+const encodeBase64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const decodeBase64 = (code: string) => {
+  const binary = atob(code);
+  const bytes = Uint8Array.from(binary, character => character.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Serialize the save of a slot as the contents of a `.leosave` file
+ */
+export function exportSaveFile(slot: number): string {
+  return JSON.stringify(createSaveFile(slot), null, 2);
+}
+
+/**
+ * Serialize the save of a slot as a share code
+ */
+export function exportShareCode(slot: number): string {
+  return SHARE_CODE_PREFIX + encodeBase64(JSON.stringify(createSaveFile(slot)));
+}
+
+/**
+ * Offer the save of a slot as a `.leosave` download
+ */
+export function downloadSaveFile(slot: number): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const name = loadSave(slot).slot.name.replace(/[^a-z0-9-_ ]/gi, '').trim() || `save-${slot}`;
+  const blob = new Blob([exportSaveFile(slot)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}${SAVE_FILE_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read an imported `.leosave` file or share code
+ *
+ * The save is migrated to the current version and validated, nothing is
+ * written until applySaveImport is called.
+ *
+ * @param input File contents or a share code
+ */
+export function parseSaveImport(input: string): SaveImportResult {
+  const text = input.trim();
+  if (!text) {
+    return { errors: ['Nothing to import'] };
+  }
+
+  let data: unknown;
+  try {
+    const json = text.startsWith(SHARE_CODE_PREFIX)
+      ? decodeBase64(text.slice(SHARE_CODE_PREFIX.length).replace(/\s+/g, ''))
+      : text;
+    data = JSON.parse(json);
+  } catch {
+    return { errors: ['This is not a save file or share code'] };
+  }
+
+  const file = data as Partial<SaveFile> | null;
+  if (!file || typeof file !== 'object' || file.format !== SAVE_FILE_FORMAT || !file.save || typeof file.save !== 'object') {
+    return { errors: ['This is not a Legend of Leo save'] };
+  }
+
+  try {
+    const migrated = migrateSaveDocument(file.save as unknown as Record<string, unknown>);
+    const errors = validateSaveDocument(migrated);
+    if (errors.length > 0) {
+      return { errors };
+    }
+    return { save: migrated as unknown as SaveDocument, errors: [] };
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : 'The save could not be upgraded'] };
+  }
+}
+
+/**
+ * List what applying an import would change in a slot
+ *
+ * @returns Changed fields, empty if the import matches the slot
+ */
+export function diffSaveImport(incoming: SaveDocument, slot: number): SaveDiffEntry[] {
+  const current = hasSave(slot) ? loadSave(slot) : undefined;
+
+  const describe = (save: SaveDocument) => {
+    const quizzes = Object.entries(save.game.quizProgress);
+    return [
+      { label: 'Save name', value: save.slot.name },
+      { label: 'Player name', value: save.game.playerName || '-' },
+      { label: 'Level', value: String(save.game.level) },
+      { label: 'Score', value: String(save.game.score) },
+      { label: 'Completed modules', value: save.game.completedModules.join(', ') || 'None' },
+      {
+        label: 'Quizzes passed',
+        value: quizzes.filter(([, progress]) => progress.passed).map(([moduleId]) => moduleId).join(', ') || 'None'
+      },
+      { label: 'Current scene', value: save.progress.currentScene ?? 'Main menu' },
+      { label: 'ANS name', value: save.ans.name ?? '-' },
+      { label: 'Playtime', value: `${Math.floor(save.slot.playtime / 60000)} min` },
+      { label: 'Last saved', value: new Date(save.savedAt).toLocaleString() }
+    ];
+  };
+
+  const incomingFields = describe(incoming);
+  if (!current) {
+    return incomingFields.map(field => ({ label: field.label, current: 'Empty slot', incoming: field.value }));
+  }
+
+  const currentFields = describe(current);
+  return incomingFields
+    .map((field, index) => ({ label: field.label, current: currentFields[index].value, incoming: field.value }))
+    .filter(entry => entry.current !== entry.incoming);
+}
+
+/**
+ * Write an imported save into a slot, replacing what was there
+ */
+export function applySaveImport(save: SaveDocument, slot: number): boolean {
+  const written = writeSave(save, slot);
+  if (written) {
+    resetProgressSync(slot, save.game);
+    console.log(`[SaveTransfer] Imported "${save.slot.name}" into slot ${slot}`);
+  }
+  return written;
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { DEFAULT_KEY_BINDINGS, KeyBindings, validateKeyBindings } from './keyBindings';
+
+/**
+ * Player settings for Legend of Leo
+ *
+ * Settings belong to the device rather than to a save slot, so they live in
+ * their own versioned document in localStorage. Each section is validated
+ * on its own: a broken section falls back to its defaults without losing
+ * the others. Listeners hear about every change, which lets running scenes
+ * apply new settings right away.
+ */
+
+// Current version of the settings document
+export const SETTINGS_VERSION = 1;
+
+// Storage key
+const SETTINGS_KEY = 'legendOfLeo.settings';
+
+// How fast dialogue text types out
+export const TEXT_SPEEDS = ['slow', 'normal', 'fast', 'instant'] as const;
+
+export type TextSpeed = typeof TEXT_SPEEDS[number];
+
+// Multiplies the typewriter delay of every dialogue, 0 shows the text at once
+export const TEXT_SPEED_FACTORS: Record<TextSpeed, number> = {
+  slow: 2,
+  normal: 1,
+  fast: 0.5,
+  instant: 0
+};
+
+/**
+ * Volumes from 0 to 1, music and sound effects are also scaled by master
+ */
+export interface AudioSettings {
+  master: number;
+  music: number;
+  sfx: number;
+}
+
+export interface Settings {
+  version: number;
+  audio: AudioSettings;
+  /** Keys bound to each action */
+  controls: KeyBindings;
+  textSpeed: TextSpeed;
+}
+
+type SettingsSection = Exclude<keyof Settings, 'version'>;
+
+type SettingsListener = (settings: Settings) => void;
+
+const listeners: SettingsListener[] = [];
+
+// Read once, then kept in memory
+let cached: Settings | undefined;
+
+function createSettings(): Settings {
+  return {
+    version: SETTINGS_VERSION,
+    audio: { master: 1, music: 0.8, sfx: 0.8 },
+    controls: DEFAULT_KEY_BINDINGS,
+    textSpeed: 'normal'
+  };
+}
+
+function validateAudioSettings(value: unknown): string[] {
+  if (!value || typeof value !== 'object') {
+    return ['Audio settings must be an object'];
+  }
+
+  const audio = value as Record<string, unknown>;
+  return (['master', 'music', 'sfx'] as const)
+    .filter(bus => {
+      const volume = audio[bus];
+      return typeof volume !== 'number' || volume < 0 || volume > 1;
+    })
+    .map(bus => `${bus} volume must be a number from 0 to 1`);
+}
+
+// Checks for each section, returning a list of problems
+const SECTION_VALIDATORS: Record<SettingsSection, (value: unknown) => string[]> = {
+  audio: validateAudioSettings,
+  controls: validateKeyBindings,
+  textSpeed: value => TEXT_SPEEDS.includes(value as TextSpeed) ? [] : ['Unknown text speed']
+};
+
+const SECTIONS = Object.keys(SECTION_VALIDATORS) as SettingsSection[];
+
+/**
+ * Read the stored settings, replacing missing or invalid sections with defaults
+ */
+function readSettings(): Settings {
+  const settings = createSettings();
+  if (typeof window === 'undefined') {
+    return settings;
+  }
+
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return settings;
+
+    const data = JSON.parse(raw) as Partial<Settings> | null;
+    if (!data || typeof data !== 'object') {
+      throw new Error('Settings are not an object');
+    }
+
+    // Sections added after the settings were stored keep their defaults
+    SECTIONS.filter(section => data[section] !== undefined).forEach(section => {
+      const errors = SECTION_VALIDATORS[section](data[section]);
+      if (errors.length === 0) {
+        Object.assign(settings, { [section]: data[section] });
+      } else {
+        console.warn(`[Settings] Ignoring invalid ${section} settings:`, errors);
+      }
+    });
+  } catch (error) {
+    console.error('[Settings] Could not read settings:', error);
+  }
+  return settings;
+}
+
+/**
+ * Get the current settings
+ */
+export function getSettings(): Settings {
+  if (!cached) {
+    cached = readSettings();
+  }
+  return cached;
+}
+
+/**
+ * Change some settings, store them and tell the listeners
+ *
+ * Settings are replaced, never changed in place, so pass new objects.
+ *
+ * @returns false if a section is invalid or storage is unavailable. Valid
+ * changes still apply for this session when they could not be stored.
+ */
+export function updateSettings(changes: Partial<Omit<Settings, 'version'>>): boolean {
+  const invalid = SECTIONS.find(section => {
+    if (changes[section] === undefined) return false;
+
+    const errors = SECTION_VALIDATORS[section](changes[section]);
+    if (errors.length > 0) {
+      console.error(`[Settings] Refusing invalid ${section} settings:`, errors);
+    }
+    return errors.length > 0;
+  });
+  if (invalid) {
+    return false;
+  }
+
+  cached = { ...getSettings(), ...changes, version: SETTINGS_VERSION };
+  listeners.forEach(listener => listener(cached as Settings));
+
+  if (typeof window === 'undefined') {
+    return false;
+  }
+
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(cached));
+    return true;
+  } catch (error) {
+    console.error('[Settings] Error writing settings:', error);
+    return false;
+  }
+}
+
+/**
+ * Listen for settings changes
+ * @returns Function removing the listener again
+ */
+export function subscribeSettings(listener: SettingsListener): () => void {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index >= 0) {
+      listeners.splice(index, 1);
+    }
+  };
+}
@@ -0,0 +1,43 @@
+'use client';
+
+/**
+ * This file provides a bridge between the Phaser scenes and the learner stats.
+ * Scenes report where the player spends time and gets stuck here, and
+ * GameContext adds it up in the game state's stats for the instructor dashboard.
+ */
+
+// Event names
+export const STATS_EVENTS = {
+  SCENE_TIME: 'stats-scene-time',
+  DIALOGUE_REPEATED: 'stats-dialogue-repeated',
+  QUESTION_MISSED: 'stats-question-missed'
+};
+
+// Interface for time played in a scene
+export interface SceneTimeData {
+  sceneKey: string;
+  milliseconds: number;
+}
+
+function dispatch(name: string, detail: unknown) {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(name, { detail }));
+  }
+}
+
+// Add time played in a scene
+export function reportSceneTime(sceneKey: string, milliseconds: number) {
+  if (milliseconds > 0) {
+    dispatch(STATS_EVENTS.SCENE_TIME, { sceneKey, milliseconds });
+  }
+}
+
+// Note that a dialogue node was shown again
+export function reportDialogueRepeat(treeId: string, nodeId: string) {
+  dispatch(STATS_EVENTS.DIALOGUE_REPEATED, { key: `${treeId}:${nodeId}` });
+}
+
+// Note a wrong answer to a quiz question
+export function reportQuestionMiss(quizId: string, questionId: string) {
+  dispatch(STATS_EVENTS.QUESTION_MISSED, { key: `${quizId}:${questionId}` });
+}